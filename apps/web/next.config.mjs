@@ -2,6 +2,7 @@
 const nextConfig = {
   experimental: {
     serverComponentsExternalPackages: ["@resvg/resvg-js"],
+    instrumentationHook: true,
   },
   eslint: {
     ignoreDuringBuilds: true,
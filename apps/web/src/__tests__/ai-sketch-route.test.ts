@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(),
+  checkAndIncrementQuota: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: mocks.requireAuth,
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: mocks.checkRateLimit,
+  getClientIp: mocks.getClientIp,
+}));
+
+vi.mock("@/lib/quota", () => ({
+  checkAndIncrementQuota: mocks.checkAndIncrementQuota,
+}));
+
+vi.mock("@/lib/ai-provider", () => import("../lib/ai-provider"));
+
+import { POST } from "../app/api/ai/sketch/route";
+
+function makeReq(body: Record<string, unknown>) {
+  return { headers: new Headers(), json: async () => body } as any;
+}
+
+const quotaInfo = { remaining: 9, limit: 10, resetAt: "2025-01-02T00:00:00.000Z" };
+const palette = ["#0a0a0f", "#ff6b35", "#00d4ff"];
+
+describe("/api/ai/sketch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("AI_PROVIDER", "mock");
+    mocks.requireAuth.mockResolvedValue("wallet-1");
+    mocks.getClientIp.mockReturnValue("127.0.0.1");
+    mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
+    mocks.checkAndIncrementQuota.mockResolvedValue({ quotaInfo });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns sandbox-checked code and a diff for edits", async () => {
+    const res = await POST(makeReq({ prompt: "tide pools", seed: 4, palette }));
+    const data = await res.json();
+    expect(res.status).toBe(200);
+    expect(data.code).toContain("ctx.arc(");
+    expect(data.diff).toBeUndefined();
+    expect(data.quota).toEqual(quotaInfo);
+    expect(mocks.checkAndIncrementQuota).toHaveBeenCalledWith("wallet-1", "ai_sketch");
+
+    const edit = await (await POST(makeReq({ prompt: "more circles", code: data.code, seed: 4, palette }))).json();
+    expect(edit.diff).toMatch(/^@@ -1,\d+ \+1,\d+ @@\n-\/\/ Mock sketch: tide pools\n/);
+  });
+
+  it("rejects invalid palettes", async () => {
+    const res = await POST(makeReq({ prompt: "tide pools", palette: ["red"] }));
+    expect(res.status).toBe(400);
+    expect(mocks.checkAndIncrementQuota).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readServerSentEvents } from "@artmint/common";
+
+const mocks = vi.hoisted(() => ({
+  requireAuth: vi.fn(),
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(),
+  checkAndIncrementQuota: vi.fn(),
+  refundQuota: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: mocks.requireAuth,
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: mocks.checkRateLimit,
+  getClientIp: mocks.getClientIp,
+}));
+
+vi.mock("@/lib/quota", () => ({
+  checkAndIncrementQuota: mocks.checkAndIncrementQuota,
+  refundQuota: mocks.refundQuota,
+}));
+
+vi.mock("@/lib/ai-provider", () => import("../lib/ai-provider"));
+
+import { POST } from "../app/api/ai/variations/route";
+
+function makeReq(body: Record<string, unknown>) {
+  return { headers: new Headers(), json: async () => body } as any;
+}
+
+const quotaInfo = { remaining: 9, limit: 10, resetAt: "2025-01-02T00:00:00.000Z" };
+
+describe("/api/ai/variations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("AI_PROVIDER", "mock");
+    mocks.requireAuth.mockResolvedValue("wallet-1");
+    mocks.getClientIp.mockReturnValue("127.0.0.1");
+    mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
+    mocks.checkAndIncrementQuota.mockResolvedValue({ quotaInfo });
+    mocks.refundQuota.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("generates variations offline with the mock provider", async () => {
+    const body = { prompt: "harbor lights", templateId: "jazz_noir", count: 4 };
+    const res = await POST(makeReq(body));
+    const data = await res.json();
+    expect(res.status).toBe(200);
+    expect(data.variations).toHaveLength(4);
+    expect(data.repairs).toHaveLength(4);
+    expect(data.variations.every((v: { templateId: string }) => v.templateId === "jazz_noir")).toBe(true);
+    expect(data.quota).toEqual(quotaInfo);
+
+    const again = await (await POST(makeReq(body))).json();
+    expect(again.variations).toEqual(data.variations);
+  });
+
+  it("reports a missing API key for real providers", async () => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.stubEnv("AI_API_KEY", "");
+    const res = await POST(makeReq({ prompt: "harbor lights" }));
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toBe("AI_API_KEY not configured");
+  });
+
+  it("requires a base URL for OpenAI-compatible servers", async () => {
+    vi.stubEnv("AI_PROVIDER", "openai-compatible");
+    vi.stubEnv("AI_MODEL", "llama3.1");
+    const res = await POST(makeReq({ prompt: "harbor lights" }));
+    expect((await res.json()).error).toBe("AI_BASE_URL not configured");
+  });
+
+  it("streams each variation as an event and charges quota once, up front", async () => {
+    const res = await POST(makeReq({ prompt: "harbor lights", count: 3, stream: true }));
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    expect(mocks.checkAndIncrementQuota).toHaveBeenCalledTimes(1);
+
+    const events = [];
+    for await (const event of readServerSentEvents(res.body!)) events.push(event);
+    expect(events.map((e) => e.event)).toEqual(["variation", "variation", "variation", "done"]);
+    expect(JSON.parse(events[3]!.data)).toEqual({ count: 3, quota: quotaInfo });
+    expect(mocks.checkAndIncrementQuota).toHaveBeenCalledTimes(1);
+    expect(mocks.refundQuota).not.toHaveBeenCalled();
+  });
+
+  it("refunds a stream cancelled before its first variation", async () => {
+    const res = await POST(makeReq({ prompt: "harbor lights", stream: true }));
+    await res.body!.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mocks.refundQuota).toHaveBeenCalledWith("wallet-1", "ai_variation", quotaInfo);
+  });
+
+  it("refuses to start a stream with no quota left", async () => {
+    mocks.checkAndIncrementQuota.mockResolvedValue({
+      error: Response.json({ code: "quota_exceeded" }, { status: 403 }),
+    });
+    const res = await POST(makeReq({ prompt: "harbor lights", stream: true }));
+    expect(res.status).toBe(403);
+    expect(res.headers.get("content-type")).not.toBe("text/event-stream");
+  });
+});
@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
-import { defaultFlowFieldsParams } from "@artmint/common";
+import { CANONICAL_INPUT_VERSION, defaultFlowFieldsParams } from "@artmint/common";
 
 const mocks = vi.hoisted(() => {
   return {
@@ -16,6 +16,9 @@ const mocks = vi.hoisted(() => {
     buildHtmlArtifact: vi.fn(),
     buildCustomSvgArtifact: vi.fn(),
     buildCustomCodeArtifact: vi.fn(),
+    renderCustomCodeSVG: vi.fn(),
+    rasterRender: vi.fn(),
+    rasterAnimate: vi.fn(),
   };
 });
 
@@ -41,13 +44,21 @@ vi.mock("@/lib/db", () => ({
   },
 }));
 
+vi.mock("@/lib/render-cache", () => ({
+  getRasterPool: () => ({ render: mocks.rasterRender, animate: mocks.rasterAnimate }),
+}));
+
 vi.mock("@artmint/render", () => ({
   RENDERER_VERSION: "test-renderer",
   generateSVG: mocks.generateSVG,
+  renderFrames: (_input: unknown, spec: { frameCount: number }) =>
+    Array.from({ length: spec.frameCount }, () => "<svg></svg>"),
   renderPNGFromSVG: mocks.renderPNGFromSVG,
   buildHtmlArtifact: mocks.buildHtmlArtifact,
   buildCustomSvgArtifact: mocks.buildCustomSvgArtifact,
   buildCustomCodeArtifact: mocks.buildCustomCodeArtifact,
+  renderCustomCodeSVG: mocks.renderCustomCodeSVG,
+  CustomCodeRenderError: class CustomCodeRenderError extends Error {},
 }));
 
 import { POST as mintPreparePost } from "../app/api/mint/route";
@@ -69,9 +80,12 @@ describe("mint preparation routes", () => {
     mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
     mocks.generateSVG.mockReturnValue("<svg></svg>");
     mocks.renderPNGFromSVG.mockReturnValue(Buffer.from("png-binary"));
+    mocks.rasterRender.mockResolvedValue(Buffer.from("png-binary"));
+    mocks.rasterAnimate.mockResolvedValue(Buffer.from("apng-binary"));
     mocks.buildHtmlArtifact.mockReturnValue("<html>artifact</html>");
     mocks.buildCustomSvgArtifact.mockReturnValue("<html>custom-svg</html>");
     mocks.buildCustomCodeArtifact.mockReturnValue("<html>custom-js</html>");
+    mocks.renderCustomCodeSVG.mockResolvedValue("<svg>custom-js</svg>");
     mocks.uploadFile.mockImplementation(async (_data: unknown, filename: string) => ({
       url: `https://storage.test/${filename}`,
     }));
@@ -107,6 +121,78 @@ describe("mint preparation routes", () => {
     expect(createArg.data.status).toBeUndefined(); // default in Prisma schema
   });
 
+  it("POST /api/mint records the effect chain in the canonical input and hash", async () => {
+    const body = {
+      templateId: "flow_fields",
+      seed: 12345,
+      palette: ["#111111", "#eeeeee"],
+      params: defaultFlowFieldsParams,
+      prompt: "manual",
+    };
+    const effects = [
+      { type: "duotone", shadow: "#1A0A2E", highlight: "#FF6B35" },
+      { type: "vignette", strength: 0.5, radius: 0.6 },
+    ];
+
+    const plain = await (await mintPreparePost(makeJsonReq(body))).json();
+    const empty = await (await mintPreparePost(makeJsonReq({ ...body, effects: [] }))).json();
+    const withEffects = await (await mintPreparePost(makeJsonReq({ ...body, effects }))).json();
+
+    expect(empty.hash).toBe(plain.hash);
+    expect(empty.canonicalInput.effects).toBeUndefined();
+    expect(withEffects.hash).not.toBe(plain.hash);
+    expect(withEffects.canonicalInput.effects).toEqual([
+      { type: "duotone", shadow: "#1a0a2e", highlight: "#ff6b35" },
+      effects[1],
+    ]);
+    expect(mocks.generateSVG).toHaveBeenLastCalledWith(
+      expect.objectContaining({ effects: withEffects.canonicalInput.effects })
+    );
+  });
+
+  it("POST /api/mint rasterises animation frames on the worker pool", async () => {
+    const res = await mintPreparePost(
+      makeJsonReq({
+        templateId: "flow_fields",
+        seed: 12345,
+        palette: ["#111111", "#eeeeee"],
+        params: defaultFlowFieldsParams,
+        prompt: "manual",
+        animation: { frameCount: 12, fps: 12 },
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect(mocks.rasterAnimate).toHaveBeenCalledWith(expect.any(Array), 12, 1080);
+    expect(mocks.rasterAnimate.mock.calls[0][0]).toHaveLength(12);
+    expect(mocks.uploadFile).toHaveBeenCalledWith(
+      Buffer.from("apng-binary"),
+      expect.stringMatching(/-animation\.png$/),
+      "image/png"
+    );
+    expect(mocks.buildHtmlArtifact).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/mint leaves default 1080x1080 dimensions out of the hash", async () => {
+    const body = {
+      templateId: "flow_fields",
+      seed: 12345,
+      palette: ["#111111", "#eeeeee"],
+      params: defaultFlowFieldsParams,
+      prompt: "manual",
+    };
+
+    const implicit = await (await mintPreparePost(makeJsonReq(body))).json();
+    const square = await (await mintPreparePost(makeJsonReq({ ...body, width: 1080, height: 1080 }))).json();
+    const portrait = await (await mintPreparePost(makeJsonReq({ ...body, width: 1080, height: 1350 }))).json();
+
+    expect(square.hash).toBe(implicit.hash);
+    expect(square.placeholderMintAddress).toBe(implicit.placeholderMintAddress);
+    expect(square.canonicalInput.width).toBeUndefined();
+    expect(portrait.hash).not.toBe(implicit.hash);
+    expect(portrait.canonicalInput).toMatchObject({ width: 1080, height: 1350 });
+  });
+
   it("POST /api/mint rejects invalid request bodies", async () => {
     const res = await mintPreparePost(
       makeJsonReq({
@@ -181,6 +267,7 @@ describe("mint preparation routes", () => {
 
     const createArg = mocks.mintCreate.mock.calls[0][0];
     const storedInput = JSON.parse(createArg.data.inputJson);
+    expect(storedInput).toMatchObject({ kind: "generative", version: CANONICAL_INPUT_VERSION });
     expect(storedInput.prompt).toBe("canonical prompt");
     expect(storedInput.palette).toEqual(["#abcdef", "#123456"]);
     expect(createArg.data.title).toBe("Canonical Title");
@@ -419,12 +506,56 @@ describe("mint preparation routes", () => {
     expect(mocks.mintCreate).not.toHaveBeenCalled();
   });
 
+  it("POST /api/mint/custom renders javascript mints server-side", async () => {
+    const res = await mintCustomPost(
+      makeJsonReq({
+        code: "ctx.fillRect(0, 0, WIDTH, HEIGHT);",
+        mode: "javascript",
+        seed: 42,
+        palette: ["#000000", "#ffffff"],
+      })
+    );
+
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.canonicalInput.params).toEqual({
+      code: "ctx.fillRect(0, 0, WIDTH, HEIGHT);",
+      mode: "javascript",
+    });
+    expect(mocks.renderCustomCodeSVG).toHaveBeenCalledWith({
+      code: "ctx.fillRect(0, 0, WIDTH, HEIGHT);",
+      seed: 42,
+      palette: ["#000000", "#ffffff"],
+    });
+    expect(mocks.renderPNGFromSVG).toHaveBeenCalledWith("<svg>custom-js</svg>");
+    expect(mocks.uploadFile.mock.calls[0][0]).toEqual(Buffer.from("png-binary"));
+  });
+
+  it("POST /api/mint/custom rejects javascript that fails to render", async () => {
+    const { CustomCodeRenderError } = await import("@artmint/render");
+    mocks.renderCustomCodeSVG.mockRejectedValueOnce(new CustomCodeRenderError("boom"));
+
+    const res = await mintCustomPost(
+      makeJsonReq({
+        code: "throw new Error('boom')",
+        mode: "javascript",
+        seed: 42,
+        palette: ["#000000", "#ffffff"],
+      })
+    );
+
+    expect(res.status).toBe(422);
+    const json = await res.json();
+    expect(json.error).toContain("boom");
+    expect(mocks.mintCreate).not.toHaveBeenCalled();
+  });
+
   it("POST /api/mint/custom rejects empty image captures", async () => {
     const tiny = Buffer.alloc(20, 1);
     const res = await mintCustomPost(
       makeJsonReq({
-        code: "console.log('hi')",
-        mode: "javascript",
+        code: "<svg xmlns='http://www.w3.org/2000/svg'></svg>",
+        mode: "svg",
         seed: 123,
         palette: ["#000000", "#ffffff"],
         pngBase64: `data:image/png;base64,${tiny.toString("base64")}`,
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultFlowFieldsParams, defaultJazzNoirParams } from "@artmint/common";
+
+const mocks = vi.hoisted(() => ({
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(),
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: mocks.checkRateLimit,
+  getClientIp: mocks.getClientIp,
+}));
+
+vi.mock("../lib/storage", () => ({ readFile: vi.fn(), uploadFile: vi.fn() }));
+
+vi.mock("@/lib/render-cache", () => import("../lib/render-cache"));
+
+import { POST } from "../app/api/morph/route";
+
+const a = {
+  templateId: "flow_fields",
+  seed: 3,
+  palette: ["#0a0a0f", "#ff6b35", "#00d4ff"],
+  params: { ...defaultFlowFieldsParams, density: 0.2, lineCount: 50, stepCount: 10 },
+};
+const b = {
+  templateId: "flow_fields",
+  seed: 8,
+  palette: ["#f5f0e8", "#7b2cbf", "#2a9d8f"],
+  params: { ...defaultFlowFieldsParams, density: 0.6, lineCount: 60, stepCount: 10 },
+};
+
+function makeReq(data: Record<string, unknown>) {
+  const body = { a, b, ...data };
+  return { headers: new Headers(), json: async () => body } as any;
+}
+
+describe("/api/morph", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getClientIp.mockReturnValue("127.0.0.1");
+    mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
+  });
+
+  it("returns the interpolated input without rendering", async () => {
+    const res = await POST(makeReq({ amount: 0.5 }));
+    const { input } = await res.json();
+    expect(res.status).toBe(200);
+    expect(input.params.density).toBeCloseTo(0.4);
+    expect(input.params.lineCount).toBe(55);
+    expect(input.seed).toBe(8);
+    expect(input.palette).toHaveLength(3);
+    expect(mocks.checkRateLimit).not.toHaveBeenCalled();
+  });
+
+  it("drops params the template doesn't know", async () => {
+    const res = await POST(makeReq({ a: { ...a, params: { ...a.params, junk: 1 } } }));
+    const { input } = await res.json();
+    expect(res.status).toBe(200);
+    expect(input.params).not.toHaveProperty("junk");
+  });
+
+  it("renders a looping animated SVG", async () => {
+    const res = await POST(makeReq({ format: "animated-svg", frameCount: 4, fps: 8 }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/svg+xml");
+    expect((await res.text()).match(/<animate /g)).toHaveLength(4);
+    expect(mocks.checkRateLimit).toHaveBeenCalledWith("morph:127.0.0.1", 20, 60_000);
+  }, 60_000);
+
+  it("rasterizes APNG frames on the raster pool", async () => {
+    const res = await POST(makeReq({ format: "apng", frameCount: 2, fps: 8, size: 64 }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(Buffer.from(await res.arrayBuffer()).includes("acTL")).toBe(true);
+  }, 60_000);
+
+  it("rejects ends from different templates", async () => {
+    const res = await POST(
+      makeReq({ b: { ...b, templateId: "jazz_noir", params: defaultJazzNoirParams } })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 429 when rate limited", async () => {
+    mocks.checkRateLimit.mockResolvedValue({ allowed: false, resetMs: 30_000 });
+    const res = await POST(makeReq({ format: "apng" }));
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("30");
+  });
+});
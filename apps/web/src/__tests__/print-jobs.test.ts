@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+
+const mocks = vi.hoisted(() => ({
+  findFirst: vi.fn(),
+  findUniqueOrThrow: vi.fn(),
+  update: vi.fn(),
+  updateMany: vi.fn(),
+  renderPrint: vi.fn(),
+  uploadFile: vi.fn(),
+}));
+
+vi.mock("../lib/db", () => ({
+  prisma: {
+    printJob: {
+      findFirst: mocks.findFirst,
+      findUniqueOrThrow: mocks.findUniqueOrThrow,
+      update: mocks.update,
+      updateMany: mocks.updateMany,
+    },
+  },
+}));
+
+vi.mock("../lib/storage", () => ({
+  uploadFile: mocks.uploadFile,
+}));
+
+vi.mock("@artmint/render", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@artmint/render")>()),
+  renderPrint: mocks.renderPrint,
+}));
+
+import { PRINT_JOB_MAX_ATTEMPTS, processPrintJobs, recoverStalePrintJobs } from "../lib/print-jobs";
+
+describe("print jobs", () => {
+  const inputJson = JSON.stringify({
+    rendererVersion: "1.1.0",
+    templateId: "flow_fields",
+    seed: 7,
+    palette: ["#000000", "#ffffff"],
+    params: defaultFlowFieldsParams,
+    prompt: "",
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+  const job = {
+    id: "job-1",
+    mintAddress: "Mint1",
+    format: "png",
+    resolution: "8K",
+    bleedMm: 3,
+    mint: { inputJson },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    mocks.updateMany.mockResolvedValue({ count: 1 });
+    mocks.update.mockResolvedValue({});
+    mocks.findFirst.mockReset().mockResolvedValueOnce({ id: "job-1", attempts: 0 }).mockResolvedValue(null);
+    mocks.findUniqueOrThrow.mockResolvedValue(job);
+    mocks.renderPrint.mockResolvedValue({ data: Buffer.from("png"), extension: "png", contentType: "image/png" });
+    mocks.uploadFile.mockResolvedValue({ url: "/uploads/print.png" });
+  });
+
+  it("fails stale renders that used their attempts and re-queues the rest", async () => {
+    mocks.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 2 });
+
+    expect(await recoverStalePrintJobs()).toBe(3);
+
+    const [failed, requeued] = mocks.updateMany.mock.calls.map(([args]) => args);
+    expect(failed.where).toMatchObject({ status: "rendering", attempts: { gte: PRINT_JOB_MAX_ATTEMPTS } });
+    expect(failed.data.status).toBe("failed");
+    expect(requeued.where).toMatchObject({ status: "rendering" });
+    expect(requeued.where.updatedAt.lt).toBeInstanceOf(Date);
+    expect(requeued.data).toEqual({ status: "queued" });
+  });
+
+  it("claims the longest-waiting queued job only while it is still queued", async () => {
+    expect(await processPrintJobs()).toBe(1);
+
+    expect(mocks.findFirst).toHaveBeenCalledWith(expect.objectContaining({ orderBy: { updatedAt: "asc" } }));
+    expect(mocks.updateMany).toHaveBeenCalledWith({
+      where: { id: "job-1", status: "queued" },
+      data: { status: "rendering", attempts: { increment: 1 } },
+    });
+    expect(mocks.update).toHaveBeenCalledWith({
+      where: { id: "job-1" },
+      data: { status: "ready", fileUrl: "/uploads/print.png", error: null },
+    });
+  });
+
+  it("runs custom code mints saved without a mode as JavaScript", async () => {
+    // /api/mint/custom stored JavaScript mints as bare { code }
+    const legacy = JSON.stringify({
+      rendererVersion: "1.0.0",
+      templateId: "custom_code",
+      seed: 7,
+      palette: ["#000000", "#ffffff"],
+      params: { code: "ctx.fillStyle = palette[1]; ctx.fillRect(0, 0, WIDTH, HEIGHT);" },
+      prompt: "custom_code",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    mocks.findUniqueOrThrow.mockResolvedValue({ ...job, mint: { inputJson: legacy } });
+
+    await processPrintJobs();
+
+    const [svg] = mocks.renderPrint.mock.calls[0]!;
+    expect(svg).toMatch(/^<svg/);
+    expect(svg).toContain("#ffffff");
+    expect(mocks.update).toHaveBeenLastCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: "ready" }) }));
+  });
+
+  it("re-queues a failed upload until its attempts run out", async () => {
+    mocks.uploadFile.mockRejectedValue(new Error("storage unavailable"));
+
+    await processPrintJobs();
+    expect(mocks.update).toHaveBeenLastCalledWith({
+      where: { id: "job-1" },
+      data: { status: "queued", error: "storage unavailable" },
+    });
+
+    mocks.findFirst.mockResolvedValueOnce({ id: "job-1", attempts: PRINT_JOB_MAX_ATTEMPTS - 1 });
+    await processPrintJobs();
+    expect(mocks.update).toHaveBeenLastCalledWith({
+      where: { id: "job-1" },
+      data: { status: "failed", error: "storage unavailable" },
+    });
+  });
+
+  it("fails a render error on the first attempt", async () => {
+    mocks.renderPrint.mockRejectedValue(new Error("SVG data parsing failed"));
+
+    await processPrintJobs();
+
+    expect(mocks.update).toHaveBeenLastCalledWith({
+      where: { id: "job-1" },
+      data: { status: "failed", error: "SVG data parsing failed" },
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+
+const mocks = vi.hoisted(() => {
+  class MockPublicKey {
+    value: string;
+
+    constructor(value: string) {
+      this.value = value;
+    }
+
+    toBase58() {
+      return this.value;
+    }
+  }
+
+  return {
+    MockPublicKey,
+    requireAuth: vi.fn(),
+    checkRateLimit: vi.fn(),
+    verifyTokenOwnership: vi.fn(),
+    processPrintJobs: vi.fn(),
+    recoverStalePrintJobs: vi.fn(),
+    mintFindUnique: vi.fn(),
+    printJobFindFirst: vi.fn(),
+    printJobFindUnique: vi.fn(),
+    printJobCreate: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/auth", () => ({
+  requireAuth: mocks.requireAuth,
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: mocks.checkRateLimit,
+}));
+
+vi.mock("@/lib/solana-token", () => ({
+  verifyTokenOwnership: mocks.verifyTokenOwnership,
+}));
+
+vi.mock("@/lib/print-jobs", () => ({
+  processPrintJobs: mocks.processPrintJobs,
+  recoverStalePrintJobs: mocks.recoverStalePrintJobs,
+  serializePrintJob: (job: Record<string, unknown>) => ({ id: job.id, status: job.status }),
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    mint: {
+      findUnique: mocks.mintFindUnique,
+    },
+    printJob: {
+      findFirst: mocks.printJobFindFirst,
+      findUnique: mocks.printJobFindUnique,
+      create: mocks.printJobCreate,
+    },
+  },
+}));
+
+vi.mock("@solana/web3.js", () => ({
+  PublicKey: mocks.MockPublicKey,
+}));
+
+import { POST as printPost } from "../app/api/print/route";
+import { GET as printJobGet } from "../app/api/print/[id]/route";
+
+function makeJsonReq(body: unknown, headers?: Record<string, string>) {
+  return {
+    headers: new Headers(headers),
+    json: async () => body,
+  } as any;
+}
+
+describe("print routes", () => {
+  const wallet = "Wallet111111111111111111111111111111111111111";
+  const mintAddress = "Mint11111111111111111111111111111111111111111";
+  const inputJson = JSON.stringify({
+    rendererVersion: "1.1.0",
+    templateId: "flow_fields",
+    seed: 7,
+    palette: ["#000000", "#ffffff"],
+    params: defaultFlowFieldsParams,
+    prompt: "",
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mocks.requireAuth.mockResolvedValue(wallet);
+    mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
+    mocks.verifyTokenOwnership.mockResolvedValue({ ownsToken: true });
+    mocks.mintFindUnique.mockResolvedValue({ mintAddress, status: "confirmed", inputJson });
+    mocks.printJobFindFirst.mockResolvedValue(null);
+    mocks.processPrintJobs.mockResolvedValue(0);
+    mocks.recoverStalePrintJobs.mockResolvedValue(0);
+    mocks.printJobCreate.mockImplementation(async ({ data }) => ({ id: "job-1", status: "queued", ...data }));
+  });
+
+  it("POST /api/print queues a job for the token owner", async () => {
+    const res = await printPost(makeJsonReq({ mintAddress, format: "tiff", resolution: "16K" }));
+
+    expect(res.status).toBe(202);
+    expect((await res.json()).job).toEqual({ id: "job-1", status: "queued" });
+    expect(mocks.printJobCreate).toHaveBeenCalledWith({
+      data: { mintAddress, wallet, format: "tiff", resolution: "16K", bleedMm: 3 },
+    });
+    expect(mocks.processPrintJobs).toHaveBeenCalled();
+  });
+
+  it("POST /api/print rejects wallets that do not hold the token", async () => {
+    mocks.verifyTokenOwnership.mockResolvedValue({ ownsToken: false });
+
+    const res = await printPost(makeJsonReq({ mintAddress, format: "png", resolution: "8K" }));
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).code).toBe("not_owner");
+    expect(mocks.printJobCreate).not.toHaveBeenCalled();
+    expect(mocks.processPrintJobs).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/print returns the existing job instead of rendering twice", async () => {
+    mocks.printJobFindFirst.mockResolvedValue({ id: "job-0", status: "rendering" });
+
+    const res = await printPost(makeJsonReq({ mintAddress, format: "png", resolution: "8K" }));
+
+    expect(res.status).toBe(202);
+    expect((await res.json()).job.id).toBe("job-0");
+    expect(mocks.printJobCreate).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/print recovers stale renders before looking for a job to reuse", async () => {
+    mocks.printJobFindFirst.mockResolvedValue({ id: "job-0", status: "queued" });
+
+    const res = await printPost(makeJsonReq({ mintAddress, format: "png", resolution: "8K" }));
+
+    expect(res.status).toBe(202);
+    expect(mocks.recoverStalePrintJobs.mock.invocationCallOrder[0]).toBeLessThan(
+      mocks.printJobFindFirst.mock.invocationCallOrder[0]
+    );
+    expect(mocks.processPrintJobs).toHaveBeenCalled();
+  });
+
+  it("GET /api/print/[id] hides other wallets' jobs", async () => {
+    mocks.printJobFindUnique.mockResolvedValue({ id: "job-1", status: "ready", wallet: "Other" });
+
+    const res = await printJobGet(makeJsonReq(undefined), { params: { id: "job-1" } });
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+
+const mocks = vi.hoisted(() => ({
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(),
+  readFile: vi.fn(),
+  uploadFile: vi.fn(),
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: mocks.checkRateLimit,
+  getClientIp: mocks.getClientIp,
+}));
+
+vi.mock("../lib/storage", () => ({
+  readFile: mocks.readFile,
+  uploadFile: mocks.uploadFile,
+}));
+
+// The real cache, over mocked storage
+vi.mock("@/lib/render-cache", () => import("../lib/render-cache"));
+
+import { GET } from "../app/api/render/route";
+
+function makeReq(data: Record<string, unknown>, headers?: Record<string, string>) {
+  const input = {
+    templateId: "flow_fields",
+    palette: ["#0A0A0F", "#ff6b35", "#00d4ff"],
+    params: defaultFlowFieldsParams,
+    ...data,
+  };
+  return {
+    headers: new Headers(headers),
+    nextUrl: new URL(
+      `http://localhost:3000/api/render?data=${encodeURIComponent(JSON.stringify(input))}`
+    ),
+  } as any;
+}
+
+describe("/api/render cache", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getClientIp.mockReturnValue("127.0.0.1");
+    mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
+    mocks.readFile.mockResolvedValue(null);
+    mocks.uploadFile.mockResolvedValue({ url: "https://storage.test/render" });
+  });
+
+  it("renders once, stores the result and serves repeats from memory", async () => {
+    const first = await GET(makeReq({ seed: 101 }));
+    const etag = first.headers.get("etag")!;
+    const body = await first.text();
+
+    expect(first.status).toBe(200);
+    expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+    expect(body).toContain("<svg");
+    expect(mocks.checkRateLimit).toHaveBeenCalledTimes(1);
+    expect(mocks.uploadFile).toHaveBeenCalledWith(
+      Buffer.from(body),
+      `render-${etag.slice(1, -1)}.svg`,
+      "image/svg+xml"
+    );
+
+    // Omitted dimensions are the 1080 default, so this is the same render
+    const repeat = await GET(makeReq({ seed: 101, width: 1080, height: 1080 }));
+    expect(repeat.headers.get("etag")).toBe(etag);
+    expect(await repeat.text()).toBe(body);
+    expect(mocks.checkRateLimit).toHaveBeenCalledTimes(1);
+    expect(mocks.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers a matching If-None-Match with 304 before touching the cache", async () => {
+    const first = await GET(makeReq({ seed: 102, format: "png", size: 200 }));
+    const etag = first.headers.get("etag")!;
+    vi.clearAllMocks();
+
+    const res = await GET(makeReq({ seed: 102, format: "png", size: 200 }, { "If-None-Match": `W/${etag}` }));
+
+    expect(res.status).toBe(304);
+    expect(res.headers.get("etag")).toBe(etag);
+    expect(mocks.checkRateLimit).not.toHaveBeenCalled();
+    expect(mocks.readFile).not.toHaveBeenCalled();
+  });
+
+  it("serves stored renders without rendering again", async () => {
+    const stored = Buffer.from("<svg>stored</svg>");
+    mocks.readFile.mockResolvedValue(stored);
+
+    const res = await GET(makeReq({ seed: 103 }));
+
+    expect(await res.text()).toBe("<svg>stored</svg>");
+    expect(mocks.readFile).toHaveBeenCalledWith(`render-${res.headers.get("etag")!.slice(1, -1)}.svg`);
+    expect(mocks.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it("ignores params the template doesn't know", async () => {
+    const clean = await GET(makeReq({ seed: 105 }));
+    const junk = await GET(makeReq({ seed: 105, params: { ...defaultFlowFieldsParams, junk: "x".repeat(64) } }));
+
+    expect(junk.status).toBe(200);
+    expect(junk.headers.get("etag")).toBe(clean.headers.get("etag"));
+    expect(mocks.uploadFile).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys PNGs by size", async () => {
+    const small = await GET(makeReq({ seed: 104, format: "png", size: 200 }));
+    const large = await GET(makeReq({ seed: 104, format: "png", size: 300 }));
+
+    expect(small.headers.get("content-type")).toBe("image/png");
+    expect(small.headers.get("etag")).not.toBe(large.headers.get("etag"));
+  });
+});
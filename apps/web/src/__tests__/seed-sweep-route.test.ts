@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+
+const mocks = vi.hoisted(() => ({
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(),
+}));
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: mocks.checkRateLimit,
+  getClientIp: mocks.getClientIp,
+}));
+
+vi.mock("../lib/storage", () => ({ readFile: vi.fn(), uploadFile: vi.fn() }));
+
+// Sweeps only borrow the cache's raster pool
+vi.mock("@/lib/render-cache", () => import("../lib/render-cache"));
+
+import { POST } from "../app/api/seed-sweep/route";
+
+function makeReq(data: Record<string, unknown>) {
+  const body = {
+    templateId: "flow_fields",
+    palette: ["#0A0A0F", "#ff6b35", "#00d4ff"],
+    params: defaultFlowFieldsParams,
+    thumbSize: 64,
+    count: 4,
+    start: 20,
+    ...data,
+  };
+  return { headers: new Headers(), json: async () => body } as any;
+}
+
+describe("/api/seed-sweep", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getClientIp.mockReturnValue("127.0.0.1");
+    mocks.checkRateLimit.mockResolvedValue({ allowed: true, resetMs: 0 });
+  });
+
+  it("lists thumbnails with statistics and filters on them", async () => {
+    const res = await POST(makeReq({}));
+    const { tiles, nextStart } = await res.json();
+    expect(res.status).toBe(200);
+    expect(nextStart).toBe(24);
+    expect(tiles.map((tile: { seed: number }) => tile.seed)).toEqual([20, 21, 22, 23]);
+    expect(tiles[0].thumbnail).toMatch(/^data:image\/png;base64,/);
+
+    const coverage = tiles[0].stats.coverage;
+    const filtered = await (await POST(makeReq({ filters: { coverage: [coverage, coverage] } }))).json();
+    expect(filtered.tiles.map((tile: { seed: number }) => tile.seed)).toContain(20);
+    expect(filtered.tiles.every((tile: { stats: { coverage: number } }) => tile.stats.coverage === coverage)).toBe(
+      true
+    );
+  }, 60_000);
+
+  it("returns a contact sheet PNG", async () => {
+    const res = await POST(makeReq({ format: "sheet" }));
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(res.headers.get("x-seeds")).toBe("20,21,22,23");
+    expect(Buffer.from(await res.arrayBuffer()).subarray(1, 4).toString()).toBe("PNG");
+  }, 60_000);
+
+  it("rejects oversized sweeps and inverted ranges", async () => {
+    expect((await POST(makeReq({ count: 65 }))).status).toBe(400);
+    expect((await POST(makeReq({ filters: { luminance: [0.8, 0.2] } }))).status).toBe(400);
+    expect(mocks.checkRateLimit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { flowFieldsParamsSchema, renderableTemplateIds } from "@artmint/common";
+import { GET } from "../app/api/templates/route";
+
+describe("/api/templates", () => {
+  it("publishes a params schema for every renderable template", async () => {
+    const res = await GET();
+    const { templates, variation } = await res.json();
+    expect(res.headers.get("cache-control")).toContain("public");
+    expect(templates.map((t: { id: string }) => t.id)).toEqual(renderableTemplateIds);
+    expect(variation.anyOf).toHaveLength(renderableTemplateIds.length);
+
+    const flow = templates.find((t: { id: string }) => t.id === "flow_fields");
+    expect(flow.paramsSchema.$schema).toMatch(/json-schema\.org/);
+    expect(flow.paramsSchema.properties.lineCount).toMatchObject({
+      type: "integer",
+      minimum: flowFieldsParamsSchema.shape.lineCount.minValue,
+      maximum: flowFieldsParamsSchema.shape.lineCount.maxValue,
+      title: "Line Count",
+    });
+  });
+});
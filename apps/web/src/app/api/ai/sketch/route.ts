@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { generateSketch, SketchValidationError, type SketchValidator } from "@artmint/ai";
+import { checkCustomCode } from "@artmint/render";
+import { customCodeParamsSchema, presets } from "@artmint/common";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+import { requireAuth } from "@/lib/auth";
+import { checkAndIncrementQuota } from "@/lib/quota";
+import { getAIProvider } from "@/lib/ai-provider";
+
+// Max request body size: room for the largest editable sketch plus the prompt
+const MAX_BODY_SIZE = 128 * 1024;
+
+const requestSchema = z.object({
+  /** What to draw, or for an edit, what to change */
+  prompt: z.string().min(1).max(500),
+  /** Current code to edit; absent for a new sketch */
+  code: customCodeParamsSchema.shape.code.optional(),
+  /** Seed and palette the generated code is test-rendered with */
+  seed: z.number().int().min(0).max(999999999).optional(),
+  palette: z.array(z.string().regex(/^#[0-9a-fA-F]{6}$/)).min(2).max(8).optional(),
+});
+
+const QUOTA_ACTION = "ai_sketch";
+
+export async function POST(req: NextRequest) {
+  try {
+    // 1. Authentication
+    const authResult = await requireAuth(req);
+    if (authResult instanceof NextResponse) return authResult;
+    const wallet = authResult;
+
+    // 2. IP rate limit, shared with the other AI routes: 20 req/min per IP
+    const clientIp = getClientIp(req);
+    const ipLimit = await checkRateLimit(`ai:ip:${clientIp}`, 20, 60_000);
+    if (!ipLimit.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again later.", code: "rate_limited" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(Math.ceil(ipLimit.resetMs / 1000)),
+            "X-RateLimit-Remaining": "0",
+          },
+        }
+      );
+    }
+
+    // 3. Per-user rate limit: 5 req/min per wallet
+    const userLimit = await checkRateLimit(`ai:wallet:${wallet}`, 5, 60_000);
+    if (!userLimit.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests. Please wait a moment.", code: "rate_limited" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(Math.ceil(userLimit.resetMs / 1000)),
+            "X-RateLimit-Remaining": "0",
+          },
+        }
+      );
+    }
+
+    // 4. Check body size
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
+      return NextResponse.json(
+        { error: "Request body too large" },
+        { status: 413 }
+      );
+    }
+
+    // 5. Parse and validate
+    const body = await req.json();
+    const parsed = requestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const ai = getAIProvider();
+    if ("error" in ai) {
+      return NextResponse.json({ error: ai.error }, { status: 500 });
+    }
+
+    // 6. Daily quota
+    const quotaResult = await checkAndIncrementQuota(wallet, QUOTA_ACTION);
+    if ("error" in quotaResult) return quotaResult.error;
+
+    // 7. Generate, test-rendering each attempt in the sandbox with the studio's seed and palette
+    const { prompt, code, seed = 1, palette = presets[0]!.defaultPalette } = parsed.data;
+    const validate: SketchValidator = async (candidate) => {
+      const check = await checkCustomCode({ code: candidate, seed, palette });
+      return check.ok ? null : check.error;
+    };
+
+    const result = await generateSketch(ai.provider, { prompt, code, signal: req.signal }, validate);
+
+    return NextResponse.json({
+      ...result,
+      quota: quotaResult.quotaInfo,
+    });
+  } catch (err) {
+    if (err instanceof SketchValidationError) {
+      return NextResponse.json(
+        { error: err.message, code: "sketch_validation_failed" },
+        { status: 422 }
+      );
+    }
+    console.error("AI sketch error:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Generation failed" }, { status: 500 });
+  }
+}
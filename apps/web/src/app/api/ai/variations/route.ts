@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { generateVariations } from "@artmint/ai";
-import { templateIds } from "@artmint/common";
+import { generateVariations, streamVariations, type AIProvider, type VariationRequest } from "@artmint/ai";
+import { formatServerSentEvent, templateIds } from "@artmint/common";
 import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
 
 export const dynamic = "force-dynamic";
 import { requireAuth } from "@/lib/auth";
-import { checkAndIncrementQuota } from "@/lib/quota";
+import { checkAndIncrementQuota, refundQuota, type QuotaInfo } from "@/lib/quota";
+import { getAIProvider } from "@/lib/ai-provider";
 
 // Max request body size: 10KB
 const MAX_BODY_SIZE = 10 * 1024;
@@ -17,8 +18,73 @@ const requestSchema = z.object({
   templateId: z.enum(templateIds).optional(),
   baseParams: z.record(z.unknown()).optional(),
   count: z.number().int().min(1).max(24).optional(),
+  /** Respond with Server-Sent Events, one per variation as it validates */
+  stream: z.boolean().optional(),
 });
 
+const QUOTA_ACTION = "ai_variation";
+
+/**
+ * Stream variations as `variation` events, then a `done` event with the
+ * updated quota, or an `error` event. The generation's quota is reserved
+ * before the stream starts, so parallel streams can't overrun it, and
+ * refunded if the stream ends before its first variation is delivered.
+ * Cancelling the response aborts the upstream AI call.
+ */
+function streamResponse(
+  req: NextRequest,
+  provider: AIProvider,
+  request: VariationRequest,
+  wallet: string,
+  quota: QuotaInfo
+): Response {
+  const upstream = new AbortController();
+  req.signal?.addEventListener("abort", () => upstream.abort());
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      let delivered = 0;
+      try {
+        for await (const { variation, repairs } of streamVariations(provider, { ...request, signal: upstream.signal })) {
+          send("variation", { index: delivered++, variation, repairs });
+        }
+        if (delivered > 0 && !upstream.signal.aborted) send("done", { count: delivered, quota });
+      } catch (err) {
+        // A client that went away has nobody left to tell
+        if (!upstream.signal.aborted) {
+          console.error("AI variation stream error:", err instanceof Error ? err.message : err);
+          send("error", { error: "Generation failed" });
+        }
+      } finally {
+        if (delivered === 0) {
+          await refundQuota(wallet, QUOTA_ACTION, quota).catch((err: unknown) =>
+            console.error("AI variation quota refund error:", err instanceof Error ? err.message : err)
+          );
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancel
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
 export async function POST(req: NextRequest) {
   try {
     // 1. Authentication
@@ -57,11 +123,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 4. Daily quota check + increment
-    const quotaResult = await checkAndIncrementQuota(wallet, "ai_variation");
-    if ("error" in quotaResult) return quotaResult.error;
-
-    // 5. Check body size
+    // 4. Check body size
     const contentLength = req.headers.get("content-length");
     if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
       return NextResponse.json(
@@ -70,7 +132,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 6. Parse and validate
+    // 5. Parse and validate
     const body = await req.json();
     const parsed = requestSchema.safeParse(body);
 
@@ -81,27 +143,22 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const provider = (process.env.AI_PROVIDER?.toLowerCase() ?? "anthropic") as "openai" | "anthropic" | "deepseek";
-    const apiKey = process.env.AI_API_KEY;
-    const model = process.env.AI_MODEL ?? "claude-sonnet-4-20250514";
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "AI_API_KEY not configured" },
-        { status: 500 }
-      );
+    const ai = getAIProvider();
+    if ("error" in ai) {
+      return NextResponse.json({ error: ai.error }, { status: 500 });
     }
 
-    const result = await generateVariations(
-      { provider, apiKey, model },
-      {
-        prompt: parsed.data.prompt,
-        preset: parsed.data.preset,
-        templateId: parsed.data.templateId,
-        baseParams: parsed.data.baseParams,
-        count: parsed.data.count ?? 12,
-      }
-    );
+    const { stream, ...fields } = parsed.data;
+    const request: VariationRequest = { ...fields, count: fields.count ?? 12 };
+
+    // 6. Daily quota, charged before generating; streams refund it if they
+    // end before delivering anything
+    const quotaResult = await checkAndIncrementQuota(wallet, QUOTA_ACTION);
+    if ("error" in quotaResult) return quotaResult.error;
+
+    if (stream) return streamResponse(req, ai.provider, request, wallet, quotaResult.quotaInfo);
+
+    const result = await generateVariations(ai.provider, request);
 
     return NextResponse.json({
       ...result,
@@ -1,9 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  buildRarityTable,
+  computeTraits,
+  parseCanonicalInputJson,
+  rarityScore,
+  type NftAttribute,
+} from "@artmint/common";
 import { prisma } from "@/lib/db";
 import { requireAuth } from "@/lib/auth";
+import { mintTypeOf, type MintType } from "@/lib/mint-type";
 
 export const dynamic = "force-dynamic";
 
+interface CollectionItemSummary {
+  mintAddress: string;
+  title: string | null;
+  imageUrl: string;
+  wallet: string;
+  createdAt: string;
+  type: MintType;
+  traits: NftAttribute[];
+}
+
 // GET /api/collections/[slug] - Get collection details
 export async function GET(
   req: NextRequest,
@@ -40,14 +58,14 @@ export async function GET(
       return NextResponse.json({ error: "Collection not found" }, { status: 404 });
     }
 
-    // Parse mint types
-    const items = collection.items.map((item) => {
-      let type: "ai" | "code" | "upload" = "ai";
-      try {
-        const input = JSON.parse(item.mint.inputJson);
-        if (input.kind === "upload" || input.original) type = "upload";
-        else if (input.mode === "svg" || input.mode === "javascript" || input.code) type = "code";
-      } catch {}
+    // Parse mint types; generative mints get traits recomputed from their canonical input
+    const parsedItems: CollectionItemSummary[] = collection.items.map((item) => {
+      const input = parseCanonicalInputJson(item.mint.inputJson);
+      // Same traits as the minted metadata, minus per-piece identifiers like seed and hash
+      const traits: NftAttribute[] =
+        input && input.kind !== "upload"
+          ? [{ trait_type: "Template", value: input.templateId }, ...computeTraits(input)]
+          : [];
 
       return {
         mintAddress: item.mint.mintAddress,
@@ -55,10 +73,17 @@ export async function GET(
         imageUrl: item.mint.imageUrl,
         wallet: item.mint.wallet,
         createdAt: item.mint.createdAt.toISOString(),
-        type,
+        type: mintTypeOf(input),
+        traits,
       };
     });
 
+    const rarity = buildRarityTable(parsedItems.filter((item) => item.traits.length > 0).map((item) => item.traits));
+    const items = parsedItems.map((item) => ({
+      ...item,
+      rarityScore: item.traits.length > 0 ? rarityScore(item.traits, rarity) : null,
+    }));
+
     return NextResponse.json({
       collection: {
         id: collection.id,
@@ -71,6 +96,7 @@ export async function GET(
         itemCount: collection._count.items,
         createdAt: collection.createdAt.toISOString(),
         items,
+        rarity,
       },
     });
   } catch (err) {
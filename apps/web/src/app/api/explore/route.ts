@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { parseCanonicalInputJson } from "@artmint/common";
 import { prisma } from "@/lib/db";
+import { mintTypeOf } from "@/lib/mint-type";
 
 export const dynamic = "force-dynamic";
 
@@ -54,21 +56,8 @@ export async function GET(req: NextRequest) {
     const hasMore = mints.length > limit;
     const items = hasMore ? mints.slice(0, limit) : mints;
 
-    // Determine type from inputJson
     let formattedItems = items.map((mint) => {
-      let type: "ai" | "code" | "upload" = "ai";
-      try {
-        const input = JSON.parse(mint.inputJson);
-        if (input.kind === "upload" || input.original) {
-          type = "upload";
-        } else if (input.mode === "svg" || input.mode === "javascript" || input.code) {
-          type = "code";
-        } else if (input.templateId || input.prompt) {
-          type = "ai";
-        }
-      } catch {
-        // Default to ai
-      }
+      const type = mintTypeOf(parseCanonicalInputJson(mint.inputJson));
 
       return {
         mintAddress: mint.mintAddress,
@@ -1,7 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { buildCustomCodeArtifact, buildCustomSvgArtifact, RENDERER_VERSION } from "@artmint/render";
-import { computeHash, stableStringify } from "@artmint/common";
+import {
+  buildCustomCodeArtifact,
+  buildCustomSvgArtifact,
+  renderCustomCodeSVG,
+  renderPNGFromSVG,
+  CustomCodeRenderError,
+  RENDERER_VERSION,
+} from "@artmint/render";
+import {
+  CANONICAL_INPUT_VERSION,
+  computeHash,
+  computeTraits,
+  parseCanonicalInputJson,
+  stableStringify,
+} from "@artmint/common";
 import { uploadFile } from "@/lib/storage";
 import { Prisma } from "@prisma/client";
 
@@ -46,12 +59,8 @@ async function buildDuplicatePendingMintResponse(
     );
   }
 
-  let canonicalInput = fallbackCanonicalInput;
-  try {
-    canonicalInput = JSON.parse(existing.inputJson);
-  } catch {
-    // Fall back to this request's canonical input.
-  }
+  // Rows stored before versioning come back upgraded; unreadable ones fall back to this request's input
+  const canonicalInput = parseCanonicalInputJson(existing.inputJson) ?? fallbackCanonicalInput;
 
   return NextResponse.json({
     success: true,
@@ -72,12 +81,22 @@ const customMintSchema = z.object({
   palette: z.array(hexColor).min(2).max(8),
   title: z.string().trim().max(200).optional(),
   description: z.string().trim().max(500).optional(),
+  // Browser capture, only used for SVG mode. JavaScript mode is rendered
+  // server-side from the code itself.
   pngBase64: z
     .string()
     .min(1)
     .max(10_000_000)
-    .regex(/^data:image\/(?:png|jpeg|jpg|webp);base64,[A-Za-z0-9+/=]+$/),
+    .regex(/^data:image\/(?:png|jpeg|jpg|webp);base64,[A-Za-z0-9+/=]+$/)
+    .optional(),
 }).superRefine((data, ctx) => {
+  if (data.mode === "svg" && !data.pngBase64) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["pngBase64"],
+      message: "SVG mints require an image capture",
+    });
+  }
   if (data.title && Buffer.byteLength(data.title, "utf8") > METAPLEX_NAME_MAX_BYTES) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
@@ -149,12 +168,15 @@ export async function POST(req: NextRequest) {
   const code = normalizeCodeForCanonicalization(parsed.data.code);
 
   try {
-    // Decode base64 image from client canvas capture (supports png and jpeg data URLs)
-    const pngData = pngBase64.replace(/^data:image\/[a-z]+;base64,/, "");
-    const pngBuffer = Buffer.from(pngData, "base64");
+    let pngBuffer: Buffer | undefined;
+    if (mode === "svg") {
+      // Decode base64 image from client canvas capture (supports png and jpeg data URLs)
+      const pngData = (pngBase64 ?? "").replace(/^data:image\/[a-z]+;base64,/, "");
+      pngBuffer = Buffer.from(pngData, "base64");
 
-    if (pngBuffer.length < 100) {
-      return NextResponse.json({ error: "Image capture appears empty — try again" }, { status: 400 });
+      if (pngBuffer.length < 100) {
+        return NextResponse.json({ error: "Image capture appears empty — try again" }, { status: 400 });
+      }
     }
 
     // Build canonical input
@@ -164,11 +186,17 @@ export async function POST(req: NextRequest) {
       templateId: "custom_code" as const,
       seed,
       palette,
-      params: { code },
+      params: mode === "javascript" ? { code, mode } : { code },
       prompt: "custom_code",
     };
     const hash = computeHash(deterministicInput);
-    const canonicalInput = { ...deterministicInput, createdAt };
+    // kind and version describe the stored record and stay out of the hash
+    const canonicalInput = {
+      kind: "custom_code" as const,
+      version: CANONICAL_INPUT_VERSION,
+      ...deterministicInput,
+      createdAt,
+    };
     const placeholderMintAddress = `pending-${hash.slice(0, 16)}`;
 
     const duplicateBeforeUpload = await buildDuplicatePendingMintResponse(
@@ -178,6 +206,22 @@ export async function POST(req: NextRequest) {
     );
     if (duplicateBeforeUpload) return duplicateBeforeUpload;
 
+    // Render JavaScript mints in the sandbox so the image is derived from the code
+    if (!pngBuffer) {
+      try {
+        const svg = await renderCustomCodeSVG({ code, seed, palette });
+        pngBuffer = renderPNGFromSVG(svg);
+      } catch (err) {
+        if (err instanceof CustomCodeRenderError) {
+          return NextResponse.json(
+            { error: `Custom code failed to render: ${err.message}`, code: "custom_code_render_failed" },
+            { status: 422 }
+          );
+        }
+        throw err;
+      }
+    }
+
     // Build HTML artifact
     let htmlArtifact: string;
     try {
@@ -214,6 +258,7 @@ export async function POST(req: NextRequest) {
       external_url: `${process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000"}/asset/pending`,
       attributes: [
         { trait_type: "Template", value: "custom_code" },
+        ...computeTraits(canonicalInput),
         { trait_type: "Seed", value: seed.toString() },
         { trait_type: "Renderer Version", value: RENDERER_VERSION },
         { trait_type: "Hash", value: hash },
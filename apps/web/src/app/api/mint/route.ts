@@ -1,8 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { generateSVG, renderPNGFromSVG, buildHtmlArtifact, RENDERER_VERSION } from "@artmint/render";
-import { computeHash, stableStringify, flowFieldsParamsSchema, jazzNoirParamsSchema } from "@artmint/common";
+import {
+  generateSVG,
+  renderFrames,
+  buildHtmlArtifact,
+  RENDERER_VERSION,
+} from "@artmint/render";
+import {
+  CANONICAL_INPUT_VERSION,
+  computeHash,
+  computeTraits,
+  parseCanonicalInputJson,
+  stableStringify,
+  svgTemplateIds,
+  getSvgTemplateParamsSchema,
+  canvasDimensionSchema,
+  resolveCanvasDimensions,
+  hashedCanvasDimensions,
+  animationSpecSchema,
+  effectChainSchema,
+  type SvgTemplateId,
+} from "@artmint/common";
 import { uploadFile } from "@/lib/storage";
+import { getRasterPool } from "@/lib/render-cache";
 import { Prisma } from "@prisma/client";
 
 export const dynamic = "force-dynamic";
@@ -14,14 +34,10 @@ const hexColor = z
   .string()
   .regex(/^#[0-9a-fA-F]{6}$/)
   .transform((value) => value.toLowerCase());
-const flowFieldsParamsStrictSchema = flowFieldsParamsSchema.strict();
-const jazzNoirParamsStrictSchema = jazzNoirParamsSchema.strict();
 const METAPLEX_NAME_MAX_BYTES = 32;
 
-function getTemplateParamsSchema(templateId: "flow_fields" | "jazz_noir") {
-  return templateId === "flow_fields"
-    ? flowFieldsParamsStrictSchema
-    : jazzNoirParamsStrictSchema;
+function getTemplateParamsSchema(templateId: SvgTemplateId) {
+  return getSvgTemplateParamsSchema(templateId).strict();
 }
 
 function normalizeOptionalText(value: string | undefined): string | undefined {
@@ -50,12 +66,8 @@ async function buildDuplicatePendingMintResponse(
     );
   }
 
-  let canonicalInput = fallbackCanonicalInput;
-  try {
-    canonicalInput = JSON.parse(existing.inputJson);
-  } catch {
-    // Fall back to the canonical input computed for this request.
-  }
+  // Rows stored before versioning come back upgraded; unreadable ones fall back to this request's input
+  const canonicalInput = parseCanonicalInputJson(existing.inputJson) ?? fallbackCanonicalInput;
 
   return NextResponse.json({
     success: true,
@@ -70,10 +82,14 @@ async function buildDuplicatePendingMintResponse(
 }
 
 const mintRequestSchema = z.object({
-  templateId: z.enum(["flow_fields", "jazz_noir"]),
+  templateId: z.enum(svgTemplateIds),
   seed: z.number().int().min(0).max(999999999),
   palette: z.array(hexColor).min(2).max(8),
   params: z.record(z.unknown()),
+  width: canvasDimensionSchema.optional(),
+  height: canvasDimensionSchema.optional(),
+  animation: animationSpecSchema.optional(),
+  effects: effectChainSchema.optional(),
   prompt: z.string().trim().min(1).max(500),
   title: z.string().trim().max(200).optional(),
 }).superRefine((data, ctx) => {
@@ -130,6 +146,17 @@ export async function POST(req: NextRequest) {
     const prompt = parsed.data.prompt;
     const title = normalizeOptionalText(parsed.data.title);
     const params = getTemplateParamsSchema(templateId).parse(parsed.data.params);
+    const { width, height } = resolveCanvasDimensions(parsed.data);
+    const animation = parsed.data.animation;
+    // An empty chain renders identically to none, so it must hash identically.
+    // Duotone colors are lowercased like the palette.
+    const effects = parsed.data.effects?.length
+      ? parsed.data.effects.map((effect) =>
+          effect.type === "duotone"
+            ? { ...effect, shadow: effect.shadow.toLowerCase(), highlight: effect.highlight.toLowerCase() }
+            : effect
+        )
+      : undefined;
 
     // 1. Build canonical input
     const createdAt = new Date().toISOString();
@@ -139,10 +166,19 @@ export async function POST(req: NextRequest) {
       seed,
       palette,
       params,
+      ...hashedCanvasDimensions({ width, height }),
+      ...(animation ? { animation } : {}),
+      ...(effects ? { effects } : {}),
       prompt,
     };
     const hash = computeHash(deterministicInput);
-    const canonicalInput = { ...deterministicInput, createdAt };
+    // kind and version describe the stored record and stay out of the hash
+    const canonicalInput = {
+      kind: "generative" as const,
+      version: CANONICAL_INPUT_VERSION,
+      ...deterministicInput,
+      createdAt,
+    };
     const placeholderMintAddress = `pending-${hash.slice(0, 16)}`;
 
     const duplicateBeforeUpload = await buildDuplicatePendingMintResponse(
@@ -152,17 +188,34 @@ export async function POST(req: NextRequest) {
     );
     if (duplicateBeforeUpload) return duplicateBeforeUpload;
 
-    // 2. Generate assets
-    const svg = generateSVG({ templateId, seed, palette, params });
-    const pngBuffer = renderPNGFromSVG(svg, 1080);
-    const htmlArtifact = buildHtmlArtifact(canonicalInput as Parameters<typeof buildHtmlArtifact>[0]);
-
-    // 3. Upload assets
+    // 2. Generate assets — animated mints ship an APNG loop as the
+    // animation instead of the interactive HTML artifact
     const fileId = `${templateId}-${seed}-${hash.slice(0, 8)}`;
+    const renderInput = { templateId, seed, palette, params, width, height, effects };
+    const longEdge = Math.max(width, height);
+    const svg = generateSVG(renderInput);
+    // Rasterise on the worker pool; up to 48 animation frames would otherwise block every other request
+    const pool = getRasterPool();
+    const [pngBuffer, apngBuffer] = await Promise.all([
+      pool.render(svg, longEdge),
+      animation ? pool.animate(renderFrames(renderInput, animation), animation.fps, longEdge) : null,
+    ]);
+    const animationAsset = apngBuffer
+      ? {
+          body: apngBuffer,
+          filename: `${fileId}-animation.png`,
+          contentType: "image/png",
+        }
+      : {
+          body: buildHtmlArtifact(canonicalInput as Parameters<typeof buildHtmlArtifact>[0]),
+          filename: `${fileId}.html`,
+          contentType: "text/html",
+        };
 
+    // 3. Upload assets
     const [imageResult, animationResult] = await Promise.all([
       uploadFile(pngBuffer, `${fileId}.png`, "image/png"),
-      uploadFile(htmlArtifact, `${fileId}.html`, "text/html"),
+      uploadFile(animationAsset.body, animationAsset.filename, animationAsset.contentType),
     ]);
 
     // 4. Build metadata JSON
@@ -175,6 +228,7 @@ export async function POST(req: NextRequest) {
       external_url: `${process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000"}/asset/pending`,
       attributes: [
         { trait_type: "Template", value: templateId },
+        ...computeTraits(canonicalInput),
         { trait_type: "Seed", value: seed.toString() },
         { trait_type: "Renderer Version", value: RENDERER_VERSION },
         { trait_type: "Hash", value: hash },
@@ -182,9 +236,9 @@ export async function POST(req: NextRequest) {
       properties: {
         files: [
           { uri: imageResult.url, type: "image/png" },
-          { uri: animationResult.url, type: "text/html" },
+          { uri: animationResult.url, type: animationAsset.contentType },
         ],
-        category: "html",
+        category: animation ? "image" : "html",
         canonicalInput: stableStringify(canonicalInput),
       },
     };
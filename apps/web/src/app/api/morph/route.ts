@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  renderableTemplateIds,
+  templateRegistry,
+  canvasDimensionSchema,
+  effectChainSchema,
+  animationSpecSchema,
+  defaultAnimationSpec,
+} from "@artmint/common";
+import {
+  buildAnimatedSVG,
+  generateSVG,
+  interpolateInputs,
+  renderMorphFrames,
+} from "@artmint/render";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { getRasterPool } from "@/lib/render-cache";
+
+export const dynamic = "force-dynamic";
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
+
+const endpointSchema = z.object({
+  templateId: z.enum(renderableTemplateIds),
+  seed: z.number().int().min(0).max(999999999),
+  palette: z.array(hexColor).min(2).max(8),
+  params: z.record(z.unknown()),
+  width: canvasDimensionSchema.optional(),
+  height: canvasDimensionSchema.optional(),
+  effects: effectChainSchema.optional(),
+});
+
+const morphSchema = z
+  .object({
+    a: endpointSchema,
+    b: endpointSchema,
+    amount: z.number().min(0).max(1).default(0.5),
+    seed: z.number().int().min(0).max(999999999).optional(),
+    format: z.enum(["input", "svg", "animated-svg", "apng"]).default("input"),
+    frameCount: animationSpecSchema.shape.frameCount.default(defaultAnimationSpec.frameCount),
+    fps: animationSpecSchema.shape.fps.default(defaultAnimationSpec.fps),
+    loop: z.boolean().default(true),
+    /** Long edge of APNG frames */
+    size: z.number().int().min(64).max(720).default(480),
+  })
+  .superRefine((data, ctx) => {
+    if (data.a.templateId !== data.b.templateId) {
+      ctx.addIssue({ code: "custom", path: ["b", "templateId"], message: "Both ends must use the same template" });
+      return;
+    }
+    for (const end of ["a", "b"] as const) {
+      const result = templateRegistry[data[end].templateId].paramsSchema.safeParse(data[end].params);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [end, "params", ...issue.path] });
+        }
+      }
+    }
+  });
+
+const SVG_HEADERS = {
+  "Content-Type": "image/svg+xml",
+  "Cache-Control": "no-store",
+  "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+  "X-Content-Type-Options": "nosniff",
+};
+
+/**
+ * Blend two variations of one template. `input` returns the interpolated
+ * variation at `amount`, for previewing and minting through the usual
+ * routes; `svg` renders it; `animated-svg` and `apng` render a morph from
+ * `a` to `b`, looping back to `a` unless `loop` is false.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength, 10) > 8192) {
+      return NextResponse.json({ error: "Request body too large" }, { status: 413 });
+    }
+
+    const parsed = morphSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid morph parameters" }, { status: 400 });
+    }
+    const { amount, seed, format, frameCount, fps, loop, size } = parsed.data;
+    // Blend the template's own params only; unknown keys are dropped
+    const [a, b] = [parsed.data.a, parsed.data.b].map((end) => ({
+      ...end,
+      params: templateRegistry[end.templateId].paramsSchema.parse(end.params),
+    }));
+
+    if (format === "input") {
+      return NextResponse.json({ input: interpolateInputs(a, b, amount, { seed }) });
+    }
+
+    // An animated morph costs up to MAX_ANIMATION_FRAMES renders
+    const rateLimit = await checkRateLimit(`morph:${getClientIp(req)}`, 20, 60_000);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429, headers: { "Retry-After": String(Math.ceil(rateLimit.resetMs / 1000)) } }
+      );
+    }
+
+    if (format === "svg") {
+      return new NextResponse(generateSVG(interpolateInputs(a, b, amount, { seed })), { headers: SVG_HEADERS });
+    }
+
+    const frames = renderMorphFrames(a, b, { frameCount }, { loop, seed });
+    if (format === "animated-svg") {
+      return new NextResponse(buildAnimatedSVG(frames, fps), { headers: SVG_HEADERS });
+    }
+    const apng = await getRasterPool().animate(frames, fps, size);
+    return new NextResponse(new Uint8Array(apng), {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (err) {
+    console.error("Morph error:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Morph failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  buildPlot,
+  buildPlotterSVG,
+  buildGCode,
+  buildHPGL,
+  defaultPlotterOptions,
+  RENDERER_VERSION,
+  paperSizes,
+  type PaperSizeName,
+  type PlotDocument,
+} from "@artmint/render";
+import { renderableTemplateIds, getTemplateDefinition, canvasDimensionSchema } from "@artmint/common";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
+
+const plotSchema = z.object({
+  rendererVersion: z.string().max(20).nullable().optional(),
+  templateId: z.enum(renderableTemplateIds),
+  seed: z.number().int().min(0).max(999999999),
+  palette: z.array(hexColor).min(2).max(8),
+  params: z.record(z.unknown()),
+  width: canvasDimensionSchema.optional(),
+  height: canvasDimensionSchema.optional(),
+  format: z.enum(["svg", "gcode", "hpgl"]).optional(),
+  paper: z.enum(Object.keys(paperSizes) as [PaperSizeName, ...PaperSizeName[]]).optional(),
+}).superRefine((data, ctx) => {
+  const template = getTemplateDefinition(data.templateId);
+  if (!template.plottable) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["templateId"],
+      message: `${data.templateId} has no line work to plot`,
+    });
+  }
+  const result = template.paramsSchema.safeParse(data.params);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+    }
+  }
+});
+
+const FORMATS: Record<"svg" | "gcode" | "hpgl", {
+  build: (plot: PlotDocument) => string;
+  extension: string;
+  contentType: string;
+}> = {
+  svg: { build: buildPlotterSVG, extension: "svg", contentType: "image/svg+xml" },
+  gcode: { build: (plot) => buildGCode(plot), extension: "gcode", contentType: "text/plain; charset=utf-8" },
+  hpgl: { build: buildHPGL, extension: "hpgl", contentType: "application/vnd.hp-hpgl" },
+};
+
+/** Plotter files for a render input: ?data=<json>, as with /api/render */
+export async function GET(req: NextRequest) {
+  try {
+    const clientIp = getClientIp(req);
+    const rateLimit = await checkRateLimit(`plot:${clientIp}`, 20, 60_000);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429, headers: { "Retry-After": String(Math.ceil(rateLimit.resetMs / 1000)) } }
+      );
+    }
+
+    const dataParam = req.nextUrl.searchParams.get("data");
+    if (!dataParam) {
+      return NextResponse.json({ error: "Missing data param" }, { status: 400 });
+    }
+    if (dataParam.length > 4096) {
+      return NextResponse.json({ error: "Data param too large" }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(decodeURIComponent(dataParam));
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON in data param" }, { status: 400 });
+    }
+    const parsed = plotSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid plot parameters", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { rendererVersion, templateId, seed, palette, params, width, height, format = "svg", paper = "A4" } =
+      parsed.data;
+    // Plots are laid out by the live templates, which would not match a
+    // mint drawn by an archived renderer
+    if ((rendererVersion ?? RENDERER_VERSION) !== RENDERER_VERSION) {
+      return NextResponse.json(
+        {
+          error: `Plotter export is only available for renderer ${RENDERER_VERSION}; this input uses ${rendererVersion}`,
+          code: "unsupported_renderer_version",
+        },
+        { status: 400 }
+      );
+    }
+    const plot = buildPlot(
+      { templateId, seed, palette, params, width, height },
+      { ...defaultPlotterOptions, paper: paperSizes[paper] }
+    );
+    const { build, extension, contentType } = FORMATS[format];
+
+    return new NextResponse(build(plot), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="artmint-${templateId}-${seed}-${paper}.${extension}"`,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (err) {
+    console.error("Plot GET error:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Plot failed" }, { status: 500 });
+  }
+}
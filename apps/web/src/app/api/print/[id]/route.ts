@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { serializePrintJob } from "@/lib/print-jobs";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/print/[id] - Poll a print job; only the requesting wallet can see it
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await requireAuth(req);
+    if (authResult instanceof NextResponse) return authResult;
+    const wallet = authResult;
+
+    const job = await prisma.printJob.findUnique({ where: { id: params.id } });
+    if (!job || job.wallet !== wallet) {
+      return NextResponse.json({ error: "Print job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job: serializePrintJob(job) });
+  } catch (err) {
+    console.error("Print GET error:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Failed to fetch print job" }, { status: 500 });
+  }
+}
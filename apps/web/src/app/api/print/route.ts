@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { printResolutions, type PrintResolution } from "@artmint/render";
+import { parseCanonicalInputJson } from "@artmint/common";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { verifyTokenOwnership } from "@/lib/solana-token";
+import { processPrintJobs, recoverStalePrintJobs, serializePrintJob } from "@/lib/print-jobs";
+
+export const dynamic = "force-dynamic";
+
+// Max request body size: 1KB
+const MAX_BODY_SIZE = 1 * 1024;
+
+const printRequestSchema = z.object({
+  mintAddress: z.string().min(32).max(50),
+  format: z.enum(["png", "tiff", "pdf"]),
+  resolution: z.enum(Object.keys(printResolutions) as [PrintResolution, ...PrintResolution[]]),
+  bleedMm: z.number().min(0).max(10).default(3),
+});
+
+/**
+ * POST /api/print
+ *
+ * Queues a print-resolution render of a mint for its current owner.
+ *
+ * Flow:
+ * 1. Validates authentication and rate limits
+ * 2. Verifies the mint is confirmed and has a generative source
+ * 3. Verifies the caller owns the NFT on-chain
+ * 4. Reuses a matching job, or queues a new one
+ * 5. Starts draining the print queue in the background
+ *
+ * Returns 202 with the job; poll /api/print/[id] until it is ready.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await requireAuth(req);
+    if (authResult instanceof NextResponse) return authResult;
+    const wallet = authResult;
+
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength, 10) > MAX_BODY_SIZE) {
+      return NextResponse.json({ error: "Request body too large" }, { status: 413 });
+    }
+
+    const parsed = printRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+    const { mintAddress, format, resolution, bleedMm } = parsed.data;
+
+    const mint = await prisma.mint.findUnique({ where: { mintAddress } });
+    if (!mint) {
+      return NextResponse.json({ error: "Mint not found" }, { status: 404 });
+    }
+    if (mint.status !== "confirmed") {
+      return NextResponse.json(
+        { error: "NFT mint is not yet confirmed on-chain" },
+        { status: 400 }
+      );
+    }
+
+    const input = parseCanonicalInputJson(mint.inputJson);
+    if (!input || input.kind === "upload") {
+      return NextResponse.json(
+        { error: "This mint has no generative source to render for print", code: "not_renderable" },
+        { status: 400 }
+      );
+    }
+
+    const ownership = await verifyTokenOwnership(new PublicKey(wallet), new PublicKey(mintAddress));
+    if (!ownership.ownsToken) {
+      return NextResponse.json(
+        { error: ownership.error || "Wallet does not own this NFT", code: "not_owner" },
+        { status: 403 }
+      );
+    }
+
+    // Same file already rendered or on its way: hand back that job. Renders
+    // abandoned by a dead worker are re-queued (or failed) first, so a stuck
+    // job is never handed back forever
+    await recoverStalePrintJobs();
+    const existing = await prisma.printJob.findFirst({
+      where: { mintAddress, wallet, format, resolution, bleedMm, status: { not: "failed" } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (existing) {
+      if (existing.status === "queued") void processPrintJobs();
+      return NextResponse.json(
+        { job: serializePrintJob(existing) },
+        { status: existing.status === "ready" ? 200 : 202 }
+      );
+    }
+
+    const rateLimit = await checkRateLimit(`print:wallet:${wallet}`, 5, 60 * 60_000);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Too many print requests. Try again later.", code: "rate_limited" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(Math.ceil(rateLimit.resetMs / 1000)) },
+        }
+      );
+    }
+
+    const job = await prisma.printJob.create({
+      data: { mintAddress, wallet, format, resolution, bleedMm },
+    });
+    // The job is durable; if this instance goes away mid-render, the cron
+    // worker or the next instance to start picks it up
+    void processPrintJobs();
+
+    return NextResponse.json({ job: serializePrintJob(job) }, { status: 202 });
+  } catch (err) {
+    console.error("Print POST error:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Failed to queue print" }, { status: 500 });
+  }
+}
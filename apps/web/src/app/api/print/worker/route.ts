@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processPrintJobs } from "@/lib/print-jobs";
+
+export const dynamic = "force-dynamic";
+
+// Print renders take minutes; give the drain as long as the platform allows
+export const maxDuration = 300;
+
+// GET /api/print/worker - Cron entry point: recover abandoned print jobs and render the queue
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rendered = await processPrintJobs();
+  return NextResponse.json({ rendered });
+}
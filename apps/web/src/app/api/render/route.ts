@@ -1,24 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { generateSVG, renderPNGFromSVG } from "@artmint/render";
-import { renderableTemplateIds, flowFieldsParamsSchema, jazzNoirParamsSchema } from "@artmint/common";
+import {
+  svgTemplateIds,
+  getSvgTemplateParamsSchema,
+  canvasDimensionSchema,
+  effectChainSchema,
+} from "@artmint/common";
 import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { cachedRender, renderCacheKey, renderToCache } from "@/lib/render-cache";
 
 export const dynamic = "force-dynamic";
 
 const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
 
 const renderSchema = z.object({
-  templateId: z.enum(renderableTemplateIds),
+  templateId: z.enum(svgTemplateIds),
   seed: z.number().int().min(0).max(999999999),
   palette: z.array(hexColor).min(2).max(8),
   params: z.record(z.unknown()),
+  width: canvasDimensionSchema.optional(),
+  height: canvasDimensionSchema.optional(),
+  effects: effectChainSchema.optional(),
   format: z.enum(["svg", "png"]).optional(),
   size: z.number().int().min(100).max(2160).optional(),
 }).superRefine((data, ctx) => {
   // Validate params against the specific template schema
-  const schema = data.templateId === "flow_fields" ? flowFieldsParamsSchema : jazzNoirParamsSchema;
-  const result = schema.safeParse(data.params);
+  const result = getSvgTemplateParamsSchema(data.templateId).safeParse(data.params);
   if (!result.success) {
     for (const issue of result.error.issues) {
       ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
@@ -52,11 +59,46 @@ async function applyRateLimit(req: NextRequest): Promise<NextResponse | null> {
   return null;
 }
 
-export async function GET(req: NextRequest) {
-  try {
+/** Whether an If-None-Match header lists the given ETag (weak or strong) */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * Serve a validated render from the content-addressed cache.
+ * Revalidations and in-memory hits skip the rate limit, so repeated previews
+ * of the same input stay free.
+ */
+async function respondWithRender(req: NextRequest, data: z.infer<typeof renderSchema>) {
+  const { format = "svg", size = 1080, ...input } = data;
+  // Key and render from the template's own params only, so unknown keys
+  // can't mint new cache entries for the same image
+  const params = getSvgTemplateParamsSchema(input.templateId).parse(input.params);
+  const renderRequest = { ...input, params, format, size };
+  const key = renderCacheKey(renderRequest);
+  const etag = `"${key}"`;
+  const headers = { ...(format === "png" ? PNG_HEADERS : SVG_HEADERS), ETag: etag };
+
+  if (matchesETag(req.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  let body = cachedRender(key);
+  if (!body) {
     const rateLimitResponse = await applyRateLimit(req);
     if (rateLimitResponse) return rateLimitResponse;
+    body = await renderToCache(key, renderRequest);
+  }
 
+  return new NextResponse(new Uint8Array(body), { headers });
+}
+
+export async function GET(req: NextRequest) {
+  try {
     const dataParam = req.nextUrl.searchParams.get("data");
     if (!dataParam) {
       return NextResponse.json({ error: "Missing data param" }, { status: 400 });
@@ -81,15 +123,7 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const { templateId, seed, palette, params, format = "svg", size = 1080 } = parsed.data;
-    const svg = generateSVG({ templateId, seed, palette, params });
-
-    if (format === "png") {
-      const png = renderPNGFromSVG(svg, size);
-      return new NextResponse(new Uint8Array(png), { headers: PNG_HEADERS });
-    }
-
-    return new NextResponse(svg, { headers: SVG_HEADERS });
+    return await respondWithRender(req, parsed.data);
   } catch (err) {
     console.error("Render GET error:", err instanceof Error ? err.message : err);
     return NextResponse.json({ error: "Render failed" }, { status: 500 });
@@ -98,9 +132,6 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    const rateLimitResponse = await applyRateLimit(req);
-    if (rateLimitResponse) return rateLimitResponse;
-
     // Body size check — reject before parsing if Content-Length exceeds 4KB
     const contentLength = req.headers.get("content-length");
     if (contentLength && parseInt(contentLength, 10) > 4096) {
@@ -117,15 +148,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { templateId, seed, palette, params, format = "svg", size = 1080 } = parsed.data;
-    const svg = generateSVG({ templateId, seed, palette, params });
-
-    if (format === "png") {
-      const png = renderPNGFromSVG(svg, size);
-      return new NextResponse(new Uint8Array(png), { headers: PNG_HEADERS });
-    }
-
-    return new NextResponse(svg, { headers: SVG_HEADERS });
+    return await respondWithRender(req, parsed.data);
   } catch (err) {
     console.error("Render POST error:", err instanceof Error ? err.message : err);
     return NextResponse.json({ error: "Render failed" }, { status: 500 });
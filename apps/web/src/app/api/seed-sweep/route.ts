@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  svgTemplateIds,
+  getSvgTemplateParamsSchema,
+  canvasDimensionSchema,
+  effectChainSchema,
+} from "@artmint/common";
+import { buildContactSheet, sweepSeeds } from "@artmint/render";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import { getRasterPool } from "@/lib/render-cache";
+
+export const dynamic = "force-dynamic";
+
+/** Seeds per request; larger sweeps page through `start` */
+const MAX_SWEEP_SEEDS = 64;
+const MAX_SEED = 999999999;
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
+
+const statRange = z
+  .tuple([z.number(), z.number()])
+  .refine(([min, max]) => min <= max, "Range minimum exceeds maximum");
+
+const sweepSchema = z
+  .object({
+    templateId: z.enum(svgTemplateIds),
+    palette: z.array(hexColor).min(2).max(8),
+    params: z.record(z.unknown()),
+    width: canvasDimensionSchema.optional(),
+    height: canvasDimensionSchema.optional(),
+    effects: effectChainSchema.optional(),
+    start: z.number().int().min(0).max(MAX_SEED).default(0),
+    count: z.number().int().min(1).max(MAX_SWEEP_SEEDS).default(24),
+    thumbSize: z.number().int().min(64).max(320).default(160),
+    filters: z
+      .object({ coverage: statRange, luminance: statRange, warmth: statRange, tint: statRange })
+      .partial()
+      .default({}),
+    format: z.enum(["list", "sheet"]).default("list"),
+    columns: z.number().int().min(1).max(12).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.start + data.count - 1 > MAX_SEED) {
+      ctx.addIssue({ code: "custom", path: ["count"], message: "Sweep runs past the largest seed" });
+    }
+    const result = getSvgTemplateParamsSchema(data.templateId).safeParse(data.params);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+      }
+    }
+  });
+
+/**
+ * Render a page of consecutive seeds for one template, palette and params,
+ * keeping seeds whose image statistics fall inside the filters. Returns
+ * thumbnails with their statistics as JSON, or a contact-sheet PNG.
+ * `nextStart` is the first seed of the following page.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const contentLength = req.headers.get("content-length");
+    if (contentLength && parseInt(contentLength, 10) > 4096) {
+      return NextResponse.json({ error: "Request body too large" }, { status: 413 });
+    }
+
+    const parsed = sweepSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid sweep parameters" }, { status: 400 });
+    }
+
+    // A sweep costs up to MAX_SWEEP_SEEDS renders
+    const rateLimit = await checkRateLimit(`seed-sweep:${getClientIp(req)}`, 10, 60_000);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429, headers: { "Retry-After": String(Math.ceil(rateLimit.resetMs / 1000)) } }
+      );
+    }
+
+    const { start, count, thumbSize, filters, format, columns, ...input } = parsed.data;
+    // Render from the template's own params only; unknown keys are dropped
+    input.params = getSvgTemplateParamsSchema(input.templateId).parse(input.params);
+    const pool = getRasterPool();
+    const tiles = await sweepSeeds(input, { start, count, thumbSize, filters }, pool);
+    const nextStart = start + count;
+
+    if (format === "list") {
+      return NextResponse.json({
+        tiles: tiles.map(({ seed, stats, png }) => ({
+          seed,
+          stats,
+          thumbnail: `data:image/png;base64,${png.toString("base64")}`,
+        })),
+        nextStart,
+      });
+    }
+
+    if (tiles.length === 0) {
+      return NextResponse.json({ error: "No seeds matched the filters", nextStart }, { status: 404 });
+    }
+    const sheet = buildContactSheet(tiles, { columns });
+    const png = await pool.render(sheet.svg, Math.max(sheet.width, sheet.height));
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "no-store",
+        "X-Content-Type-Options": "nosniff",
+        "X-Seeds": tiles.map((tile) => tile.seed).join(","),
+        "X-Next-Start": String(nextStart),
+      },
+    });
+  } catch (err) {
+    console.error("Seed sweep error:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Seed sweep failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import {
+  JSON_SCHEMA_DIALECT,
+  renderableTemplateIds,
+  templateParamsJsonSchema,
+  templateRegistry,
+  variationJsonSchema,
+} from "@artmint/common";
+
+/**
+ * GET /api/templates
+ *
+ * Public catalog of server-renderable templates for third-party tooling.
+ * Each template carries its params as JSON Schema, generated from the same
+ * zod schemas the render and mint routes validate against; `variation` is
+ * the schema of a whole variation (template, seed, palette, params and
+ * captions), the shape the AI providers are asked for.
+ *
+ * The catalog only changes on deploy, so it is cached publicly.
+ */
+export async function GET() {
+  const templates = renderableTemplateIds.map((id) => {
+    const { label, description, plottable, defaultParams } = templateRegistry[id];
+    return {
+      id,
+      label,
+      description,
+      plottable,
+      defaultParams,
+      paramsSchema: { $schema: JSON_SCHEMA_DIALECT, ...templateParamsJsonSchema(id) },
+    };
+  });
+
+  return NextResponse.json(
+    { templates, variation: { $schema: JSON_SCHEMA_DIALECT, ...variationJsonSchema() } },
+    { headers: { "Cache-Control": "public, max-age=300, s-maxage=3600" } }
+  );
+}
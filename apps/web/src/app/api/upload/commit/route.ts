@@ -16,8 +16,13 @@ import {
 } from "@/lib/upload-constants";
 import { sha256HexBuffer } from "@/lib/sha256";
 import { getImageDimensionsFromBuffer } from "@/lib/image-dimensions";
-import { buildUploadMetadata, UploadProvenance } from "@/lib/upload-metadata";
-import { stableStringify } from "@artmint/common";
+import { buildUploadMetadata } from "@/lib/upload-metadata";
+import {
+  CANONICAL_INPUT_VERSION,
+  parseCanonicalInputJson,
+  stableStringify,
+  type UploadInput,
+} from "@artmint/common";
 
 export const dynamic = "force-dynamic";
 
@@ -121,12 +126,9 @@ async function buildDuplicatePendingMintResponse(
     );
   }
 
-  let provenance: UploadProvenance | null = null;
-  try {
-    provenance = JSON.parse(existing.inputJson) as UploadProvenance;
-  } catch {
-    // If parsing fails, still return the existing pending mint metadata.
-  }
+  // If parsing fails, still return the existing pending mint metadata
+  const input = parseCanonicalInputJson(existing.inputJson);
+  const provenance = input?.kind === "upload" ? input : null;
 
   return NextResponse.json({
     success: true,
@@ -307,8 +309,9 @@ export async function POST(req: NextRequest) {
 
     const mintQuality = meta.mint.format === "png" ? null : meta.mint.quality ?? 0.85;
 
-    const provenance: UploadProvenance = {
+    const provenance: UploadInput = {
       kind: "upload",
+      version: CANONICAL_INPUT_VERSION,
       createdAt,
       appVersion,
       rendererVersion: null,
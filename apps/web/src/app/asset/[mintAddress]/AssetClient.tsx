@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useEffect } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { Connection, Transaction } from "@solana/web3.js";
 import { Header } from "@/components/Header";
@@ -8,8 +8,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { motion } from "framer-motion";
 import { fadeUp } from "@/lib/animations";
-import type { CanonicalInput } from "@artmint/common";
-import type { UploadProvenance } from "@/lib/upload-metadata";
+import {
+  computeTraits,
+  fitLongEdge,
+  getTemplateDefinition,
+  isRenderableTemplateId,
+  parseCanonicalInputJson,
+  resolveCanvasDimensions,
+} from "@artmint/common";
+import { RENDERER_VERSION } from "@artmint/render/version";
 import { cn } from "@/lib/utils";
 import { FullscreenPreview, FullscreenButton } from "@/components/FullscreenPreview";
 import { FavoriteButton } from "@/components/FavoriteButton";
@@ -76,6 +83,18 @@ type MintStep =
   | "confirming"
   | "success";
 
+const PLOT_PAPERS = ["A5", "A4", "A3", "Letter", "9x12in"] as const;
+const PLOT_FORMATS = ["svg", "gcode", "hpgl"] as const;
+const PRINT_RESOLUTIONS = ["8K", "16K"] as const;
+const PRINT_FORMATS = ["png", "tiff", "pdf"] as const;
+
+interface PrintJob {
+  id: string;
+  status: "queued" | "rendering" | "ready" | "failed";
+  fileUrl: string | null;
+  error: string | null;
+}
+
 export function AssetClient({ mint }: { mint: MintData }) {
   const { publicKey, signTransaction } = useWallet();
   const [listPrice, setListPrice] = useState("");
@@ -86,6 +105,11 @@ export function AssetClient({ mint }: { mint: MintData }) {
   const [copied, setCopied] = useState(false);
   const [showLive, setShowLive] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [plotPaper, setPlotPaper] = useState<(typeof PLOT_PAPERS)[number]>("A4");
+  const [printResolution, setPrintResolution] = useState<(typeof PRINT_RESOLUTIONS)[number]>("8K");
+  const [printFormat, setPrintFormat] = useState<(typeof PRINT_FORMATS)[number]>("png");
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+  const [printError, setPrintError] = useState<string | null>(null);
   const [fullscreenOpen, setFullscreenOpen] = useState(false);
   const [showAuctionModal, setShowAuctionModal] = useState(false);
   const [mintStep, setMintStep] = useState<MintStep>("idle");
@@ -93,17 +117,12 @@ export function AssetClient({ mint }: { mint: MintData }) {
   const [mintTxSignature, setMintTxSignature] = useState<string | null>(null);
   const [preparedMint, setPreparedMint] = useState<PreparedMint | null>(null);
 
-  const parsedInput = useMemo(() => {
-    try {
-      return JSON.parse(mint.inputJson) as CanonicalInput | UploadProvenance;
-    } catch {
-      return null;
-    }
-  }, [mint.inputJson]);
+  const parsedInput = useMemo(() => parseCanonicalInputJson(mint.inputJson), [mint.inputJson]);
 
-  const isUpload = !!parsedInput && (parsedInput as UploadProvenance).kind === "upload";
-  const canonicalInput = !isUpload ? (parsedInput as CanonicalInput | null) : null;
-  const uploadInput = isUpload ? (parsedInput as UploadProvenance) : null;
+  const isUpload = parsedInput?.kind === "upload";
+  const canonicalInput = parsedInput?.kind !== "upload" ? parsedInput : null;
+  const uploadInput = parsedInput?.kind === "upload" ? parsedInput : null;
+  const traits = useMemo(() => (canonicalInput ? computeTraits(canonicalInput) : []), [canonicalInput]);
 
   const handleCopyParams = async () => {
     await navigator.clipboard.writeText(mint.inputJson);
@@ -121,26 +140,29 @@ export function AssetClient({ mint }: { mint: MintData }) {
           seed: canonicalInput.seed,
           palette: canonicalInput.palette,
           params: canonicalInput.params,
+          width: canonicalInput.width,
+          height: canonicalInput.height,
+          effects: canonicalInput.effects,
           format: "svg",
         })
       );
       const res = await fetch(`/api/render?data=${params}`);
       if (!res.ok) throw new Error("Failed to fetch SVG");
       const svgText = await res.text();
-      const SIZE = 3840;
+      const { width, height } = fitLongEdge(resolveCanvasDimensions(canonicalInput), 3840);
       const blob = new Blob([svgText], { type: "image/svg+xml" });
       const url = URL.createObjectURL(blob);
       const img = new Image();
       img.onload = () => {
         const canvas = document.createElement("canvas");
-        canvas.width = SIZE;
-        canvas.height = SIZE;
+        canvas.width = width;
+        canvas.height = height;
         const ctx = canvas.getContext("2d");
         if (!ctx) {
           setExporting(false);
           return;
         }
-        ctx.drawImage(img, 0, 0, SIZE, SIZE);
+        ctx.drawImage(img, 0, 0, width, height);
         URL.revokeObjectURL(url);
         canvas.toBlob(
           (pngBlob) => {
@@ -168,6 +190,76 @@ export function AssetClient({ mint }: { mint: MintData }) {
     }
   }, [canonicalInput]);
 
+  // Plots use the live templates, so mints from older renderers are left out
+  const plottable =
+    canonicalInput != null &&
+    (canonicalInput.rendererVersion ?? RENDERER_VERSION) === RENDERER_VERSION &&
+    isRenderableTemplateId(canonicalInput.templateId) &&
+    getTemplateDefinition(canonicalInput.templateId).plottable;
+
+  const plotHref = (format: (typeof PLOT_FORMATS)[number]) => {
+    if (!canonicalInput) return "#";
+    const data = encodeURIComponent(
+      JSON.stringify({
+        rendererVersion: canonicalInput.rendererVersion,
+        templateId: canonicalInput.templateId,
+        seed: canonicalInput.seed,
+        palette: canonicalInput.palette,
+        params: canonicalInput.params,
+        width: canonicalInput.width,
+        height: canonicalInput.height,
+        format,
+        paper: plotPaper,
+      })
+    );
+    return `/api/plot?data=${data}`;
+  };
+
+  const handleRequestPrint = async () => {
+    setPrintError(null);
+    setPrintJob(null);
+    try {
+      const res = await fetch("/api/print", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mintAddress: mint.mintAddress,
+          format: printFormat,
+          resolution: printResolution,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Failed to request print file");
+      }
+      const { job } = await res.json();
+      setPrintJob(job);
+    } catch (err) {
+      setPrintError(err instanceof Error ? err.message : "Failed to request print file");
+    }
+  };
+
+  // Print renders take minutes; poll until the job settles
+  const printJobId = printJob?.id;
+  const printJobPending = printJob?.status === "queued" || printJob?.status === "rendering";
+  useEffect(() => {
+    if (!printJobId || !printJobPending) return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/print/${printJobId}`);
+        if (!res.ok) {
+          const err = await res.json();
+          throw new Error(err.error ?? "Failed to check print file");
+        }
+        const { job } = await res.json();
+        setPrintJob(job);
+      } catch (err) {
+        setPrintError(err instanceof Error ? err.message : "Failed to check print file");
+      }
+    }, 5000);
+    return () => clearTimeout(timer);
+  }, [printJobId, printJobPending, printJob]);
+
   const handleRerender4K = () => {
     window.open(mint.animationUrl, "_blank", "noopener,noreferrer");
   };
@@ -502,7 +594,13 @@ export function AssetClient({ mint }: { mint: MintData }) {
               transition={{ duration: 0.8 }}
               className="aspect-square bg-black border border-[var(--border)] relative p-2 md:p-6 pb-12 md:pb-20"
             >
-              {!isUpload && showLive ? (
+              {!isUpload && showLive && canonicalInput?.animation ? (
+                <img
+                  src={mint.animationUrl}
+                  alt={`${mint.title ?? "Artwork"} (animated)`}
+                  className="w-full h-full object-contain"
+                />
+              ) : !isUpload && showLive ? (
                 <iframe
                   src={mint.animationUrl}
                   sandbox="allow-scripts"
@@ -658,6 +756,19 @@ export function AssetClient({ mint }: { mint: MintData }) {
                   </a>
                 </div>
               )}
+              {traits.length > 0 && (
+                <div>
+                  <span className="text-[10px] text-[var(--text-dim)] block mb-2">Traits</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    {traits.map((trait) => (
+                      <div key={trait.trait_type} className="border border-[var(--border)] px-2 py-1.5">
+                        <div className="text-[9px] text-[var(--text-dim)]">{trait.trait_type}</div>
+                        <div className="text-white">{trait.value}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               {!isUpload && canonicalInput?.palette && (
                 <div>
                   <span className="text-[10px] text-[var(--text-dim)] block mb-2">
@@ -945,6 +1056,98 @@ export function AssetClient({ mint }: { mint: MintData }) {
                 </button>
               )}
             </motion.div>
+
+            {/* Pen plotter export */}
+            {plottable && (
+              <motion.div initial="hidden" animate="show" variants={fadeUp} className="flex gap-4">
+                <select
+                  value={plotPaper}
+                  onChange={(e) => setPlotPaper(e.target.value as (typeof PLOT_PAPERS)[number])}
+                  className="bg-[var(--bg)] border border-[var(--border)] py-3 px-2 font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)]"
+                  title="Paper size"
+                >
+                  {PLOT_PAPERS.map((paper) => (
+                    <option key={paper} value={paper}>
+                      {paper}
+                    </option>
+                  ))}
+                </select>
+                {PLOT_FORMATS.map((format) => (
+                  <a
+                    key={format}
+                    href={plotHref(format)}
+                    download
+                    className="flex-1 text-center border border-[var(--border)] py-3 font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)] hover:text-white hover:border-white transition-colors"
+                  >
+                    Plot {format}
+                  </a>
+                ))}
+              </motion.div>
+            )}
+
+            {/* Print export: owner-only, rendered server-side */}
+            {!isUpload && canonicalInput && !isPendingMint && publicKey && (
+              <motion.div initial="hidden" animate="show" variants={fadeUp} className="space-y-2">
+                <div className="flex gap-4">
+                  <select
+                    value={printResolution}
+                    onChange={(e) => {
+                      setPrintResolution(e.target.value as (typeof PRINT_RESOLUTIONS)[number]);
+                      setPrintJob(null);
+                    }}
+                    className="bg-[var(--bg)] border border-[var(--border)] py-3 px-2 font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)]"
+                    title="Print resolution"
+                  >
+                    {PRINT_RESOLUTIONS.map((resolution) => (
+                      <option key={resolution} value={resolution}>
+                        {resolution}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={printFormat}
+                    onChange={(e) => {
+                      setPrintFormat(e.target.value as (typeof PRINT_FORMATS)[number]);
+                      setPrintJob(null);
+                    }}
+                    className="bg-[var(--bg)] border border-[var(--border)] py-3 px-2 font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)]"
+                    title="File format"
+                  >
+                    {PRINT_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                      </option>
+                    ))}
+                  </select>
+                  {printJob?.status === "ready" && printJob.fileUrl ? (
+                    <a
+                      href={printJob.fileUrl}
+                      download
+                      className="flex-1 text-center border border-[var(--accent)] py-3 font-mono text-[10px] uppercase tracking-widest text-[var(--accent)] hover:text-white hover:border-white transition-colors"
+                    >
+                      Download Print File
+                    </a>
+                  ) : (
+                    <button
+                      onClick={handleRequestPrint}
+                      disabled={printJobPending}
+                      className="flex-1 border border-[var(--border)] py-3 font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)] hover:text-white hover:border-white transition-colors disabled:opacity-50"
+                    >
+                      {printJob?.status === "queued"
+                        ? "Queued..."
+                        : printJob?.status === "rendering"
+                          ? "Rendering..."
+                          : "Request Print File"}
+                    </button>
+                  )}
+                </div>
+                {(printError || printJob?.status === "failed") && (
+                  <div className="font-mono text-[10px] text-[var(--danger)]">
+                    {printError ?? printJob?.error ?? "Print render failed"}
+                  </div>
+                )}
+              </motion.div>
+            )}
           </div>
         </div>
       </div>
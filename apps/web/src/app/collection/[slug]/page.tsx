@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams } from "next/navigation";
 import { Header } from "@/components/Header";
 import Link from "next/link";
@@ -8,6 +8,7 @@ import { ArrowLeft, Grid3X3, Heart, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { Button } from "@/components/ui/button";
+import type { NftAttribute, RarityTable } from "@artmint/common";
 
 interface CollectionItem {
   mintAddress: string;
@@ -16,6 +17,9 @@ interface CollectionItem {
   wallet: string;
   createdAt: string;
   type: "ai" | "code" | "upload";
+  traits: NftAttribute[];
+  /** Sum of inverse trait frequencies; null for uploads */
+  rarityScore: number | null;
 }
 
 interface Collection {
@@ -29,6 +33,7 @@ interface Collection {
   itemCount: number;
   createdAt: string;
   items: CollectionItem[];
+  rarity: RarityTable;
 }
 
 export default function CollectionPage() {
@@ -37,10 +42,19 @@ export default function CollectionPage() {
   const [collection, setCollection] = useState<Collection | null>(null);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState(false);
+  const [traitFilter, setTraitFilter] = useState<NftAttribute | null>(null);
 
   const slug = params.slug as string;
   const isOwner = publicKey && collection?.creatorWallet === publicKey.toBase58();
 
+  const visibleItems = useMemo(() => {
+    const items = collection?.items ?? [];
+    if (!traitFilter) return items;
+    return items.filter((item) =>
+      item.traits.some((t) => t.trait_type === traitFilter.trait_type && t.value === traitFilter.value)
+    );
+  }, [collection, traitFilter]);
+
   useEffect(() => {
     if (slug) fetchCollection();
   }, [slug]);
@@ -156,6 +170,45 @@ export default function CollectionPage() {
           )}
         </div>
 
+        {/* Rarity */}
+        {collection.rarity.total > 0 && (
+          <div className="border border-[var(--border)] bg-[var(--bg-card)] p-4 space-y-4">
+            <div className="flex items-center justify-between font-mono text-[10px] uppercase tracking-widest">
+              <span className="text-[var(--accent)]">Traits // {collection.rarity.total} generative pieces</span>
+              {traitFilter && (
+                <button onClick={() => setTraitFilter(null)} className="text-[var(--text-dim)] hover:text-white">
+                  Clear filter
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              {Object.entries(collection.rarity.traits).map(([traitType, values]) => (
+                <div key={traitType} className="space-y-1">
+                  <div className="font-mono text-[9px] text-[var(--text-dim)] uppercase tracking-wider">{traitType}</div>
+                  {values.map(({ value, count, frequency }) => {
+                    const active = traitFilter?.trait_type === traitType && traitFilter.value === value;
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => setTraitFilter(active ? null : { trait_type: traitType, value })}
+                        className={cn(
+                          "w-full flex justify-between gap-2 font-mono text-[10px] transition-colors",
+                          active ? "text-[var(--accent)]" : "text-white hover:text-[var(--accent)]"
+                        )}
+                      >
+                        <span className="truncate">{value}</span>
+                        <span className="text-[var(--text-dim)]" title={`${count} of ${collection.rarity.total}`}>
+                          {Math.round(frequency * 100)}%
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Items Grid */}
         {collection.items.length === 0 ? (
           <div className="text-center py-24 border border-[var(--border)] bg-[var(--bg-card)]">
@@ -171,7 +224,7 @@ export default function CollectionPage() {
           </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-            {collection.items.map((item) => (
+            {visibleItems.map((item) => (
               <Link
                 key={item.mintAddress}
                 href={`/asset/${item.mintAddress}`}
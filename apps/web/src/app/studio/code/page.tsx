@@ -11,6 +11,7 @@ import {
 } from "@/components/studio/CodePreview";
 import { SeedInput } from "@/components/studio/SeedInput";
 import { PaletteEditor } from "@/components/studio/PaletteEditor";
+import { SketchAssistant } from "@/components/studio/SketchAssistant";
 import { useAuth } from "@/lib/use-auth";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { presets } from "@artmint/common";
@@ -58,6 +59,12 @@ export default function CodeStudioPage() {
     setLiveCode(code);
   }, [code]);
 
+  // Generated code was already test-rendered on the server, so preview it without the debounce
+  const handleApplyGenerated = useCallback((next: string) => {
+    setCode(next);
+    setLiveCode(next);
+  }, []);
+
   const handleModeSwitch = (newMode: CodeMode) => {
     setMode(newMode);
     setRenderError(null);
@@ -79,7 +86,8 @@ export default function CodeStudioPage() {
     setMintError(null);
     setMintSuccess(false);
     try {
-      const dataUrl = await preview.capture();
+      // JavaScript sketches are rendered server-side from the code itself
+      const dataUrl = mode === "svg" ? await preview.capture() : undefined;
       const res = await fetch("/api/mint/custom", {
         method: "POST",
         headers: { "content-type": "application/json" },
@@ -351,8 +359,12 @@ export default function CodeStudioPage() {
                   <div><code className="text-[var(--accent)]">seed</code> — deterministic seed number</div>
                   <div><code className="text-[var(--accent)]">palette</code> — array of hex colors</div>
                   <div><code className="text-[var(--accent)]">random()</code> — seeded PRNG (0-1)</div>
-                  <div><code className="text-[var(--accent)]">noise2D(x,y)</code> — Perlin noise (-1 to 1)</div>
+                  <div><code className="text-[var(--accent)]">noise2D(x,y)</code> — value noise (-1 to 1)</div>
+                  <div><code className="text-[var(--accent)]">noise.simplex2/3, perlin2/3</code> — gradient noise</div>
+                  <div><code className="text-[var(--accent)]">noise.fbm2(x,y,opts)</code> — fractal noise (type, octaves, lacunarity, gain)</div>
+                  <div><code className="text-[var(--accent)]">noise.warp2 / curl2</code> — domain warp, curl flow</div>
                 </div>
+                <p className="mt-2">Mints are re-rendered on the server from your code, so pixel APIs (<code className="text-[var(--accent)]">getImageData</code>, <code className="text-[var(--accent)]">drawImage</code>) and <code className="text-[var(--accent)]">document</code> are unavailable.</p>
               </div>
             )}
           </div>
@@ -372,6 +384,15 @@ export default function CodeStudioPage() {
               auto-preview: 800ms
             </span>
           </div>
+          {mode === "javascript" && (
+            <SketchAssistant
+              code={code}
+              seed={seed}
+              palette={palette}
+              authenticated={authenticated}
+              onApply={handleApplyGenerated}
+            />
+          )}
           <div className="flex-1 min-h-0">
             <CodeEditor
               code={code}
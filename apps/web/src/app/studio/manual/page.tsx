@@ -4,49 +4,68 @@ import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Header } from "@/components/Header";
 import { TemplateSelector } from "@/components/studio/TemplateSelector";
+import { AspectRatioSelector } from "@/components/studio/AspectRatioSelector";
 import { SeedInput } from "@/components/studio/SeedInput";
+import { SeedExplorer } from "@/components/studio/SeedExplorer";
 import { PaletteEditor } from "@/components/studio/PaletteEditor";
 import { ParameterSliders } from "@/components/studio/ParameterSliders";
+import { LayerEditor } from "@/components/studio/LayerEditor";
+import { EffectChainEditor } from "@/components/studio/EffectChainEditor";
 import { MintButton } from "@/components/studio/MintButton";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/lib/use-auth";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { Button } from "@/components/ui/button";
 import {
-  defaultFlowFieldsParams,
-  defaultJazzNoirParams,
+  aspectRatioPresets,
+  defaultAnimationSpec,
+  defaultCompositeParams,
+  getTemplateDefinition,
   presets,
+  type AspectRatioPreset,
+  type CompositeParams,
+  type Effect,
   type RenderableTemplateId,
+  type SvgTemplateId,
 } from "@artmint/common";
 
+function getDefaultParams(id: RenderableTemplateId): Record<string, number | string> {
+  return getTemplateDefinition(id).defaultParams as Record<string, number | string>;
+}
+
 export default function ManualStudioPage() {
   const router = useRouter();
   const { publicKey } = useWallet();
   const { authenticated, signingIn, signIn, error: authError } = useAuth();
 
-  const [templateId, setTemplateId] = useState<RenderableTemplateId>("flow_fields");
+  const [templateId, setTemplateId] = useState<SvgTemplateId>("flow_fields");
   const [seed, setSeed] = useState(() => Math.floor(Math.random() * 999999999));
   const [palette, setPalette] = useState<string[]>(presets[0]!.defaultPalette);
-  const [params, setParams] = useState<Record<string, number>>(
-    defaultFlowFieldsParams as unknown as Record<string, number>
+  const [params, setParams] = useState<Record<string, number | string>>(() =>
+    getDefaultParams("flow_fields")
   );
+  const [compositeParams, setCompositeParams] = useState<CompositeParams>(defaultCompositeParams);
+  const [effects, setEffects] = useState<Effect[]>([]);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatioPreset>("1:1");
+  const [animated, setAnimated] = useState(false);
+  const [exploringSeeds, setExploringSeeds] = useState(false);
   const [title, setTitle] = useState("");
+  const { width, height } = aspectRatioPresets[aspectRatio];
+
+  const isComposite = templateId === "composite";
+  const renderParams = isComposite ? compositeParams : params;
 
-  const handleTemplateChange = (id: RenderableTemplateId) => {
+  const handleTemplateChange = (id: SvgTemplateId) => {
     setTemplateId(id);
-    setParams(
-      id === "flow_fields"
-        ? (defaultFlowFieldsParams as unknown as Record<string, number>)
-        : (defaultJazzNoirParams as unknown as Record<string, number>)
-    );
+    if (id !== "composite") setParams(getDefaultParams(id));
   };
 
   const previewSrc = useMemo(() => {
     const data = encodeURIComponent(
-      JSON.stringify({ templateId, seed, palette, params, format: "svg" })
+      JSON.stringify({ templateId, seed, palette, params: renderParams, width, height, effects, format: "svg" })
     );
     return `/api/render?data=${data}`;
-  }, [templateId, seed, palette, params]);
+  }, [templateId, seed, palette, renderParams, width, height, effects]);
 
   const handleMint = async () => {
     const res = await fetch("/api/mint", {
@@ -56,7 +75,11 @@ export default function ManualStudioPage() {
         templateId,
         seed,
         palette,
-        params,
+        params: renderParams,
+        width,
+        height,
+        animation: animated ? defaultAnimationSpec : undefined,
+        effects: effects.length > 0 ? effects : undefined,
         prompt: "manual",
         title: title || undefined,
       }),
@@ -128,12 +151,34 @@ export default function ManualStudioPage() {
               <TemplateSelector value={templateId} onChange={handleTemplateChange} />
             </div>
 
+            {/* Canvas */}
+            <div className="space-y-4">
+              <label className="font-mono text-[10px] text-[var(--accent)] uppercase tracking-widest border-b border-[var(--border)] pb-2 block">
+                Canvas Ratio
+              </label>
+              <AspectRatioSelector value={aspectRatio} onChange={setAspectRatio} />
+              <label className="flex items-center gap-3 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={animated}
+                  onChange={(e) => setAnimated(e.target.checked)}
+                />
+                Animated loop ({defaultAnimationSpec.frameCount} frames @ {defaultAnimationSpec.fps}fps)
+              </label>
+            </div>
+
             {/* Seed */}
             <div className="space-y-4">
               <label className="font-mono text-[10px] text-[var(--accent)] uppercase tracking-widest border-b border-[var(--border)] pb-2 block">
                 Global Seed
               </label>
               <SeedInput seed={seed} onChange={setSeed} />
+              <button
+                onClick={() => setExploringSeeds(!exploringSeeds)}
+                className="font-mono text-[10px] text-[var(--text-dim)] hover:text-[var(--accent)] uppercase tracking-widest transition-colors"
+              >
+                {exploringSeeds ? "Back to preview" : "Explore seeds →"}
+              </button>
             </div>
 
             {/* Palette */}
@@ -147,13 +192,29 @@ export default function ManualStudioPage() {
             {/* Sliders */}
             <div className="space-y-4">
               <label className="font-mono text-[10px] text-[var(--accent)] uppercase tracking-widest border-b border-[var(--border)] pb-2 block">
-                Variables
+                {isComposite ? "Layers" : "Variables"}
               </label>
-              <ParameterSliders
-                templateId={templateId}
-                params={params}
-                onChange={setParams}
-              />
+              {isComposite ? (
+                <LayerEditor
+                  layers={compositeParams.layers}
+                  seed={seed}
+                  onChange={(layers) => setCompositeParams({ layers })}
+                />
+              ) : (
+                <ParameterSliders
+                  templateId={templateId}
+                  params={params}
+                  onChange={setParams}
+                />
+              )}
+            </div>
+
+            {/* Effects */}
+            <div className="space-y-4">
+              <label className="font-mono text-[10px] text-[var(--accent)] uppercase tracking-widest border-b border-[var(--border)] pb-2 block">
+                Post-Processing
+              </label>
+              <EffectChainEditor effects={effects} onChange={setEffects} />
             </div>
 
             {/* Title + Mint */}
@@ -177,16 +238,34 @@ export default function ManualStudioPage() {
               "url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAiIGhlaWdodD0iMjAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PGNpcmNsZSBjeD0iMSIgY3k9IjEiIHI9IjEiIGZpbGw9InJnYmEoMjU1LDI1NSwyNTUsMC4wNSkiLz48L3N2Zz4=')",
           }}
         >
-          <div className="w-full max-w-[700px] aspect-square bg-[#050505] border border-[var(--border)] relative overflow-hidden flex items-center justify-center">
-            <div className="absolute top-4 left-4 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest mix-blend-difference z-20">
-              Live Preview // [{templateId}]
+          {exploringSeeds ? (
+            <div className="w-full max-w-[900px] h-full">
+              <SeedExplorer
+                key={seed}
+                input={{ templateId, palette, params: renderParams, width, height, effects }}
+                start={seed}
+                onPick={(picked) => {
+                  setSeed(picked);
+                  setExploringSeeds(false);
+                }}
+                onClose={() => setExploringSeeds(false)}
+              />
             </div>
-            <img
-              src={previewSrc}
-              alt={`${templateId} preview`}
-              className="w-full h-full object-cover"
-            />
-          </div>
+          ) : (
+            <div
+              className="w-full max-w-[700px] max-h-full bg-[#050505] border border-[var(--border)] relative overflow-hidden flex items-center justify-center"
+              style={{ aspectRatio: `${width} / ${height}` }}
+            >
+              <div className="absolute top-4 left-4 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest mix-blend-difference z-20">
+                Live Preview // [{templateId}] // {width}x{height}
+              </div>
+              <img
+                src={previewSrc}
+                alt={`${templateId} preview`}
+                className="w-full h-full object-contain"
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,18 +1,20 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { Header } from "@/components/Header";
 import { VariationGrid } from "@/components/VariationGrid";
 import { DetailPanel } from "@/components/DetailPanel";
+import { VariationBlend } from "@/components/VariationBlend";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import type { Variation } from "@artmint/common";
-import { presets } from "@artmint/common";
+import type { VariationRepair } from "@artmint/ai";
+import { presets, isRenderableTemplateId, readServerSentEvents } from "@artmint/common";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
 import { fadeUp, staggerContainer } from "@/lib/animations";
-import { X, Layers, CheckSquare, Square } from "lucide-react";
+import { X, Layers, CheckSquare, Square, Blend } from "lucide-react";
 import { trackAIGeneration, trackEvent } from "@/lib/analytics";
 
 export default function StudioPage() {
@@ -22,8 +24,10 @@ export default function StudioPage() {
   const [selectedPreset, setSelectedPreset] = useState("minimal");
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
   const [variations, setVariations] = useState<Variation[]>([]);
+  const [repairs, setRepairs] = useState<VariationRepair[][]>([]);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
+  const generationRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const [authenticated, setAuthenticated] = useState(false);
@@ -37,10 +41,17 @@ export default function StudioPage() {
   const [batchMinting, setBatchMinting] = useState(false);
   const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 });
 
+  // Blending between two batch-selected variations
+  const [blendPair, setBlendPair] = useState<[number, number] | null>(null);
+  const [blended, setBlended] = useState<Variation | null>(null);
+
   useEffect(() => {
     checkSession();
   }, [publicKey]);
 
+  // Leaving the studio cancels a generation still streaming in
+  useEffect(() => () => generationRef.current?.abort(), []);
+
   async function checkSession() {
     try {
       const res = await fetch("/api/auth/session");
@@ -111,10 +122,17 @@ export default function StudioPage() {
   const generateVariations = useCallback(
     async (baseParams?: Record<string, unknown>) => {
       if (!prompt.trim()) return;
+      generationRef.current?.abort();
+      const controller = new AbortController();
+      generationRef.current = controller;
       setLoading(true);
       setError(null);
       setSelectedIndex(null);
       setSelectedBatch(new Set());
+      setBlendPair(null);
+      setBlended(null);
+      setVariations([]);
+      setRepairs([]);
       try {
         const res = await fetch("/api/ai/variations", {
           method: "POST",
@@ -125,33 +143,55 @@ export default function StudioPage() {
             templateId: selectedTemplate || undefined,
             baseParams,
             count: 12,
+            stream: true,
           }),
+          signal: controller.signal,
         });
-        if (!res.ok) {
+        if (!res.ok || !res.body) {
           const err = await res.json();
           throw new Error(err.error ?? "Failed to generate variations");
         }
-        const data = await res.json();
-        setVariations(data.variations);
-        if (data.quota) {
-          setQuotaRemaining(data.quota.remaining);
-          setQuotaLimit(data.quota.limit);
+        // Variations arrive one event at a time and fill the grid as they validate
+        const received: Variation[] = [];
+        for await (const { event, data } of readServerSentEvents(res.body)) {
+          const payload = JSON.parse(data);
+          if (event === "variation") {
+            received.push(payload.variation);
+            setVariations((prev) => [...prev, payload.variation]);
+            setRepairs((prev) => [...prev, payload.repairs]);
+          } else if (event === "done") {
+            setQuotaRemaining(payload.quota.remaining);
+            setQuotaLimit(payload.quota.limit);
+          } else if (event === "error") {
+            throw new Error(payload.error ?? "Failed to generate variations");
+          }
         }
         // Track successful generation
         trackAIGeneration(
-          selectedTemplate || data.variations[0]?.templateId || "unknown",
+          selectedTemplate || received[0]?.templateId || "unknown",
           selectedPreset,
-          data.variations.length
+          received.length
         );
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to generate");
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Failed to generate");
+        }
       } finally {
-        setLoading(false);
+        if (generationRef.current === controller) {
+          generationRef.current = null;
+          setLoading(false);
+        }
       }
     },
     [prompt, selectedPreset, selectedTemplate]
   );
 
+  const stopGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setLoading(false);
+  };
+
   const handleMoreLikeThis = useCallback(
     (variation: Variation) => {
       trackEvent("ai_more_like_this", {
@@ -246,8 +286,23 @@ export default function StudioPage() {
     }
   };
 
+  // Two picks of the same template can be blended
+  const batchPair = Array.from(selectedBatch);
+  const canBlend =
+    batchPair.length === 2 &&
+    variations[batchPair[0]!]?.templateId === variations[batchPair[1]!]?.templateId &&
+    isRenderableTemplateId(variations[batchPair[0]!]?.templateId ?? "");
+
+  const handleKeepBlend = (variation: Variation) => {
+    setBlended(variation);
+    setSelectedIndex(null);
+    setBlendPair(null);
+    setSelectedBatch(new Set());
+    setBatchMode(false);
+  };
+
   const selected =
-    selectedIndex !== null ? variations[selectedIndex] ?? null : null;
+    blended ?? (selectedIndex !== null ? variations[selectedIndex] ?? null : null);
   const needsWallet = !publicKey;
   const needsAuth = publicKey && !authenticated;
 
@@ -342,6 +397,11 @@ export default function StudioPage() {
               >
                 {loading ? "Synthesizing..." : "Execute"}
               </Button>
+              {loading && (
+                <Button size="lg" variant="outline" onClick={stopGeneration} className="h-[46px]">
+                  Stop
+                </Button>
+              )}
             </div>
           </div>
 
@@ -352,7 +412,10 @@ export default function StudioPage() {
                 <button
                   onClick={() => {
                     setBatchMode(!batchMode);
-                    if (batchMode) setSelectedBatch(new Set());
+                    if (batchMode) {
+                      setSelectedBatch(new Set());
+                      setBlendPair(null);
+                    }
                   }}
                   className={cn(
                     "flex items-center gap-2 px-3 py-1.5 font-mono text-[10px] uppercase tracking-widest transition-colors",
@@ -386,6 +449,17 @@ export default function StudioPage() {
                 )}
               </div>
 
+              {batchMode && canBlend && (
+                <Button
+                  variant="outline"
+                  onClick={() => setBlendPair([batchPair[0]!, batchPair[1]!])}
+                  className="gap-2"
+                >
+                  <Blend size={14} />
+                  Blend A ↔ B
+                </Button>
+              )}
+
               {batchMode && selectedBatch.size > 0 && (
                 <Button
                   onClick={handleBatchMint}
@@ -441,14 +515,33 @@ export default function StudioPage() {
                 </p>
               </div>
             ) : (
-              <VariationGrid
-                variations={variations}
-                selectedIndex={selectedIndex}
-                onSelect={batchMode ? undefined : setSelectedIndex}
-                batchMode={batchMode}
-                selectedBatch={selectedBatch}
-                onToggleBatch={toggleBatchSelection}
-              />
+              <>
+                {blendPair && (
+                  <VariationBlend
+                    key={blendPair.join("-")}
+                    a={variations[blendPair[0]]!}
+                    b={variations[blendPair[1]]!}
+                    onKeep={handleKeepBlend}
+                    onClose={() => setBlendPair(null)}
+                  />
+                )}
+                <VariationGrid
+                  variations={variations}
+                  repairs={repairs}
+                  selectedIndex={selectedIndex}
+                  onSelect={
+                    batchMode
+                      ? undefined
+                      : (index) => {
+                          setBlended(null);
+                          setSelectedIndex(index);
+                        }
+                  }
+                  batchMode={batchMode}
+                  selectedBatch={selectedBatch}
+                  onToggleBatch={toggleBatchSelection}
+                />
+              </>
             )}
           </div>
         </div>
@@ -460,10 +553,13 @@ export default function StudioPage() {
               variation={selected}
               prompt={prompt}
               preset={selectedPreset}
-              allVariations={variations}
-              selectedIndex={selectedIndex ?? undefined}
+              allVariations={blended ? undefined : variations}
+              selectedIndex={blended ? undefined : selectedIndex ?? undefined}
               onMoreLikeThis={() => handleMoreLikeThis(selected)}
-              onClose={() => setSelectedIndex(null)}
+              onClose={() => {
+                setSelectedIndex(null);
+                setBlended(null);
+              }}
               wallet={publicKey?.toBase58() ?? null}
               authenticated={authenticated}
             />
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Variation } from "@artmint/common";
+import { ArtPreview } from "./ArtPreview";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+
+interface Props {
+  a: Variation;
+  b: Variation;
+  /** Hand the blended variation on, e.g. to the detail panel for minting */
+  onKeep: (variation: Variation) => void;
+  onClose: () => void;
+}
+
+/** Slider moves settle for this long before the blend is requested */
+const BLEND_DEBOUNCE_MS = 200;
+
+const endpoint = ({ templateId, seed, palette, params }: Variation) => ({ templateId, seed, palette, params });
+
+export function VariationBlend({ a, b, onKeep, onClose }: Props) {
+  const [amount, setAmount] = useState(0.5);
+  const [blended, setBlended] = useState<Variation | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch("/api/morph", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ a: endpoint(a), b: endpoint(b), amount }),
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? "Blend failed");
+        setBlended({
+          ...data.input,
+          title: `Blend #${a.seed} ↔ #${b.seed} @ ${Math.round(amount * 100)}%`,
+          tags: a.tags,
+        });
+        setError(null);
+      } catch (err) {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : "Blend failed");
+      }
+    }, BLEND_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [a, b, amount]);
+
+  const exportLoop = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/morph", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ a: endpoint(a), b: endpoint(b), format: "animated-svg" }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error ?? "Export failed");
+      window.open(URL.createObjectURL(await res.blob()), "_blank");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 border border-[var(--border)] p-4 grid grid-cols-[1fr_2fr_1fr] gap-4 items-center">
+      <div className="aspect-square border border-[var(--border)] overflow-hidden">
+        <ArtPreview variation={a} size={200} />
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center font-mono text-[10px] uppercase tracking-widest">
+          <span className="text-[var(--accent)]">
+            Blend #{a.seed} ↔ #{b.seed}
+          </span>
+          <button onClick={onClose} className="text-[var(--text-dim)] hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+        <div className="aspect-square max-w-[320px] mx-auto border border-[var(--border)] overflow-hidden">
+          {blended && <ArtPreview variation={blended} size={320} />}
+        </div>
+        <div className="space-y-1">
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={amount}
+            onChange={(e) => setAmount(parseFloat(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex justify-between font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest">
+            <span>A</span>
+            <span className="text-white">{Math.round(amount * 100)}%</span>
+            <span>B</span>
+          </div>
+        </div>
+        <div className="flex gap-2 justify-center">
+          <Button size="sm" onClick={() => blended && onKeep(blended)} disabled={!blended}>
+            Use This Blend
+          </Button>
+          <Button size="sm" variant="outline" onClick={exportLoop} disabled={exporting}>
+            {exporting ? "Rendering..." : "Morph Loop"}
+          </Button>
+        </div>
+        {error && <p className="font-mono text-[10px] text-[var(--danger)] text-center">{error}</p>}
+      </div>
+
+      <div className="aspect-square border border-[var(--border)] overflow-hidden">
+        <ArtPreview variation={b} size={200} />
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
 "use client";
 
 import type { Variation } from "@artmint/common";
+import type { VariationRepair } from "@artmint/ai";
 import { ArtPreview } from "./ArtPreview";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import { fadeUp, staggerContainer } from "@/lib/animations";
-import { Check } from "lucide-react";
+import { Check, Wrench } from "lucide-react";
 
 interface Props {
   variations: Variation[];
+  /** What the server adjusted in each variation, index-aligned with `variations` */
+  repairs?: VariationRepair[][];
   selectedIndex: number | null;
   onSelect?: (index: number) => void;
   batchMode?: boolean;
@@ -16,8 +19,15 @@ interface Props {
   onToggleBatch?: (index: number) => void;
 }
 
+function describeRepair({ path, action, from, to }: VariationRepair): string {
+  if (action === "dropped") return `${path} dropped`;
+  if (from === undefined) return `${path} ${action} to ${JSON.stringify(to)}`;
+  return `${path} ${action}: ${JSON.stringify(from)} → ${JSON.stringify(to)}`;
+}
+
 export function VariationGrid({ 
   variations, 
+  repairs = [],
   selectedIndex, 
   onSelect,
   batchMode = false,
@@ -34,6 +44,7 @@ export function VariationGrid({
       {variations.map((v, i) => {
         const isSelected = selectedIndex === i;
         const isBatchSelected = selectedBatch.has(i);
+        const adjusted = repairs[i] ?? [];
         
         return (
           <motion.div 
@@ -80,7 +91,18 @@ export function VariationGrid({
 
               <div className="flex justify-between items-center mb-3 font-mono text-[10px] text-[var(--text-dim)] uppercase">
                 <span>{v.title ?? v.templateId}</span>
-                <span className="text-[var(--accent)]">#{v.seed}</span>
+                <span className="flex items-center gap-2">
+                  {adjusted.length > 0 && (
+                    <span
+                      className="flex items-center gap-1 text-[var(--text-dim)]"
+                      title={adjusted.map(describeRepair).join("\n")}
+                    >
+                      <Wrench size={10} />
+                      {adjusted.length}
+                    </span>
+                  )}
+                  <span className="text-[var(--accent)]">#{v.seed}</span>
+                </span>
               </div>
               <div className={cn(
                 "aspect-square bg-black border overflow-hidden",
@@ -0,0 +1,32 @@
+"use client";
+
+import { aspectRatioPresets, type AspectRatioPreset } from "@artmint/common";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  value: AspectRatioPreset;
+  onChange: (ratio: AspectRatioPreset) => void;
+}
+
+const ratios = Object.keys(aspectRatioPresets) as AspectRatioPreset[];
+
+export function AspectRatioSelector({ value, onChange }: Props) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {ratios.map((ratio) => (
+        <button
+          key={ratio}
+          onClick={() => onChange(ratio)}
+          className={cn(
+            "py-2 px-3 border font-mono text-xs uppercase tracking-widest transition-colors",
+            value === ratio
+              ? "border-[var(--accent)] text-[var(--accent)] bg-[var(--accent)]/5"
+              : "border-[var(--border)] text-[var(--text-dim)] hover:text-white"
+          )}
+        >
+          {ratio}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useRef, useEffect, useImperativeHandle, forwardRef } from "react";
+import { NOISE_RUNTIME_JS } from "@artmint/render/noise-runtime";
 
 export type CodeMode = "svg" | "javascript";
 
@@ -180,20 +181,7 @@ function mulberry32(seed) {
   };
 }
 
-function createNoise2D(seed) {
-  const rng = mulberry32(seed);
-  const TABLE_SIZE = 256;
-  const table = [];
-  for (let i = 0; i < TABLE_SIZE; i++) table.push(rng());
-  function hash(x, y) { return table[((x * 374761393 + y * 668265263 + seed) & 0x7fffffff) % TABLE_SIZE]; }
-  function lerp(a, b, t) { return a + (b - a) * t; }
-  function smoothstep(t) { return t * t * (3 - 2 * t); }
-  return (x, y) => {
-    const ix = Math.floor(x), iy = Math.floor(y);
-    const fx = smoothstep(x - ix), fy = smoothstep(y - iy);
-    return lerp(lerp(hash(ix,iy), hash(ix+1,iy), fx), lerp(hash(ix,iy+1), hash(ix+1,iy+1), fx), fy) * 2 - 1;
-  };
-}
+${NOISE_RUNTIME_JS}
 
 const canvas = document.getElementById('canvas');
 const ctx = canvas.getContext('2d');
@@ -202,7 +190,8 @@ const seed = ${seed};
 const palette = ${paletteJson};
 const _rng = mulberry32(seed);
 function random() { return _rng(); }
-const noise2D = createNoise2D(seed + 1);
+const noise = createNoise(seed + 1);
+const noise2D = noise.value2;
 
 try {
   ${safeCode}
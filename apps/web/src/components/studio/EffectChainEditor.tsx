@@ -0,0 +1,124 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import {
+  defaultEffects,
+  effectMeta,
+  effectTypes,
+  MAX_EFFECTS,
+  type Effect,
+} from "@artmint/common";
+
+interface Props {
+  effects: Effect[];
+  onChange: (effects: Effect[]) => void;
+}
+
+export function EffectChainEditor({ effects, onChange }: Props) {
+  const update = (index: number, effect: Effect) => {
+    onChange(effects.map((e, i) => (i === index ? effect : e)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...effects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect!);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      {effects.map((effect, index) => {
+        const meta = effectMeta[effect.type];
+        const values = effect as unknown as Record<string, number | string>;
+        return (
+          <div key={index} className="border border-[var(--border)] p-4 space-y-5">
+            <div className="flex items-center justify-between font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+              <span className="text-white">
+                {index + 1}. {meta.label}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 hover:text-[var(--accent)] disabled:opacity-30"
+                  title="Apply earlier"
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === effects.length - 1}
+                  className="p-1 hover:text-[var(--accent)] disabled:opacity-30"
+                  title="Apply later"
+                >
+                  <ArrowDown size={14} />
+                </button>
+                <button
+                  onClick={() => onChange(effects.filter((_, i) => i !== index))}
+                  className="p-1 hover:text-[var(--danger)]"
+                  title="Remove effect"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+
+            {Object.entries(meta.fields).map(([key, m]) => {
+              const value = values[key] as number;
+              return (
+                <div key={key} className="space-y-3">
+                  <div className="flex justify-between items-center font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+                    <span>{m.label}</span>
+                    <span className="text-white">{Number.isInteger(m.step) ? value : value.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={m.min}
+                    max={m.max}
+                    step={m.step}
+                    value={value}
+                    onChange={(e) => update(index, { ...effect, [key]: parseFloat(e.target.value) } as Effect)}
+                  />
+                </div>
+              );
+            })}
+
+            {effect.type === "duotone" && (
+              <div className="grid grid-cols-2 gap-2">
+                {(["shadow", "highlight"] as const).map((key) => (
+                  <label
+                    key={key}
+                    className="flex items-center gap-2 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest"
+                  >
+                    <input
+                      type="color"
+                      value={effect[key]}
+                      onChange={(e) => update(index, { ...effect, [key]: e.target.value })}
+                      className="w-8 h-8 bg-transparent border border-[var(--border)] cursor-pointer"
+                    />
+                    {key}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {effects.length < MAX_EFFECTS && (
+        <div className="grid grid-cols-2 gap-2">
+          {effectTypes.map((type) => (
+            <button
+              key={type}
+              onClick={() => onChange([...effects, defaultEffects[type]])}
+              className="py-2 px-3 border border-[var(--border)] font-mono text-[10px] uppercase tracking-widest text-left text-[var(--text-dim)] hover:text-white transition-colors"
+            >
+              + {effectMeta[type].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import {
+  blendModes,
+  getTemplateDefinition,
+  renderableTemplateIds,
+  templateRegistry,
+  MAX_COMPOSITE_LAYERS,
+  type BlendMode,
+  type CompositeLayer,
+  type LayerMask,
+  type RenderableTemplateId,
+} from "@artmint/common";
+import { ParameterSliders } from "@/components/studio/ParameterSliders";
+import { SeedInput } from "@/components/studio/SeedInput";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  layers: CompositeLayer[];
+  /** Composite seed, used as the starting point when a layer gets its own seed */
+  seed: number;
+  onChange: (layers: CompositeLayer[]) => void;
+}
+
+type MaskShape = LayerMask["shape"] | "none";
+
+const maskShapes: MaskShape[] = ["none", "circle", "rect", "gradient"];
+
+const defaultMasks: Record<LayerMask["shape"], LayerMask> = {
+  circle: { shape: "circle", cx: 0.5, cy: 0.5, r: 0.35 },
+  rect: { shape: "rect", x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+  gradient: { shape: "gradient", from: "top" },
+};
+
+function newLayer(templateId: RenderableTemplateId): CompositeLayer {
+  return { templateId, params: { ...getTemplateDefinition(templateId).defaultParams } };
+}
+
+const buttonClass = (active: boolean) =>
+  cn(
+    "py-2 px-3 border font-mono text-xs uppercase tracking-widest transition-colors",
+    active
+      ? "border-[var(--accent)] text-[var(--accent)] bg-[var(--accent)]/5"
+      : "border-[var(--border)] text-[var(--text-dim)] hover:text-white"
+  );
+
+export function LayerEditor({ layers, seed, onChange }: Props) {
+  const update = (index: number, layer: CompositeLayer) => {
+    onChange(layers.map((l, i) => (i === index ? layer : l)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...layers];
+    const [layer] = next.splice(index, 1);
+    next.splice(index + offset, 0, layer!);
+    onChange(next);
+  };
+
+  // Listed top layer first, the way layer panels usually read
+  const ordered = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  return (
+    <div className="space-y-6">
+      {ordered.map(({ layer, index }) => (
+        <div key={index} className="border border-[var(--border)] p-4 space-y-5">
+          <div className="flex items-center justify-between font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+            <span className="text-white">Layer {index + 1}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === layers.length - 1}
+                className="p-1 hover:text-[var(--accent)] disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 hover:text-[var(--accent)] disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => onChange(layers.filter((_, i) => i !== index))}
+                disabled={layers.length === 1}
+                className="p-1 hover:text-[var(--danger)] disabled:opacity-30"
+                title="Remove layer"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {renderableTemplateIds.map((id) => (
+              <button
+                key={id}
+                onClick={() => {
+                  if (id === layer.templateId) return;
+                  // Switching template resets params but keeps how the layer is composited
+                  const { opacity, blendMode, mask, seed: layerSeed } = layer;
+                  update(index, { ...newLayer(id), opacity, blendMode, mask, seed: layerSeed });
+                }}
+                className={buttonClass(layer.templateId === id)}
+              >
+                {templateRegistry[id].label.split(" // ")[0]}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+              <span>Opacity</span>
+              <span className="text-white">{(layer.opacity ?? 1).toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={layer.opacity ?? 1}
+              onChange={(e) => {
+                const opacity = parseFloat(e.target.value);
+                update(index, { ...layer, opacity: opacity < 1 ? opacity : undefined });
+              }}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">Blend</div>
+            <select
+              value={layer.blendMode ?? "normal"}
+              onChange={(e) => {
+                const blendMode = e.target.value as BlendMode;
+                update(index, { ...layer, blendMode: blendMode === "normal" ? undefined : blendMode });
+              }}
+              className="w-full h-8 bg-[var(--bg)] border border-[var(--border)] font-mono text-xs uppercase tracking-widest text-white px-2"
+            >
+              {blendModes.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">Mask</div>
+            <div className="grid grid-cols-2 gap-2">
+              {maskShapes.map((shape) => (
+                <button
+                  key={shape}
+                  onClick={() =>
+                    update(index, { ...layer, mask: shape === "none" ? undefined : defaultMasks[shape] })
+                  }
+                  className={buttonClass((layer.mask?.shape ?? "none") === shape)}
+                >
+                  {shape}
+                </button>
+              ))}
+            </div>
+            {layer.mask && (
+              <label className="flex items-center gap-3 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={layer.mask.invert ?? false}
+                  onChange={(e) =>
+                    update(index, { ...layer, mask: { ...layer.mask!, invert: e.target.checked || undefined } })
+                  }
+                />
+                Invert mask
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-3 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest cursor-pointer">
+              <input
+                type="checkbox"
+                checked={layer.seed !== undefined}
+                onChange={(e) =>
+                  update(index, { ...layer, seed: e.target.checked ? seed + index : undefined })
+                }
+              />
+              Own seed
+            </label>
+            {layer.seed !== undefined && (
+              <SeedInput seed={layer.seed} onChange={(value) => update(index, { ...layer, seed: value })} />
+            )}
+          </div>
+
+          <ParameterSliders
+            templateId={layer.templateId}
+            params={layer.params as Record<string, number | string>}
+            onChange={(params) => update(index, { ...layer, params })}
+          />
+        </div>
+      ))}
+
+      {layers.length < MAX_COMPOSITE_LAYERS && (
+        <button
+          onClick={() => onChange([...layers, newLayer("flow_fields")])}
+          className={cn(buttonClass(false), "w-full")}
+        >
+          + Add layer
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,46 @@
 "use client";
 
+import { useMemo, useState } from "react";
+import {
+  analyzePalette,
+  extractPalette,
+  generateHarmonyPalette,
+  harmonyRules,
+  hexToOklch,
+  sortByLightness,
+  MIN_ACCENT_CONTRAST,
+  MIN_PALETTE_COLORS,
+  MAX_PALETTE_COLORS,
+  type HarmonyRule,
+} from "@artmint/common";
+
 interface Props {
   palette: string[];
   onChange: (palette: string[]) => void;
 }
 
+/** Uploaded images are downscaled to this long edge before extraction */
+const EXTRACT_SIZE = 128;
+
+async function readImagePixels(file: File): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, EXTRACT_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas unavailable");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
 export function PaletteEditor({ palette, onChange }: Props) {
+  const [toolsOpen, setToolsOpen] = useState(false);
+  const [rule, setRule] = useState<HarmonyRule>("complementary");
+  const [extractError, setExtractError] = useState<string | null>(null);
+  const analysis = useMemo(() => analyzePalette(palette), [palette]);
+
   const updateColor = (index: number, color: string) => {
     const next = [...palette];
     next[index] = color;
@@ -13,43 +48,137 @@ export function PaletteEditor({ palette, onChange }: Props) {
   };
 
   const removeColor = (index: number) => {
-    if (palette.length <= 2) return;
+    if (palette.length <= MIN_PALETTE_COLORS) return;
     onChange(palette.filter((_, i) => i !== index));
   };
 
   const addColor = () => {
-    if (palette.length >= 8) return;
+    if (palette.length >= MAX_PALETTE_COLORS) return;
     onChange([...palette, "#ffffff"]);
   };
 
+  // Harmonies grow from the first accent and keep the current background's lightness
+  const applyHarmony = () => {
+    const base = palette[1] ?? palette[0]!;
+    const background = hexToOklch(palette[0]!).l < 0.5 ? "dark" : "light";
+    onChange(generateHarmonyPalette(base, rule, { count: Math.max(palette.length, 3), background }));
+  };
+
+  const extractFromImage = async (file: File) => {
+    setExtractError(null);
+    try {
+      const colors = extractPalette(await readImagePixels(file), { count: palette.length });
+      if (colors.length < MIN_PALETTE_COLORS) {
+        setExtractError("Image has too few colors");
+        return;
+      }
+      onChange(colors);
+    } catch {
+      setExtractError("Could not read image");
+    }
+  };
+
+  const toolButton =
+    "h-7 px-2 border border-[var(--border)] font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)] hover:text-[var(--accent)] hover:border-[var(--accent)] transition-colors";
+
   return (
-    <div className="flex gap-1 h-8 border border-[var(--border)] p-1 items-center">
-      {palette.map((color, i) => (
-        <div key={`${i}-${color}`} className="relative group h-full flex-1">
-          <input
-            type="color"
-            value={color}
-            onChange={(e) => updateColor(i, e.target.value)}
-            className="w-full h-full cursor-pointer border-none p-0 bg-transparent"
-            style={{ appearance: "none", WebkitAppearance: "none" }}
-          />
-          {palette.length > 2 && (
-            <button
-              onClick={() => removeColor(i)}
-              className="absolute -top-1 -right-1 w-3 h-3 text-[8px] leading-none bg-[var(--danger)] text-white hidden group-hover:flex items-center justify-center"
-            >
-              x
-            </button>
-          )}
-        </div>
-      ))}
-      {palette.length < 8 && (
+    <div className="relative">
+      <div className="flex gap-1 h-8 border border-[var(--border)] p-1 items-center">
+        {palette.map((color, i) => (
+          <div key={`${i}-${color}`} className="relative group h-full flex-1">
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => updateColor(i, e.target.value)}
+              className="w-full h-full cursor-pointer border-none p-0 bg-transparent"
+              style={{ appearance: "none", WebkitAppearance: "none" }}
+            />
+            {palette.length > MIN_PALETTE_COLORS && (
+              <button
+                onClick={() => removeColor(i)}
+                className="absolute -top-1 -right-1 w-3 h-3 text-[8px] leading-none bg-[var(--danger)] text-white hidden group-hover:flex items-center justify-center"
+              >
+                x
+              </button>
+            )}
+          </div>
+        ))}
+        {palette.length < MAX_PALETTE_COLORS && (
+          <button
+            onClick={addColor}
+            className="h-full px-2 font-mono text-[10px] text-[var(--text-dim)] hover:text-[var(--accent)] border-l border-[var(--border)] transition-colors"
+          >
+            +
+          </button>
+        )}
         <button
-          onClick={addColor}
-          className="h-full px-2 font-mono text-[10px] text-[var(--text-dim)] hover:text-[var(--accent)] border-l border-[var(--border)] transition-colors"
+          onClick={() => setToolsOpen(!toolsOpen)}
+          title="Palette tools"
+          className={`h-full px-2 font-mono text-[10px] border-l border-[var(--border)] transition-colors ${
+            toolsOpen ? "text-[var(--accent)]" : "text-[var(--text-dim)] hover:text-[var(--accent)]"
+          }`}
         >
-          +
+          ◐
         </button>
+      </div>
+
+      {toolsOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-64 space-y-3 p-3 bg-[var(--bg)] border border-[var(--border)]">
+          <div className="space-y-2">
+            <div className="font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)]">Harmony</div>
+            <div className="flex gap-1">
+              <select
+                value={rule}
+                onChange={(e) => setRule(e.target.value as HarmonyRule)}
+                className="flex-1 h-7 bg-[var(--bg)] border border-[var(--border)] font-mono text-[10px] uppercase tracking-widest text-white px-2"
+              >
+                {harmonyRules.map((r) => (
+                  <option key={r} value={r}>
+                    {r}
+                  </option>
+                ))}
+              </select>
+              <button onClick={applyHarmony} className={toolButton}>
+                Apply
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-1">
+            <label className={`${toolButton} flex-1 flex items-center justify-center cursor-pointer`}>
+              From image
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) void extractFromImage(file);
+                }}
+              />
+            </label>
+            <button onClick={() => onChange(sortByLightness(palette))} className={`${toolButton} flex-1`}>
+              Sort light
+            </button>
+          </div>
+          {extractError && <div className="font-mono text-[10px] text-[var(--danger)]">{extractError}</div>}
+
+          <div className="space-y-1 border-t border-[var(--border)] pt-2 font-mono text-[10px] uppercase tracking-widest">
+            <div className="flex justify-between">
+              <span className="text-[var(--text-dim)]">Min contrast</span>
+              <span className={analysis.minContrast < MIN_ACCENT_CONTRAST ? "text-[var(--danger)]" : "text-white"}>
+                {analysis.minContrast.toFixed(2)}:1
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--text-dim)]">Color-blind</span>
+              <span className={`text-right ${analysis.colorBlindSafe ? "text-white" : "text-[var(--danger)]"}`}>
+                {analysis.colorBlindSafe ? "Safe" : `Clashes: ${analysis.confusedBy.join(", ")}`}
+              </span>
+            </div>
+          </div>
+        </div>
       )}
     </div>
   );
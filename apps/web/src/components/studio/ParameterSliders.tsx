@@ -1,46 +1,153 @@
 "use client";
 
-import type { ParameterMetaEntry } from "@artmint/common";
+import type {
+  ParameterMetaEntry,
+  ParameterOptionMetaEntry,
+  ParameterTextMetaEntry,
+} from "@artmint/common";
 import { parameterMeta } from "@artmint/common";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type ParamValue = number | string;
 
 interface Props {
   templateId: string;
-  params: Record<string, number>;
-  onChange: (params: Record<string, number>) => void;
+  params: Record<string, ParamValue>;
+  onChange: (params: Record<string, ParamValue>) => void;
 }
 
 export function ParameterSliders({ templateId, params, onChange }: Props) {
   const meta = parameterMeta[templateId];
   if (!meta) return null;
 
-  const updateParam = (key: string, value: number) => {
+  const updateParam = (key: string, value: ParamValue) => {
     onChange({ ...params, [key]: value });
   };
 
   return (
     <div className="space-y-6">
-      {Object.entries(meta).map(([key, m]: [string, ParameterMetaEntry]) => (
-        <div key={key} className="space-y-3">
-          <div className="flex justify-between items-center font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
-            <span>{m.label}</span>
-            <span className="text-white">
-              {params[key] != null
-                ? Number.isInteger(m.step)
-                  ? params[key]
-                  : params[key].toFixed(2)
-                : m.min}
-            </span>
-          </div>
-          <input
-            type="range"
-            min={m.min}
-            max={m.max}
-            step={m.step}
-            value={params[key] ?? m.min}
-            onChange={(e) => updateParam(key, parseFloat(e.target.value))}
+      {Object.entries(meta).map(([key, m]) =>
+        "maxLength" in m ? (
+          <TextControl
+            key={key}
+            meta={m}
+            value={params[key]}
+            onChange={(value) => updateParam(key, value)}
+          />
+        ) : "options" in m ? (
+          <OptionControl
+            key={key}
+            meta={m}
+            value={params[key]}
+            onChange={(value) => updateParam(key, value)}
+          />
+        ) : (
+          <SliderControl
+            key={key}
+            meta={m}
+            value={params[key]}
+            onChange={(value) => updateParam(key, value)}
           />
-        </div>
-      ))}
+        )
+      )}
+    </div>
+  );
+}
+
+function SliderControl({
+  meta: m,
+  value,
+  onChange,
+}: {
+  meta: ParameterMetaEntry;
+  value: ParamValue | undefined;
+  onChange: (value: number) => void;
+}) {
+  const current = typeof value === "number" ? value : undefined;
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+        <span>{m.label}</span>
+        <span className="text-white">
+          {current != null
+            ? Number.isInteger(m.step)
+              ? current
+              : current.toFixed(2)
+            : m.min}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={m.min}
+        max={m.max}
+        step={m.step}
+        value={current ?? m.min}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+    </div>
+  );
+}
+
+function OptionControl({
+  meta: m,
+  value,
+  onChange,
+}: {
+  meta: ParameterOptionMetaEntry;
+  value: ParamValue | undefined;
+  onChange: (value: string) => void;
+}) {
+  const current = value ?? m.options[0];
+  return (
+    <div className="space-y-3">
+      <div className="font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+        {m.label}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {m.options.map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            className={cn(
+              "py-2 px-3 border font-mono text-xs uppercase tracking-widest transition-colors",
+              current === option
+                ? "border-[var(--accent)] text-[var(--accent)] bg-[var(--accent)]/5"
+                : "border-[var(--border)] text-[var(--text-dim)] hover:text-white"
+            )}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TextControl({
+  meta: m,
+  value,
+  onChange,
+}: {
+  meta: ParameterTextMetaEntry;
+  value: ParamValue | undefined;
+  onChange: (value: string) => void;
+}) {
+  const current = typeof value === "string" ? value : "";
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center font-mono text-xs uppercase tracking-widest text-[var(--text-dim)]">
+        <span>{m.label}</span>
+        <span>
+          {current.length}/{m.maxLength}
+        </span>
+      </div>
+      <Input
+        type="text"
+        maxLength={m.maxLength}
+        value={current}
+        onChange={(e) => onChange(e.target.value)}
+      />
     </div>
   );
 }
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import type { Effect, SvgTemplateId } from "@artmint/common";
+import type { SeedStats, SeedStatFilters } from "@artmint/render";
+import { Button } from "@/components/ui/button";
+
+interface SweepInput {
+  templateId: SvgTemplateId;
+  palette: string[];
+  params: unknown;
+  width: number;
+  height: number;
+  effects: Effect[];
+}
+
+interface Props {
+  input: SweepInput;
+  /** First seed to sweep from */
+  start: number;
+  onPick: (seed: number) => void;
+  onClose: () => void;
+}
+
+interface SweepTile {
+  seed: number;
+  stats: SeedStats;
+  thumbnail: string;
+}
+
+const PAGE_SIZE = 24;
+const MAX_SEED = 999999999;
+
+/** Range and label for each statistic the sweep API can filter on */
+const STATS: { name: keyof SeedStats; label: string; min: number; max: number }[] = [
+  { name: "coverage", label: "Coverage", min: 0, max: 1 },
+  { name: "luminance", label: "Luminance", min: 0, max: 1 },
+  { name: "warmth", label: "Cool / Warm", min: -1, max: 1 },
+  { name: "tint", label: "Magenta / Green", min: -1, max: 1 },
+];
+
+const fullRanges = Object.fromEntries(STATS.map(({ name, min, max }) => [name, [min, max]])) as Record<
+  keyof SeedStats,
+  [number, number]
+>;
+
+export function SeedExplorer({ input, start, onPick, onClose }: Props) {
+  const [ranges, setRanges] = useState(fullRanges);
+  const [tiles, setTiles] = useState<SweepTile[]>([]);
+  const [nextStart, setNextStart] = useState(start);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ranges left at their full extent filter nothing and are not sent
+  const filters: SeedStatFilters = Object.fromEntries(
+    STATS.filter(({ name, min, max }) => ranges[name][0] > min || ranges[name][1] < max).map(({ name }) => [
+      name,
+      ranges[name],
+    ])
+  );
+
+  const request = (from: number, format: "list" | "sheet") =>
+    fetch("/api/seed-sweep", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        ...input,
+        start: from,
+        count: Math.min(PAGE_SIZE, MAX_SEED - from + 1),
+        filters,
+        format,
+      }),
+    });
+
+  const sweep = async (from: number, append: boolean) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await request(from, "list");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Sweep failed");
+      setTiles(append ? [...tiles, ...data.tiles] : data.tiles);
+      setNextStart(data.nextStart);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sweep failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openContactSheet = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await request(start, "sheet");
+      if (!res.ok) throw new Error((await res.json()).error ?? "Sweep failed");
+      window.open(URL.createObjectURL(await res.blob()), "_blank");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sweep failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setBound = (name: keyof SeedStats, bound: 0 | 1, value: number) => {
+    const next: [number, number] = [...ranges[name]];
+    next[bound] = value;
+    if (next[0] <= next[1]) setRanges({ ...ranges, [name]: next });
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-6 overflow-hidden">
+      <div className="flex items-center justify-between">
+        <div className="font-mono text-[10px] text-[var(--accent)] uppercase tracking-widest">
+          Seed Explorer // from {start}
+        </div>
+        <button
+          onClick={onClose}
+          className="font-mono text-[10px] text-[var(--text-dim)] hover:text-[var(--accent)] uppercase tracking-widest"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-8 gap-y-3">
+        {STATS.map(({ name, label, min, max }) => (
+          <div key={name} className="space-y-1">
+            <div className="flex justify-between font-mono text-[10px] uppercase tracking-widest">
+              <span className="text-[var(--text-dim)]">{label}</span>
+              <span className="text-white">
+                {ranges[name][0].toFixed(2)} – {ranges[name][1].toFixed(2)}
+              </span>
+            </div>
+            {([0, 1] as const).map((bound) => (
+              <input
+                key={bound}
+                type="range"
+                min={min}
+                max={max}
+                step={0.01}
+                value={ranges[name][bound]}
+                onChange={(e) => setBound(name, bound, parseFloat(e.target.value))}
+                className="w-full"
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => sweep(start, false)} disabled={loading}>
+          {loading ? "Rendering..." : "Sweep"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => sweep(nextStart, true)}
+          disabled={loading || nextStart === start || nextStart > MAX_SEED}
+        >
+          Next page
+        </Button>
+        <Button size="sm" variant="outline" onClick={openContactSheet} disabled={loading}>
+          Contact sheet
+        </Button>
+      </div>
+      {error && <p className="font-mono text-[10px] text-[var(--danger)]">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto grid grid-cols-4 gap-2 content-start">
+        {tiles.map((tile) => (
+          <button
+            key={tile.seed}
+            onClick={() => onPick(tile.seed)}
+            title={STATS.map(({ name, label }) => `${label}: ${tile.stats[name].toFixed(2)}`).join("\n")}
+            className="border border-[var(--border)] hover:border-[var(--accent)] transition-colors"
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={tile.thumbnail} alt={`Seed ${tile.seed}`} className="w-full" />
+            <div className="font-mono text-[10px] text-[var(--text-dim)] py-1">{tile.seed}</div>
+          </button>
+        ))}
+        {!loading && tiles.length === 0 && nextStart !== start && (
+          <p className="col-span-4 font-mono text-[10px] text-[var(--text-dim)] uppercase tracking-widest">
+            No seeds matched. Try the next page or widen the ranges.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import type { SketchResponse } from "@artmint/ai";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { Sparkles, Undo2, X } from "lucide-react";
+
+interface SketchAssistantProps {
+  code: string;
+  seed: number;
+  palette: string[];
+  authenticated: boolean;
+  /** Replace the editor contents */
+  onApply: (code: string) => void;
+}
+
+/**
+ * Prompt bar for the Canvas JS editor: "Sketch" writes new code from the
+ * prompt, "Edit" changes the current code as the prompt asks. The server
+ * test-renders the result before it arrives, so it is applied straight
+ * away; the panel below shows what changed and can undo it.
+ */
+export function SketchAssistant({ code, seed, palette, authenticated, onApply }: SketchAssistantProps) {
+  const [prompt, setPrompt] = useState("");
+  const [loading, setLoading] = useState<"sketch" | "edit" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<(SketchResponse & { previous: string }) | null>(null);
+
+  const run = async (kind: "sketch" | "edit") => {
+    if (!prompt.trim() || loading) return;
+    setLoading(kind);
+    setError(null);
+    try {
+      const res = await fetch("/api/ai/sketch", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          prompt: prompt.trim(),
+          ...(kind === "edit" ? { code } : {}),
+          seed,
+          palette,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Generation failed");
+      setResult({ ...(data as SketchResponse), previous: code });
+      onApply(data.code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Generation failed");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const undo = () => {
+    if (!result) return;
+    onApply(result.previous);
+    setResult(null);
+  };
+
+  return (
+    <div className="border-b border-[#222]">
+      <form
+        className="flex items-center gap-2 px-4 py-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void run("edit");
+        }}
+      >
+        <Sparkles size={12} className="text-[var(--accent)] shrink-0" />
+        <Input
+          placeholder={authenticated ? "Describe a sketch, or how to change this one" : "Sign in to use AI"}
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          className="h-8 text-[11px]"
+          maxLength={500}
+          disabled={!authenticated || loading !== null}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={() => void run("sketch")}
+          disabled={!authenticated || !prompt.trim() || loading !== null}
+          title="Write a new sketch from the prompt"
+        >
+          {loading === "sketch" ? "Sketching..." : "Sketch"}
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          variant="outline"
+          className="h-8"
+          disabled={!authenticated || !prompt.trim() || loading !== null}
+          title="Change the current code as the prompt asks"
+        >
+          {loading === "edit" ? "Editing..." : "Edit"}
+        </Button>
+      </form>
+
+      {error && (
+        <div className="px-4 pb-2 font-mono text-[10px] text-[var(--danger)]">{error}</div>
+      )}
+
+      {result && (
+        <div className="px-4 pb-2">
+          <div className="flex items-center gap-3">
+            <span className="font-mono text-[10px] text-[var(--text-dim)] flex-1 truncate">
+              {result.summary || "Code updated"}
+            </span>
+            <button
+              onClick={undo}
+              className="font-mono text-[10px] uppercase tracking-widest text-[var(--text-dim)] hover:text-white flex items-center gap-1"
+              title="Restore the code from before this change"
+            >
+              <Undo2 size={10} /> Undo
+            </button>
+            <button onClick={() => setResult(null)} className="text-[var(--text-dim)] hover:text-white">
+              <X size={12} />
+            </button>
+          </div>
+          {result.diff && (
+            <pre className="mt-2 max-h-40 overflow-auto bg-black/40 border border-[#222] p-2 font-mono text-[10px] leading-relaxed">
+              {result.diff.split("\n").map((line, i) => (
+                <div
+                  key={i}
+                  className={cn(
+                    line.startsWith("+") && "text-[var(--success)]",
+                    line.startsWith("-") && "text-[var(--danger)]",
+                    line.startsWith("@@") && "text-[var(--accent)]",
+                    line.startsWith(" ") && "text-[var(--text-dim)]"
+                  )}
+                >
+                  {line || " "}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
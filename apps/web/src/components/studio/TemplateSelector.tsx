@@ -1,16 +1,21 @@
 "use client";
 
-import type { RenderableTemplateId } from "@artmint/common";
+import {
+  compositeTemplate,
+  renderableTemplateIds,
+  templateRegistry,
+  type SvgTemplateId,
+} from "@artmint/common";
 import { cn } from "@/lib/utils";
 
 interface Props {
-  value: RenderableTemplateId;
-  onChange: (id: RenderableTemplateId) => void;
+  value: SvgTemplateId;
+  onChange: (id: SvgTemplateId) => void;
 }
 
-const templates: { id: RenderableTemplateId; label: string }[] = [
-  { id: "flow_fields", label: "Flow // Structure" },
-  { id: "jazz_noir", label: "Noise // Topology" },
+const templates: { id: SvgTemplateId; label: string }[] = [
+  ...renderableTemplateIds.map((id) => ({ id, label: templateRegistry[id].label })),
+  { id: compositeTemplate.id, label: compositeTemplate.label },
 ];
 
 export function TemplateSelector({ value, onChange }: Props) {
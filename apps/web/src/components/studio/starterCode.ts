@@ -11,7 +11,7 @@ export const starterSvgCode = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="
   <line x1="980" y1="100" x2="100" y2="980" stroke="#16213e" stroke-width="1" opacity="0.5"/>
 
   <!-- Text -->
-  <text x="540" y="560" text-anchor="middle" font-family="monospace" font-size="24" fill="#f5f5f5" opacity="0.8">
+  <text x="540" y="560" text-anchor="middle" font-family="Source Code Pro, monospace" font-size="24" fill="#f5f5f5" opacity="0.8">
     ArtMint Custom Art
   </text>
 </svg>`;
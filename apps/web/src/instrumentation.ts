@@ -0,0 +1,10 @@
+/**
+ * Runs once when a server instance starts. Print jobs orphaned by a previous
+ * instance are recovered and the queue is drained in the background.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { processPrintJobs } = await import("./lib/print-jobs");
+  void processPrintJobs();
+}
@@ -0,0 +1,56 @@
+import { aiProviderIds, createAIProvider, type AIProvider, type AIProviderId } from "@artmint/ai";
+
+const DEFAULT_MODELS: Partial<Record<AIProviderId, string>> = {
+  anthropic: "claude-sonnet-4-20250514",
+  openai: "gpt-4o",
+  deepseek: "deepseek-chat",
+};
+
+function isProviderId(value: string): value is AIProviderId {
+  return (aiProviderIds as readonly string[]).includes(value);
+}
+
+/**
+ * Provider configured by AI_PROVIDER (default anthropic), AI_API_KEY and
+ * AI_MODEL. "openai-compatible" also reads AI_BASE_URL and
+ * AI_STRUCTURED_OUTPUT; "mock" needs nothing and reads AI_MOCK_SEED.
+ * Returns an error message when the configuration is incomplete.
+ */
+export function getAIProvider(): { provider: AIProvider } | { error: string } {
+  const id = process.env.AI_PROVIDER?.toLowerCase() ?? "anthropic";
+  if (!isProviderId(id)) {
+    return { error: `Unknown AI_PROVIDER "${id}"` };
+  }
+
+  if (id === "mock") {
+    const seed = parseInt(process.env.AI_MOCK_SEED ?? "0", 10);
+    return { provider: createAIProvider({ provider: "mock", seed: Number.isNaN(seed) ? 0 : seed }) };
+  }
+
+  const apiKey = process.env.AI_API_KEY;
+  const model = process.env.AI_MODEL ?? DEFAULT_MODELS[id];
+  if (!model) {
+    return { error: "AI_MODEL not configured" };
+  }
+
+  if (id === "openai-compatible") {
+    const baseUrl = process.env.AI_BASE_URL;
+    if (!baseUrl) {
+      return { error: "AI_BASE_URL not configured" };
+    }
+    return {
+      provider: createAIProvider({
+        provider: id,
+        baseUrl,
+        model,
+        apiKey,
+        structuredOutput: process.env.AI_STRUCTURED_OUTPUT === "true",
+      }),
+    };
+  }
+
+  if (!apiKey) {
+    return { error: "AI_API_KEY not configured" };
+  }
+  return { provider: createAIProvider({ provider: id, apiKey, model }) };
+}
@@ -0,0 +1,15 @@
+import type { CanonicalInputKind, VersionedCanonicalInput } from "@artmint/common";
+
+/** How galleries label a mint's origin */
+export type MintType = "ai" | "code" | "upload";
+
+const MINT_TYPES: Record<CanonicalInputKind, MintType> = {
+  generative: "ai",
+  custom_code: "code",
+  upload: "upload",
+};
+
+/** Gallery label for a parsed input; unreadable inputs are listed as AI mints */
+export function mintTypeOf(input: VersionedCanonicalInput | null): MintType {
+  return input ? MINT_TYPES[input.kind] : "ai";
+}
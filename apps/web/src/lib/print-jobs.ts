@@ -0,0 +1,177 @@
+import {
+  generateSVG,
+  renderCustomCodeSVG,
+  renderPrint,
+  printResolutions,
+  type PrintFormat,
+  type PrintResolution,
+} from "@artmint/render";
+import {
+  customCodeMode,
+  parseCanonicalInputJson,
+  type CustomCodeInput,
+  type GenerativeInput,
+} from "@artmint/common";
+import { prisma } from "./db";
+import { uploadFile } from "./storage";
+
+/** Print files are tagged at 300 dpi, so 8K prints about 65cm on the long edge */
+export const PRINT_DPI = 300;
+
+export type PrintJobStatus = "queued" | "rendering" | "ready" | "failed";
+
+/** SVG source for a mint, rendered the same way the mint routes rendered its image */
+export async function renderCanonicalSVG(input: GenerativeInput | CustomCodeInput): Promise<string> {
+  if (input.kind === "custom_code") {
+    const { code } = input.params;
+    // SVG-mode mints store the markup itself
+    if (customCodeMode(input.params) === "svg") return code;
+    return renderCustomCodeSVG({ code, seed: input.seed, palette: input.palette });
+  }
+  return generateSVG(input);
+}
+
+/** Client-facing view of a print job; wallet and mint are implied by the request */
+export function serializePrintJob(job: {
+  id: string;
+  status: string;
+  format: string;
+  resolution: string;
+  bleedMm: number;
+  fileUrl: string | null;
+  error: string | null;
+}) {
+  return {
+    id: job.id,
+    status: job.status as PrintJobStatus,
+    format: job.format as PrintFormat,
+    resolution: job.resolution as PrintResolution,
+    bleedMm: job.bleedMm,
+    fileUrl: job.fileUrl,
+    error: job.error,
+  };
+}
+
+/**
+ * A job still "rendering" this long after it was claimed lost its worker: the
+ * process crashed, was redeployed or hit its function timeout.
+ */
+export const PRINT_JOB_STALE_MS = 30 * 60_000;
+
+/** Renders started before a job is marked failed */
+export const PRINT_JOB_MAX_ATTEMPTS = 3;
+
+/**
+ * Return abandoned renders to the queue, or fail them once they have used up
+ * their attempts. Safe to run from any instance: only jobs past the stale
+ * timeout are touched, never renders another worker is still running.
+ */
+export async function recoverStalePrintJobs(): Promise<number> {
+  const stale = { status: "rendering", updatedAt: { lt: new Date(Date.now() - PRINT_JOB_STALE_MS) } };
+  const failed = await prisma.printJob.updateMany({
+    where: { ...stale, attempts: { gte: PRINT_JOB_MAX_ATTEMPTS } },
+    data: { status: "failed", error: "Print render timed out" },
+  });
+  const requeued = await prisma.printJob.updateMany({
+    where: stale,
+    data: { status: "queued" },
+  });
+  return failed.count + requeued.count;
+}
+
+/**
+ * Take the queued job that has waited longest since it was queued or last
+ * failed. The claim only succeeds while the row is still queued, so two
+ * workers never render the same job; updatedAt records when the render
+ * started. Resolves with the job and its attempt number.
+ */
+async function claimPrintJob(): Promise<{ id: string; attempt: number } | null> {
+  for (;;) {
+    const next = await prisma.printJob.findFirst({
+      where: { status: "queued" },
+      orderBy: { updatedAt: "asc" },
+      select: { id: true, attempts: true },
+    });
+    if (!next) return null;
+
+    const { count } = await prisma.printJob.updateMany({
+      where: { id: next.id, status: "queued" },
+      data: { status: "rendering", attempts: { increment: 1 } },
+    });
+    if (count === 1) return { id: next.id, attempt: next.attempts + 1 };
+  }
+}
+
+async function runPrintJob(id: string, attempt: number): Promise<void> {
+  // Only storage and database failures are worth another try; a render
+  // that failed (bad source, sandbox timeout, resvg error) fails the same way again
+  let transient = true;
+  try {
+    const job = await prisma.printJob.findUniqueOrThrow({
+      where: { id },
+      include: { mint: { select: { inputJson: true } } },
+    });
+
+    transient = false;
+    const input = parseCanonicalInputJson(job.mint.inputJson);
+    if (!input || input.kind === "upload") throw new Error("Mint has no generative source");
+    const svg = await renderCanonicalSVG(input);
+    const file = await renderPrint(svg, {
+      format: job.format as PrintFormat,
+      size: printResolutions[job.resolution as PrintResolution],
+      dpi: PRINT_DPI,
+      bleedMm: job.bleedMm,
+    });
+
+    transient = true;
+    const { url } = await uploadFile(
+      file.data,
+      `print-${job.mintAddress}-${job.resolution}-${job.id}.${file.extension}`,
+      file.contentType
+    );
+
+    await prisma.printJob.update({
+      where: { id },
+      data: { status: "ready", fileUrl: url, error: null },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`Print job ${id} failed:`, message);
+    // Re-queueing refreshes updatedAt, so the retry waits behind every job
+    // already in the queue
+    const status = transient && attempt < PRINT_JOB_MAX_ATTEMPTS ? "queued" : "failed";
+    await prisma.printJob
+      .update({ where: { id }, data: { status, error: message } })
+      .catch((updateErr: unknown) => console.error(`Failed to record print job ${id} failure:`, updateErr));
+  }
+}
+
+// Renders are CPU- and memory-heavy, so each server drains the queue one job
+// at a time; concurrent calls share the running drain
+let draining: Promise<number> | null = null;
+
+/**
+ * Render queued print jobs until none are left, after recovering abandoned
+ * ones. Jobs live in the database, so whichever instance runs this (the
+ * request that queued a job, the cron worker, or a server starting up) picks
+ * up work that other instances queued or dropped. Resolves with the number of
+ * jobs rendered; never rejects.
+ */
+export function processPrintJobs(): Promise<number> {
+  draining ??= (async () => {
+    let rendered = 0;
+    try {
+      await recoverStalePrintJobs();
+      for (let job = await claimPrintJob(); job; job = await claimPrintJob()) {
+        await runPrintJob(job.id, job.attempt);
+        rendered++;
+      }
+    } catch (err) {
+      console.error("Print worker error:", err instanceof Error ? err.message : err);
+    } finally {
+      draining = null;
+    }
+    return rendered;
+  })();
+  return draining;
+}
@@ -123,3 +123,21 @@ export async function getQuotaInfo(
     resetAt,
   };
 }
+
+/**
+ * Hand back a unit charged by checkAndIncrementQuota, for work reserved up
+ * front that delivered nothing. Refunds the day the charge was made, taken
+ * from its quota info, and never takes a counter below zero.
+ */
+export async function refundQuota(
+  wallet: string,
+  action: string,
+  charged: QuotaInfo
+): Promise<void> {
+  const date = new Date(Date.parse(charged.resetAt) - 24 * 60 * 60_000).toISOString().slice(0, 10);
+
+  await prisma.usageCounter.updateMany({
+    where: { date, userWallet: wallet, action, count: { gt: 0 } },
+    data: { count: { decrement: 1 } },
+  });
+}
@@ -0,0 +1,143 @@
+import {
+  computeHash,
+  resolveCanvasDimensions,
+  type Effect,
+  type SvgTemplateId,
+} from "@artmint/common";
+import {
+  RENDERER_VERSION,
+  createRasterPool,
+  generateSVG,
+  type RasterPool,
+} from "@artmint/render";
+import { readFile, uploadFile } from "./storage";
+
+export type RenderFormat = "svg" | "png";
+
+export interface RenderRequest {
+  templateId: SvgTemplateId;
+  seed: number;
+  palette: string[];
+  params: Record<string, unknown>;
+  width?: number;
+  height?: number;
+  effects?: Effect[];
+  format: RenderFormat;
+  /** Long edge in pixels; only affects PNG */
+  size: number;
+}
+
+export const RENDER_CONTENT_TYPES: Record<RenderFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+};
+
+/** In-process cache budget; SVGs are tens of KB, PNGs up to a few MB */
+const MEMORY_CACHE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Content address of a render. Inputs that produce the same bytes share a
+ * key: omitted canvas dimensions resolve to their defaults, an empty effect
+ * chain equals none, and SVG keys ignore size.
+ */
+export function renderCacheKey(req: RenderRequest): string {
+  const { width, height } = resolveCanvasDimensions(req);
+  return computeHash({
+    rendererVersion: RENDERER_VERSION,
+    templateId: req.templateId,
+    seed: req.seed,
+    palette: req.palette,
+    params: req.params,
+    width,
+    height,
+    effects: req.effects?.length ? req.effects : null,
+    format: req.format,
+    size: req.format === "png" ? req.size : null,
+  });
+}
+
+/** Least-recently-used map bounded by total buffer size */
+const memory = new Map<string, Buffer>();
+let memoryBytes = 0;
+
+function remember(key: string, data: Buffer): void {
+  if (data.length > MEMORY_CACHE_BYTES) return;
+  const existing = memory.get(key);
+  if (existing) {
+    memory.delete(key);
+    memoryBytes -= existing.length;
+  }
+  memory.set(key, data);
+  memoryBytes += data.length;
+  for (const [oldest, evicted] of memory) {
+    if (memoryBytes <= MEMORY_CACHE_BYTES) break;
+    memory.delete(oldest);
+    memoryBytes -= evicted.length;
+  }
+}
+
+/** A render already held in this process, if any */
+export function cachedRender(key: string): Buffer | null {
+  const data = memory.get(key);
+  if (!data) return null;
+  // Re-insert to mark as most recently used
+  memory.delete(key);
+  memory.set(key, data);
+  return data;
+}
+
+function storedFilename(key: string, format: RenderFormat): string {
+  return `render-${key}.${format}`;
+}
+
+/** Storage errors count as a miss so a flaky store never fails a render */
+async function readStored(key: string, format: RenderFormat): Promise<Buffer | null> {
+  try {
+    return await readFile(storedFilename(key, format));
+  } catch (err) {
+    console.error(`Render cache read failed for ${key}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+let pool: RasterPool | null = null;
+
+/** Worker pool shared by every server-side rasterisation, started on first use */
+export function getRasterPool(): RasterPool {
+  return (pool ??= createRasterPool());
+}
+
+const inFlight = new Map<string, Promise<Buffer>>();
+
+async function loadOrRender(key: string, req: RenderRequest): Promise<Buffer> {
+  const stored = await readStored(key, req.format);
+  if (stored) {
+    remember(key, stored);
+    return stored;
+  }
+
+  const { templateId, seed, palette, params, width, height, effects, format, size } = req;
+  const svg = generateSVG({ templateId, seed, palette, params, width, height, effects });
+  const data = format === "png" ? await getRasterPool().render(svg, size) : Buffer.from(svg);
+
+  remember(key, data);
+  // Persist in the background; the response doesn't wait on storage
+  uploadFile(data, storedFilename(key, format), RENDER_CONTENT_TYPES[format]).catch((err: unknown) => {
+    console.error(`Render cache write failed for ${key}:`, err instanceof Error ? err.message : err);
+  });
+  return data;
+}
+
+/**
+ * Fetch a render from storage, or render and cache it. Concurrent requests
+ * for the same key share one render; PNG rasterisation runs on a worker pool
+ * so it doesn't block the event loop.
+ */
+export function renderToCache(key: string, req: RenderRequest): Promise<Buffer> {
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = loadOrRender(key, req).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
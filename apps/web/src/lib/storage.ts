@@ -1,6 +1,6 @@
-import { writeFileSync, mkdirSync, existsSync, unlinkSync } from "fs";
+import { writeFileSync, readFileSync, mkdirSync, existsSync, unlinkSync } from "fs";
 import { join, resolve } from "path";
-import { put, del } from "@vercel/blob";
+import { put, del, head, BlobNotFoundError } from "@vercel/blob";
 import { sanitizeFilename } from "@/lib/filename";
 import { getBlobReadWriteToken } from "./blob";
 
@@ -207,6 +207,52 @@ export async function uploadFile(
   );
 }
 
+/**
+ * Read back a file previously stored with uploadFile, by the filename it was
+ * uploaded under. Returns null when no such file exists.
+ */
+export async function readFile(filename: string): Promise<Buffer | null> {
+  const provider = process.env.STORAGE_PROVIDER ?? "local";
+  const safeFilename = sanitizeFilename(filename);
+  if (!safeFilename) {
+    throw new Error("Invalid filename");
+  }
+
+  if (provider === "vercel-blob") {
+    const token = getBlobReadWriteToken();
+    let blobUrl: string;
+    try {
+      blobUrl = (await head(safeFilename, token ? { token } : undefined)).url;
+    } catch (err) {
+      if (err instanceof BlobNotFoundError) return null;
+      throw err;
+    }
+
+    // Private stores need the token; public ones ignore it
+    const response = await fetch(blobUrl, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (!response.ok) {
+      throw new Error(`Blob fetch failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  if (provider === "local") {
+    const filePath = resolve(STORAGE_DIR, safeFilename);
+    if (!filePath.startsWith(getUploadsRoot())) {
+      throw new Error("Invalid file path");
+    }
+    if (!existsSync(filePath)) return null;
+    return readFileSync(filePath);
+  }
+
+  throw new Error(
+    `Storage provider "${provider}" is not implemented. ` +
+    `Set STORAGE_PROVIDER=local for development, or STORAGE_PROVIDER=vercel-blob for production.`
+  );
+}
+
 export async function deleteFile(url: string): Promise<void> {
   const provider = process.env.STORAGE_PROVIDER ?? "local";
 
@@ -1,36 +1,6 @@
-export interface UploadProvenance {
-  kind: "upload";
-  createdAt: string;
-  appVersion?: string;
-  rendererVersion?: string | null;
-  original: {
-    sha256: string;
-    filename: string;
-    mime: string;
-    bytes: number;
-    width: number;
-    height: number;
-    url: string;
-  };
-  mint: {
-    mime: string;
-    bytes: number;
-    width: number;
-    height: number;
-    format: "webp" | "png";
-    quality: number | null;
-    fit: "contain" | "cover";
-    maxSide: number;
-    url: string;
-  };
-  thumbnail: {
-    mime: string;
-    bytes: number;
-    width: number;
-    height: number;
-    url: string;
-  };
-}
+import type { UploadProvenance } from "@artmint/common";
+
+export type { UploadProvenance };
 
 export interface UploadMetadataOptions {
   name: string;
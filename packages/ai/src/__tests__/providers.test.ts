@@ -0,0 +1,58 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { generateVariations } from "../generate";
+import { createAIProvider } from "../providers";
+import { createMockProvider } from "../mock";
+
+describe("createMockProvider", () => {
+  it("returns the requested number of valid variations", async () => {
+    const { variations } = await generateVariations(createMockProvider(), { prompt: "neon rain", count: 10 });
+    expect(variations).toHaveLength(10);
+  });
+
+  it("is deterministic for a seed and prompt", async () => {
+    const request = { prompt: "tidal glass", templateId: "typography" as const, count: 3 };
+    const first = await generateVariations(createMockProvider({ seed: 7 }), request);
+    const again = await generateVariations(createMockProvider({ seed: 7 }), request);
+    const reseeded = await generateVariations(createMockProvider({ seed: 8 }), request);
+    expect(again).toEqual(first);
+    expect(reseeded).not.toEqual(first);
+    for (const variation of first.variations) {
+      expect(variation.templateId).toBe("typography");
+      expect((variation.params as { text: string }).text).toMatch(/^(tidal|glass)( (tidal|glass))*$/);
+    }
+  });
+});
+
+describe("createAIProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("posts to an OpenAI-compatible base URL without a key", async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ choices: [{ message: { content: '{"variations":[]}' } }] }))
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createAIProvider({
+      provider: "openai-compatible",
+      baseUrl: "http://localhost:11434/v1/",
+      model: "llama3.1",
+    });
+    const text = await provider.complete({ system: "s", user: "u", schema: { type: "object" } });
+
+    expect(text).toBe('{"variations":[]}');
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(new Headers(init.headers).has("authorization")).toBe(false);
+    expect(JSON.parse(init.body as string)).not.toHaveProperty("response_format");
+  });
+
+  it("reports the provider in API errors", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("nope", { status: 401 })));
+    const provider = createAIProvider({ provider: "deepseek", apiKey: "k", model: "deepseek-chat" });
+    await expect(provider.complete({ system: "s", user: "u", schema: {} })).rejects.toThrow(
+      "DeepSeek API error (401): nope"
+    );
+  });
+});
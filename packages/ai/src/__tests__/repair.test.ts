@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+import { defaultFlowFieldsParams, defaultJazzNoirParams } from "@artmint/common";
+import { salvageVariation } from "../repair";
+import { generateVariations } from "../generate";
+import type { AIProvider } from "../providers";
+
+const flow = {
+  templateId: "flow_fields",
+  seed: 12,
+  palette: ["#0a0a0f", "#ff6b35", "#00d4ff"],
+  params: { ...defaultFlowFieldsParams },
+};
+
+describe("salvageVariation", () => {
+  it("keeps a valid variation without repairs", () => {
+    const result = salvageVariation(flow);
+    expect(result).toMatchObject({ ok: true, repairs: [] });
+  });
+
+  it("clamps, rounds and fills params", () => {
+    const result = salvageVariation({
+      ...flow,
+      templateId: "jazz_noir",
+      params: { neonIntensity: 3, skylineBands: 4.6, glow: "bright" },
+    });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.variation.params).toEqual({
+      ...defaultJazzNoirParams,
+      neonIntensity: 1,
+      skylineBands: 5,
+      noiseType: undefined,
+      octaves: undefined,
+    });
+    expect(result.repairs).toContainEqual({ path: "params.neonIntensity", action: "clamped", from: 3, to: 1 });
+    expect(result.repairs).toContainEqual({ path: "params.skylineBands", action: "rounded", from: 4.6, to: 5 });
+    expect(result.repairs).toContainEqual({
+      path: "params.glow",
+      action: "defaulted",
+      from: "bright",
+      to: defaultJazzNoirParams.glow,
+    });
+    expect(result.repairs).toContainEqual({ path: "params.depth", action: "defaulted", to: defaultJazzNoirParams.depth });
+  });
+
+  it("normalizes malformed hex colors", () => {
+    const result = salvageVariation({ ...flow, palette: ["0A0A0F", "#f63", "#00d4ff"] });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.variation.palette).toEqual(["#0a0a0f", "#ff6633", "#00d4ff"]);
+    expect(result.repairs.map((r) => r.action)).toEqual(["normalized"]);
+  });
+
+  it("rejects what cannot be recovered", () => {
+    expect(salvageVariation({ ...flow, templateId: "watercolor" })).toMatchObject({ ok: false });
+    expect(salvageVariation({ ...flow, seed: "twelve" })).toMatchObject({ ok: false });
+    expect(salvageVariation({ ...flow, palette: ["red"] })).toMatchObject({ ok: false });
+  });
+});
+
+describe("generateVariations", () => {
+  it("salvages a partial batch and retries only for the missing count", async () => {
+    const complete = vi
+      .fn<AIProvider["complete"]>()
+      .mockResolvedValueOnce(
+        JSON.stringify({
+          variations: [
+            flow,
+            { ...flow, seed: 13, params: { ...flow.params, lineCount: 900 } },
+            { ...flow, templateId: "unknown" },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(JSON.stringify({ variations: [{ ...flow, seed: 14 }] }));
+
+    const { variations, repairs } = await generateVariations({ name: "Scripted", complete }, { prompt: "x", count: 3 });
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1]![0].user).toMatch(/^Generate 1 creative variations/);
+    expect(variations.map((v) => v.seed)).toEqual([12, 13, 14]);
+    expect(repairs[1]).toEqual([{ path: "params.lineCount", action: "clamped", from: 900, to: 500 }]);
+  });
+});
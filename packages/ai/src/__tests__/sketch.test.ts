@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+import { generateSketch, SketchValidationError } from "../sketch";
+import { unifiedDiff } from "../diff";
+import { createMockProvider } from "../mock";
+import type { AICompletionRequest, AIProvider } from "../providers";
+
+function scripted(...responses: string[]): AIProvider & { requests: AICompletionRequest[] } {
+  const requests: AICompletionRequest[] = [];
+  return {
+    name: "Scripted",
+    requests,
+    async complete(request) {
+      requests.push(request);
+      return responses[requests.length - 1] ?? "";
+    },
+  };
+}
+
+const passes = async () => null;
+
+describe("unifiedDiff", () => {
+  it("groups changes into hunks with context", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n");
+    const after = ["a", "B", "c", "d", "e", "f", "g", "h", "i", "j", "k"].join("\n");
+    expect(unifiedDiff(before, after, 1)).toBe(
+      ["@@ -1,3 +1,3 @@", " a", "-b", "+B", " c", "@@ -10,1 +10,2 @@", " j", "+k"].join("\n")
+    );
+    expect(unifiedDiff(before, after, 5)).toMatch(/^@@ -1,10 \+1,11 @@\n/);
+    expect(unifiedDiff(before, before)).toBe("");
+  });
+});
+
+describe("generateSketch", () => {
+  it("writes a sketch with the mock provider", async () => {
+    const validate = vi.fn(passes);
+    const result = await generateSketch(createMockProvider({ seed: 3 }), { prompt: "coral reef" }, validate);
+    expect(result.code).toContain("// Mock sketch: coral reef");
+    expect(result.diff).toBeUndefined();
+    expect(validate).toHaveBeenCalledWith(result.code);
+  });
+
+  it("returns a diff for edits", async () => {
+    const provider = scripted(JSON.stringify({ code: "ctx.fillRect(0, 0, 20, 20);", summary: "Bigger square" }));
+    const result = await generateSketch(provider, { prompt: "make it bigger", code: "ctx.fillRect(0, 0, 10, 10);" }, passes);
+    expect(result).toEqual({
+      code: "ctx.fillRect(0, 0, 20, 20);",
+      summary: "Bigger square",
+      diff: "@@ -1,1 +1,1 @@\n-ctx.fillRect(0, 0, 10, 10);\n+ctx.fillRect(0, 0, 20, 20);",
+    });
+    expect(provider.requests[0]!.user).toContain("ctx.fillRect(0, 0, 10, 10);");
+  });
+
+  it("feeds a rejection back for one retry", async () => {
+    const provider = scripted(
+      JSON.stringify({ code: "ctx.fillRect(Math.random() * WIDTH, 0, 9, 9);", summary: "" }),
+      "```js\nctx.fillRect(random() * WIDTH, 0, 9, 9);\n```"
+    );
+    const result = await generateSketch(provider, { prompt: "a square" }, passes);
+    expect(result.code).toBe("ctx.fillRect(random() * WIDTH, 0, 9, 9);");
+    expect(provider.requests[1]!.user).toContain("rejected: the code uses Math.random");
+  });
+
+  it("throws when every attempt fails validation", async () => {
+    const provider = createMockProvider();
+    const validate = vi.fn(async () => "Custom code did not draw anything");
+    await expect(generateSketch(provider, { prompt: "void" }, validate)).rejects.toThrow(SketchValidationError);
+    expect(validate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+import { createVariationArrayParser } from "../stream-parser";
+import { streamVariations } from "../generate";
+import type { AICompletionRequest, AIProvider } from "../providers";
+
+const flow = {
+  templateId: "flow_fields",
+  seed: 12,
+  palette: ["#0a0a0f", "#ff6b35", "#00d4ff"],
+  params: defaultFlowFieldsParams,
+};
+
+describe("createVariationArrayParser", () => {
+  it("emits each element as it closes, whatever the chunking", () => {
+    const text = `Here you go:\n\`\`\`json\n${JSON.stringify({
+      variations: [{ ...flow, title: 'a "quoted" } brace' }, { ...flow, seed: 13 }],
+    })}\n\`\`\``;
+    for (const size of [1, 5, text.length]) {
+      const parser = createVariationArrayParser();
+      const seen: unknown[][] = [];
+      for (let i = 0; i < text.length; i += size) seen.push(parser.push(text.slice(i, i + size)));
+      expect(seen.flat().map((v) => (v as { seed: number }).seed)).toEqual([12, 13]);
+      if (size === 1) expect(seen.filter((batch) => batch.length > 0)).toHaveLength(2);
+    }
+  });
+});
+
+describe("streamVariations", () => {
+  it("yields a variation before the response has finished", async () => {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    let requested: AICompletionRequest | undefined;
+    const provider: AIProvider = {
+      name: "Scripted",
+      complete: async () => "",
+      async *stream(request) {
+        requested = request;
+        yield `{"variations":[${JSON.stringify(flow)},`;
+        await held;
+        yield `${JSON.stringify({ ...flow, seed: 13 })}]}`;
+      },
+    };
+
+    const controller = new AbortController();
+    const stream = streamVariations(provider, { prompt: "x", count: 2, signal: controller.signal });
+    const first = await stream.next();
+    expect(first.value).toMatchObject({ variation: { seed: 12 }, repairs: [] });
+    expect(requested?.signal).toBe(controller.signal);
+
+    release();
+    const second = await stream.next();
+    expect(second.value).toMatchObject({ variation: { seed: 13 } });
+    expect((await stream.next()).done).toBe(true);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { variationResponseSchema } from "../validation";
+import { variationResponseSchema, variationResponseJsonSchema, repairVariationPalettes } from "../validation";
+import { buildSystemPrompt } from "../prompts";
 
 describe("variationResponseSchema", () => {
   it("validates a correct flow_fields variation", () => {
@@ -53,6 +54,30 @@ describe("variationResponseSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("validates a correct geo_tiling variation", () => {
+    const data = {
+      variations: [
+        {
+          templateId: "geo_tiling",
+          seed: 2024,
+          palette: ["#f5f1e8", "#1a1a2e", "#e94560"],
+          params: {
+            pattern: "truchet",
+            packingDensity: 0.7,
+            minRadius: 8,
+            maxRadius: 90,
+            subdivisionDepth: 5,
+            strokeRatio: 0.5,
+            strokeWidth: 3,
+            paletteWeighting: 0.2,
+          },
+        },
+      ],
+    };
+    const result = variationResponseSchema.safeParse(data);
+    expect(result.success).toBe(true);
+  });
+
   it("rejects invalid templateId", () => {
     const data = {
       variations: [
@@ -116,4 +141,46 @@ describe("variationResponseSchema", () => {
     const result = variationResponseSchema.safeParse(data);
     expect(result.success).toBe(false);
   });
+
+  it("accepts sloppy palettes once repaired", () => {
+    const data = {
+      variations: [
+        {
+          templateId: "flow_fields",
+          seed: 1,
+          palette: ["111", "FF6B35", "#ff6b35", "#00D4FF"],
+          params: {
+            density: 0.5,
+            lineWidth: 2,
+            curvature: 3,
+            grain: 0.2,
+            contrast: 1,
+            fieldScale: 2,
+            lineCount: 200,
+            stepCount: 80,
+            turbulence: 0.5,
+          },
+        },
+      ],
+    };
+    expect(variationResponseSchema.safeParse(data).success).toBe(false);
+    const result = variationResponseSchema.safeParse(repairVariationPalettes(data));
+    expect(result.success).toBe(true);
+    expect(result.data?.variations[0]!.palette).toEqual(["#111111", "#ff6b35", "#00d4ff"]);
+  });
+});
+
+describe("variationResponseJsonSchema", () => {
+  it("narrows variations to a requested template", () => {
+    const items = variationResponseJsonSchema({ templateId: "jazz_noir" }).properties?.variations?.items;
+    expect(items?.anyOf).toHaveLength(1);
+    expect(items?.anyOf?.[0]?.properties?.templateId).toEqual({ const: "jazz_noir" });
+  });
+
+  it("drives the ranges quoted in the system prompt", () => {
+    const params = variationResponseJsonSchema({ templateId: "flow_fields" }).properties?.variations?.items?.anyOf?.[0]?.properties
+      ?.params?.properties;
+    const { minimum, maximum } = params?.lineCount ?? {};
+    expect(buildSystemPrompt(false)).toContain(`- lineCount: integer ${minimum}-${maximum} (line count)`);
+  });
 });
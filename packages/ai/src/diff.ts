@@ -0,0 +1,117 @@
+/** One line of a line diff: kept, removed from the old text or added in the new */
+export interface DiffLine {
+  type: "context" | "removed" | "added";
+  text: string;
+}
+
+/** Beyond this many comparisons the LCS table is skipped and the middle is replaced wholesale */
+const MAX_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+/**
+ * Line diff of two texts via the longest common subsequence. The common
+ * prefix and suffix are trimmed first, so an edit to a large sketch only
+ * pays for the region that changed.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: "context", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  let i = 0;
+  let j = 0;
+
+  if (n * m <= MAX_CELLS) {
+    // lengths[i * width + j] is the LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let x = n - 1; x >= 0; x--) {
+      for (let y = m - 1; y >= 0; y--) {
+        lengths[x * width + y] =
+          midA[x] === midB[y]
+            ? lengths[(x + 1) * width + y + 1]! + 1
+            : Math.max(lengths[(x + 1) * width + y]!, lengths[x * width + y + 1]!);
+      }
+    }
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        lines.push({ type: "context", text: midA[i++]! });
+        j++;
+      } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+        lines.push({ type: "removed", text: midA[i++]! });
+      } else {
+        lines.push({ type: "added", text: midB[j++]! });
+      }
+    }
+  }
+  while (i < n) lines.push({ type: "removed", text: midA[i++]! });
+  while (j < m) lines.push({ type: "added", text: midB[j++]! });
+
+  for (const text of a.slice(endA)) lines.push({ type: "context", text });
+  return lines;
+}
+
+const PREFIX: Record<DiffLine["type"], string> = { context: " ", removed: "-", added: "+" };
+
+/**
+ * Unified diff hunks (`@@ -1,4 +1,5 @@` headers, no file headers) with
+ * `context` unchanged lines around each change. Empty when the texts have
+ * the same lines.
+ */
+export function unifiedDiff(before: string, after: string, context = 3): string {
+  const lines = diffLines(before, after);
+  // 1-based line numbers each diff line starts at in the old and new text
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const { type } of lines) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (type !== "added") oldLine++;
+    if (type !== "removed") newLine++;
+  }
+
+  const hunks: string[] = [];
+  let index = 0;
+  for (;;) {
+    let first = index;
+    while (first < lines.length && lines[first]!.type === "context") first++;
+    if (first === lines.length) break;
+
+    // Changes separated by at most twice the context share a hunk
+    let last = first;
+    for (let k = first + 1; k < lines.length && k - last <= 2 * context; k++) {
+      if (lines[k]!.type !== "context") last = k;
+    }
+    const start = Math.max(index, first - context);
+    const end = Math.min(lines.length, last + context + 1);
+    const body = lines.slice(start, end);
+    const oldCount = body.filter((line) => line.type !== "added").length;
+    const newCount = body.filter((line) => line.type !== "removed").length;
+    // An empty side is numbered by the line before it, as diff -u does
+    const oldStart = oldCount === 0 ? oldAt[start]! - 1 : oldAt[start]!;
+    const newStart = newCount === 0 ? newAt[start]! - 1 : newAt[start]!;
+    hunks.push(
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+      ...body.map((line) => PREFIX[line.type] + line.text)
+    );
+    index = end;
+  }
+  return hunks.join("\n");
+}
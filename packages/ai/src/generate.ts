@@ -1,6 +1,9 @@
-import type { Variation, TemplateId } from "@artmint/common";
-import { variationResponseSchema } from "./validation";
+import { isRenderableTemplateId, type Variation, type TemplateId } from "@artmint/common";
+import { variationResponseJsonSchema } from "./validation";
+import { salvageVariation, type VariationRepair } from "./repair";
 import { buildSystemPrompt, buildUserPrompt } from "./prompts";
+import { createVariationArrayParser } from "./stream-parser";
+import type { AICompletionRequest, AIProvider } from "./providers";
 
 export interface VariationRequest {
   prompt: string;
@@ -8,152 +11,89 @@ export interface VariationRequest {
   templateId?: TemplateId;
   baseParams?: Record<string, unknown>;
   count?: number;
+  /** Aborts the upstream call */
+  signal?: AbortSignal;
 }
 
 export interface VariationResponse {
   variations: Variation[];
+  /** What was adjusted in each variation, index-aligned with `variations`; empty when kept as returned */
+  repairs: VariationRepair[][];
 }
 
-interface AIConfig {
-  provider: "openai" | "anthropic" | "deepseek";
-  apiKey: string;
-  model: string;
+/** A variation that passed validation, with what was adjusted to get it there */
+export interface SalvagedVariation {
+  variation: Variation;
+  repairs: VariationRepair[];
 }
 
-async function callAI(
-  config: AIConfig,
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  if (config.provider === "anthropic") {
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        "x-api-key": config.apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model: config.model,
-        max_tokens: 8192,
-        system: systemPrompt,
-        messages: [{ role: "user", content: userPrompt }],
-      }),
-    });
-
-    if (!response.ok) {
-      const err = await response.text();
-      throw new Error(`Anthropic API error (${response.status}): ${err}`);
-    }
+/** Provider calls per request: the first, plus one retry for the variations that could not be salvaged */
+const MAX_ATTEMPTS = 2;
 
-    const data = (await response.json()) as {
-      content: Array<{ type: string; text?: string }>;
-    };
-    const textBlock = data.content.find((b) => b.type === "text");
-    if (!textBlock?.text) {
-      throw new Error("No text in Anthropic response");
-    }
-    return textBlock.text;
+/** The provider's response text, streamed when the provider supports it */
+async function* responseText(provider: AIProvider, request: AICompletionRequest): AsyncIterable<string> {
+  if (provider.stream) {
+    yield* provider.stream(request);
+  } else {
+    yield await provider.complete(request);
   }
+}
 
-  // OpenAI-compatible (OpenAI, DeepSeek, etc.)
-  const baseUrl = config.provider === "deepseek"
-    ? "https://api.deepseek.com"
-    : "https://api.openai.com";
-  const response = await fetch(`${baseUrl}/v1/chat/completions`, {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${config.apiKey}`,
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      max_tokens: 8192,
-      temperature: 0.9,
-    }),
-  });
+/**
+ * Yield variations as soon as each one is parsed out of the response and
+ * salvaged, then retry once for however many are still missing. Aborting
+ * `request.signal` cancels the upstream call. Throws if nothing at all
+ * could be salvaged.
+ */
+export async function* streamVariations(
+  provider: AIProvider,
+  request: VariationRequest
+): AsyncGenerator<SalvagedVariation> {
+  const count = request.count ?? 12;
+  const templateId =
+    request.templateId && isRenderableTemplateId(request.templateId) ? request.templateId : undefined;
+  let delivered = 0;
+  let lastError = "response contained no variations";
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && delivered < count; attempt++) {
+    const missing = count - delivered;
+    const parser = createVariationArrayParser();
+    const text = responseText(provider, {
+      system: buildSystemPrompt(attempt > 0),
+      user: buildUserPrompt(request.prompt, missing, request.templateId, request.preset, request.baseParams),
+      schema: variationResponseJsonSchema({ templateId, count: missing }),
+      signal: request.signal,
+    });
 
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API error (${response.status}): ${err}`);
+    for await (const chunk of text) {
+      // Each variation stands on its own, so one bad entry no longer sinks the batch
+      for (const raw of parser.push(chunk)) {
+        const result = salvageVariation(raw);
+        if (!result.ok) {
+          lastError = result.error;
+          continue;
+        }
+        delivered++;
+        yield { variation: result.variation, repairs: result.repairs };
+        if (delivered === count) return;
+      }
+    }
   }
 
-  const data = (await response.json()) as {
-    choices: Array<{ message: { content: string } }>;
-  };
-  return data.choices[0]?.message?.content ?? "";
-}
-
-function extractJSON(text: string): string {
-  // Try to find JSON in the response (handle markdown code fences)
-  const fenceMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (fenceMatch?.[1]) {
-    return fenceMatch[1].trim();
-  }
-  // Try to find { ... } directly
-  const braceStart = text.indexOf("{");
-  const braceEnd = text.lastIndexOf("}");
-  if (braceStart !== -1 && braceEnd > braceStart) {
-    return text.slice(braceStart, braceEnd + 1);
+  if (delivered === 0) {
+    throw new Error(`AI output failed validation after retry: ${lastError}`);
   }
-  return text.trim();
 }
 
 export async function generateVariations(
-  config: AIConfig,
+  provider: AIProvider,
   request: VariationRequest
 ): Promise<VariationResponse> {
-  const count = request.count ?? 12;
-  const userPrompt = buildUserPrompt(
-    request.prompt,
-    count,
-    request.templateId,
-    request.preset,
-    request.baseParams
-  );
-
-  // First attempt
-  let systemPrompt = buildSystemPrompt(false);
-  let rawText = await callAI(config, systemPrompt, userPrompt);
-  let jsonStr = extractJSON(rawText);
-
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(jsonStr);
-  } catch {
-    // Retry with strict prompt
-    systemPrompt = buildSystemPrompt(true);
-    rawText = await callAI(config, systemPrompt, userPrompt);
-    jsonStr = extractJSON(rawText);
-    parsed = JSON.parse(jsonStr);
+  const variations: Variation[] = [];
+  const repairs: VariationRepair[][] = [];
+  for await (const salvaged of streamVariations(provider, request)) {
+    variations.push(salvaged.variation);
+    repairs.push(salvaged.repairs);
   }
-
-  const result = variationResponseSchema.safeParse(parsed);
-  if (result.success) {
-    return result.data;
-  }
-
-  // One retry with strict prompt
-  systemPrompt = buildSystemPrompt(true);
-  rawText = await callAI(config, systemPrompt, userPrompt);
-  jsonStr = extractJSON(rawText);
-
-  try {
-    parsed = JSON.parse(jsonStr);
-  } catch (e) {
-    throw new Error(`AI returned invalid JSON after retry: ${(e as Error).message}`);
-  }
-
-  const retryResult = variationResponseSchema.safeParse(parsed);
-  if (retryResult.success) {
-    return retryResult.data;
-  }
-
-  throw new Error(
-    `AI output failed validation after retry: ${JSON.stringify(retryResult.error.issues.slice(0, 3))}`
-  );
+  return { variations, repairs };
 }
@@ -1,2 +1,35 @@
-export { generateVariations, type VariationRequest, type VariationResponse } from "./generate";
-export { variationResponseSchema } from "./validation";
+export {
+  type VariationRequest,
+  type VariationResponse,
+  type SalvagedVariation,
+  generateVariations,
+  streamVariations,
+} from "./generate";
+export { variationResponseSchema, variationResponseJsonSchema, repairVariationPalettes } from "./validation";
+export {
+  type VariationRepair,
+  type VariationRepairAction,
+  type SalvageResult,
+  variationRepairActions,
+  salvageVariation,
+} from "./repair";
+export {
+  type AIProvider,
+  type AICompletionRequest,
+  type AIProviderConfig,
+  type AIProviderId,
+  aiProviderIds,
+  createAIProvider,
+  createAnthropicProvider,
+  createOpenAICompatibleProvider,
+} from "./providers";
+export { createMockProvider } from "./mock";
+export {
+  type SketchRequest,
+  type SketchResponse,
+  type SketchValidator,
+  SketchValidationError,
+  sketchResponseJsonSchema,
+  generateSketch,
+} from "./sketch";
+export { type DiffLine, diffLines, unifiedDiff } from "./diff";
@@ -0,0 +1,129 @@
+import { computeHash, type JsonSchema } from "@artmint/common";
+import type { AIProvider } from "./providers";
+
+const HEX_PATTERN = "^#[0-9a-fA-F]{6}$";
+const FALLBACK_WORDS = ["mock", "variation"];
+/** Characters per streamed piece, small enough to split every variation */
+const STREAM_CHUNK = 64;
+
+/** Extra items an array may get beyond its minimum */
+const ARRAY_SPREAD = 2;
+
+interface SampleContext {
+  random: () => number;
+  words: string[];
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function sampleNumber(schema: JsonSchema, random: () => number): number {
+  const min = schema.minimum ?? 0;
+  const max = schema.maximum ?? min + 100;
+  const step = schema["x-step"] ?? (schema.type === "integer" ? 1 : undefined);
+  if (step === undefined) {
+    return Math.round((min + random() * (max - min)) * 100) / 100;
+  }
+  const steps = Math.floor((max - min) / step + 1e-9);
+  // Snap off float error so 0.1 + 3 * 0.05 reads 0.25, not 0.25000000000000006
+  return Number((min + Math.floor(random() * (steps + 1)) * step).toFixed(6));
+}
+
+/** A small sketch that passes the sandbox checks, varied by the random stream */
+function sampleSketch({ random, words }: SampleContext): string {
+  const count = 20 + Math.floor(random() * 80);
+  const radius = 10 + Math.floor(random() * 50);
+  const scale = 100 + Math.floor(random() * 400);
+  return `// Mock sketch: ${words.join(" ")}
+ctx.fillStyle = palette[0];
+ctx.fillRect(0, 0, WIDTH, HEIGHT);
+for (let i = 0; i < ${count}; i++) {
+  const x = random() * WIDTH;
+  const y = random() * HEIGHT;
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = palette[1 + (i % (palette.length - 1))];
+  ctx.beginPath();
+  ctx.arc(x, y, ${radius} * (1.2 + noise2D(x / ${scale}, y / ${scale})), 0, Math.PI * 2);
+  ctx.fill();
+}
+ctx.globalAlpha = 1;`;
+}
+
+function sampleString(schema: JsonSchema, context: SampleContext): string {
+  const { random, words } = context;
+  if (schema.contentMediaType === "text/javascript") {
+    return sampleSketch(context);
+  }
+  if (schema.pattern === HEX_PATTERN) {
+    return `#${Math.floor(random() * 0x1000000).toString(16).padStart(6, "0")}`;
+  }
+  const count = 1 + Math.floor(random() * Math.min(3, words.length));
+  const text = Array.from({ length: count }, () => pick(words, random))
+    .join(" ")
+    .slice(0, schema.maxLength);
+  if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+    throw new Error(`Mock provider cannot generate strings matching ${schema.pattern}`);
+  }
+  return text;
+}
+
+/** A random value satisfying the schema, for the shapes json-schema.ts emits */
+function sample(schema: JsonSchema, context: SampleContext): unknown {
+  if (schema.anyOf) return sample(pick(schema.anyOf, context.random), context);
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return pick(schema.enum, context.random);
+
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, sample(property, context)])
+      );
+    case "array": {
+      const min = schema.minItems ?? 1;
+      const max = Math.min(schema.maxItems ?? min + ARRAY_SPREAD, min + ARRAY_SPREAD);
+      const length = min + Math.floor(context.random() * (max - min + 1));
+      return Array.from({ length }, () => sample(schema.items ?? {}, context));
+    }
+    case "number":
+    case "integer":
+      return sampleNumber(schema, context.random);
+    case "string":
+      return sampleString(schema, context);
+    case "boolean":
+      return context.random() < 0.5;
+    default:
+      throw new Error(`Mock provider cannot generate values for schema type ${schema.type}`);
+  }
+}
+
+/**
+ * Offline provider for development and tests. It ignores the system prompt
+ * and fills in the response schema with values drawn from a hash of the
+ * seed, user prompt and schema, so the same request always gets the same
+ * variations and every one of them validates. Text fields reuse words from
+ * the quoted prompt, and JavaScript fields get a small working sketch.
+ * Streaming yields the same text in small pieces.
+ */
+export function createMockProvider(options: { seed?: number } = {}): AIProvider {
+  const seed = options.seed ?? 0;
+  const provider: AIProvider = {
+    name: "Mock",
+    async complete({ user, schema }) {
+      const key = computeHash({ seed, user, schema });
+      let draw = 0;
+      const random = () => parseInt(computeHash([key, draw++]).slice(0, 8), 16) / 0x100000000;
+      const quoted = user.match(/"([^"]*)"/)?.[1] ?? "";
+      const words = quoted.toLowerCase().match(/[a-z0-9]+/g) ?? FALLBACK_WORDS;
+      return JSON.stringify(sample(schema, { random, words }));
+    },
+    async *stream(request) {
+      const text = await provider.complete(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK) {
+        request.signal?.throwIfAborted();
+        yield text.slice(i, i + STREAM_CHUNK);
+      }
+    },
+  };
+  return provider;
+}
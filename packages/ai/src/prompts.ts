@@ -1,40 +1,63 @@
-import type { TemplateId } from "@artmint/common";
+import {
+  templateParamsJsonSchema,
+  templateRegistry,
+  renderableTemplateIds,
+  variationJsonSchema,
+  type JsonSchema,
+  type RenderableTemplateId,
+  type TemplateId,
+} from "@artmint/common";
+
+function describeParam(key: string, property: JsonSchema, optional: boolean): string {
+  const label = (property.title ?? key).toLowerCase();
+  const suffix = optional ? ", optional" : "";
+  if (property.enum) {
+    const options = property.enum.map((o) => `"${o}"`).join(" | ");
+    return `- ${key}: ${options} (${label}${suffix})`;
+  }
+  if (property.type === "number" || property.type === "integer") {
+    return `- ${key}: ${property.type} ${property.minimum}-${property.maximum} (${label}${suffix})`;
+  }
+  if (property.type === "string") {
+    return `- ${key}: string, up to ${property.maxLength} characters (${label}${suffix})`;
+  }
+  return `- ${key} (${label}${suffix})`;
+}
+
+function describeTemplate(templateId: RenderableTemplateId): string {
+  const { properties = {}, required = [] } = templateParamsJsonSchema(templateId);
+  const lines = Object.entries(properties).map(([key, property]) =>
+    describeParam(key, property, !required.includes(key))
+  );
+  return `Template "${templateId}" — ${templateRegistry[templateId].description}. Params:\n${lines.join("\n")}`;
+}
+
+function listTemplateIds(): string {
+  return renderableTemplateIds.map((id) => `"${id}"`).join(" or ");
+}
+
+/** Bounds of the fields every variation shares, read from the first template's branch */
+function sharedFields(): Record<string, JsonSchema> {
+  return variationJsonSchema().anyOf?.[0]?.properties ?? {};
+}
 
 export function buildSystemPrompt(strict: boolean): string {
+  const { seed, palette, title, description } = sharedFields();
   const base = `You are an AI art director that generates parameters for deterministic generative art.
 You MUST respond with ONLY valid JSON matching the exact schema. No markdown, no code fences, no explanation.
 
 The JSON must be an object with a "variations" array. Each variation has:
-- templateId: "flow_fields" or "jazz_noir"
-- seed: a random positive integer (0-999999999)
-- palette: array of 3-6 hex colors (like "#ff00aa")
+- templateId: ${listTemplateIds()}
+- seed: a random positive integer (${seed?.minimum}-${seed?.maximum})
+- palette: array of ${palette?.minItems}-${palette?.maxItems} hex colors (like "#ff00aa"); 3-6 usually works best
 - params: object with template-specific parameters (see below)
-- title: short creative title (optional)
-- description: one-line description (optional)
+- title: short creative title, up to ${title?.maxLength} characters (optional)
+- description: one-line description, up to ${description?.maxLength} characters (optional)
 - tags: array of 1-3 tags (optional)
 
-Template "flow_fields" params:
-- density: number 0.1-1.0 (particle density)
-- lineWidth: number 0.5-8 (stroke width)
-- curvature: number 0-10 (field curvature)
-- grain: number 0-1 (noise overlay)
-- contrast: number 0.2-2 (contrast)
-- fieldScale: number 0.5-5 (vector field scale)
-- lineCount: integer 50-500 (number of flow lines)
-- stepCount: integer 10-200 (steps per line)
-- turbulence: number 0-2 (turbulence)
-
-Template "jazz_noir" params:
-- neonIntensity: number 0-1
-- skylineBands: integer 2-12
-- glow: number 0-2
-- rainGrain: number 0-1
-- circleCount: integer 3-30
-- lineCount: integer 5-60
-- depth: number 0.2-2
-- blur: number 0-5
-
-ALL params fields are REQUIRED. Every variation must include every field for its template.`;
+${renderableTemplateIds.map(describeTemplate).join("\n\n")}
+
+ALL params fields not marked optional are REQUIRED. Every variation must include every required field for its template.`;
 
   if (strict) {
     return (
@@ -60,7 +83,7 @@ export function buildUserPrompt(
   if (templateId) {
     msg += `\nUse template: ${templateId}`;
   } else {
-    msg += `\nChoose the best template for each variation (flow_fields or jazz_noir). Mix both if appropriate.`;
+    msg += `\nChoose the best template for each variation (${renderableTemplateIds.join(", ")}). Mix them if appropriate.`;
   }
 
   if (preset) {
@@ -76,3 +99,47 @@ Respond with ONLY the JSON object. No other text.`;
 
   return msg;
 }
+
+export function buildSketchSystemPrompt(maxSummaryLength: number): string {
+  return `You write JavaScript for a generative art studio. The code is the body of a function that draws one image on a 2D canvas. It is called with:
+- canvas: the canvas being drawn on
+- ctx: its 2D rendering context
+- WIDTH, HEIGHT: canvas size in pixels (1080 x 1080 unless the user changes it)
+- seed: the integer seed of this output
+- palette: array of 2-8 hex colors like "#ff6b35"; palette[0] suits the background
+- random(): seeded random number in [0, 1)
+- noise2D(x, y): seeded value noise in [-1, 1]
+- noise: seeded noise library with simplex2(x, y), simplex3(x, y, z), perlin2(x, y), perlin3(x, y, z), fbm2(x, y, { type: "value" | "perlin" | "simplex", octaves, lacunarity, gain }), fbm3(x, y, z, options), warp2(x, y, { strength, ...fbm options }) and curl2(x, y, options), which returns [dx, dy]
+
+Rules:
+- The same seed and palette must always draw the same image. Use random() and the noise functions for all randomness; never Math.random, Date or performance.
+- Draw with path, shape, text, gradient and transform calls on ctx. getImageData, putImageData, drawImage and createPattern are unavailable, and so are document, window, fetch, timers and modules.
+- Draw synchronously and finish well within a second; keep it under about 20,000 shapes.
+- Take colors from palette so the sketch follows the user's palette.
+- Nothing needs to be returned.
+
+Respond with ONLY a JSON object: {"code": "<the JavaScript>", "summary": "<one sentence, up to ${maxSummaryLength} characters>"}. No markdown and no code fences around the JSON.`;
+}
+
+/**
+ * A new sketch from a prompt, or an edit when `code` is given. A retry
+ * carries the previous attempt and why it was rejected.
+ */
+export function buildSketchUserPrompt(
+  prompt: string,
+  code?: string,
+  retry?: { code?: string; error: string }
+): string {
+  let msg =
+    code === undefined
+      ? `Write a sketch of: "${prompt}"\nThe summary says what it draws.`
+      : `Edit this sketch to: "${prompt}"\n\nCurrent code:\n\`\`\`js\n${code}\n\`\`\`\n\nReturn the complete updated code, changing only what the request needs. The summary says what changed.`;
+
+  if (retry) {
+    msg += `\n\nYour previous attempt was rejected: ${retry.error}`;
+    if (retry.code !== undefined) msg += `\n\nPrevious attempt:\n\`\`\`js\n${retry.code}\n\`\`\``;
+    msg += `\nFix the problem and return the complete code.`;
+  }
+
+  return msg;
+}
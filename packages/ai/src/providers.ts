@@ -0,0 +1,198 @@
+import { readServerSentEvents, type JsonSchema } from "@artmint/common";
+import { createMockProvider } from "./mock";
+
+export interface AICompletionRequest {
+  system: string;
+  user: string;
+  /** JSON Schema of the expected response, for providers with structured output */
+  schema: JsonSchema;
+  /** Name the schema is registered under with structured-output providers; defaults to submit_variations */
+  schemaName?: string;
+  /** Aborts the upstream request */
+  signal?: AbortSignal;
+}
+
+/**
+ * A model behind a single completion call. Implementations return the
+ * response as text; generateVariations and generateSketch extract and
+ * validate the JSON, so prose or code fences around it are tolerated.
+ */
+export interface AIProvider {
+  /** Shown in errors and logs */
+  readonly name: string;
+  complete(request: AICompletionRequest): Promise<string>;
+  /** Yield the same text in pieces as the model produces it; optional */
+  stream?(request: AICompletionRequest): AsyncIterable<string>;
+}
+
+export const aiProviderIds = ["anthropic", "openai", "deepseek", "openai-compatible", "mock"] as const;
+export type AIProviderId = (typeof aiProviderIds)[number];
+
+export type AIProviderConfig =
+  | { provider: "anthropic" | "openai" | "deepseek"; apiKey: string; model: string }
+  | {
+      provider: "openai-compatible";
+      /** API root including the version path, e.g. http://localhost:11434/v1 for Ollama */
+      baseUrl: string;
+      model: string;
+      /** Local servers usually need none */
+      apiKey?: string;
+      /** Send the schema as `response_format`; only for servers that support it */
+      structuredOutput?: boolean;
+    }
+  | { provider: "mock"; seed?: number };
+
+const DEFAULT_SCHEMA_NAME = "submit_variations";
+const MAX_TOKENS = 8192;
+
+/** POST a JSON body, turning HTTP errors into an Error naming the provider */
+async function post(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const err = await response.text();
+    throw new Error(`${providerName} API error (${response.status}): ${err}`);
+  }
+  return response;
+}
+
+export function createAnthropicProvider(options: { apiKey: string; model: string }): AIProvider {
+  const url = "https://api.anthropic.com/v1/messages";
+  const headers = { "x-api-key": options.apiKey, "anthropic-version": "2023-06-01" };
+  const body = ({ system, user, schema, schemaName = DEFAULT_SCHEMA_NAME }: AICompletionRequest) => ({
+    model: options.model,
+    max_tokens: MAX_TOKENS,
+    system,
+    messages: [{ role: "user", content: user }],
+    // A forced tool call makes the model fill in the schema
+    tools: [
+      {
+        name: schemaName,
+        description: schema.description ?? "Submit the generated variations",
+        input_schema: schema,
+      },
+    ],
+    tool_choice: { type: "tool", name: schemaName },
+  });
+
+  return {
+    name: "Anthropic",
+    async complete(request) {
+      const response = await post("Anthropic", url, headers, body(request), request.signal);
+      const data = (await response.json()) as {
+        content: Array<{ type: string; text?: string; input?: unknown }>;
+      };
+      const toolBlock = data.content.find((b) => b.type === "tool_use");
+      if (toolBlock?.input) {
+        return JSON.stringify(toolBlock.input);
+      }
+      const textBlock = data.content.find((b) => b.type === "text");
+      if (!textBlock?.text) {
+        throw new Error("No text in Anthropic response");
+      }
+      return textBlock.text;
+    },
+    async *stream(request) {
+      const response = await post("Anthropic", url, headers, { ...body(request), stream: true }, request.signal);
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        const event = JSON.parse(data) as {
+          type: string;
+          delta?: { type: string; text?: string; partial_json?: string };
+          error?: { message: string };
+        };
+        if (event.type === "error") {
+          throw new Error(`Anthropic stream error: ${event.error?.message}`);
+        }
+        if (event.type === "content_block_delta") {
+          // Tool input arrives as partial JSON, plain replies as text
+          const text = event.delta?.partial_json ?? event.delta?.text;
+          if (text) yield text;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself,
+ * DeepSeek, or a local Ollama or llama.cpp server.
+ */
+export function createOpenAICompatibleProvider(options: {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  structuredOutput?: boolean;
+}): AIProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const headers: Record<string, string> = options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {};
+  const body = ({ system, user, schema, schemaName = DEFAULT_SCHEMA_NAME }: AICompletionRequest) => ({
+    model: options.model,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ],
+    max_tokens: MAX_TOKENS,
+    temperature: 0.9,
+    ...(options.structuredOutput
+      ? { response_format: { type: "json_schema", json_schema: { name: schemaName, schema } } }
+      : {}),
+  });
+
+  return {
+    name: options.name,
+    async complete(request) {
+      const response = await post(options.name, url, headers, body(request), request.signal);
+      const data = (await response.json()) as {
+        choices: Array<{ message: { content: string } }>;
+      };
+      return data.choices[0]?.message?.content ?? "";
+    },
+    async *stream(request) {
+      const response = await post(options.name, url, headers, { ...body(request), stream: true }, request.signal);
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        if (data === "[DONE]") return;
+        const chunk = JSON.parse(data) as { choices: Array<{ delta?: { content?: string | null } }> };
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "openai":
+      return createOpenAICompatibleProvider({
+        name: "OpenAI",
+        baseUrl: "https://api.openai.com/v1",
+        model: config.model,
+        apiKey: config.apiKey,
+        structuredOutput: true,
+      });
+    case "deepseek":
+      // DeepSeek has no JSON Schema support and relies on the prompt alone
+      return createOpenAICompatibleProvider({
+        name: "DeepSeek",
+        baseUrl: "https://api.deepseek.com/v1",
+        model: config.model,
+        apiKey: config.apiKey,
+      });
+    case "openai-compatible":
+      return createOpenAICompatibleProvider({ name: "OpenAI-compatible", ...config });
+    case "mock":
+      return createMockProvider({ seed: config.seed });
+  }
+}
@@ -0,0 +1,182 @@
+import { z } from "zod";
+import {
+  isRenderableTemplateId,
+  repairPalette,
+  templateIds,
+  templateRegistry,
+  variationSchema,
+  type RenderableTemplateId,
+  type Variation,
+} from "@artmint/common";
+
+export const variationRepairActions = ["clamped", "rounded", "defaulted", "truncated", "normalized", "dropped"] as const;
+export type VariationRepairAction = (typeof variationRepairActions)[number];
+
+/** One field of a model's variation that was changed to make it valid */
+export interface VariationRepair {
+  /** Dotted path of the field, e.g. "params.lineCount" */
+  path: string;
+  action: VariationRepairAction;
+  /** What the model returned; absent when the field was missing */
+  from?: unknown;
+  /** What was kept; absent when the field was dropped */
+  to?: unknown;
+}
+
+export type SalvageResult =
+  | { ok: true; variation: Variation; repairs: VariationRepair[] }
+  | { ok: false; error: string };
+
+type Raw = Record<string, unknown>;
+
+const { seed: seedSchema, title: titleSchema, description: descriptionSchema, tags: tagsSchema } =
+  variationSchema.innerType().shape;
+
+function isRecord(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isIntegerSchema(schema: z.ZodTypeAny): boolean {
+  const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+  return inner instanceof z.ZodNumber && inner.isInt;
+}
+
+/**
+ * Bring one param into range: numbers are clamped to the control bounds in
+ * parameterMeta and rounded when the schema wants integers, text is cut to
+ * its maximum length, and anything else falls back to the template default.
+ */
+function repairParam(
+  templateId: RenderableTemplateId,
+  key: string,
+  value: unknown,
+  repairs: VariationRepair[]
+): unknown {
+  const { paramsSchema, parameterMeta, defaultParams } = templateRegistry[templateId];
+  const schema = (paramsSchema.shape as Record<string, z.ZodTypeAny>)[key]!;
+  const meta = (parameterMeta as Record<string, { min?: number; max?: number; maxLength?: number }>)[key];
+  const path = `params.${key}`;
+
+  if (typeof value === "number" && Number.isFinite(value) && meta?.min !== undefined && meta.max !== undefined) {
+    const clamped = clamp(value, meta.min, meta.max);
+    const fixed = isIntegerSchema(schema) ? Math.round(clamped) : clamped;
+    if (schema.safeParse(fixed).success) {
+      repairs.push({ path, action: clamped !== value ? "clamped" : "rounded", from: value, to: fixed });
+      return fixed;
+    }
+  }
+  if (typeof value === "string" && meta?.maxLength !== undefined) {
+    const fixed = value.slice(0, meta.maxLength);
+    if (schema.safeParse(fixed).success) {
+      repairs.push({ path, action: "truncated", from: value, to: fixed });
+      return fixed;
+    }
+  }
+  const fallback = (defaultParams as Raw)[key];
+  repairs.push({ path, action: "defaulted", ...(value !== undefined ? { from: value } : {}), to: fallback });
+  return fallback;
+}
+
+function repairParams(templateId: RenderableTemplateId, raw: unknown, repairs: VariationRepair[]): Raw {
+  const input = isRecord(raw) ? raw : {};
+  const shape = templateRegistry[templateId].paramsSchema.shape as Record<string, z.ZodTypeAny>;
+  const params: Raw = {};
+  for (const [key, schema] of Object.entries(shape)) {
+    const value = input[key];
+    // Optional params may be left out; renderers apply their own fallback
+    if (value === undefined && schema.isOptional()) continue;
+    params[key] = schema.safeParse(value).success ? value : repairParam(templateId, key, value, repairs);
+  }
+  return params;
+}
+
+function repairSeed(raw: unknown, repairs: VariationRepair[]): number | null {
+  if (typeof raw !== "number" || !Number.isFinite(raw)) return null;
+  const fixed = clamp(Math.round(raw), seedSchema.minValue ?? 0, seedSchema.maxValue ?? Number.MAX_SAFE_INTEGER);
+  if (fixed !== raw) {
+    repairs.push({ path: "seed", action: fixed === Math.round(raw) ? "rounded" : "clamped", from: raw, to: fixed });
+  }
+  return fixed;
+}
+
+function repairText(
+  path: string,
+  raw: unknown,
+  maxLength: number | null,
+  repairs: VariationRepair[]
+): string | undefined {
+  if (raw === undefined) return undefined;
+  if (typeof raw !== "string") {
+    repairs.push({ path, action: "dropped", from: raw });
+    return undefined;
+  }
+  const fixed = maxLength !== null ? raw.slice(0, maxLength) : raw;
+  if (fixed !== raw) repairs.push({ path, action: "truncated", from: raw, to: fixed });
+  return fixed;
+}
+
+function repairTags(raw: unknown, repairs: VariationRepair[]): string[] | undefined {
+  if (raw === undefined) return undefined;
+  const tagSchema = tagsSchema.unwrap();
+  const maxItems = tagSchema._def.maxLength?.value ?? Infinity;
+  const maxLength = tagSchema.element.maxLength ?? Infinity;
+  const fixed = Array.isArray(raw)
+    ? raw.filter((tag): tag is string => typeof tag === "string").slice(0, maxItems).map((tag) => tag.slice(0, maxLength))
+    : [];
+  if (fixed.length === 0) {
+    repairs.push({ path: "tags", action: "dropped", from: raw });
+    return undefined;
+  }
+  if (JSON.stringify(fixed) !== JSON.stringify(raw)) repairs.push({ path: "tags", action: "truncated", from: raw, to: fixed });
+  return fixed;
+}
+
+/**
+ * Validate one variation from a model response on its own, repairing what
+ * can be repaired: out-of-range params are clamped, missing or malformed
+ * ones take the template default, palettes go through repairPalette and
+ * over-long captions are cut. A variation is only rejected when its
+ * template, seed or palette cannot be recovered. Composite and custom code
+ * variations are validated as they are.
+ */
+export function salvageVariation(raw: unknown): SalvageResult {
+  if (!isRecord(raw)) return { ok: false, error: "variation is not an object" };
+  const { templateId } = raw;
+  if (typeof templateId !== "string" || !(templateIds as string[]).includes(templateId)) {
+    return { ok: false, error: `unknown templateId ${JSON.stringify(templateId)}` };
+  }
+
+  const repairs: VariationRepair[] = [];
+  let candidate: unknown = raw;
+  if (isRenderableTemplateId(templateId)) {
+    const seed = repairSeed(raw.seed, repairs);
+    if (seed === null) return { ok: false, error: "seed is missing or not a number" };
+
+    const palette = repairPalette(raw.palette);
+    if (!palette) return { ok: false, error: "palette has too few usable colors" };
+    if (JSON.stringify(palette) !== JSON.stringify(raw.palette)) {
+      repairs.push({ path: "palette", action: "normalized", from: raw.palette, to: palette });
+    }
+
+    candidate = {
+      templateId,
+      seed,
+      palette,
+      params: repairParams(templateId, raw.params, repairs),
+      title: repairText("title", raw.title, titleSchema.unwrap().maxLength, repairs),
+      description: repairText("description", raw.description, descriptionSchema.unwrap().maxLength, repairs),
+      tags: repairTags(raw.tags, repairs),
+    };
+  }
+
+  const result = variationSchema.safeParse(candidate);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { ok: false, error: `${issue?.path.join(".")}: ${issue?.message}` };
+  }
+  return { ok: true, variation: result.data, repairs };
+}
@@ -0,0 +1,149 @@
+import { customCodeParamsSchema, type JsonSchema } from "@artmint/common";
+import { unifiedDiff } from "./diff";
+import { buildSketchSystemPrompt, buildSketchUserPrompt } from "./prompts";
+import type { AIProvider } from "./providers";
+
+export interface SketchRequest {
+  /** What to draw, or for an edit, what to change */
+  prompt: string;
+  /** Code to edit; without it a new sketch is written */
+  code?: string;
+  /** Aborts the upstream call */
+  signal?: AbortSignal;
+}
+
+export interface SketchResponse {
+  code: string;
+  /** The model's one-sentence account of the sketch or the edit */
+  summary: string;
+  /** Unified diff from the submitted code; only for edits */
+  diff?: string;
+}
+
+/**
+ * Runs generated code headlessly. Resolves to the reason the code is
+ * unusable, or null when it passes; the reason is fed back to the model.
+ */
+export type SketchValidator = (code: string) => Promise<string | null>;
+
+/** Thrown when no attempt produced code that passed validation */
+export class SketchValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SketchValidationError";
+  }
+}
+
+const MAX_CODE_LENGTH = customCodeParamsSchema.shape.code.maxLength ?? 100_000;
+const MAX_SUMMARY_LENGTH = 200;
+
+/** Provider calls per request: the first, plus one retry with the rejection fed back */
+const MAX_ATTEMPTS = 2;
+
+/**
+ * Sources of nondeterminism the sandbox cannot always catch: two runs in
+ * the same millisecond read the same clock. Everything else unsupported
+ * fails when the code runs.
+ */
+const NONDETERMINISTIC_APIS: Array<[RegExp, string]> = [
+  [/\bMath\.random\b/, "Math.random; use random() instead"],
+  [/\b(Date|performance)\b/, "the clock (Date or performance); output must depend only on seed and palette"],
+];
+
+export const sketchResponseJsonSchema: JsonSchema = {
+  type: "object",
+  description: "A generated canvas sketch",
+  properties: {
+    code: {
+      type: "string",
+      description: "Body of the drawing function",
+      contentMediaType: "text/javascript",
+      minLength: 1,
+      maxLength: MAX_CODE_LENGTH,
+    },
+    summary: {
+      type: "string",
+      description: "What the code draws, or what the edit changed",
+      maxLength: MAX_SUMMARY_LENGTH,
+    },
+  },
+  required: ["code", "summary"],
+  additionalProperties: false,
+};
+
+function stripCodeFence(code: string): string {
+  return code.replace(/^\s*```[a-z]*\n([\s\S]*?)\n?```\s*$/, "$1");
+}
+
+/**
+ * Pull code and summary out of a response: the JSON object the prompt asks
+ * for, or failing that a fenced code block from a model that ignored it.
+ */
+function parseSketchResponse(text: string): { code: string; summary: string } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1));
+  } catch {
+    raw = undefined;
+  }
+  const fields = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  if (typeof fields.code === "string") {
+    return {
+      code: stripCodeFence(fields.code).trim(),
+      summary: typeof fields.summary === "string" ? fields.summary.slice(0, MAX_SUMMARY_LENGTH) : "",
+    };
+  }
+  const fenced = text.match(/```(?:js|javascript)?\n([\s\S]*?)```/);
+  if (fenced) return { code: fenced[1]!.trim(), summary: "" };
+  return { error: 'the response was not a JSON object with a "code" string' };
+}
+
+/** Checks that need no sandbox; returns the problem or null */
+function checkSketchCode(code: string, original?: string): string | null {
+  if (code.length === 0) return "the code is empty";
+  if (code.length > MAX_CODE_LENGTH) return `the code is longer than ${MAX_CODE_LENGTH} characters`;
+  if (original !== undefined && code === original.trim()) return "the code is unchanged";
+  for (const [pattern, problem] of NONDETERMINISTIC_APIS) {
+    if (pattern.test(code)) return `the code uses ${problem}`;
+  }
+  return null;
+}
+
+/**
+ * Write a canvas sketch from a prompt, or edit `request.code` as the
+ * prompt asks. Each attempt is checked statically and then by `validate`,
+ * which should run it in the sandbox; a rejected attempt is sent back with
+ * the reason for one retry. Edits come with a unified diff from the
+ * submitted code. Throws SketchValidationError when no attempt passes.
+ */
+export async function generateSketch(
+  provider: AIProvider,
+  request: SketchRequest,
+  validate: SketchValidator
+): Promise<SketchResponse> {
+  let retry: { code?: string; error: string } | undefined;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const text = await provider.complete({
+      system: buildSketchSystemPrompt(MAX_SUMMARY_LENGTH),
+      user: buildSketchUserPrompt(request.prompt, request.code, retry),
+      schema: sketchResponseJsonSchema,
+      schemaName: "submit_sketch",
+      signal: request.signal,
+    });
+
+    const parsed = parseSketchResponse(text);
+    if ("error" in parsed) {
+      retry = { error: parsed.error };
+      continue;
+    }
+    const error = checkSketchCode(parsed.code, request.code) ?? (await validate(parsed.code));
+    if (error) {
+      retry = { code: parsed.code, error };
+      continue;
+    }
+    return request.code === undefined ? parsed : { ...parsed, diff: unifiedDiff(request.code, parsed.code) };
+  }
+
+  throw new SketchValidationError(`Generated code failed validation after retry: ${retry?.error}`);
+}
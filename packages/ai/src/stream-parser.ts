@@ -0,0 +1,60 @@
+/**
+ * Incremental reader for a streamed `{"variations": [...]}` response. Each
+ * call to `push` takes the next piece of text and returns the array
+ * elements that closed within it, parsed, so a variation can be validated
+ * while the model is still writing the next. Text before the opening brace
+ * (prose, code fences) and after the closing one is ignored. Elements that
+ * are not valid JSON come back as null for the caller to reject.
+ */
+export function createVariationArrayParser(): { push(text: string): unknown[] } {
+  let depth = 0;
+  let started = false;
+  let inArray = false;
+  let inString = false;
+  let escaped = false;
+  let element: string | null = null;
+
+  return {
+    push(text) {
+      const closed: unknown[] = [];
+      for (const char of text) {
+        if (!started) {
+          if (char !== "{") continue;
+          started = true;
+        } else if (depth === 0) {
+          break;
+        }
+
+        if (element !== null) element += char;
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === "\\") escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          // The response's only array is `variations`; its objects open at depth 2
+          if (char === "[" && depth === 1) inArray = true;
+          if (char === "{" && depth === 2 && inArray) element = "{";
+          depth++;
+        } else if (char === "}" || char === "]") {
+          depth--;
+          if (depth === 1) inArray = false;
+          if (depth === 2 && element !== null) {
+            try {
+              closed.push(JSON.parse(element));
+            } catch {
+              closed.push(null);
+            }
+            element = null;
+          }
+        }
+      }
+      return closed;
+    },
+  };
+}
@@ -1,8 +1,62 @@
 import { z } from "zod";
-import { variationSchema } from "@artmint/common";
+import {
+  variationSchema,
+  variationJsonSchema,
+  repairPalette,
+  renderableTemplateIds,
+  type JsonSchema,
+  type RenderableTemplateId,
+} from "@artmint/common";
+
+const MAX_VARIATIONS = 24;
 
 export const variationResponseSchema = z.object({
-  variations: z.array(variationSchema).min(1).max(24),
+  variations: z.array(variationSchema).min(1).max(MAX_VARIATIONS),
 });
 
 export type VariationResponse = z.infer<typeof variationResponseSchema>;
+
+/**
+ * JSON Schema of a response, for providers with structured output. Pass a
+ * template to constrain every variation to it, and a count to ask for
+ * exactly that many.
+ */
+export function variationResponseJsonSchema(
+  options: { templateId?: RenderableTemplateId; count?: number } = {}
+): JsonSchema {
+  const { templateId, count } = options;
+  return {
+    type: "object",
+    properties: {
+      variations: {
+        type: "array",
+        items: variationJsonSchema(templateId ? [templateId] : renderableTemplateIds),
+        minItems: count ?? 1,
+        maxItems: count ?? MAX_VARIATIONS,
+      },
+    },
+    required: ["variations"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Repair palettes in raw AI output before validation. Models often return
+ * shorthand or unprefixed hex, duplicates, too many colors or accents that
+ * vanish into the background; those are fixed rather than failing the
+ * whole batch. Anything that isn't a salvageable palette is left for the
+ * schema to reject.
+ */
+export function repairVariationPalettes(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null) return raw;
+  const { variations } = raw as { variations?: unknown };
+  if (!Array.isArray(variations)) return raw;
+  return {
+    ...raw,
+    variations: variations.map((variation: unknown) => {
+      if (typeof variation !== "object" || variation === null || !("palette" in variation)) return variation;
+      const palette = repairPalette(variation.palette);
+      return palette ? { ...variation, palette } : variation;
+    }),
+  };
+}
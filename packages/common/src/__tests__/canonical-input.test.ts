@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  CANONICAL_INPUT_VERSION,
+  hashCanonicalInput,
+  parseCanonicalInputJson,
+  upgradeCanonicalInput,
+  versionedCanonicalInputSchema,
+} from "../canonical-input";
+import { computeHash } from "../hash";
+import { customCodeMode } from "../schemas";
+import { renderableTemplateIds, templateRegistry } from "../templates";
+
+const palette = ["#0a0a0f", "#ff6b35", "#00d4ff"];
+const createdAt = "2025-01-01T00:00:00.000Z";
+
+const upload = {
+  kind: "upload",
+  createdAt,
+  original: { sha256: "ab", filename: "a.png", mime: "image/png", bytes: 10, width: 4, height: 4, url: "/o.png" },
+  mint: {
+    mime: "image/webp",
+    bytes: 8,
+    width: 4,
+    height: 4,
+    format: "webp",
+    quality: 0.9,
+    fit: "contain",
+    maxSide: 4,
+    url: "/m.webp",
+  },
+  thumbnail: { mime: "image/webp", bytes: 4, width: 2, height: 2, url: "/t.webp" },
+};
+
+describe("upgradeCanonicalInput", () => {
+  it("tags each unversioned shape with its kind", () => {
+    const generative = {
+      rendererVersion: "1.0.0",
+      templateId: "flow_fields",
+      seed: 1,
+      palette,
+      params: templateRegistry.flow_fields.defaultParams,
+      prompt: "rivers",
+      createdAt,
+    };
+    expect(versionedCanonicalInputSchema.parse(generative)).toMatchObject({
+      kind: "generative",
+      version: CANONICAL_INPUT_VERSION,
+    });
+
+    const code = { ...generative, templateId: "custom_code", params: { code: "<svg/>" }, prompt: "custom_code" };
+    expect(versionedCanonicalInputSchema.parse(code)).toMatchObject({ kind: "custom_code" });
+    expect(versionedCanonicalInputSchema.parse(upload)).toMatchObject({ kind: "upload" });
+  });
+
+  it("moves top-level code into params", () => {
+    const upgraded = upgradeCanonicalInput({
+      rendererVersion: "1.0.0",
+      seed: 4,
+      palette,
+      code: "draw()",
+      mode: "javascript",
+      createdAt,
+    });
+    expect(upgraded).toMatchObject({
+      kind: "custom_code",
+      templateId: "custom_code",
+      params: { code: "draw()", mode: "javascript" },
+      prompt: "custom_code",
+    });
+    expect(upgraded).not.toHaveProperty("code");
+  });
+
+  it("reads untagged code that isn't markup as JavaScript", () => {
+    // /api/mint/custom stored JavaScript mints without their mode
+    const legacy = parseCanonicalInputJson(
+      JSON.stringify({
+        rendererVersion: "1.0.0",
+        templateId: "custom_code",
+        seed: 4,
+        palette,
+        params: { code: "ctx.fillRect(0, 0, 9, 9);" },
+        prompt: "custom_code",
+        createdAt,
+      })
+    );
+    if (legacy?.kind !== "custom_code") throw new Error("expected a custom code input");
+    expect(customCodeMode(legacy.params)).toBe("javascript");
+    expect(customCodeMode({ code: "  <svg/>" })).toBe("svg");
+    expect(customCodeMode({ code: "<svg/>", mode: "javascript" })).toBe("javascript");
+  });
+
+  it("leaves current inputs alone", () => {
+    const current = { ...upload, version: CANONICAL_INPUT_VERSION };
+    expect(upgradeCanonicalInput(current)).toBe(current);
+  });
+});
+
+describe("parseCanonicalInputJson", () => {
+  it("returns null for malformed or unknown rows", () => {
+    expect(parseCanonicalInputJson("{")).toBeNull();
+    expect(parseCanonicalInputJson("[]")).toBeNull();
+    expect(parseCanonicalInputJson(JSON.stringify({ ...upload, version: 99 }))).toBeNull();
+  });
+});
+
+describe("hashCanonicalInput", () => {
+  it("matches the hash mints were created with", () => {
+    for (const templateId of renderableTemplateIds) {
+      const deterministic = {
+        rendererVersion: "1.0.0",
+        templateId,
+        seed: 7,
+        palette,
+        params: templateRegistry[templateId].defaultParams,
+        width: 1080,
+        height: 1080,
+        prompt: "test",
+      };
+      const parsed = parseCanonicalInputJson(JSON.stringify({ ...deterministic, createdAt }));
+      if (parsed?.kind !== "generative") throw new Error(`${templateId} input did not parse`);
+      expect(hashCanonicalInput(parsed)).toBe(computeHash(deterministic));
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { templateParamsJsonSchema, variationJsonSchema, zodToJsonSchema } from "../json-schema";
+import { renderableTemplateIds, templateRegistry } from "../templates";
+
+describe("zodToJsonSchema", () => {
+  it("carries bounds, enums and optionality", () => {
+    const schema = zodToJsonSchema(
+      z.object({
+        count: z.number().int().min(1).max(9).describe("How many"),
+        mode: z.enum(["a", "b"]).optional(),
+        colors: z.array(z.string().regex(/^#[0-9a-f]{6}$/)).min(2).max(4),
+      })
+    );
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        count: { type: "integer", minimum: 1, maximum: 9, description: "How many" },
+        mode: { type: "string", enum: ["a", "b"] },
+        colors: { type: "array", items: { type: "string", pattern: "^#[0-9a-f]{6}$" }, minItems: 2, maxItems: 4 },
+      },
+      required: ["count", "colors"],
+      additionalProperties: false,
+    });
+  });
+
+  it("rejects zod types it cannot express", () => {
+    expect(() => zodToJsonSchema(z.date())).toThrow(/ZodDate/);
+  });
+});
+
+describe("templateParamsJsonSchema", () => {
+  it("matches every template's zod bounds and control metadata", () => {
+    for (const templateId of renderableTemplateIds) {
+      const { paramsSchema, parameterMeta, defaultParams } = templateRegistry[templateId];
+      const properties = templateParamsJsonSchema(templateId).properties ?? {};
+      expect(Object.keys(properties)).toEqual(Object.keys(paramsSchema.shape));
+      for (const [key, entry] of Object.entries(parameterMeta)) {
+        const property = properties[key]!;
+        expect(property.title).toBe(entry.label);
+        expect(property.default).toEqual((defaultParams as Record<string, unknown>)[key]);
+        if ("step" in entry) {
+          expect([property.minimum, property.maximum, property["x-step"]]).toEqual([entry.min, entry.max, entry.step]);
+        }
+        if ("options" in entry) expect(property.enum).toEqual(entry.options);
+      }
+    }
+  });
+
+  it("leaves optional noise params out of required", () => {
+    const { required } = templateParamsJsonSchema("flow_fields");
+    expect(required).toContain("density");
+    expect(required).not.toContain("noiseType");
+  });
+});
+
+describe("variationJsonSchema", () => {
+  it("ties each templateId to its own params", () => {
+    const { anyOf } = variationJsonSchema(["jazz_noir", "typography"]);
+    expect(anyOf?.map((branch) => branch.properties?.templateId)).toEqual([
+      { const: "jazz_noir" },
+      { const: "typography" },
+    ]);
+    expect(anyOf?.[1]?.properties?.params?.properties).toHaveProperty("text");
+    expect(anyOf?.[0]?.required).toEqual(["templateId", "seed", "palette", "params"]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  hexToOklch,
+  oklchToHex,
+  generateHarmonyPalette,
+  harmonyRules,
+  extractPalette,
+  contrastRatio,
+  analyzePalette,
+  sortByLightness,
+  mixColors,
+  blendPalettes,
+  repairPalette,
+} from "../palette";
+import { presets } from "../presets";
+
+describe("OKLCH conversion", () => {
+  it("round-trips sRGB colors", () => {
+    for (const hex of ["#000000", "#ffffff", "#ff6b35", "#00d4ff", "#7b2cbf"]) {
+      expect(oklchToHex(hexToOklch(hex))).toBe(hex);
+    }
+  });
+
+  it("reduces chroma to bring out-of-gamut colors into sRGB", () => {
+    const hex = oklchToHex({ l: 0.7, c: 0.4, h: 150 });
+    expect(hex).toMatch(/^#[0-9a-f]{6}$/);
+    expect(hexToOklch(hex).l).toBeCloseTo(0.7, 2);
+  });
+});
+
+describe("generateHarmonyPalette", () => {
+  it("places accents on the rule's hues", () => {
+    const base = hexToOklch("#ff6b35");
+    const [, first, second] = generateHarmonyPalette("#ff6b35", "complementary");
+    expect(hexToOklch(first!).h).toBeCloseTo(base.h, 0);
+    const offset = (hexToOklch(second!).h - base.h + 360) % 360;
+    expect(offset).toBeCloseTo(180, 0);
+  });
+
+  it("keeps every accent legible on the background", () => {
+    for (const rule of harmonyRules) {
+      for (const background of ["dark", "light"] as const) {
+        const palette = generateHarmonyPalette("#3fa7d6", rule, { count: 8, background });
+        expect(palette).toHaveLength(8);
+        expect(analyzePalette(palette).minContrast).toBeGreaterThan(2);
+      }
+    }
+  });
+});
+
+describe("extractPalette", () => {
+  // 3:1 red to blue, plus transparent pixels that must be ignored
+  const pixels = new Uint8ClampedArray(
+    [
+      ...Array(300).fill([255, 0, 0, 255]),
+      ...Array(100).fill([0, 0, 255, 255]),
+      ...Array(200).fill([0, 255, 0, 0]),
+    ].flat()
+  );
+
+  it("finds dominant colors, most common first", () => {
+    expect(extractPalette(pixels, { count: 2 })).toEqual(["#ff0000", "#0000ff"]);
+  });
+
+  it("returns fewer colors than asked when the image has fewer", () => {
+    expect(extractPalette(pixels, { count: 5 })).toEqual(["#ff0000", "#0000ff"]);
+    expect(extractPalette(new Uint8ClampedArray(0))).toEqual([]);
+  });
+});
+
+describe("analysis", () => {
+  it("computes WCAG contrast", () => {
+    expect(contrastRatio("#000000", "#ffffff")).toBeCloseTo(21, 5);
+    expect(contrastRatio("#777777", "#777777")).toBe(1);
+  });
+
+  it("flags pairs that collapse under color-vision deficiencies", () => {
+    const redGreen = analyzePalette(["#000000", "#d04040", "#40a040"]);
+    expect(redGreen.colorBlindSafe).toBe(false);
+    expect(redGreen.confusedBy).toContain("deuteranopia");
+    expect(analyzePalette(["#000000", "#ffffff"]).colorBlindSafe).toBe(true);
+  });
+
+  it("sorts by lightness", () => {
+    expect(sortByLightness(["#ffffff", "#000000", "#808080"])).toEqual(["#000000", "#808080", "#ffffff"]);
+    expect(sortByLightness(["#000000", "#ffffff"], "descending")).toEqual(["#ffffff", "#000000"]);
+  });
+});
+
+describe("blending", () => {
+  it("mixes along the shorter hue arc", () => {
+    expect(mixColors("#FF0000", "#0000ff", 0)).toBe("#ff0000");
+    expect(mixColors("#ff0000", "#0000ff", 1)).toBe("#0000ff");
+    // Red sits near 29° and blue near 264°, so the short way passes through magenta
+    const mid = hexToOklch(mixColors("#ff0000", "#0000ff", 0.5));
+    expect(mid.h > 300 || mid.h < 29).toBe(true);
+  });
+
+  it("keeps the hue of a chromatic color mixed with grey", () => {
+    const orange = hexToOklch("#ff6b35");
+    expect(hexToOklch(mixColors("#808080", "#ff6b35", 0.5)).h).toBeCloseTo(orange.h, 0);
+  });
+
+  it("blends palettes of different lengths", () => {
+    const a = ["#000000", "#ff0000"];
+    const b = ["#ffffff", "#00ff00", "#0000ff"];
+    expect(blendPalettes(a, b, 0)).toEqual(a);
+    expect(blendPalettes(a, b, 1)).toEqual(b);
+    expect(blendPalettes(a, b, 0.25)).toHaveLength(2);
+    expect(blendPalettes(a, b, 0.75)).toHaveLength(3);
+  });
+});
+
+describe("repairPalette", () => {
+  it("leaves valid palettes untouched", () => {
+    for (const preset of presets) {
+      expect(repairPalette(preset.defaultPalette)).toEqual(preset.defaultPalette);
+    }
+  });
+
+  it("normalizes, dedupes and truncates", () => {
+    expect(repairPalette(["FFF", "#000", "#FFFFFF", 7, "not a color"])).toEqual(["#ffffff", "#000000"]);
+    expect(repairPalette(Array.from({ length: 12 }, (_, i) => `#0000${(i * 20).toString(16).padStart(2, "0")}`)))
+      .toHaveLength(8);
+  });
+
+  it("completes a single color into a harmony", () => {
+    const palette = repairPalette(["#ff6b35"])!;
+    expect(palette).toHaveLength(3);
+    expect(palette).toContain("#ff6b35");
+  });
+
+  it("fixes a background the accents disappear into", () => {
+    const palette = repairPalette(["#202020", "#222222", "#1e1e1e"])!;
+    expect(analyzePalette(palette).maxContrast).toBeGreaterThan(1.5);
+  });
+
+  it("gives up when nothing is salvageable", () => {
+    expect(repairPalette([])).toBeNull();
+    expect(repairPalette("#ffffff")).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { formatServerSentEvent, readServerSentEvents } from "../sse";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: string[]) {
+  const events = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) events.push(event);
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  it("reassembles events split across chunks", async () => {
+    const body = formatServerSentEvent("variation", { seed: 1 }) + ": keep-alive\r\n\r\ndata: a\ndata: b\n\ndata: [DONE]";
+    const chunks = body.match(/.{1,7}/gs)!;
+    expect(await collect(chunks)).toEqual([
+      { event: "variation", data: '{"seed":1}' },
+      { data: "a\nb" },
+      { data: "[DONE]" },
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { buildRarityTable, computeTraits, paletteMood, rarityScore } from "../traits";
+import { defaultFlowFieldsParams, renderableTemplateIds, templateRegistry } from "../templates";
+import { presets } from "../presets";
+
+const palette = ["#0a0a0f", "#ff6b35", "#00d4ff", "#ff0066"];
+
+describe("computeTraits", () => {
+  it("buckets params into readable traits", () => {
+    const traits = computeTraits({
+      templateId: "flow_fields",
+      palette,
+      params: { ...defaultFlowFieldsParams, density: 0.9, turbulence: 1.8 },
+    });
+    expect(traits).toContainEqual({ trait_type: "Density", value: "Dense" });
+    expect(traits).toContainEqual({ trait_type: "Turbulence", value: "High Turbulence" });
+    expect(traits).toContainEqual({ trait_type: "Palette", value: "Neon Night" });
+    expect(traits).toContainEqual({ trait_type: "Motion", value: "Still" });
+  });
+
+  it("reads missing optional params from the template defaults", () => {
+    const { noiseType: _noiseType, octaves: _octaves, ...legacy } = defaultFlowFieldsParams;
+    expect(computeTraits({ templateId: "flow_fields", palette, params: legacy })).toContainEqual({
+      trait_type: "Noise",
+      value: "Value Noise",
+    });
+  });
+
+  it("gives every template's defaults a value for each of its traits", () => {
+    for (const id of renderableTemplateIds) {
+      const definition = templateRegistry[id];
+      const traits = computeTraits({ templateId: id, palette, params: definition.defaultParams });
+      expect(traits.map((trait) => trait.trait_type)).toEqual([
+        ...definition.traits.map((trait) => trait.traitType),
+        "Palette",
+        "Colors",
+        "Motion",
+      ]);
+    }
+  });
+
+  it("names palette moods", () => {
+    expect(paletteMood(presets.find((preset) => preset.id === "jazz_noir")!.defaultPalette)).toBe("Neon Night");
+    expect(paletteMood(["#f5f0e8", "#8a8a80", "#5c6b73"])).toBe("Paper");
+  });
+});
+
+describe("rarity", () => {
+  it("tabulates trait frequencies and scores rare pieces higher", () => {
+    const common = [{ trait_type: "Density", value: "Dense" }];
+    const rare = [{ trait_type: "Density", value: "Sparse" }];
+    const table = buildRarityTable([common, common, common, rare]);
+    expect(table.total).toBe(4);
+    expect(table.traits.Density).toEqual([
+      { value: "Dense", count: 3, frequency: 0.75 },
+      { value: "Sparse", count: 1, frequency: 0.25 },
+    ]);
+    expect(rarityScore(rare, table)).toBeGreaterThan(rarityScore(common, table));
+  });
+});
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+export const MIN_ANIMATION_FRAMES = 2;
+export const MAX_ANIMATION_FRAMES = 48;
+
+/**
+ * Loop settings for animated output. Frames sample t = i / frameCount,
+ * so the loop is seamless and frame 0 equals the static image.
+ */
+export const animationSpecSchema = z.object({
+  frameCount: z.number().int().min(MIN_ANIMATION_FRAMES).max(MAX_ANIMATION_FRAMES),
+  fps: z.number().int().min(1).max(30),
+});
+export type AnimationSpec = z.infer<typeof animationSpecSchema>;
+
+export const defaultAnimationSpec: AnimationSpec = {
+  frameCount: 24,
+  fps: 12,
+};
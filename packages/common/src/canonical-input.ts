@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { computeHash } from "./hash";
+import { canonicalInputSchema, customCodeParamsSchema, svgTemplateIds } from "./schemas";
+
+/**
+ * Version written by current mints. Rows stored before versioning carry no
+ * `version` and are version 1.
+ */
+export const CANONICAL_INPUT_VERSION = 2;
+
+export const canonicalInputKinds = ["generative", "custom_code", "upload"] as const;
+export type CanonicalInputKind = (typeof canonicalInputKinds)[number];
+
+const uploadFileSchema = z.object({
+  mime: z.string(),
+  bytes: z.number(),
+  width: z.number(),
+  height: z.number(),
+  url: z.string(),
+});
+
+/** Provenance stored for raster uploads, which have no generative source */
+export const uploadProvenanceSchema = z.object({
+  kind: z.literal("upload"),
+  createdAt: z.string(),
+  appVersion: z.string().optional(),
+  rendererVersion: z.string().nullable().optional(),
+  original: uploadFileSchema.extend({ sha256: z.string(), filename: z.string() }),
+  mint: uploadFileSchema.extend({
+    format: z.enum(["webp", "png"]),
+    quality: z.number().nullable(),
+    fit: z.enum(["contain", "cover"]),
+    maxSide: z.number(),
+  }),
+  thumbnail: uploadFileSchema,
+});
+export type UploadProvenance = z.infer<typeof uploadProvenanceSchema>;
+
+const version = z.literal(CANONICAL_INPUT_VERSION);
+
+export const generativeInputSchema = canonicalInputSchema.extend({
+  kind: z.literal("generative"),
+  version,
+  templateId: z.enum(svgTemplateIds),
+});
+export type GenerativeInput = z.infer<typeof generativeInputSchema>;
+
+export const customCodeInputSchema = canonicalInputSchema.extend({
+  kind: z.literal("custom_code"),
+  version,
+  templateId: z.literal("custom_code"),
+  params: customCodeParamsSchema,
+});
+export type CustomCodeInput = z.infer<typeof customCodeInputSchema>;
+
+export const uploadInputSchema = uploadProvenanceSchema.extend({ version });
+export type UploadInput = z.infer<typeof uploadInputSchema>;
+
+export type VersionedCanonicalInput = GenerativeInput | CustomCodeInput | UploadInput;
+
+type StoredInput = Record<string, unknown>;
+
+/** Kind of an unversioned row, from the keys each mint route used to write */
+function legacyKind(input: StoredInput): CanonicalInputKind {
+  if (input.kind === "upload" || input.original) return "upload";
+  if (input.templateId === "custom_code" || typeof input.code === "string") return "custom_code";
+  return "generative";
+}
+
+/**
+ * Upgrades keyed by the version they lift from; each returns the next
+ * version's shape. Add an entry here, and bump CANONICAL_INPUT_VERSION,
+ * whenever the stored shape changes.
+ */
+const upgrades: Record<number, (input: StoredInput) => StoredInput> = {
+  1: (input) => {
+    const kind = legacyKind(input);
+    // Early code-studio rows kept the code beside the seed instead of in params
+    if (kind === "custom_code" && typeof input.code === "string") {
+      const { code, mode, ...rest } = input;
+      return {
+        prompt: "custom_code",
+        ...rest,
+        kind,
+        version: 2,
+        templateId: "custom_code",
+        params: mode === "javascript" ? { code, mode } : { code },
+      };
+    }
+    return { ...input, kind, version: 2 };
+  },
+};
+
+/**
+ * Lift a stored input of any historical shape to the current version.
+ * Values that are not objects, or whose version has no upgrade, are
+ * returned unchanged for the schema to reject.
+ */
+export function upgradeCanonicalInput(raw: unknown): unknown {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) return raw;
+  let input = raw as StoredInput;
+  let current: unknown = input.version ?? 1;
+  while (typeof current === "number" && current < CANONICAL_INPUT_VERSION) {
+    const upgrade = upgrades[current];
+    if (!upgrade) break;
+    input = upgrade(input);
+    current = input.version;
+  }
+  return input;
+}
+
+/** Any stored canonical input, upgraded to the current version on parse */
+export const versionedCanonicalInputSchema = z.preprocess(
+  upgradeCanonicalInput,
+  z.discriminatedUnion("kind", [generativeInputSchema, customCodeInputSchema, uploadInputSchema])
+);
+
+/** Parse a `Mint.inputJson` string; null when it is malformed or of no known shape */
+export function parseCanonicalInputJson(json: string): VersionedCanonicalInput | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const parsed = versionedCanonicalInputSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Provenance hash of a generative or code input. `kind`, `version` and
+ * `createdAt` describe the record rather than the artwork, so they are left
+ * out and hashes stay stable across schema versions.
+ */
+export function hashCanonicalInput(input: GenerativeInput | CustomCodeInput): string {
+  const { kind: _kind, version: _version, createdAt: _createdAt, ...artwork } = input;
+  return computeHash(artwork);
+}
@@ -0,0 +1,70 @@
+import { z } from "zod";
+
+/** Canvas edge length used by every mint made before explicit dimensions existed */
+export const DEFAULT_CANVAS_SIZE = 1080;
+
+export const MIN_CANVAS_DIMENSION = 256;
+export const MAX_CANVAS_DIMENSION = 2160;
+
+export const canvasDimensionSchema = z
+  .number()
+  .int()
+  .min(MIN_CANVAS_DIMENSION)
+  .max(MAX_CANVAS_DIMENSION);
+
+export interface CanvasDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Aspect-ratio presets for the studio. The short edge is always
+ * DEFAULT_CANVAS_SIZE so presets stay comparable with square pieces.
+ */
+export const aspectRatioPresets = {
+  "1:1": { width: 1080, height: 1080 },
+  "4:5": { width: 1080, height: 1350 },
+  "2:3": { width: 1080, height: 1620 },
+  "9:16": { width: 1080, height: 1920 },
+  "3:2": { width: 1620, height: 1080 },
+  "16:9": { width: 1920, height: 1080 },
+} as const satisfies Record<string, CanvasDimensions>;
+
+export type AspectRatioPreset = keyof typeof aspectRatioPresets;
+
+/**
+ * Fill in missing dimensions. Inputs without width/height predate
+ * non-square canvases and always rendered at 1080x1080.
+ */
+export function resolveCanvasDimensions(input: {
+  width?: number;
+  height?: number;
+}): CanvasDimensions {
+  return {
+    width: input.width ?? DEFAULT_CANVAS_SIZE,
+    height: input.height ?? DEFAULT_CANVAS_SIZE,
+  };
+}
+
+/**
+ * The dimensions to record in a hashed input: none for the 1080x1080
+ * default, so a square mint hashes exactly as it did before dimensions
+ * were recorded and duplicate detection holds across the upgrade.
+ */
+export function hashedCanvasDimensions(dimensions: CanvasDimensions): Partial<CanvasDimensions> {
+  return dimensions.width === DEFAULT_CANVAS_SIZE && dimensions.height === DEFAULT_CANVAS_SIZE
+    ? {}
+    : { width: dimensions.width, height: dimensions.height };
+}
+
+/**
+ * Scale dimensions so the longer edge equals `longEdge`, preserving
+ * aspect ratio. Used for raster exports at a requested size.
+ */
+export function fitLongEdge(dimensions: CanvasDimensions, longEdge: number): CanvasDimensions {
+  const scale = longEdge / Math.max(dimensions.width, dimensions.height);
+  return {
+    width: Math.max(1, Math.round(dimensions.width * scale)),
+    height: Math.max(1, Math.round(dimensions.height * scale)),
+  };
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import {
+  templateRegistry,
+  renderableTemplateIds,
+  defaultFlowFieldsParams,
+  defaultJazzNoirParams,
+} from "./templates";
+
+/** Kept small so a composite still fits in a /api/render GET preview URL */
+export const MAX_COMPOSITE_LAYERS = 4;
+
+/** SVG/CSS mix-blend-mode values a layer can use */
+export const blendModes = [
+  "normal",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+] as const;
+export type BlendMode = (typeof blendModes)[number];
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
+const unit = z.number().min(0).max(1);
+
+/**
+ * Mask shapes, in coordinates normalised to the canvas (circle radius is
+ * relative to the short edge). A gradient mask keeps the layer fully
+ * visible at the `from` edge and fades it out towards the opposite one.
+ * `invert` swaps the visible and hidden areas.
+ */
+export const layerMaskSchema = z.discriminatedUnion("shape", [
+  z.object({ shape: z.literal("circle"), cx: unit, cy: unit, r: unit, invert: z.boolean().optional() }).strict(),
+  z
+    .object({ shape: z.literal("rect"), x: unit, y: unit, width: unit, height: unit, invert: z.boolean().optional() })
+    .strict(),
+  z
+    .object({
+      shape: z.literal("gradient"),
+      from: z.enum(["top", "bottom", "left", "right"]),
+      invert: z.boolean().optional(),
+    })
+    .strict(),
+]);
+export type LayerMask = z.infer<typeof layerMaskSchema>;
+
+/**
+ * One layer of a composite: a registry template with its own params.
+ * Seed defaults to the composite seed plus the layer index and palette
+ * to the composite palette, so a layer only records what it overrides.
+ */
+export const compositeLayerSchema = z
+  .object({
+    templateId: z.enum(renderableTemplateIds),
+    seed: z.number().int().min(0).max(999999999).optional(),
+    palette: z.array(hexColor).min(2).max(8).optional(),
+    params: z.record(z.unknown()),
+    opacity: unit.optional(),
+    blendMode: z.enum(blendModes).optional(),
+    mask: layerMaskSchema.optional(),
+  })
+  .strict()
+  .superRefine((layer, ctx) => {
+    const result = templateRegistry[layer.templateId].paramsSchema.strict().safeParse(layer.params);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+      }
+    }
+  });
+export type CompositeLayer = z.infer<typeof compositeLayerSchema>;
+
+export const compositeParamsSchema = z.object({
+  layers: z.array(compositeLayerSchema).min(1).max(MAX_COMPOSITE_LAYERS),
+});
+export type CompositeParams = z.infer<typeof compositeParamsSchema>;
+
+/** Layers are listed bottom first, like the layer order in the SVG */
+export const defaultCompositeParams: CompositeParams = {
+  layers: [
+    { templateId: "jazz_noir", params: defaultJazzNoirParams },
+    {
+      templateId: "flow_fields",
+      params: { ...defaultFlowFieldsParams, grain: 0 },
+      opacity: 0.8,
+      blendMode: "screen",
+      mask: { shape: "gradient", from: "top" },
+    },
+  ],
+};
+
+export const compositeTemplate = {
+  id: "composite",
+  label: "Composite // Layers",
+  description: "Stacked templates combined with opacity, blend modes and masks",
+} as const;
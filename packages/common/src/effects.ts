@@ -0,0 +1,124 @@
+import { z } from "zod";
+import type { ParameterMetaEntry } from "./templates";
+
+/** Longest post-processing chain a render may carry */
+export const MAX_EFFECTS = 8;
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
+
+/**
+ * Post-processing effects, applied in list order to a template's output.
+ * Lengths are in canvas units (the SVG viewBox), so they scale with the
+ * image when it is rasterized at a different size.
+ */
+export const effectSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("vignette"),
+      strength: z.number().min(0).max(1).describe("Edge darkening 0-1"),
+      radius: z.number().min(0.2).max(1).describe("Clear centre radius, relative to the half-diagonal"),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("halftone"),
+      size: z.number().min(4).max(48).describe("Dot cell size in canvas units"),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("chromaticAberration"),
+      offset: z.number().min(0).max(24).describe("Red/blue channel shift in canvas units"),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("grain"),
+      amount: z.number().min(0).max(1).describe("Film grain strength 0-1"),
+      scale: z.number().min(0.1).max(2).describe("Grain frequency 0.1-2"),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("posterize"),
+      levels: z.number().int().min(2).max(8).describe("Tone levels per channel 2-8"),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("duotone"),
+      shadow: hexColor,
+      highlight: hexColor,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("scanlines"),
+      spacing: z.number().min(2).max(24).describe("Line pitch in canvas units"),
+      opacity: z.number().min(0).max(1).describe("Line darkness 0-1"),
+    })
+    .strict(),
+]);
+export type Effect = z.infer<typeof effectSchema>;
+export type EffectType = Effect["type"];
+
+export const effectChainSchema = z.array(effectSchema).max(MAX_EFFECTS);
+
+export const effectTypes = [
+  "vignette",
+  "halftone",
+  "chromaticAberration",
+  "grain",
+  "posterize",
+  "duotone",
+  "scanlines",
+] as const satisfies readonly EffectType[];
+
+/** Starting values used when an effect is added in the studio */
+export const defaultEffects: { [T in EffectType]: Extract<Effect, { type: T }> } = {
+  vignette: { type: "vignette", strength: 0.6, radius: 0.7 },
+  halftone: { type: "halftone", size: 12 },
+  chromaticAberration: { type: "chromaticAberration", offset: 4 },
+  grain: { type: "grain", amount: 0.25, scale: 0.8 },
+  posterize: { type: "posterize", levels: 4 },
+  duotone: { type: "duotone", shadow: "#1a0a2e", highlight: "#ff6b35" },
+  scanlines: { type: "scanlines", spacing: 6, opacity: 0.3 },
+};
+
+/** Control metadata for the studio effect editor; duotone colors use color pickers */
+export const effectMeta: Record<EffectType, { label: string; fields: Record<string, ParameterMetaEntry> }> = {
+  vignette: {
+    label: "Vignette",
+    fields: {
+      strength: { min: 0, max: 1, step: 0.05, label: "Strength" },
+      radius: { min: 0.2, max: 1, step: 0.05, label: "Radius" },
+    },
+  },
+  halftone: {
+    label: "Halftone",
+    fields: { size: { min: 4, max: 48, step: 1, label: "Cell Size" } },
+  },
+  chromaticAberration: {
+    label: "Chromatic Aberration",
+    fields: { offset: { min: 0, max: 24, step: 0.5, label: "Offset" } },
+  },
+  grain: {
+    label: "Film Grain",
+    fields: {
+      amount: { min: 0, max: 1, step: 0.05, label: "Amount" },
+      scale: { min: 0.1, max: 2, step: 0.05, label: "Scale" },
+    },
+  },
+  posterize: {
+    label: "Posterize",
+    fields: { levels: { min: 2, max: 8, step: 1, label: "Levels" } },
+  },
+  duotone: { label: "Duotone", fields: {} },
+  scanlines: {
+    label: "Scanlines",
+    fields: {
+      spacing: { min: 2, max: 24, step: 1, label: "Spacing" },
+      opacity: { min: 0, max: 1, step: 0.05, label: "Opacity" },
+    },
+  },
+};
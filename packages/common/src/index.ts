@@ -2,22 +2,164 @@ export { stableStringify, computeHash } from "./hash";
 export {
   type CanonicalInput,
   type Variation,
-  type FlowFieldsParams,
-  type JazzNoirParams,
   type CustomCodeParams,
   type TemplateId,
-  type RenderableTemplateId,
-  type ParameterMetaEntry,
+  type SvgTemplateId,
   canonicalInputSchema,
   variationSchema,
-  flowFieldsParamsSchema,
-  jazzNoirParamsSchema,
   customCodeParamsSchema,
+  customCodeMode,
   templateIds,
-  renderableTemplateIds,
+  svgTemplateIds,
+  getSvgTemplateParamsSchema,
   templateParamsSchema,
+} from "./schemas";
+export {
+  type CanonicalInputKind,
+  type UploadProvenance,
+  type GenerativeInput,
+  type CustomCodeInput,
+  type UploadInput,
+  type VersionedCanonicalInput,
+  CANONICAL_INPUT_VERSION,
+  canonicalInputKinds,
+  uploadProvenanceSchema,
+  generativeInputSchema,
+  customCodeInputSchema,
+  uploadInputSchema,
+  versionedCanonicalInputSchema,
+  upgradeCanonicalInput,
+  parseCanonicalInputJson,
+  hashCanonicalInput,
+} from "./canonical-input";
+export { type ServerSentEvent, formatServerSentEvent, readServerSentEvents } from "./sse";
+export {
+  type JsonSchema,
+  JSON_SCHEMA_DIALECT,
+  zodToJsonSchema,
+  templateParamsJsonSchema,
+  variationJsonSchema,
+} from "./json-schema";
+export {
+  type BlendMode,
+  type LayerMask,
+  type CompositeLayer,
+  type CompositeParams,
+  MAX_COMPOSITE_LAYERS,
+  blendModes,
+  layerMaskSchema,
+  compositeLayerSchema,
+  compositeParamsSchema,
+  defaultCompositeParams,
+  compositeTemplate,
+} from "./composite";
+export {
+  type Effect,
+  type EffectType,
+  MAX_EFFECTS,
+  effectSchema,
+  effectChainSchema,
+  effectTypes,
+  defaultEffects,
+  effectMeta,
+} from "./effects";
+export {
+  type TemplateDefinition,
+  type TemplateParams,
+  type FlowFieldsParams,
+  type JazzNoirParams,
+  type GeoTilingParams,
+  type GeoTilingPattern,
+  type StrangeAttractorParams,
+  type AttractorType,
+  type AttractorColorMode,
+  type TypographyParams,
+  type TypographyLayout,
+  type TypographyFont,
+  type RenderableTemplateId,
+  type ParameterMetaEntry,
+  type ParameterOptionMetaEntry,
+  type ParameterTextMetaEntry,
+  type TraitBucket,
+  type TraitDefinition,
+  type NoiseType,
+  noiseTypes,
+  templateRegistry,
+  renderableTemplateIds,
+  isRenderableTemplateId,
+  getTemplateDefinition,
+  flowFieldsParamsSchema,
+  jazzNoirParamsSchema,
+  geoTilingParamsSchema,
+  geoTilingPatterns,
+  strangeAttractorParamsSchema,
+  attractorTypes,
+  attractorColorModes,
+  typographyParamsSchema,
+  typographyLayouts,
+  typographyFonts,
   defaultFlowFieldsParams,
   defaultJazzNoirParams,
+  defaultGeoTilingParams,
+  defaultStrangeAttractorParams,
+  defaultTypographyParams,
   parameterMeta,
-} from "./schemas";
+} from "./templates";
+export {
+  type CanvasDimensions,
+  type AspectRatioPreset,
+  DEFAULT_CANVAS_SIZE,
+  MIN_CANVAS_DIMENSION,
+  MAX_CANVAS_DIMENSION,
+  canvasDimensionSchema,
+  aspectRatioPresets,
+  resolveCanvasDimensions,
+  hashedCanvasDimensions,
+  fitLongEdge,
+} from "./canvas";
+export {
+  type AnimationSpec,
+  MIN_ANIMATION_FRAMES,
+  MAX_ANIMATION_FRAMES,
+  animationSpecSchema,
+  defaultAnimationSpec,
+} from "./animation";
 export { type Palette, presets, type StylePreset } from "./presets";
+export {
+  type Oklch,
+  type HarmonyRule,
+  type HarmonyOptions,
+  type PaletteExtractionOptions,
+  type PaletteAnalysis,
+  type ColorVisionDeficiency,
+  MIN_PALETTE_COLORS,
+  MAX_PALETTE_COLORS,
+  MIN_ACCENT_CONTRAST,
+  MIN_DISTINGUISHABLE_DISTANCE,
+  harmonyRules,
+  colorVisionDeficiencies,
+  defaultHarmonyOptions,
+  defaultPaletteExtractionOptions,
+  hexToOklch,
+  oklchToHex,
+  generateHarmonyPalette,
+  extractPalette,
+  relativeLuminance,
+  contrastRatio,
+  simulateColorVision,
+  analyzePalette,
+  sortByLightness,
+  mixColors,
+  blendPalettes,
+  repairPalette,
+} from "./palette";
+export {
+  type NftAttribute,
+  type TraitInput,
+  type TraitRarity,
+  type RarityTable,
+  paletteMood,
+  computeTraits,
+  buildRarityTable,
+  rarityScore,
+} from "./traits";
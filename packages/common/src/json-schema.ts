@@ -0,0 +1,166 @@
+import { z } from "zod";
+import {
+  templateRegistry,
+  renderableTemplateIds,
+  type RenderableTemplateId,
+} from "./templates";
+import { variationSchema } from "./schemas";
+
+/**
+ * The subset of JSON Schema (draft 2020-12) the converter emits. `x-step`
+ * carries the manual-mode slider step; it is a hint, not a constraint,
+ * since defaults and AI output need not land on a step.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  const?: string | number | boolean;
+  enum?: readonly (string | number)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** Media type of a string's content, e.g. "text/javascript"; only set on hand-written schemas */
+  contentMediaType?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  anyOf?: JsonSchema[];
+  "x-step"?: number;
+}
+
+/** Dialect the exported schemas are written against */
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Convert a zod schema to JSON Schema. Covers the types params and
+ * variations are built from: objects, numbers, strings, enums, literals,
+ * arrays, unions, optionals, defaults and refinements (whose checks are
+ * dropped). Anything else throws, so a new zod type in a template schema
+ * fails loudly rather than publishing an empty schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional) {
+    return { ...zodToJsonSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue(), ...description };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...zodToJsonSchema(schema.innerType()), ...description };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: "object", properties, required, additionalProperties: false, ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? "integer" : "number",
+      ...(schema.minValue !== null ? { minimum: schema.minValue } : {}),
+      ...(schema.maxValue !== null ? { maximum: schema.maxValue } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    const regex = schema._def.checks.find((check) => check.kind === "regex");
+    return {
+      type: "string",
+      ...(schema.minLength !== null ? { minLength: schema.minLength } : {}),
+      ...(schema.maxLength !== null ? { maxLength: schema.maxLength } : {}),
+      ...(regex?.kind === "regex" ? { pattern: regex.regex.source } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options as string[], ...description };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value: unknown = schema.value;
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      throw new Error(`Unsupported literal in JSON Schema export: ${String(value)}`);
+    }
+    return { const: value, ...description };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: "array",
+      items: zodToJsonSchema(schema.element),
+      ...(schema._def.minLength ? { minItems: schema._def.minLength.value } : {}),
+      ...(schema._def.maxLength ? { maxItems: schema._def.maxLength.value } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema), ...description };
+  }
+  throw new Error(`Unsupported zod type in JSON Schema export: ${schema._def.typeName}`);
+}
+
+/**
+ * JSON Schema for a template's params: the zod schema's types and bounds,
+ * with each property's control label as its `title`, slider step as
+ * `x-step` and registry default as `default`.
+ */
+export function templateParamsJsonSchema(templateId: RenderableTemplateId): JsonSchema {
+  const definition = templateRegistry[templateId];
+  const schema = zodToJsonSchema(definition.paramsSchema);
+  const meta = definition.parameterMeta as Record<string, { label: string; step?: number }>;
+  const defaults = definition.defaultParams as Record<string, unknown>;
+  const properties = Object.fromEntries(
+    Object.entries(schema.properties ?? {}).map(([key, property]) => {
+      const entry = meta[key];
+      return [
+        key,
+        {
+          ...(entry ? { title: entry.label } : {}),
+          ...property,
+          ...(entry?.step !== undefined ? { "x-step": entry.step } : {}),
+          ...(defaults[key] !== undefined ? { default: defaults[key] } : {}),
+        },
+      ];
+    })
+  );
+  return { title: definition.label, description: definition.description, ...schema, properties };
+}
+
+/**
+ * JSON Schema for one variation of the given templates, as an `anyOf`
+ * with a branch per template so each `templateId` is tied to its params.
+ * The shared fields come from variationSchema.
+ */
+export function variationJsonSchema(
+  templateIds: readonly RenderableTemplateId[] = renderableTemplateIds
+): JsonSchema {
+  const { templateId: _templateId, params: _params, ...shared } = variationSchema.innerType().shape;
+  const base = zodToJsonSchema(z.object(shared));
+  return {
+    anyOf: templateIds.map((templateId) => ({
+      ...base,
+      title: templateRegistry[templateId].label,
+      properties: {
+        templateId: { const: templateId },
+        ...base.properties,
+        params: templateParamsJsonSchema(templateId),
+      },
+      required: ["templateId", ...(base.required ?? []), "params"],
+    })),
+  };
+}
@@ -0,0 +1,421 @@
+/**
+ * Palette engine: OKLCH color math, harmony generation, k-means extraction
+ * from pixels, contrast and color-vision analysis, and palette repair.
+ *
+ * Palettes follow the template convention: the first color is the
+ * background, the rest are accents.
+ */
+
+export const MIN_PALETTE_COLORS = 2;
+export const MAX_PALETTE_COLORS = 8;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/** Lightness 0–1, chroma 0–~0.37, hue in degrees */
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+/** Linear-light sRGB channels in [0, 1] */
+function hexToLinearRgb(hex: string): Rgb {
+  return [0, 1, 2].map((i) => toLinear(parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16) / 255)) as Rgb;
+}
+
+function linearRgbToHex(rgb: Rgb): string {
+  return (
+    "#" +
+    rgb
+      .map((channel) => Math.round(clamp(fromLinear(channel), 0, 1) * 255).toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+// Björn Ottosson's OKLab, https://bottosson.github.io/posts/oklab/
+function linearRgbToOklab([r, g, b]: Rgb): Lab {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function oklabToLinearRgb([L, a, b]: Lab): Rgb {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+function oklchToOklab({ l, c, h }: Oklch): Lab {
+  const radians = (h * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+export function hexToOklch(hex: string): Oklch {
+  const [l, a, b] = linearRgbToOklab(hexToLinearRgb(hex));
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return { l, c: Math.hypot(a, b), h: hue < 0 ? hue + 360 : hue };
+}
+
+/**
+ * Nearest displayable color: chroma is reduced at constant lightness and hue
+ * until the color fits in sRGB.
+ */
+export function oklchToHex(color: Oklch): string {
+  const l = clamp(color.l, 0, 1);
+  const inGamut = (rgb: Rgb) => rgb.every((channel) => channel >= -1e-4 && channel <= 1 + 1e-4);
+  let rgb = oklabToLinearRgb(oklchToOklab({ ...color, l }));
+  if (!inGamut(rgb)) {
+    let lo = 0;
+    let hi = Math.max(0, color.c);
+    for (let i = 0; i < 24; i++) {
+      const mid = (lo + hi) / 2;
+      if (inGamut(oklabToLinearRgb(oklchToOklab({ l, c: mid, h: color.h })))) lo = mid;
+      else hi = mid;
+    }
+    rgb = oklabToLinearRgb(oklchToOklab({ l, c: lo, h: color.h }));
+  }
+  return linearRgbToHex(rgb);
+}
+
+// ── Harmony ──
+
+export const harmonyRules = ["complementary", "triadic", "analogous", "split"] as const;
+export type HarmonyRule = (typeof harmonyRules)[number];
+
+/** Hue offsets from the base color, in degrees */
+const HARMONY_OFFSETS: Record<HarmonyRule, number[]> = {
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+  analogous: [0, -30, 30],
+  split: [0, 150, 210],
+};
+
+export interface HarmonyOptions {
+  /** Total colors including the background, 2–8 */
+  count: number;
+  /** Background lightness: a near-black or near-white tint of the base hue */
+  background: "dark" | "light";
+}
+
+export const defaultHarmonyOptions: HarmonyOptions = { count: 5, background: "dark" };
+
+/**
+ * Palette around `base` following a color-harmony rule. Accents walk the
+ * rule's hues; once every hue is used they repeat at stepped lightness.
+ * Accent lightness stays clear of the background so shapes read against it.
+ */
+export function generateHarmonyPalette(
+  base: string,
+  rule: HarmonyRule,
+  options: Partial<HarmonyOptions> = {}
+): string[] {
+  const { count, background } = { ...defaultHarmonyOptions, ...options };
+  const total = clamp(Math.round(count), MIN_PALETTE_COLORS, MAX_PALETTE_COLORS);
+  const seed = hexToOklch(base);
+  const dark = background === "dark";
+  const offsets = HARMONY_OFFSETS[rule];
+
+  const palette = [oklchToHex({ l: dark ? 0.16 : 0.96, c: Math.min(seed.c, 0.03), h: seed.h })];
+  const [minL, maxL] = dark ? [0.55, 0.95] : [0.3, 0.7];
+  for (let i = 0; i < total - 1; i++) {
+    const tier = Math.floor(i / offsets.length);
+    // Tiers alternate lighter and darker: 0, +0.12, -0.12, +0.24, ...
+    const shift = tier === 0 ? 0 : (tier % 2 === 1 ? 1 : -1) * 0.12 * Math.ceil(tier / 2);
+    palette.push(
+      oklchToHex({
+        l: clamp(seed.l + shift, minL, maxL),
+        c: Math.max(seed.c, 0.08),
+        h: (seed.h + offsets[i % offsets.length]! + 360) % 360,
+      })
+    );
+  }
+  return palette;
+}
+
+// ── Extraction ──
+
+export interface PaletteExtractionOptions {
+  /** Colors to extract, 1–8 */
+  count: number;
+  /** Pixels sampled on an even stride; bounds the cost for large images */
+  maxSamples: number;
+  iterations: number;
+}
+
+export const defaultPaletteExtractionOptions: PaletteExtractionOptions = {
+  count: 5,
+  maxSamples: 4096,
+  iterations: 12,
+};
+
+const labDistance = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Dominant colors of an RGBA pixel buffer (e.g. canvas ImageData), by k-means
+ * in OKLab. Deterministic: seeding picks the sample nearest the mean, then
+ * repeatedly the sample farthest from every center so far. Mostly transparent
+ * pixels are ignored. Colors come back most common first, so the dominant
+ * color becomes the background; fewer come back if the image has fewer.
+ */
+export function extractPalette(
+  pixels: ArrayLike<number>,
+  options: Partial<PaletteExtractionOptions> = {}
+): string[] {
+  const { count, maxSamples, iterations } = { ...defaultPaletteExtractionOptions, ...options };
+  const k = clamp(Math.round(count), 1, MAX_PALETTE_COLORS);
+  const pixelCount = Math.floor(pixels.length / 4);
+  const stride = Math.max(1, Math.ceil(pixelCount / maxSamples));
+
+  const samples: Lab[] = [];
+  for (let p = 0; p < pixelCount; p += stride) {
+    const i = p * 4;
+    if ((pixels[i + 3] ?? 255) < 128) continue;
+    const rgb = [pixels[i]!, pixels[i + 1]!, pixels[i + 2]!].map((v) => toLinear(v / 255)) as Rgb;
+    samples.push(linearRgbToOklab(rgb));
+  }
+  if (samples.length === 0) return [];
+
+  const mean = samples
+    .reduce<Lab>((sum, s) => [sum[0] + s[0], sum[1] + s[1], sum[2] + s[2]], [0, 0, 0])
+    .map((v) => v / samples.length) as Lab;
+  const nearest = (point: Lab, centers: Lab[]) => {
+    let best = 0;
+    for (let c = 1; c < centers.length; c++) {
+      if (labDistance(point, centers[c]!) < labDistance(point, centers[best]!)) best = c;
+    }
+    return best;
+  };
+
+  const centers: Lab[] = [samples[nearest(mean, samples)]!];
+  while (centers.length < k) {
+    let farthest = -1;
+    let farthestDistance = 1e-6;
+    samples.forEach((sample, i) => {
+      const distance = labDistance(sample, centers[nearest(sample, centers)]!);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    });
+    // Every sample already sits on a center: the image has fewer colors than asked
+    if (farthest < 0) break;
+    centers.push(samples[farthest]!);
+  }
+
+  let sizes: number[] = [];
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centers.map((): Lab => [0, 0, 0]);
+    sizes = centers.map(() => 0);
+    for (const sample of samples) {
+      const c = nearest(sample, centers);
+      sums[c]![0] += sample[0];
+      sums[c]![1] += sample[1];
+      sums[c]![2] += sample[2];
+      sizes[c]!++;
+    }
+    centers.forEach((_, c) => {
+      if (sizes[c]! > 0) centers[c] = sums[c]!.map((v) => v / sizes[c]!) as Lab;
+    });
+  }
+
+  return centers
+    .map((center, c) => ({ hex: linearRgbToHex(oklabToLinearRgb(center)), size: sizes[c] ?? 0 }))
+    .filter(({ size }) => size > 0)
+    .sort((a, b) => b.size - a.size)
+    .map(({ hex }) => hex)
+    .filter((hex, i, all) => all.indexOf(hex) === i);
+}
+
+// ── Analysis ──
+
+/** WCAG 2 relative luminance */
+export function relativeLuminance(hex: string): number {
+  const [r, g, b] = hexToLinearRgb(hex);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG 2 contrast ratio, 1–21 */
+export function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light! + 0.05) / (dark! + 0.05);
+}
+
+export const colorVisionDeficiencies = ["protanopia", "deuteranopia", "tritanopia"] as const;
+export type ColorVisionDeficiency = (typeof colorVisionDeficiencies)[number];
+
+// Machado, Oliveira & Fernandes (2009) at full severity, on linear RGB
+const DEFICIENCY_MATRICES: Record<ColorVisionDeficiency, number[]> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+};
+
+/** How `hex` appears with the given color-vision deficiency */
+export function simulateColorVision(hex: string, deficiency: ColorVisionDeficiency): string {
+  const [r, g, b] = hexToLinearRgb(hex);
+  const m = DEFICIENCY_MATRICES[deficiency];
+  return linearRgbToHex([
+    m[0]! * r + m[1]! * g + m[2]! * b,
+    m[3]! * r + m[4]! * g + m[5]! * b,
+    m[6]! * r + m[7]! * g + m[8]! * b,
+  ]);
+}
+
+/** Accents below this contrast against the background barely show */
+export const MIN_ACCENT_CONTRAST = 1.5;
+/** OKLab distance under which two colors read as the same */
+export const MIN_DISTINGUISHABLE_DISTANCE = 0.06;
+
+export interface PaletteAnalysis {
+  /** Lowest WCAG contrast of an accent against the background */
+  minContrast: number;
+  /** Highest WCAG contrast of an accent against the background */
+  maxContrast: number;
+  /** Smallest OKLab distance between any two colors, as seen with each vision type */
+  minDistance: Record<"normal" | ColorVisionDeficiency, number>;
+  /** Every pair of colors stays distinguishable under every simulated deficiency */
+  colorBlindSafe: boolean;
+  /** Deficiencies under which some pair of colors collapses */
+  confusedBy: ColorVisionDeficiency[];
+}
+
+function minPairDistance(palette: string[]): number {
+  const labs = palette.map((hex) => linearRgbToOklab(hexToLinearRgb(hex)));
+  let min = Infinity;
+  for (let i = 0; i < labs.length; i++) {
+    for (let j = i + 1; j < labs.length; j++) min = Math.min(min, labDistance(labs[i]!, labs[j]!));
+  }
+  return min;
+}
+
+export function analyzePalette(palette: string[]): PaletteAnalysis {
+  const [background, ...accents] = palette;
+  const contrasts = accents.map((accent) => contrastRatio(accent, background!));
+  const minDistance = { normal: minPairDistance(palette) } as PaletteAnalysis["minDistance"];
+  for (const deficiency of colorVisionDeficiencies) {
+    minDistance[deficiency] = minPairDistance(palette.map((hex) => simulateColorVision(hex, deficiency)));
+  }
+  const confusedBy = colorVisionDeficiencies.filter(
+    (deficiency) => minDistance[deficiency] < MIN_DISTINGUISHABLE_DISTANCE
+  );
+  return {
+    minContrast: contrasts.length ? Math.min(...contrasts) : 1,
+    maxContrast: contrasts.length ? Math.max(...contrasts) : 1,
+    minDistance,
+    colorBlindSafe: confusedBy.length === 0,
+    confusedBy,
+  };
+}
+
+/** Colors ordered by OKLCH lightness; ascending puts the darkest first, as the background */
+export function sortByLightness(palette: string[], order: "ascending" | "descending" = "ascending"): string[] {
+  const sign = order === "ascending" ? 1 : -1;
+  return palette
+    .map((hex) => ({ hex, l: hexToOklch(hex).l }))
+    .sort((a, b) => sign * (a.l - b.l))
+    .map(({ hex }) => hex);
+}
+
+// ── Blending ──
+
+/** Below this chroma a color's hue is noise, so blends take the other color's hue */
+const ACHROMATIC_CHROMA = 0.02;
+
+/**
+ * Mix two colors in OKLCH, `amount` 0 giving `a` and 1 giving `b`. Hue
+ * takes the shorter way round the wheel, and a grey picks up the hue of
+ * the color it is mixed with rather than sweeping through unrelated ones.
+ */
+export function mixColors(a: string, b: string, amount: number): string {
+  const t = clamp(amount, 0, 1);
+  if (t === 0) return a.toLowerCase();
+  if (t === 1) return b.toLowerCase();
+  const from = hexToOklch(a);
+  const to = hexToOklch(b);
+  if (from.c < ACHROMATIC_CHROMA) from.h = to.h;
+  if (to.c < ACHROMATIC_CHROMA) to.h = from.h;
+  const delta = ((to.h - from.h + 540) % 360) - 180;
+  return oklchToHex({
+    l: from.l + (to.l - from.l) * t,
+    c: from.c + (to.c - from.c) * t,
+    h: (from.h + delta * t + 360) % 360,
+  });
+}
+
+/**
+ * Blend two palettes color by color. Palettes of different lengths take
+ * the length of the nearer end; the shorter palette's last color stands in
+ * for the slots it lacks.
+ */
+export function blendPalettes(a: readonly string[], b: readonly string[], amount: number): string[] {
+  const length = amount < 0.5 ? a.length : b.length;
+  return Array.from({ length }, (_, i) =>
+    mixColors(a[Math.min(i, a.length - 1)]!, b[Math.min(i, b.length - 1)]!, amount)
+  );
+}
+
+// ── Repair ──
+
+/** Accept #rgb, #rrggbb and either without the hash; anything else is dropped */
+function normalizeHex(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  let hex = value.trim().toLowerCase();
+  if (!hex.startsWith("#")) hex = `#${hex}`;
+  if (/^#[0-9a-f]{3}$/.test(hex)) hex = `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}`;
+  return HEX_PATTERN.test(hex) ? hex : null;
+}
+
+/**
+ * Coerce a loosely specified palette into a valid, legible one: colors are
+ * normalized to #rrggbb, unreadable entries and duplicates dropped, the list
+ * cut to 8 and, if a single color survives, completed with a complementary
+ * harmony. When no accent reaches MIN_ACCENT_CONTRAST against the
+ * background, the background is pushed to near-black or near-white.
+ * Returns null when no color can be salvaged.
+ */
+export function repairPalette(colors: unknown): string[] | null {
+  if (!Array.isArray(colors)) return null;
+  let palette = colors
+    .map(normalizeHex)
+    .filter((hex): hex is string => hex !== null)
+    .filter((hex, i, all) => all.indexOf(hex) === i)
+    .slice(0, MAX_PALETTE_COLORS);
+  if (palette.length === 0) return null;
+  if (palette.length < MIN_PALETTE_COLORS) {
+    const base = palette[0]!;
+    const background = hexToOklch(base).l > 0.5 ? "dark" : "light";
+    palette = generateHarmonyPalette(base, "complementary", { count: 3, background });
+  }
+
+  const analysis = analyzePalette(palette);
+  if (analysis.maxContrast < MIN_ACCENT_CONTRAST) {
+    const background = hexToOklch(palette[0]!);
+    const accentsLight =
+      palette.slice(1).reduce((sum, hex) => sum + hexToOklch(hex).l, 0) / (palette.length - 1) > 0.5;
+    palette = [oklchToHex({ ...background, l: accentsLight ? 0.14 : 0.96 }), ...palette.slice(1)];
+  }
+  return palette;
+}
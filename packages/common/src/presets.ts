@@ -1,3 +1,5 @@
+import type { RenderableTemplateId } from "./templates";
+
 export type Palette = string[];
 
 export interface StylePreset {
@@ -5,7 +7,7 @@ export interface StylePreset {
   name: string;
   description: string;
   defaultPalette: Palette;
-  suggestedTemplate: "flow_fields" | "jazz_noir";
+  suggestedTemplate: RenderableTemplateId;
 }
 
 export const presets: StylePreset[] = [
@@ -14,14 +16,14 @@ export const presets: StylePreset[] = [
     name: "Minimal",
     description: "Clean lines, muted tones, geometric simplicity",
     defaultPalette: ["#1a1a2e", "#16213e", "#0f3460", "#e94560", "#f5f5f5"],
-    suggestedTemplate: "flow_fields",
+    suggestedTemplate: "geo_tiling",
   },
   {
     id: "glitch",
     name: "Glitch",
     description: "Digital artifacts, neon fragments, corrupted data aesthetics",
     defaultPalette: ["#0d0d0d", "#ff0055", "#00ffaa", "#aa00ff", "#ffff00"],
-    suggestedTemplate: "flow_fields",
+    suggestedTemplate: "geo_tiling",
   },
   {
     id: "jazz_noir",
@@ -30,6 +32,13 @@ export const presets: StylePreset[] = [
     defaultPalette: ["#0a0a0f", "#1a0a2e", "#ff6b35", "#00d4ff", "#ff0066"],
     suggestedTemplate: "jazz_noir",
   },
+  {
+    id: "cosmic",
+    name: "Cosmic",
+    description: "Orbiting particle clouds, nebula haze, ethereal deep-space calm",
+    defaultPalette: ["#05060f", "#1b1f4b", "#5b3f9e", "#3fa7d6", "#f0e6ff"],
+    suggestedTemplate: "strange_attractor",
+  },
   {
     id: "bonk_mode",
     name: "BONK Mode",
@@ -1,86 +1,95 @@
 import { z } from "zod";
+import {
+  templateRegistry,
+  renderableTemplateIds,
+  type RenderableTemplateId,
+} from "./templates";
+import { canvasDimensionSchema } from "./canvas";
+import { animationSpecSchema } from "./animation";
+import { compositeParamsSchema } from "./composite";
+import { effectChainSchema } from "./effects";
 
-export const templateIds = ["flow_fields", "jazz_noir", "custom_code"] as const;
-export type TemplateId = (typeof templateIds)[number];
+/** Template IDs generateSVG renders: the registry plus layered composites */
+export const svgTemplateIds = [...renderableTemplateIds, "composite"] as [
+  SvgTemplateId,
+  ...SvgTemplateId[],
+];
+export type SvgTemplateId = RenderableTemplateId | "composite";
 
-/** Template IDs that support server-side rendering */
-export const renderableTemplateIds = ["flow_fields", "jazz_noir"] as const;
-export type RenderableTemplateId = (typeof renderableTemplateIds)[number];
+/** All template IDs, including the custom code studio */
+export const templateIds = [...svgTemplateIds, "custom_code"] as [TemplateId, ...TemplateId[]];
+export type TemplateId = SvgTemplateId | "custom_code";
 
 const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #ff00aa");
 
-export const flowFieldsParamsSchema = z.object({
-  density: z.number().min(0.1).max(1.0).describe("Particle/line density 0.1-1.0"),
-  lineWidth: z.number().min(0.5).max(8).describe("Stroke width 0.5-8"),
-  curvature: z.number().min(0).max(10).describe("Field curvature factor 0-10"),
-  grain: z.number().min(0).max(1).describe("Grain/noise overlay intensity 0-1"),
-  contrast: z.number().min(0.2).max(2).describe("Overall contrast 0.2-2"),
-  fieldScale: z.number().min(0.5).max(5).describe("Scale of the vector field 0.5-5"),
-  lineCount: z.number().int().min(50).max(500).describe("Number of flow lines 50-500"),
-  stepCount: z.number().int().min(10).max(200).describe("Steps per flow line 10-200"),
-  turbulence: z.number().min(0).max(2).describe("Turbulence factor 0-2"),
-});
-export type FlowFieldsParams = z.infer<typeof flowFieldsParamsSchema>;
-
-export const jazzNoirParamsSchema = z.object({
-  neonIntensity: z.number().min(0).max(1).describe("Neon glow intensity 0-1"),
-  skylineBands: z.number().int().min(2).max(12).describe("Number of skyline bands 2-12"),
-  glow: z.number().min(0).max(2).describe("Overall glow factor 0-2"),
-  rainGrain: z.number().min(0).max(1).describe("Rain/grain overlay 0-1"),
-  circleCount: z.number().int().min(3).max(30).describe("Number of neon circles 3-30"),
-  lineCount: z.number().int().min(5).max(60).describe("Number of neon lines 5-60"),
-  depth: z.number().min(0.2).max(2).describe("Depth/perspective factor 0.2-2"),
-  blur: z.number().min(0).max(5).describe("Blur amount for glow effects 0-5"),
-});
-export type JazzNoirParams = z.infer<typeof jazzNoirParamsSchema>;
-
 export const customCodeParamsSchema = z.object({
   code: z.string().min(1).max(100_000),
+  /**
+   * Set to "javascript" for canvas code rendered server-side by
+   * renderCustomCodeSVG. Absent for SVG markup and for older code mints,
+   * whose image was captured in the browser.
+   */
+  mode: z.literal("javascript").optional(),
 });
 export type CustomCodeParams = z.infer<typeof customCodeParamsSchema>;
 
-export const templateParamsSchema = z.discriminatedUnion("templateId", [
-  z.object({ templateId: z.literal("flow_fields"), params: flowFieldsParamsSchema }),
-  z.object({ templateId: z.literal("jazz_noir"), params: jazzNoirParamsSchema }),
-  z.object({ templateId: z.literal("custom_code"), params: customCodeParamsSchema }),
-]);
+/**
+ * How custom code renders. Code mints from before `mode` was stored never
+ * carry it, JavaScript included, so untagged code that isn't markup is
+ * JavaScript.
+ */
+export function customCodeMode(params: CustomCodeParams): "svg" | "javascript" {
+  if (params.mode === "javascript") return "javascript";
+  return params.code.trimStart().startsWith("<") ? "svg" : "javascript";
+}
+
+type SvgParamsSchema =
+  | (typeof templateRegistry)[RenderableTemplateId]["paramsSchema"]
+  | typeof compositeParamsSchema;
+type ParamsSchema = SvgParamsSchema | typeof customCodeParamsSchema;
+
+export function getSvgTemplateParamsSchema(templateId: SvgTemplateId): SvgParamsSchema {
+  return templateId === "composite"
+    ? compositeParamsSchema
+    : templateRegistry[templateId].paramsSchema;
+}
+
+function getParamsSchema(templateId: TemplateId): ParamsSchema {
+  return templateId === "custom_code"
+    ? customCodeParamsSchema
+    : getSvgTemplateParamsSchema(templateId);
+}
+
+export const templateParamsSchema = z.discriminatedUnion(
+  "templateId",
+  templateIds.map((id) =>
+    z.object({ templateId: z.literal(id), params: getParamsSchema(id) })
+  ) as unknown as [
+    z.ZodObject<{ templateId: z.ZodLiteral<TemplateId>; params: ParamsSchema }>,
+    ...z.ZodObject<{ templateId: z.ZodLiteral<TemplateId>; params: ParamsSchema }>[],
+  ]
+);
+
+const anyParamsSchema = z.union(
+  templateIds.map(getParamsSchema) as [ParamsSchema, ParamsSchema, ...ParamsSchema[]]
+);
 
 export const variationSchema = z.object({
   templateId: z.enum(templateIds),
   seed: z.number().int().min(0).max(999999999),
   palette: z.array(hexColor).min(2).max(8),
-  params: z.union([flowFieldsParamsSchema, jazzNoirParamsSchema, customCodeParamsSchema]),
+  params: anyParamsSchema,
   title: z.string().max(200).optional(),
   description: z.string().max(500).optional(),
   tags: z.array(z.string().max(50)).max(10).optional(),
 }).superRefine((data, ctx) => {
-  if (data.templateId === "flow_fields") {
-    const result = flowFieldsParamsSchema.safeParse(data.params);
-    if (!result.success) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Params do not match flow_fields template schema",
-        path: ["params"],
-      });
-    }
-  } else if (data.templateId === "jazz_noir") {
-    const result = jazzNoirParamsSchema.safeParse(data.params);
-    if (!result.success) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Params do not match jazz_noir template schema",
-        path: ["params"],
-      });
-    }
-  } else if (data.templateId === "custom_code") {
-    const result = customCodeParamsSchema.safeParse(data.params);
-    if (!result.success) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Params do not match custom_code template schema",
-        path: ["params"],
-      });
-    }
+  const result = getParamsSchema(data.templateId).safeParse(data.params);
+  if (!result.success) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Params do not match ${data.templateId} template schema`,
+      path: ["params"],
+    });
   }
 });
 export type Variation = z.infer<typeof variationSchema>;
@@ -90,63 +99,15 @@ export const canonicalInputSchema = z.object({
   templateId: z.enum(templateIds),
   seed: z.number().int().min(0),
   palette: z.array(hexColor).min(2).max(8),
-  params: z.union([flowFieldsParamsSchema, jazzNoirParamsSchema, customCodeParamsSchema]),
+  params: anyParamsSchema,
+  /** Absent on mints made before non-square canvases; treated as 1080 */
+  width: canvasDimensionSchema.optional(),
+  height: canvasDimensionSchema.optional(),
+  /** Present only on animated mints */
+  animation: animationSpecSchema.optional(),
+  /** Post-processing chain; absent when the mint has none */
+  effects: effectChainSchema.optional(),
   prompt: z.string(),
   createdAt: z.string(),
 });
 export type CanonicalInput = z.infer<typeof canonicalInputSchema>;
-
-// Default parameter values (midpoints) for manual mode
-export const defaultFlowFieldsParams: FlowFieldsParams = {
-  density: 0.55,
-  lineWidth: 4.25,
-  curvature: 5,
-  grain: 0.5,
-  contrast: 1.1,
-  fieldScale: 2.75,
-  lineCount: 275,
-  stepCount: 105,
-  turbulence: 1,
-};
-
-export const defaultJazzNoirParams: JazzNoirParams = {
-  neonIntensity: 0.5,
-  skylineBands: 7,
-  glow: 1,
-  rainGrain: 0.5,
-  circleCount: 16,
-  lineCount: 32,
-  depth: 1.1,
-  blur: 2.5,
-};
-
-export interface ParameterMetaEntry {
-  min: number;
-  max: number;
-  step: number;
-  label: string;
-}
-
-export const parameterMeta: Record<string, Record<string, ParameterMetaEntry>> = {
-  flow_fields: {
-    density: { min: 0.1, max: 1.0, step: 0.05, label: "Density" },
-    lineWidth: { min: 0.5, max: 8, step: 0.5, label: "Line Width" },
-    curvature: { min: 0, max: 10, step: 0.5, label: "Curvature" },
-    grain: { min: 0, max: 1, step: 0.05, label: "Grain" },
-    contrast: { min: 0.2, max: 2, step: 0.1, label: "Contrast" },
-    fieldScale: { min: 0.5, max: 5, step: 0.25, label: "Field Scale" },
-    lineCount: { min: 50, max: 500, step: 10, label: "Line Count" },
-    stepCount: { min: 10, max: 200, step: 5, label: "Step Count" },
-    turbulence: { min: 0, max: 2, step: 0.1, label: "Turbulence" },
-  },
-  jazz_noir: {
-    neonIntensity: { min: 0, max: 1, step: 0.05, label: "Neon Intensity" },
-    skylineBands: { min: 2, max: 12, step: 1, label: "Skyline Bands" },
-    glow: { min: 0, max: 2, step: 0.1, label: "Glow" },
-    rainGrain: { min: 0, max: 1, step: 0.05, label: "Rain/Grain" },
-    circleCount: { min: 3, max: 30, step: 1, label: "Circle Count" },
-    lineCount: { min: 5, max: 60, step: 1, label: "Line Count" },
-    depth: { min: 0.2, max: 2, step: 0.1, label: "Depth" },
-    blur: { min: 0, max: 5, step: 0.25, label: "Blur" },
-  },
-};
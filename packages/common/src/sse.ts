@@ -0,0 +1,55 @@
+/** One Server-Sent Event; `event` is absent for unnamed "message" events */
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/** Serialize an event for a `text/event-stream` response body */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse a `text/event-stream` body as it arrives. Handles events split
+ * across chunks, CRLF line endings and multi-line data; comments and
+ * `id`/`retry` fields are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      // The last piece may be an incomplete line, unless the stream has ended
+      buffer = done ? "" : lines.pop()!;
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) yield { ...(event ? { event } : {}), data: data.join("\n") };
+          event = undefined;
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        } else if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield { ...(event ? { event } : {}), data: data.join("\n") };
+        return;
+      }
+    }
+  } finally {
+    // A consumer that stops early cancels the body, and with it the upstream request
+    await reader.cancel().catch(() => undefined);
+  }
+}
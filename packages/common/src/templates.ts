@@ -0,0 +1,491 @@
+import { z } from "zod";
+
+export interface ParameterMetaEntry {
+  min: number;
+  max: number;
+  step: number;
+  label: string;
+}
+
+/** Metadata for an enum param, shown as a segmented control instead of a slider */
+export interface ParameterOptionMetaEntry {
+  label: string;
+  options: readonly string[];
+}
+
+/** Metadata for a free-text param, shown as a text field */
+export interface ParameterTextMetaEntry {
+  label: string;
+  maxLength: number;
+}
+
+/** A trait value and the exclusive upper bound of params it covers; the last bucket has no bound */
+export interface TraitBucket {
+  below?: number;
+  value: string;
+}
+
+/**
+ * A human-readable NFT trait derived from one param. Numeric params pick
+ * the first bucket whose bound exceeds them; enum params map each option
+ * to a display value. Missing optional params read the template default.
+ */
+export type TraitDefinition<P = Record<string, unknown>> =
+  | { traitType: string; param: keyof P & string; buckets: readonly TraitBucket[] }
+  | { traitType: string; param: keyof P & string; values: Readonly<Record<string, string>> };
+
+/** Noise bases available to templates; "value" is the original hashed value noise */
+export const noiseTypes = ["value", "perlin", "simplex"] as const;
+export type NoiseType = (typeof noiseTypes)[number];
+
+const MAX_NOISE_OCTAVES = 8;
+
+/**
+ * Noise params shared by noise-driven templates. Both are optional so
+ * canonical inputs minted before they existed still validate unchanged;
+ * renderers treat a missing value as the original single-octave value noise.
+ */
+const noiseParamsShape = {
+  noiseType: z.enum(noiseTypes).optional().describe("Noise basis: value, perlin or simplex"),
+  octaves: z.number().int().min(1).max(MAX_NOISE_OCTAVES).optional().describe("fBm octaves 1-8"),
+};
+
+const noiseParameterMeta = {
+  noiseType: { label: "Noise", options: noiseTypes },
+  octaves: { min: 1, max: MAX_NOISE_OCTAVES, step: 1, label: "Octaves" },
+};
+
+const noiseTrait = {
+  traitType: "Noise",
+  param: "noiseType",
+  values: { value: "Value Noise", perlin: "Perlin Noise", simplex: "Simplex Noise" },
+} as const;
+
+/**
+ * Everything the platform needs to know about a generative template,
+ * apart from the renderer itself (which lives in @artmint/render and is
+ * bound to the same templateId there).
+ */
+export interface TemplateDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  id: string;
+  /** Short label shown in the studio template selector */
+  label: string;
+  /** One-line description used in AI prompts and docs */
+  description: string;
+  paramsSchema: S;
+  defaultParams: z.infer<S>;
+  /** Control metadata for manual mode, keyed by param name */
+  parameterMeta: Record<
+    keyof z.infer<S> & string,
+    ParameterMetaEntry | ParameterOptionMetaEntry | ParameterTextMetaEntry
+  >;
+  /** Whether @artmint/render can export the template's line work for pen plotters */
+  plottable: boolean;
+  /** NFT traits computed from params at mint time; palette traits are shared, see traits.ts */
+  traits: readonly TraitDefinition[];
+}
+
+function defineTemplate<S extends z.AnyZodObject>(
+  definition: TemplateDefinition<S> & { traits: readonly TraitDefinition<z.infer<S>>[] }
+): TemplateDefinition<S> {
+  return definition;
+}
+
+// ── Flow Fields ──
+
+export const flowFieldsParamsSchema = z.object({
+  density: z.number().min(0.1).max(1.0).describe("Particle/line density 0.1-1.0"),
+  lineWidth: z.number().min(0.5).max(8).describe("Stroke width 0.5-8"),
+  curvature: z.number().min(0).max(10).describe("Field curvature factor 0-10"),
+  grain: z.number().min(0).max(1).describe("Grain/noise overlay intensity 0-1"),
+  contrast: z.number().min(0.2).max(2).describe("Overall contrast 0.2-2"),
+  fieldScale: z.number().min(0.5).max(5).describe("Scale of the vector field 0.5-5"),
+  lineCount: z.number().int().min(50).max(500).describe("Number of flow lines 50-500"),
+  stepCount: z.number().int().min(10).max(200).describe("Steps per flow line 10-200"),
+  turbulence: z.number().min(0).max(2).describe("Turbulence factor 0-2"),
+  ...noiseParamsShape,
+});
+export type FlowFieldsParams = z.infer<typeof flowFieldsParamsSchema>;
+
+// Default parameter values (midpoints) for manual mode
+export const defaultFlowFieldsParams: FlowFieldsParams = {
+  density: 0.55,
+  lineWidth: 4.25,
+  curvature: 5,
+  grain: 0.5,
+  contrast: 1.1,
+  fieldScale: 2.75,
+  lineCount: 275,
+  stepCount: 105,
+  turbulence: 1,
+  noiseType: "value",
+  octaves: 1,
+};
+
+const flowFields = defineTemplate({
+  id: "flow_fields",
+  label: "Flow // Structure",
+  description: "Flowing lines and particles following a noise-based vector field",
+  plottable: true,
+  paramsSchema: flowFieldsParamsSchema,
+  defaultParams: defaultFlowFieldsParams,
+  parameterMeta: {
+    density: { min: 0.1, max: 1.0, step: 0.05, label: "Density" },
+    lineWidth: { min: 0.5, max: 8, step: 0.5, label: "Line Width" },
+    curvature: { min: 0, max: 10, step: 0.5, label: "Curvature" },
+    grain: { min: 0, max: 1, step: 0.05, label: "Grain" },
+    contrast: { min: 0.2, max: 2, step: 0.1, label: "Contrast" },
+    fieldScale: { min: 0.5, max: 5, step: 0.25, label: "Field Scale" },
+    lineCount: { min: 50, max: 500, step: 10, label: "Line Count" },
+    stepCount: { min: 10, max: 200, step: 5, label: "Step Count" },
+    turbulence: { min: 0, max: 2, step: 0.1, label: "Turbulence" },
+    ...noiseParameterMeta,
+  },
+  traits: [
+    {
+      traitType: "Density",
+      param: "density",
+      buckets: [{ below: 0.35, value: "Sparse" }, { below: 0.7, value: "Balanced" }, { value: "Dense" }],
+    },
+    {
+      traitType: "Turbulence",
+      param: "turbulence",
+      buckets: [
+        { below: 0.5, value: "Low Turbulence" },
+        { below: 1.3, value: "Moderate Turbulence" },
+        { value: "High Turbulence" },
+      ],
+    },
+    {
+      traitType: "Stroke",
+      param: "lineWidth",
+      buckets: [{ below: 2, value: "Hairline" }, { below: 5, value: "Medium Stroke" }, { value: "Bold Stroke" }],
+    },
+    noiseTrait,
+  ],
+});
+
+// ── Jazz Noir ──
+
+export const jazzNoirParamsSchema = z.object({
+  neonIntensity: z.number().min(0).max(1).describe("Neon glow intensity 0-1"),
+  skylineBands: z.number().int().min(2).max(12).describe("Number of skyline bands 2-12"),
+  glow: z.number().min(0).max(2).describe("Overall glow factor 0-2"),
+  rainGrain: z.number().min(0).max(1).describe("Rain/grain overlay 0-1"),
+  circleCount: z.number().int().min(3).max(30).describe("Number of neon circles 3-30"),
+  lineCount: z.number().int().min(5).max(60).describe("Number of neon lines 5-60"),
+  depth: z.number().min(0.2).max(2).describe("Depth/perspective factor 0.2-2"),
+  blur: z.number().min(0).max(5).describe("Blur amount for glow effects 0-5"),
+  ...noiseParamsShape,
+});
+export type JazzNoirParams = z.infer<typeof jazzNoirParamsSchema>;
+
+export const defaultJazzNoirParams: JazzNoirParams = {
+  neonIntensity: 0.5,
+  skylineBands: 7,
+  glow: 1,
+  rainGrain: 0.5,
+  circleCount: 16,
+  lineCount: 32,
+  depth: 1.1,
+  blur: 2.5,
+  noiseType: "value",
+  octaves: 1,
+};
+
+const jazzNoir = defineTemplate({
+  id: "jazz_noir",
+  label: "Noise // Topology",
+  description: "Dark abstract cityscapes with neon circles, lines, and skyline bands",
+  plottable: true,
+  paramsSchema: jazzNoirParamsSchema,
+  defaultParams: defaultJazzNoirParams,
+  parameterMeta: {
+    neonIntensity: { min: 0, max: 1, step: 0.05, label: "Neon Intensity" },
+    skylineBands: { min: 2, max: 12, step: 1, label: "Skyline Bands" },
+    glow: { min: 0, max: 2, step: 0.1, label: "Glow" },
+    rainGrain: { min: 0, max: 1, step: 0.05, label: "Rain/Grain" },
+    circleCount: { min: 3, max: 30, step: 1, label: "Circle Count" },
+    lineCount: { min: 5, max: 60, step: 1, label: "Line Count" },
+    depth: { min: 0.2, max: 2, step: 0.1, label: "Depth" },
+    blur: { min: 0, max: 5, step: 0.25, label: "Blur" },
+    ...noiseParameterMeta,
+  },
+  traits: [
+    {
+      traitType: "Neon",
+      param: "neonIntensity",
+      buckets: [{ below: 0.35, value: "Dim Neon" }, { below: 0.7, value: "Bright Neon" }, { value: "Blazing Neon" }],
+    },
+    {
+      traitType: "Skyline",
+      param: "skylineBands",
+      buckets: [{ below: 5, value: "Low-Rise" }, { below: 9, value: "Mid-Rise" }, { value: "High-Rise" }],
+    },
+    {
+      traitType: "Weather",
+      param: "rainGrain",
+      buckets: [{ below: 0.3, value: "Dry" }, { below: 0.7, value: "Drizzle" }, { value: "Downpour" }],
+    },
+    noiseTrait,
+  ],
+});
+
+// ── Geo Tiling ──
+
+export const geoTilingPatterns = ["packing", "quadtree", "truchet"] as const;
+export type GeoTilingPattern = (typeof geoTilingPatterns)[number];
+
+export const geoTilingParamsSchema = z.object({
+  pattern: z.enum(geoTilingPatterns).describe("Circle packing, quadtree subdivision or Truchet tiles"),
+  packingDensity: z.number().min(0.1).max(1).describe("How much of the canvas gets covered 0.1-1"),
+  minRadius: z.number().min(2).max(60).describe("Smallest circle radius or cell half-size 2-60"),
+  maxRadius: z.number().min(10).max(300).describe("Largest circle radius 10-300"),
+  subdivisionDepth: z.number().int().min(1).max(6).describe("Quadtree levels / Truchet grid doublings 1-6"),
+  strokeRatio: z.number().min(0).max(1).describe("Share of shapes drawn as outlines instead of fills 0-1"),
+  strokeWidth: z.number().min(0.5).max(8).describe("Outline width 0.5-8"),
+  paletteWeighting: z.number().min(0).max(1).describe("Bias toward the first accent colors 0-1"),
+});
+export type GeoTilingParams = z.infer<typeof geoTilingParamsSchema>;
+
+export const defaultGeoTilingParams: GeoTilingParams = {
+  pattern: "packing",
+  packingDensity: 0.55,
+  minRadius: 6,
+  maxRadius: 120,
+  subdivisionDepth: 4,
+  strokeRatio: 0.3,
+  strokeWidth: 2,
+  paletteWeighting: 0.3,
+};
+
+const geoTiling = defineTemplate({
+  id: "geo_tiling",
+  label: "Geo // Tiling",
+  description: "Geometric compositions of packed circles, quadtree-subdivided cells or Truchet arc tiles",
+  plottable: true,
+  paramsSchema: geoTilingParamsSchema,
+  defaultParams: defaultGeoTilingParams,
+  parameterMeta: {
+    pattern: { label: "Pattern", options: geoTilingPatterns },
+    packingDensity: { min: 0.1, max: 1, step: 0.05, label: "Packing Density" },
+    minRadius: { min: 2, max: 60, step: 1, label: "Min Radius" },
+    maxRadius: { min: 10, max: 300, step: 5, label: "Max Radius" },
+    subdivisionDepth: { min: 1, max: 6, step: 1, label: "Subdivision Depth" },
+    strokeRatio: { min: 0, max: 1, step: 0.05, label: "Stroke / Fill" },
+    strokeWidth: { min: 0.5, max: 8, step: 0.5, label: "Stroke Width" },
+    paletteWeighting: { min: 0, max: 1, step: 0.05, label: "Palette Weighting" },
+  },
+  traits: [
+    {
+      traitType: "Pattern",
+      param: "pattern",
+      values: { packing: "Circle Packing", quadtree: "Quadtree", truchet: "Truchet" },
+    },
+    {
+      traitType: "Density",
+      param: "packingDensity",
+      buckets: [{ below: 0.4, value: "Sparse" }, { below: 0.75, value: "Balanced" }, { value: "Dense" }],
+    },
+    {
+      traitType: "Finish",
+      param: "strokeRatio",
+      buckets: [{ below: 0.25, value: "Solid" }, { below: 0.75, value: "Mixed" }, { value: "Outlined" }],
+    },
+  ],
+});
+
+// ── Strange Attractor ──
+
+export const attractorTypes = ["clifford", "dejong", "lorenz"] as const;
+export type AttractorType = (typeof attractorTypes)[number];
+
+export const attractorColorModes = ["gradient", "bands", "mono"] as const;
+export type AttractorColorMode = (typeof attractorColorModes)[number];
+
+export const strangeAttractorParamsSchema = z.object({
+  attractor: z.enum(attractorTypes).describe("Clifford or De Jong map, or a projected Lorenz flow"),
+  a: z.number().min(-3).max(3).describe("Coefficient a -3 to 3"),
+  b: z.number().min(-3).max(3).describe("Coefficient b -3 to 3"),
+  c: z.number().min(-3).max(3).describe("Coefficient c -3 to 3"),
+  d: z.number().min(-3).max(3).describe("Coefficient d -3 to 3"),
+  iterations: z.number().int().min(20000).max(500000).describe("Points plotted 20000-500000"),
+  resolution: z.number().int().min(100).max(480).describe("Density grid cells along the long edge 100-480"),
+  colorMode: z.enum(attractorColorModes).describe("Palette gradient, discrete palette bands or a single color"),
+  levels: z.number().int().min(2).max(16).describe("Density levels 2-16"),
+  gamma: z.number().min(0.2).max(3).describe("Density curve; below 1 brings out faint orbits 0.2-3"),
+});
+export type StrangeAttractorParams = z.infer<typeof strangeAttractorParamsSchema>;
+
+export const defaultStrangeAttractorParams: StrangeAttractorParams = {
+  attractor: "clifford",
+  a: -1.4,
+  b: 1.6,
+  c: 1,
+  d: 0.7,
+  iterations: 200000,
+  resolution: 300,
+  colorMode: "gradient",
+  levels: 8,
+  gamma: 1,
+};
+
+const strangeAttractor = defineTemplate({
+  id: "strange_attractor",
+  label: "Strange // Attractor",
+  description:
+    "Clifford, De Jong or Lorenz strange attractors plotted as density-mapped particle clouds, suited to cosmic and ethereal moods",
+  plottable: false,
+  paramsSchema: strangeAttractorParamsSchema,
+  defaultParams: defaultStrangeAttractorParams,
+  parameterMeta: {
+    attractor: { label: "Attractor", options: attractorTypes },
+    a: { min: -3, max: 3, step: 0.05, label: "A" },
+    b: { min: -3, max: 3, step: 0.05, label: "B" },
+    c: { min: -3, max: 3, step: 0.05, label: "C" },
+    d: { min: -3, max: 3, step: 0.05, label: "D" },
+    iterations: { min: 20000, max: 500000, step: 10000, label: "Iterations" },
+    resolution: { min: 100, max: 480, step: 10, label: "Resolution" },
+    colorMode: { label: "Color Mapping", options: attractorColorModes },
+    levels: { min: 2, max: 16, step: 1, label: "Density Levels" },
+    gamma: { min: 0.2, max: 3, step: 0.05, label: "Gamma" },
+  },
+  traits: [
+    {
+      traitType: "Attractor",
+      param: "attractor",
+      values: { clifford: "Clifford", dejong: "De Jong", lorenz: "Lorenz" },
+    },
+    {
+      traitType: "Coloring",
+      param: "colorMode",
+      values: { gradient: "Gradient", bands: "Banded", mono: "Monochrome" },
+    },
+    {
+      traitType: "Density",
+      param: "iterations",
+      buckets: [{ below: 100000, value: "Sparse" }, { below: 300000, value: "Balanced" }, { value: "Dense" }],
+    },
+  ],
+});
+
+// ── Typography ──
+
+export const typographyLayouts = ["grid", "scatter", "flow"] as const;
+export type TypographyLayout = (typeof typographyLayouts)[number];
+
+/** Fonts bundled with @artmint/render; glyphs are drawn as outlines, never as live text */
+export const typographyFonts = ["lato", "lato-light", "source-code-pro"] as const;
+export type TypographyFont = (typeof typographyFonts)[number];
+
+const MAX_TYPOGRAPHY_TEXT = 80;
+
+export const typographyParamsSchema = z.object({
+  text: z
+    .string()
+    .max(MAX_TYPOGRAPHY_TEXT)
+    .regex(/\S/, "Must contain a visible character")
+    .describe("Phrase to set, e.g. words from the prompt"),
+  layout: z.enum(typographyLayouts).describe("Kinetic grid, glyph scatter or outlined text along flow-field paths"),
+  font: z.enum(typographyFonts).describe("Bundled typeface"),
+  fontSize: z.number().min(16).max(320).describe("Glyph size in canvas units 16-320"),
+  repetitions: z.number().int().min(1).max(40).describe("Grid rows, scattered copies or flow lines 1-40"),
+  jitter: z.number().min(0).max(1).describe("Random rotation and displacement 0-1"),
+  outlineRatio: z.number().min(0).max(1).describe("Share of glyphs drawn as outlines instead of fills 0-1"),
+  strokeWidth: z.number().min(0.5).max(6).describe("Outline width 0.5-6"),
+  fieldScale: z.number().min(0.5).max(5).describe("Flow field frequency 0.5-5"),
+});
+export type TypographyParams = z.infer<typeof typographyParamsSchema>;
+
+export const defaultTypographyParams: TypographyParams = {
+  text: "ArtMint",
+  layout: "grid",
+  font: "lato",
+  fontSize: 96,
+  repetitions: 8,
+  jitter: 0.3,
+  outlineRatio: 0.4,
+  strokeWidth: 1.5,
+  fieldScale: 2,
+};
+
+const typography = defineTemplate({
+  id: "typography",
+  label: "Kinetic // Type",
+  description:
+    "Generative typography that sets a short phrase from the prompt as kinetic grids, scattered glyphs or outlined text flowing along noise paths",
+  plottable: false,
+  paramsSchema: typographyParamsSchema,
+  defaultParams: defaultTypographyParams,
+  parameterMeta: {
+    text: { label: "Text", maxLength: MAX_TYPOGRAPHY_TEXT },
+    layout: { label: "Layout", options: typographyLayouts },
+    font: { label: "Font", options: typographyFonts },
+    fontSize: { min: 16, max: 320, step: 4, label: "Font Size" },
+    repetitions: { min: 1, max: 40, step: 1, label: "Repetitions" },
+    jitter: { min: 0, max: 1, step: 0.05, label: "Jitter" },
+    outlineRatio: { min: 0, max: 1, step: 0.05, label: "Outline / Fill" },
+    strokeWidth: { min: 0.5, max: 6, step: 0.5, label: "Stroke Width" },
+    fieldScale: { min: 0.5, max: 5, step: 0.1, label: "Field Scale" },
+  },
+  traits: [
+    {
+      traitType: "Layout",
+      param: "layout",
+      values: { grid: "Kinetic Grid", scatter: "Scatter", flow: "Flow" },
+    },
+    {
+      traitType: "Typeface",
+      param: "font",
+      values: { lato: "Lato", "lato-light": "Lato Light", "source-code-pro": "Source Code Pro" },
+    },
+    {
+      traitType: "Type Scale",
+      param: "fontSize",
+      buckets: [{ below: 64, value: "Small Type" }, { below: 160, value: "Display Type" }, { value: "Poster Type" }],
+    },
+  ],
+});
+
+// ── Registry ──
+
+/**
+ * Single source of truth for server-renderable templates.
+ * Adding a template means adding an entry here and a renderer with the
+ * same key in @artmint/render — schemas, sliders, routes and AI prompts
+ * all read from this table.
+ */
+export const templateRegistry = {
+  flow_fields: flowFields,
+  jazz_noir: jazzNoir,
+  geo_tiling: geoTiling,
+  strange_attractor: strangeAttractor,
+  typography,
+} as const;
+
+export type RenderableTemplateId = keyof typeof templateRegistry;
+
+/** Template IDs that support server-side rendering */
+export const renderableTemplateIds = Object.keys(templateRegistry) as [
+  RenderableTemplateId,
+  ...RenderableTemplateId[],
+];
+
+export type TemplateParams<T extends RenderableTemplateId> = z.infer<
+  (typeof templateRegistry)[T]["paramsSchema"]
+>;
+
+export function isRenderableTemplateId(id: string): id is RenderableTemplateId {
+  return Object.prototype.hasOwnProperty.call(templateRegistry, id);
+}
+
+export function getTemplateDefinition(id: RenderableTemplateId): TemplateDefinition {
+  return templateRegistry[id];
+}
+
+export const parameterMeta: Record<
+  string,
+  Record<string, ParameterMetaEntry | ParameterOptionMetaEntry | ParameterTextMetaEntry>
+> = Object.fromEntries(
+  renderableTemplateIds.map((id) => [id, templateRegistry[id].parameterMeta])
+);
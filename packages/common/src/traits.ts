@@ -0,0 +1,115 @@
+import { hexToOklch } from "./palette";
+import { isRenderableTemplateId, templateRegistry, type TraitDefinition } from "./templates";
+
+/** One entry of Metaplex metadata `attributes` */
+export interface NftAttribute {
+  trait_type: string;
+  value: string;
+}
+
+export interface TraitInput {
+  templateId: string;
+  palette: readonly string[];
+  params: unknown;
+  animation?: unknown;
+}
+
+/** Moods by background lightness, from muted to vivid accents */
+const PALETTE_MOODS = {
+  dark: ["Midnight", "Dusk", "Neon Night"],
+  mid: ["Fog", "Twilight", "Electric"],
+  light: ["Paper", "Daylight", "Pop"],
+};
+
+/**
+ * Palette mood from background lightness and mean accent chroma, e.g. a
+ * near-black background under saturated accents is "Neon Night".
+ */
+export function paletteMood(palette: readonly string[]): string {
+  const [background, ...accents] = palette.map(hexToOklch);
+  const chroma = accents.length ? accents.reduce((sum, color) => sum + color.c, 0) / accents.length : 0;
+  const vividness = chroma >= 0.14 ? 2 : chroma >= 0.06 ? 1 : 0;
+  const l = background?.l ?? 0;
+  return PALETTE_MOODS[l < 0.35 ? "dark" : l > 0.8 ? "light" : "mid"][vividness]!;
+}
+
+function traitValue(trait: TraitDefinition, value: unknown): string | null {
+  if ("values" in trait) {
+    return typeof value === "string" ? (trait.values[value] ?? null) : null;
+  }
+  if (typeof value !== "number") return null;
+  const bucket = trait.buckets.find((candidate) => candidate.below === undefined || value < candidate.below);
+  return bucket?.value ?? null;
+}
+
+/**
+ * Human-readable traits for a piece: the template's param traits, then
+ * palette and motion traits shared by every template. Pure and
+ * deterministic, so they can be recomputed from a mint's canonical input.
+ */
+export function computeTraits(input: TraitInput): NftAttribute[] {
+  const attributes: NftAttribute[] = [];
+  const params = (input.params ?? {}) as Record<string, unknown>;
+
+  if (isRenderableTemplateId(input.templateId)) {
+    const definition = templateRegistry[input.templateId];
+    const defaults = definition.defaultParams as Record<string, unknown>;
+    for (const trait of definition.traits) {
+      const value = traitValue(trait, params[trait.param] ?? defaults[trait.param]);
+      if (value !== null) attributes.push({ trait_type: trait.traitType, value });
+    }
+  } else if (input.templateId === "composite" && Array.isArray(params.layers)) {
+    attributes.push({ trait_type: "Layers", value: String(params.layers.length) });
+  }
+
+  attributes.push(
+    { trait_type: "Palette", value: paletteMood(input.palette) },
+    { trait_type: "Colors", value: String(input.palette.length) },
+    { trait_type: "Motion", value: input.animation ? "Animated" : "Still" }
+  );
+  return attributes;
+}
+
+export interface TraitRarity {
+  value: string;
+  count: number;
+  /** Share of pieces with this value, 0–1 */
+  frequency: number;
+}
+
+export interface RarityTable {
+  total: number;
+  /** Values per trait type, most common first */
+  traits: Record<string, TraitRarity[]>;
+}
+
+/** Count how often each trait value occurs across a set of pieces */
+export function buildRarityTable(pieces: readonly (readonly NftAttribute[])[]): RarityTable {
+  const counts = new Map<string, Map<string, number>>();
+  for (const attributes of pieces) {
+    for (const { trait_type, value } of attributes) {
+      const values = counts.get(trait_type) ?? new Map<string, number>();
+      values.set(value, (values.get(value) ?? 0) + 1);
+      counts.set(trait_type, values);
+    }
+  }
+  const total = pieces.length;
+  const traits: Record<string, TraitRarity[]> = {};
+  for (const [traitType, values] of counts) {
+    traits[traitType] = [...values]
+      .map(([value, count]) => ({ value, count, frequency: count / total }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return { total, traits };
+}
+
+/**
+ * Statistical rarity: the sum of 1 / frequency over a piece's traits.
+ * Higher is rarer; traits absent from the table count as unique.
+ */
+export function rarityScore(attributes: readonly NftAttribute[], table: RarityTable): number {
+  return attributes.reduce((score, { trait_type, value }) => {
+    const frequency = table.traits[trait_type]?.find((entry) => entry.value === value)?.frequency;
+    return score + (frequency ? 1 / frequency : Math.max(1, table.total));
+  }, 0);
+}
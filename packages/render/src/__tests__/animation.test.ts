@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { defaultJazzNoirParams } from "@artmint/common";
+import { generateSVG } from "../generate";
+import { renderFrames, buildAnimatedSVG } from "../animation";
+import { renderAPNGFromFrames } from "../png";
+
+const input = {
+  templateId: "jazz_noir" as const,
+  seed: 777,
+  palette: ["#0a0a0f", "#1a0a2e", "#ff6b35", "#00d4ff", "#ff0066"],
+  params: { ...defaultJazzNoirParams, rainGrain: 0.05 },
+};
+
+describe("renderFrames", () => {
+  it("starts on the static frame and varies over time", () => {
+    const frames = renderFrames(input, { frameCount: 4, fps: 8 });
+    expect(frames).toHaveLength(4);
+    expect(frames[0]).toBe(generateSVG(input));
+    expect(new Set(frames).size).toBe(4);
+  });
+
+  it("is deterministic", () => {
+    const spec = { frameCount: 3, fps: 8 };
+    expect(renderFrames(input, spec)).toEqual(renderFrames(input, spec));
+  });
+
+  it("refuses to animate archived renderers", () => {
+    expect(() =>
+      renderFrames({ ...input, rendererVersion: "1.0.0" }, { frameCount: 2, fps: 8 })
+    ).toThrow("does not support animation");
+  });
+});
+
+describe("buildAnimatedSVG", () => {
+  it("switches one frame group on per slot", () => {
+    const svg = buildAnimatedSVG(renderFrames(input, { frameCount: 3, fps: 6 }), 6);
+    expect(svg.match(/<animate /g)).toHaveLength(3);
+    expect(svg).toContain('dur="0.500s"');
+    expect(svg).toContain('keyTimes="0;0.333333;0.666667"');
+    expect(svg).toContain('id="f2-glow"');
+    expect(svg).toContain('url(#f1-glow)');
+    expect(svg.startsWith("<svg ")).toBe(true);
+  });
+});
+
+describe("renderAPNGFromFrames", () => {
+  it("produces a looping APNG with one fcTL per frame", () => {
+    const frames = renderFrames(input, { frameCount: 3, fps: 6 });
+    const apng = renderAPNGFromFrames(frames, 6, 64);
+    const ascii = apng.toString("latin1");
+
+    expect(apng.subarray(1, 4).toString("ascii")).toBe("PNG");
+    expect(ascii.indexOf("acTL")).toBeLessThan(ascii.indexOf("IDAT"));
+    expect(ascii.match(/fcTL/g)).toHaveLength(3);
+    expect(ascii).toContain("fdAT");
+    expect(apng.equals(renderAPNGFromFrames(frames, 6, 64))).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { runInNewContext } from "vm";
+import { buildHtmlArtifact } from "../artifact";
+import { generateSVG } from "../generate";
+import { RENDERER_VERSION } from "../version";
+import { buildGoldenInputs } from "./golden/cases";
+
+/** Evaluate the artifact's inline script with just enough DOM to load it */
+function loadArtifact(html: string): { renderSVG(size: number): string } {
+  const script = html.slice(html.indexOf("<script>") + "<script>".length, html.lastIndexOf("</script>"));
+  const context = { document: { getElementById: () => ({ innerHTML: "" }) } };
+  runInNewContext(script, context);
+  return context as unknown as { renderSVG(size: number): string };
+}
+
+describe("HTML artifact", () => {
+  // The artifact is the offline copy of the mint; it must draw exactly what
+  // the server renderer drew for every golden input
+  for (const { name, input } of buildGoldenInputs()) {
+    it(`renders ${name} like generateSVG`, () => {
+      const canonical = { ...input, rendererVersion: RENDERER_VERSION };
+      const artifact = loadArtifact(buildHtmlArtifact(canonical as Parameters<typeof buildHtmlArtifact>[0]));
+      const size = Math.max(input.width ?? 1080, input.height ?? 1080);
+      expect(artifact.renderSVG(size)).toBe(generateSVG(canonical));
+    });
+  }
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  compositeParamsSchema,
+  defaultCompositeParams,
+  defaultFlowFieldsParams,
+  defaultJazzNoirParams,
+  type CompositeParams,
+} from "@artmint/common";
+import { generateSVG } from "../generate";
+import { renderPNGFromSVG } from "../png";
+
+const palette = ["#0a0a0f", "#1a0a2e", "#ff6b35", "#00d4ff", "#ff0066"];
+
+function composite(params: CompositeParams, extra: { width?: number; height?: number } = {}) {
+  return generateSVG({ templateId: "composite", seed: 100, palette, params, ...extra });
+}
+
+describe("composite template", () => {
+  it("is deterministic and produces a valid raster", () => {
+    const a = composite(defaultCompositeParams);
+    expect(a).toBe(composite(defaultCompositeParams));
+    expect(renderPNGFromSVG(a, 256).subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  it("derives layer seeds and palettes from the composite unless overridden", () => {
+    const inherited = composite({ layers: [{ templateId: "jazz_noir", params: defaultJazzNoirParams }] });
+    const explicit = composite({
+      layers: [{ templateId: "jazz_noir", params: defaultJazzNoirParams, seed: 100, palette }],
+    });
+    expect(inherited).toBe(explicit);
+
+    const reseeded = composite({ layers: [{ templateId: "jazz_noir", params: defaultJazzNoirParams, seed: 5 }] });
+    expect(reseeded).not.toBe(inherited);
+  });
+
+  it("namespaces layer ids and applies opacity, blend modes and masks", () => {
+    const svg = composite({
+      layers: [
+        { templateId: "jazz_noir", params: { ...defaultJazzNoirParams, blur: 2 } },
+        { templateId: "jazz_noir", params: { ...defaultJazzNoirParams, blur: 2 }, seed: 9 },
+        {
+          templateId: "flow_fields",
+          params: defaultFlowFieldsParams,
+          opacity: 0.5,
+          blendMode: "screen",
+          mask: { shape: "circle", cx: 0.5, cy: 0.5, r: 0.25, invert: true },
+        },
+      ],
+    });
+
+    expect(svg).toContain('id="l0-glow"');
+    expect(svg).toContain('id="l1-glow"');
+    expect(svg).not.toContain('id="glow"');
+    expect(svg).toContain('<g opacity="0.500" style="mix-blend-mode:screen" mask="url(#l2-mask)">');
+    expect(svg).toContain('<circle cx="540.0" cy="540.0" r="270.0" fill="black"/>');
+  });
+
+  it("renders every layer at the composite canvas size", () => {
+    const svg = composite(defaultCompositeParams, { width: 1080, height: 1350 });
+    expect(svg).toMatch(/^<svg [^>]*viewBox="0 0 1080 1350"/);
+    expect(svg).toContain('<mask id="l1-mask" maskUnits="userSpaceOnUse" x="0" y="0" width="1080" height="1350">');
+  });
+
+  it("is not available on archived renderer versions", () => {
+    expect(() =>
+      generateSVG({ rendererVersion: "1.0.0", templateId: "composite", seed: 1, palette, params: defaultCompositeParams })
+    ).toThrow("Renderer 1.0.0 does not support template: composite");
+  });
+
+  it("validates nested layer params against their template schema", () => {
+    expect(compositeParamsSchema.safeParse(defaultCompositeParams).success).toBe(true);
+    const result = compositeParamsSchema.safeParse({
+      layers: [{ templateId: "flow_fields", params: { ...defaultFlowFieldsParams, density: 5 } }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(["layers", 0, "params", "density"]);
+    expect(
+      compositeParamsSchema.safeParse({
+        layers: [{ templateId: "flow_fields", params: { ...defaultFlowFieldsParams, extra: 1 } }],
+      }).success
+    ).toBe(false);
+  });
+});
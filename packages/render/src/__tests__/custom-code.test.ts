@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { renderCustomCodeSVG, checkCustomCode, CustomCodeRenderError } from "../custom-code";
+import { renderPNGFromSVG } from "../png";
+
+const palette = ["#112233", "#ffaa00", "#ffffff"];
+
+const sketch = `
+ctx.fillStyle = palette[0];
+ctx.fillRect(0, 0, WIDTH, HEIGHT);
+for (let i = 0; i < 20; i++) {
+  ctx.beginPath();
+  ctx.arc(random() * WIDTH, random() * HEIGHT, 20 + noise2D(i, 0) * 10, 0, Math.PI * 2);
+  ctx.fillStyle = palette[1];
+  ctx.globalAlpha = 0.5;
+  ctx.fill();
+}
+ctx.globalAlpha = 1;
+ctx.save();
+ctx.translate(WIDTH / 2, HEIGHT / 2);
+ctx.rotate(0.3);
+const g = ctx.createLinearGradient(-50, 0, 50, 0);
+g.addColorStop(0, palette[1]);
+g.addColorStop(1, palette[2]);
+ctx.fillStyle = g;
+ctx.beginPath();
+ctx.roundRect(-50, -50, 100, 100, 20);
+ctx.fill();
+ctx.restore();
+ctx.strokeStyle = palette[2];
+ctx.lineWidth = 3;
+ctx.beginPath();
+ctx.moveTo(0, noise.fbm2(0.5, 0.5, { type: "simplex" }) * 100 + 500);
+ctx.bezierCurveTo(300, 200, 700, 900, WIDTH, 540);
+ctx.stroke();
+`;
+
+async function expectRenderError(code: string, message: string) {
+  const render = renderCustomCodeSVG({ code, seed: 1, palette });
+  await expect(render).rejects.toBeInstanceOf(CustomCodeRenderError);
+  await expect(render).rejects.toThrow(message);
+}
+
+describe("custom code rendering", () => {
+  it("records canvas drawing as deterministic SVG", async () => {
+    const a = await renderCustomCodeSVG({ code: sketch, seed: 7, palette });
+    const b = await renderCustomCodeSVG({ code: sketch, seed: 7, palette });
+    const c = await renderCustomCodeSVG({ code: sketch, seed: 8, palette });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" viewBox="0 0 1080 1080"/);
+    expect(a).toContain("<linearGradient");
+    expect(a).toContain('opacity="0.5"');
+    expect(renderPNGFromSVG(a).subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  it("enforces the CPU time limit", async () => {
+    const render = renderCustomCodeSVG(
+      { code: "while (true) {}", seed: 1, palette },
+      { timeoutMs: 200, memoryMb: 64, maxElements: 1000 }
+    );
+    await expect(render).rejects.toThrow("exceeded the 200ms time limit");
+  });
+
+  it("enforces the memory limit", async () => {
+    await expectRenderError(
+      "const a = []; while (true) a.push(new Array(1e5).fill(1));",
+      "exceeded the 64MB memory limit"
+    );
+  });
+
+  it("caps the number of recorded elements", async () => {
+    const render = renderCustomCodeSVG(
+      { code: "for (;;) ctx.fillRect(0, 0, 1, 1);", seed: 1, palette },
+      { timeoutMs: 2000, memoryMb: 64, maxElements: 500 }
+    );
+    await expect(render).rejects.toThrow("Drawing exceeds the limit of 500 elements");
+  });
+
+  it("exposes no host globals or code generation", async () => {
+    await expectRenderError("process.exit(1)", "process is not defined");
+    await expectRenderError("require('fs')", "require is not defined");
+    await expectRenderError(
+      "ctx.constructor.constructor('return process')()",
+      "Code generation from strings disallowed"
+    );
+  });
+
+  it("reports unsupported pixel APIs and user errors", async () => {
+    await expectRenderError("ctx.getImageData(0, 0, 1, 1)", "getImageData is not supported");
+    await expectRenderError("throw new Error('boom')", "boom");
+  });
+});
+
+describe("checkCustomCode", () => {
+  it("accepts deterministic code that draws", async () => {
+    const result = await checkCustomCode({ code: sketch, seed: 5, palette });
+    expect(result).toEqual({ ok: true, svg: await renderCustomCodeSVG({ code: sketch, seed: 5, palette }) });
+  });
+
+  it("rejects nondeterministic, empty and failing code", async () => {
+    const check = (code: string) => checkCustomCode({ code, seed: 5, palette });
+    expect(await check("ctx.fillRect(Math.random() * WIDTH, 0, 10, 10);")).toEqual({
+      ok: false,
+      error: expect.stringContaining("not deterministic"),
+    });
+    expect(await check("const x = random();")).toEqual({ ok: false, error: "Custom code did not draw anything" });
+    expect(await check("throw new Error('boom')")).toEqual({ ok: false, error: "boom" });
+  });
+});
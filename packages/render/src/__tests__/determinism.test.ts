@@ -1,6 +1,16 @@
 import { describe, it, expect } from "vitest";
-import { generateSVG } from "../generate";
+import { createHash } from "crypto";
+import { generateSVG, supportedRendererVersions } from "../generate";
+import { RENDERER_VERSION } from "../version";
 import { mulberry32 } from "../prng";
+import {
+  attractorTypes,
+  defaultGeoTilingParams,
+  defaultStrangeAttractorParams,
+  geoTilingPatterns,
+  renderableTemplateIds,
+  templateRegistry,
+} from "@artmint/common";
 
 describe("renderer determinism", () => {
   const flowFieldsInput = {
@@ -48,6 +58,40 @@ describe("renderer determinism", () => {
     expect(svg1).toBe(svg2);
   });
 
+  it("produces identical SVG for every geo_tiling pattern with same input", () => {
+    for (const pattern of geoTilingPatterns) {
+      const input = {
+        templateId: "geo_tiling" as const,
+        seed: 314,
+        palette: ["#f5f1e8", "#1a1a2e", "#e94560", "#0f3460"],
+        params: { ...defaultGeoTilingParams, pattern },
+      };
+      const svg = generateSVG(input);
+      expect(svg).toBe(generateSVG(input));
+      expect(svg).not.toBe(generateSVG({ ...input, seed: 315 }));
+    }
+  });
+
+  it("tolerates a geo_tiling minRadius above maxRadius", () => {
+    const params = { ...defaultGeoTilingParams, minRadius: 40, maxRadius: 20 };
+    const svg = generateSVG({ templateId: "geo_tiling", seed: 5, palette: ["#000000", "#ffffff"], params });
+    expect(svg).toContain("<circle");
+  });
+
+  it("produces identical SVG for every strange_attractor type with same input", () => {
+    for (const attractor of attractorTypes) {
+      const input = {
+        templateId: "strange_attractor" as const,
+        seed: 1618,
+        palette: ["#05060f", "#1b1f4b", "#5b3f9e", "#3fa7d6", "#f0e6ff"],
+        params: { ...defaultStrangeAttractorParams, attractor, iterations: 40000 },
+      };
+      const svg = generateSVG(input);
+      expect(svg).toBe(generateSVG(input));
+      expect(svg).toContain("<path");
+    }
+  });
+
   it("produces different SVG for different seeds", () => {
     const svg1 = generateSVG(flowFieldsInput);
     const svg2 = generateSVG({ ...flowFieldsInput, seed: 43 });
@@ -60,6 +104,123 @@ describe("renderer determinism", () => {
     expect(svg).toContain("<svg");
     expect(svg).toContain("</svg>");
   });
+
+  it("defaults to a 1080x1080 canvas when dimensions are omitted", () => {
+    const svg = generateSVG(flowFieldsInput);
+    expect(svg).toBe(generateSVG({ ...flowFieldsInput, width: 1080, height: 1080 }));
+  });
+
+  it("lays out non-square canvases against width and height", () => {
+    for (const input of [flowFieldsInput, jazzNoirInput]) {
+      const svg = generateSVG({ ...input, width: 1080, height: 1350 });
+      expect(svg).toContain('viewBox="0 0 1080 1350" width="1080" height="1350"');
+      expect(svg).toBe(generateSVG({ ...input, width: 1080, height: 1350 }));
+    }
+  });
+
+  it("renders every registered template with its default params", () => {
+    for (const templateId of renderableTemplateIds) {
+      const svg = generateSVG({
+        templateId,
+        seed: 1,
+        palette: ["#000000", "#ffffff"],
+        params: templateRegistry[templateId].defaultParams,
+      });
+      expect(svg).toContain("<svg");
+    }
+  });
+
+  it("rejects custom_code and unknown templates", () => {
+    expect(() => generateSVG({ ...flowFieldsInput, templateId: "custom_code" })).toThrow();
+    expect(() =>
+      generateSVG({ ...flowFieldsInput, templateId: "nope" as "flow_fields" })
+    ).toThrow("Unknown template: nope");
+  });
+});
+
+describe("released renderer versions", () => {
+  const inputs = {
+    flow_fields: {
+      templateId: "flow_fields" as const,
+      seed: 42,
+      palette: ["#1a1a2e", "#16213e", "#0f3460", "#e94560", "#f5f5f5"],
+      params: {
+        density: 0.6,
+        lineWidth: 2.5,
+        curvature: 4,
+        grain: 0.3,
+        contrast: 1.2,
+        fieldScale: 2.5,
+        lineCount: 100,
+        stepCount: 50,
+        turbulence: 0.8,
+      },
+    },
+    jazz_noir: {
+      templateId: "jazz_noir" as const,
+      seed: 777,
+      palette: ["#0a0a0f", "#1a0a2e", "#ff6b35", "#00d4ff", "#ff0066"],
+      params: {
+        neonIntensity: 0.7,
+        skylineBands: 5,
+        glow: 1.0,
+        rainGrain: 0.3,
+        circleCount: 10,
+        lineCount: 20,
+        depth: 1.0,
+        blur: 1.5,
+      },
+    },
+  };
+
+  // SHA-256 of the SVG for each released version. These must NEVER change:
+  // a mismatch means an old mint no longer reproduces. Add a row when a new
+  // version ships; never edit an existing one.
+  const releasedHashes: Record<string, Record<keyof typeof inputs, string>> = {
+    "1.0.0": {
+      flow_fields: "a59c9eee43460fd828236d0128cdef619f21f6f2ef0f0a13c537788e4fef3317",
+      jazz_noir: "6ce7d0e7a90240143bee619d806d93858f7e5551e067b9ec96dba26da1fca70c",
+    },
+    "1.1.0": {
+      flow_fields: "a59c9eee43460fd828236d0128cdef619f21f6f2ef0f0a13c537788e4fef3317",
+      jazz_noir: "6ce7d0e7a90240143bee619d806d93858f7e5551e067b9ec96dba26da1fca70c",
+    },
+  };
+
+  const sha256 = (svg: string) => createHash("sha256").update(svg).digest("hex");
+
+  it("has a golden hash for every supported version", () => {
+    expect(Object.keys(releasedHashes)).toEqual([...supportedRendererVersions]);
+  });
+
+  for (const [version, hashes] of Object.entries(releasedHashes)) {
+    for (const [templateId, expected] of Object.entries(hashes)) {
+      it(`reproduces ${templateId} at renderer ${version}`, () => {
+        const input = inputs[templateId as keyof typeof inputs];
+        expect(sha256(generateSVG({ ...input, rendererVersion: version }))).toBe(expected);
+      });
+    }
+  }
+
+  it("renders 1.1.0 portrait canvases deterministically", () => {
+    const svg = generateSVG({ ...inputs.flow_fields, rendererVersion: "1.1.0", width: 1080, height: 1350 });
+    expect(sha256(svg)).toBe("fda4a3b16c6ac89cf26979fff328b47e41e407b7685de7740dca5616052f00b2");
+  });
+
+  it("uses the live renderer when no version is given", () => {
+    expect(generateSVG(inputs.jazz_noir)).toBe(
+      generateSVG({ ...inputs.jazz_noir, rendererVersion: RENDERER_VERSION })
+    );
+  });
+
+  it("rejects unknown versions and canvases a version cannot draw", () => {
+    expect(() => generateSVG({ ...inputs.flow_fields, rendererVersion: "0.9.0" })).toThrow(
+      "Unsupported renderer version: 0.9.0"
+    );
+    expect(() =>
+      generateSVG({ ...inputs.flow_fields, rendererVersion: "1.0.0", width: 1080, height: 1350 })
+    ).toThrow();
+  });
 });
 
 describe("PRNG determinism", () => {
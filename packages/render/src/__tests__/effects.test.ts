@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  canonicalInputSchema,
+  defaultEffects,
+  defaultFlowFieldsParams,
+  effectTypes,
+  type Effect,
+} from "@artmint/common";
+import { generateSVG } from "../generate";
+import { renderPNGFromSVG } from "../png";
+
+const palette = ["#0a0a0f", "#1a0a2e", "#ff6b35", "#00d4ff", "#ff0066"];
+const base = { templateId: "flow_fields" as const, seed: 42, palette, params: defaultFlowFieldsParams };
+
+describe("post-processing effects", () => {
+  it("leaves output untouched without a chain", () => {
+    expect(generateSVG({ ...base, effects: [] })).toBe(generateSVG(base));
+  });
+
+  it("renders every effect deterministically", () => {
+    for (const type of effectTypes) {
+      const effects = [defaultEffects[type]];
+      const svg = generateSVG({ ...base, effects });
+      expect(svg, type).toBe(generateSVG({ ...base, effects }));
+      expect(svg, type).toContain('id="fx0"');
+      expect(renderPNGFromSVG(svg, 128).subarray(1, 4).toString(), type).toBe("PNG");
+    }
+  });
+
+  it("applies the chain in order, first effect innermost", () => {
+    const svg = generateSVG({
+      ...base,
+      effects: [defaultEffects.posterize, defaultEffects.vignette, defaultEffects.grain],
+    });
+    expect(svg).toMatch(/<\/defs><g filter="url\(#fx2\)"><g><g filter="url\(#fx0\)">/);
+    expect(svg).toContain('fill="url(#fx1)"/></g></g></svg>');
+  });
+
+  it("seeds film grain from the render seed", () => {
+    const effects: Effect[] = [defaultEffects.grain];
+    expect(generateSVG({ ...base, effects })).toContain('seed="42"');
+    expect(generateSVG({ ...base, seed: 43, effects })).toContain('seed="43"');
+  });
+
+  it("is rejected by archived renderer versions", () => {
+    expect(() =>
+      generateSVG({ ...base, rendererVersion: "1.0.0", effects: [defaultEffects.vignette] })
+    ).toThrow("Renderer 1.0.0 does not support effects");
+  });
+
+  it("is validated as part of the canonical input", () => {
+    const input = {
+      rendererVersion: "1.1.0",
+      ...base,
+      prompt: "test",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+    expect(canonicalInputSchema.safeParse({ ...input, effects: [defaultEffects.duotone] }).success).toBe(true);
+    expect(
+      canonicalInputSchema.safeParse({ ...input, effects: [{ type: "posterize", levels: 1 }] }).success
+    ).toBe(false);
+    expect(canonicalInputSchema.safeParse({ ...input, effects: [{ type: "bloom" }] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { generateSVG, supportedRendererVersions } from "../generate";
+import { RENDERER_VERSION } from "../version";
+import { renderPNGFromSVG } from "../png";
+import { buildGoldenInputs, GOLDEN_PNG_SIZE, type GoldenCase, type GoldenInput } from "./golden/cases";
+
+/**
+ * Golden-image regression corpus: checked-in inputs with the SVG and PNG
+ * hashes each renderer version must keep producing, one file per version
+ * in golden/<version>.json.
+ *
+ * `pnpm golden:update` regenerates the files. It only ever appends: new
+ * templates and new versions get their cases, but a case whose output has
+ * drifted fails the update too, so a released version's hashes can't be
+ * rewritten by accident. Changing output means cutting a new RENDERER_VERSION.
+ */
+
+const GOLDEN_DIR = join(__dirname, "golden");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+
+const corpusPath = (version: string) => join(GOLDEN_DIR, `${version}.json`);
+
+function readCorpus(version: string): GoldenCase[] {
+  const path = corpusPath(version);
+  return existsSync(path) ? (JSON.parse(readFileSync(path, "utf8")) as GoldenCase[]) : [];
+}
+
+function renderCase(input: GoldenInput, rendererVersion: string) {
+  const svg = generateSVG({ ...input, rendererVersion });
+  return { svgSha256: sha256(svg), pngSha256: sha256(renderPNGFromSVG(svg, GOLDEN_PNG_SIZE)) };
+}
+
+/** Inputs this version can draw, with their hashes; older versions skip newer features */
+function renderableCases(rendererVersion: string): GoldenCase[] {
+  const cases: GoldenCase[] = [];
+  for (const { name, input } of buildGoldenInputs()) {
+    let hashes;
+    try {
+      hashes = renderCase(input, rendererVersion);
+    } catch {
+      continue;
+    }
+    cases.push({ name, input, ...hashes });
+  }
+  return cases;
+}
+
+describe.runIf(UPDATE)("golden corpus update", () => {
+  it("appends new cases without touching existing hashes", () => {
+    const drifted: string[] = [];
+    for (const version of supportedRendererVersions) {
+      const existing = readCorpus(version);
+      for (const golden of existing) {
+        const actual = renderCase(golden.input, version);
+        if (actual.svgSha256 !== golden.svgSha256 || actual.pngSha256 !== golden.pngSha256) {
+          drifted.push(`${version} ${golden.name}`);
+        }
+      }
+
+      const known = new Set(existing.map((golden) => golden.name));
+      const added = renderableCases(version).filter((golden) => !known.has(golden.name));
+      if (added.length > 0) {
+        writeFileSync(corpusPath(version), JSON.stringify([...existing, ...added], null, 2) + "\n");
+      }
+    }
+    expect(drifted, "output drifted; cut a new RENDERER_VERSION instead").toEqual([]);
+  }, 600_000);
+});
+
+describe.skipIf(UPDATE)("golden corpus", () => {
+  it("has a corpus for every supported renderer version", () => {
+    for (const version of supportedRendererVersions) {
+      expect(readCorpus(version).length, `golden/${version}.json`).toBeGreaterThan(0);
+    }
+  });
+
+  it("covers every input the live renderer can draw", () => {
+    const names = new Set(readCorpus(RENDERER_VERSION).map((golden) => golden.name));
+    const missing = buildGoldenInputs()
+      .map(({ name }) => name)
+      .filter((name) => !names.has(name));
+    expect(missing, "run pnpm golden:update").toEqual([]);
+  });
+
+  for (const version of supportedRendererVersions) {
+    for (const golden of readCorpus(version)) {
+      it(`reproduces ${golden.name} at renderer ${version}`, () => {
+        expect(renderCase(golden.input, version)).toEqual({
+          svgSha256: golden.svgSha256,
+          pngSha256: golden.pngSha256,
+        });
+      });
+    }
+  }
+});
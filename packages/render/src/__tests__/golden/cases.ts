@@ -0,0 +1,132 @@
+import {
+  defaultCompositeParams,
+  defaultEffects,
+  effectTypes,
+  renderableTemplateIds,
+  templateRegistry,
+  type Effect,
+  type SvgTemplateId,
+} from "@artmint/common";
+
+/** One canonical input in the golden corpus */
+export interface GoldenInput {
+  templateId: SvgTemplateId;
+  seed: number;
+  palette: string[];
+  params: Record<string, unknown>;
+  width?: number;
+  height?: number;
+  effects?: Effect[];
+}
+
+export interface GoldenCase {
+  /** Stable identifier, `<templateId>/<variant>` */
+  name: string;
+  input: GoldenInput;
+  /** SHA-256 of generateSVG at the corpus's renderer version */
+  svgSha256: string;
+  /** SHA-256 of renderPNGFromSVG at GOLDEN_PNG_SIZE */
+  pngSha256: string;
+}
+
+/** Long edge of the corpus PNGs; small enough to keep the suite quick */
+export const GOLDEN_PNG_SIZE = 256;
+
+const BASE_SEED = 20240601;
+const BASE_PALETTE = ["#0a0a0f", "#ff6b35", "#00d4ff", "#f5f5f5"];
+const TWO_COLOR_PALETTE = ["#000000", "#ffffff"];
+const EIGHT_COLOR_PALETTE = [
+  "#1a1a2e",
+  "#16213e",
+  "#0f3460",
+  "#533483",
+  "#e94560",
+  "#ff6b35",
+  "#00d4ff",
+  "#f5f5f5",
+];
+// The PRNG works on 32-bit state, so these are the extremes it can tell apart
+const MIN_SEED = 0;
+const MAX_SEED = 0xffffffff;
+
+// Shared noise params post-date renderer 1.0.0, so they get their own
+// variants instead of riding along with each template's range edges
+const NOISE_PARAMS = new Set(["noiseType", "octaves"]);
+
+type TemplateMeta = Record<
+  string,
+  { min: number; max: number } | { options: readonly string[] } | { maxLength: number }
+>;
+
+function paramsAtEdge(templateId: keyof typeof templateRegistry, edge: "min" | "max") {
+  const { defaultParams, parameterMeta } = templateRegistry[templateId];
+  const edges = Object.entries(parameterMeta as TemplateMeta)
+    .filter(([key]) => !NOISE_PARAMS.has(key))
+    .map(([key, entry]) => {
+      if ("options" in entry) {
+        return [key, edge === "min" ? entry.options[0] : entry.options[entry.options.length - 1]];
+      }
+      if ("maxLength" in entry) {
+        const text = String(defaultParams[key as keyof typeof defaultParams]);
+        return [key, edge === "min" ? text.slice(0, 1) : `${text} `.repeat(entry.maxLength).slice(0, entry.maxLength)];
+      }
+      return [key, entry[edge]];
+    });
+  return { ...defaultParams, ...Object.fromEntries(edges) };
+}
+
+/** One variant per noise basis, each at the maximum octave count */
+function noiseVariants(templateId: keyof typeof templateRegistry): Record<string, Record<string, unknown>> {
+  const meta = templateRegistry[templateId].parameterMeta as TemplateMeta;
+  const noiseType = meta.noiseType;
+  const octaves = meta.octaves;
+  if (!noiseType || !("options" in noiseType) || !octaves || !("max" in octaves)) return {};
+  return Object.fromEntries(
+    noiseType.options.map((type) => [
+      `noise-${type}`,
+      { ...templateRegistry[templateId].defaultParams, noiseType: type, octaves: octaves.max },
+    ])
+  );
+}
+
+/**
+ * Every input the corpus covers, per template: defaults, each param at the
+ * bottom and top of its range, every noise basis, 2- and 8-color palettes,
+ * extreme seeds, a portrait canvas and the full effect chain. Versions that
+ * cannot draw an input (unknown template, non-square canvas, effects, newer
+ * noise) skip it.
+ */
+export function buildGoldenInputs(): { name: string; input: GoldenInput }[] {
+  const defaults: { templateId: SvgTemplateId; params: Record<string, unknown> }[] = [
+    ...renderableTemplateIds.map((templateId) => ({
+      templateId,
+      params: templateRegistry[templateId].defaultParams as Record<string, unknown>,
+    })),
+    { templateId: "composite", params: defaultCompositeParams },
+  ];
+
+  const cases: { name: string; input: GoldenInput }[] = [];
+  for (const { templateId, params } of defaults) {
+    const base: GoldenInput = { templateId, seed: BASE_SEED, palette: BASE_PALETTE, params };
+    const variants: Record<string, GoldenInput> = {
+      defaults: base,
+      "palette-2": { ...base, palette: TWO_COLOR_PALETTE },
+      "palette-8": { ...base, palette: EIGHT_COLOR_PALETTE },
+      "seed-min": { ...base, seed: MIN_SEED },
+      "seed-max": { ...base, seed: MAX_SEED },
+      portrait: { ...base, width: 1080, height: 1350 },
+      effects: { ...base, effects: effectTypes.map((type) => defaultEffects[type]) },
+    };
+    if (templateId !== "composite") {
+      variants["params-min"] = { ...base, params: paramsAtEdge(templateId, "min") };
+      variants["params-max"] = { ...base, params: paramsAtEdge(templateId, "max") };
+      for (const [variant, noiseParams] of Object.entries(noiseVariants(templateId))) {
+        variants[variant] = { ...base, params: noiseParams };
+      }
+    }
+    for (const [variant, input] of Object.entries(variants)) {
+      cases.push({ name: `${templateId}/${variant}`, input });
+    }
+  }
+  return cases;
+}
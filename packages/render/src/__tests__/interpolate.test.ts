@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { defaultFlowFieldsParams, defaultJazzNoirParams } from "@artmint/common";
+import { generateSVG } from "../generate";
+import { interpolateInputs, morphAmounts, renderMorphFrames } from "../interpolate";
+import { buildAnimatedSVG } from "../animation";
+
+const a = {
+  templateId: "flow_fields" as const,
+  seed: 11,
+  palette: ["#0a0a0f", "#ff6b35", "#00d4ff"],
+  params: { ...defaultFlowFieldsParams, density: 0.2, lineCount: 100, noiseType: "value" },
+};
+const b = {
+  templateId: "flow_fields" as const,
+  seed: 99,
+  palette: ["#f5f0e8", "#7b2cbf", "#2a9d8f", "#e63946"],
+  params: { ...defaultFlowFieldsParams, density: 0.8, lineCount: 155, noiseType: "simplex" },
+};
+
+describe("interpolateInputs", () => {
+  it("returns the endpoints at 0 and 1", () => {
+    expect(interpolateInputs(a, b, 0)).toMatchObject({ seed: 11, palette: a.palette, params: a.params });
+    expect(interpolateInputs(a, b, 1)).toMatchObject({ seed: 99, palette: b.palette, params: b.params });
+  });
+
+  it("lerps numbers, rounds whole-step params and switches enums at the midpoint", () => {
+    const quarter = interpolateInputs(a, b, 0.25);
+    expect(quarter.params.density).toBeCloseTo(0.35);
+    expect(quarter.params.lineCount).toBe(114);
+    expect(quarter.params.noiseType).toBe("value");
+    expect(quarter.seed).toBe(11);
+    expect(quarter.palette).toHaveLength(3);
+
+    const late = interpolateInputs(a, b, 0.75, { seed: 5 });
+    expect(late.params.noiseType).toBe("simplex");
+    expect(late.seed).toBe(5);
+    expect(late.palette).toHaveLength(4);
+  });
+
+  it("rejects mismatched templates", () => {
+    const noir = { ...a, templateId: "jazz_noir" as const, params: defaultJazzNoirParams };
+    expect(() => interpolateInputs(a, noir, 0.5)).toThrow("Cannot interpolate");
+  });
+});
+
+describe("renderMorphFrames", () => {
+  it("loops from a through b and back", () => {
+    expect(morphAmounts(4, true).map((x) => Number(x.toFixed(6)))).toEqual([0, 0.5, 1, 0.5]);
+    expect(morphAmounts(3, false)).toEqual([0, 0.5, 1]);
+
+    const frames = renderMorphFrames({ ...a, params: { ...a.params, lineCount: 50, stepCount: 20 } }, b, {
+      frameCount: 4,
+    });
+    expect(frames).toHaveLength(4);
+    expect(frames[0]).toBe(generateSVG({ ...a, params: { ...a.params, lineCount: 50, stepCount: 20 } }));
+    expect(frames[1]).toBe(frames[3]);
+    expect(buildAnimatedSVG(frames, 8).match(/<animate /g)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { runInNewContext } from "vm";
+import { createNoise, createNoise2D } from "../prng";
+import { NOISE_RUNTIME_JS } from "../noise-runtime";
+import { generateSVG } from "../generate";
+
+const samples = Array.from({ length: 200 }, (_, i) => [i * 0.173 - 7.1, i * 0.291 + 3.3] as const);
+
+describe("noise library", () => {
+  it("value2 matches the legacy createNoise2D exactly", () => {
+    const legacy = createNoise2D(1234);
+    const noise = createNoise(1234);
+    for (const [x, y] of samples) {
+      expect(noise.value2(x, y)).toBe(legacy(x, y));
+    }
+  });
+
+  it("is deterministic per seed and differs between seeds", () => {
+    const a = createNoise(7);
+    const b = createNoise(7);
+    const c = createNoise(8);
+    const [x, y] = samples[10]!;
+    expect(a.simplex2(x, y)).toBe(b.simplex2(x, y));
+    expect(a.perlin3(x, y, 0.5)).toBe(b.perlin3(x, y, 0.5));
+    expect(a.simplex2(x, y)).not.toBe(c.simplex2(x, y));
+  });
+
+  it("keeps every basis and fBm within [-1, 1]", () => {
+    const noise = createNoise(99);
+    for (const [x, y] of samples) {
+      for (const v of [
+        noise.perlin2(x, y),
+        noise.perlin3(x, y, x - y),
+        noise.simplex2(x, y),
+        noise.simplex3(x, y, x - y),
+        noise.fbm2(x, y, { type: "simplex", octaves: 6 }),
+        noise.fbm3(x, y, 0.25, { type: "perlin" }),
+        noise.warp2(x, y, { type: "perlin", strength: 2 }),
+      ]) {
+        expect(Math.abs(v)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it("returns a finite curl vector", () => {
+    const [vx, vy] = createNoise(5).curl2(0.4, 1.7, { type: "simplex", octaves: 3 });
+    expect(Number.isFinite(vx) && Number.isFinite(vy)).toBe(true);
+    expect(vx !== 0 || vy !== 0).toBe(true);
+  });
+
+  it("produces identical values when the embedded runtime runs in a fresh context", () => {
+    const browserNoise = runInNewContext(`${NOISE_RUNTIME_JS}\ncreateNoise(321);`);
+    const serverNoise = createNoise(321);
+    for (const [x, y] of samples) {
+      expect(browserNoise.fbm2(x, y, { type: "perlin", octaves: 5 })).toBe(
+        serverNoise.fbm2(x, y, { type: "perlin", octaves: 5 })
+      );
+      expect(browserNoise.simplex3(x, y, 1.5)).toBe(serverNoise.simplex3(x, y, 1.5));
+    }
+  });
+});
+
+describe("template noise params", () => {
+  const base = {
+    templateId: "flow_fields" as const,
+    seed: 42,
+    palette: ["#1a1a2e", "#0f3460", "#e94560"],
+    params: {
+      density: 0.6,
+      lineWidth: 2.5,
+      curvature: 4,
+      grain: 0,
+      contrast: 1.2,
+      fieldScale: 2.5,
+      lineCount: 40,
+      stepCount: 30,
+      turbulence: 0.8,
+    },
+  };
+
+  it("treats explicit defaults like omitted noise params", () => {
+    const explicit = generateSVG({ ...base, params: { ...base.params, noiseType: "value", octaves: 1 } });
+    expect(explicit).toBe(generateSVG(base));
+  });
+
+  it("changes the output when a different noise is selected", () => {
+    const simplex = generateSVG({ ...base, params: { ...base.params, noiseType: "simplex", octaves: 4 } });
+    expect(simplex).not.toBe(generateSVG(base));
+  });
+
+  it("rejects noise selection on renderer 1.0.0", () => {
+    expect(() =>
+      generateSVG({ ...base, rendererVersion: "1.0.0", params: { ...base.params, noiseType: "perlin" } })
+    ).toThrow("Renderer 1.0.0 only supports single-octave value noise");
+  });
+});
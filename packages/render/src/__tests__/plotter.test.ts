@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultCompositeParams,
+  defaultFlowFieldsParams,
+  defaultJazzNoirParams,
+  renderableTemplateIds,
+  templateRegistry,
+} from "@artmint/common";
+import { buildPlot, buildPlotterSVG, buildGCode, buildHPGL, defaultPlotterOptions, paperSizes } from "../plotter";
+import { templatePlotters } from "../templates";
+
+const palette = ["#0A0A0F", "#ff6b35", "#00d4ff", "#ff0066"];
+const input = { templateId: "flow_fields" as const, seed: 7, palette, params: defaultFlowFieldsParams };
+
+function travel(strokes: [number, number][][]): number {
+  let total = 0;
+  let pen: [number, number] = [0, 0];
+  for (const stroke of strokes) {
+    total += Math.hypot(stroke[0]![0] - pen[0], stroke[0]![1] - pen[1]);
+    pen = stroke[stroke.length - 1]!;
+  }
+  return total;
+}
+
+describe("plotter export", () => {
+  it("groups strokes into one layer per palette color, in palette order", () => {
+    const plot = buildPlot(input);
+    const colors = plot.layers.map((layer) => layer.color);
+    expect(colors).toEqual(palette.map((c) => c.toLowerCase()).filter((c) => colors.includes(c)));
+    expect(new Set(colors).size).toBe(colors.length);
+  });
+
+  it("fits the drawing inside the paper margins and splits wrapped lines", () => {
+    const plot = buildPlot(input);
+    const { marginMm } = defaultPlotterOptions;
+    const drawable = plot.widthMm - marginMm * 2;
+    for (const stroke of plot.layers.flatMap((layer) => layer.strokes)) {
+      for (let i = 0; i < stroke.length; i++) {
+        const [x, y] = stroke[i]!;
+        expect(x).toBeGreaterThanOrEqual(marginMm - 1e-9);
+        expect(x).toBeLessThanOrEqual(plot.widthMm - marginMm + 1e-9);
+        expect(y).toBeGreaterThanOrEqual(0);
+        expect(y).toBeLessThanOrEqual(plot.heightMm);
+        if (i > 0) {
+          const [px, py] = stroke[i - 1]!;
+          expect(Math.hypot(x - px, y - py)).toBeLessThan(drawable / 2);
+        }
+      }
+    }
+  });
+
+  it("simplifies strokes and shortens pen travel", () => {
+    const raw = templatePlotters.flow_fields!({ ...input, width: 1080, height: 1080, t: 0 });
+    const plot = buildPlot(input);
+    const strokes = plot.layers.flatMap((layer) => layer.strokes);
+    const points = (s: [number, number][][]) => s.reduce((n, stroke) => n + stroke.length, 0);
+    expect(points(strokes)).toBeLessThan(points(raw.map((s) => s.points)));
+
+    const scale = (plot.widthMm - defaultPlotterOptions.marginMm * 2) / 1080;
+    for (const layer of plot.layers) {
+      const unordered = raw
+        .filter((s) => s.color.toLowerCase() === layer.color)
+        .map((s) => s.points.map(([x, y]): [number, number] => [x * scale, y * scale]));
+      expect(travel(layer.strokes)).toBeLessThan(travel(unordered));
+    }
+  });
+
+  it("turns the paper to match wide canvases", () => {
+    const plot = buildPlot({ ...input, width: 1920, height: 1080 }, { ...defaultPlotterOptions, paper: paperSizes.A3 });
+    expect([plot.widthMm, plot.heightMm]).toEqual([420, 297]);
+  });
+
+  it("emits layered SVG, G-code and HP-GL", () => {
+    const plot = buildPlot({ ...input, templateId: "jazz_noir", params: defaultJazzNoirParams });
+    const svg = buildPlotterSVG(plot);
+    expect(svg).toContain('width="210mm" height="297mm" viewBox="0 0 210 297"');
+    expect(svg.match(/inkscape:groupmode="layer"/g)).toHaveLength(plot.layers.length);
+    expect(svg).not.toMatch(/opacity|fill="#/);
+
+    const gcode = buildGCode(plot);
+    expect(gcode.startsWith("; ArtMint plot 210x297mm")).toBe(true);
+    expect(gcode.match(/^M0 /gm)).toHaveLength(plot.layers.length);
+    expect(gcode.trimEnd().endsWith("M2")).toBe(true);
+
+    const hpgl = buildHPGL(plot);
+    expect(hpgl.startsWith("IN;\nSP1;\nPU")).toBe(true);
+    expect(hpgl.match(/^SP\d;/gm)).toHaveLength(plot.layers.length + 1);
+    expect(buildHPGL(plot)).toBe(hpgl);
+  });
+
+  it("has plotter geometry for exactly the templates marked plottable", () => {
+    for (const id of renderableTemplateIds) {
+      expect(Boolean(templatePlotters[id]), id).toBe(templateRegistry[id].plottable);
+    }
+  });
+
+  it("rejects inputs from archived renderer versions", () => {
+    expect(() => buildPlot({ ...input, rendererVersion: "1.0.0" })).toThrow("Renderer 1.0.0 has no plotter export");
+  });
+
+  it("rejects templates without line geometry", () => {
+    expect(() => buildPlot({ ...input, templateId: "composite", params: defaultCompositeParams })).toThrow(
+      "Template composite cannot be plotted"
+    );
+  });
+});
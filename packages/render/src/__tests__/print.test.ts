@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { inflateSync } from "zlib";
+import { Resvg } from "@resvg/resvg-js";
+import { defaultCompositeParams, defaultEffects, defaultJazzNoirParams } from "@artmint/common";
+import { generateSVG } from "../generate";
+import { renderPrint } from "../print";
+import { SRGB_ICC_PROFILE } from "../icc";
+
+const svg = generateSVG({
+  templateId: "jazz_noir",
+  seed: 42,
+  palette: ["#0A0A0F", "#ff6b35", "#00d4ff", "#ff0066"],
+  params: defaultJazzNoirParams,
+  width: 1080,
+  height: 720,
+});
+
+function pngChunks(png: Buffer): Map<string, Buffer[]> {
+  const chunks = new Map<string, Buffer[]>();
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    chunks.set(type, [...(chunks.get(type) ?? []), png.subarray(offset + 8, offset + 8 + length)]);
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/** Packed RGB rows from filter-type-0 scanlines */
+function unfilter(data: Buffer, width: number): Buffer {
+  const stride = width * 3;
+  const rows = data.length / (stride + 1);
+  const out = Buffer.alloc(rows * stride);
+  for (let row = 0; row < rows; row++) {
+    expect(data[row * (stride + 1)]).toBe(0);
+    data.copy(out, row * stride, row * (stride + 1) + 1, (row + 1) * (stride + 1));
+  }
+  return out;
+}
+
+async function printPixels(options: Parameters<typeof renderPrint>[1], source = svg) {
+  const file = await renderPrint(source, { ...options, format: "png" });
+  const idat = Buffer.concat(pngChunks(file.data).get("IDAT")!);
+  return { file, rgb: unfilter(inflateSync(idat), file.width) };
+}
+
+/** Mean per-channel difference from a single full-size resvg pass */
+function differenceFromFullRender(rgb: Buffer, source: string, width: number, height: number): number {
+  const full = new Resvg(source, {
+    fitTo: { mode: "width", value: width },
+    background: "#ffffff",
+    font: { loadSystemFonts: false },
+  }).render().pixels;
+  let difference = 0;
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) difference += Math.abs(rgb[i * 3 + c]! - full[i * 4 + c]!);
+  }
+  return difference / (width * height * 3);
+}
+
+describe("print export", () => {
+  it("renders tiles that match a single full-size resvg pass", async () => {
+    const { file, rgb } = await printPixels({ size: 1200, bleedMm: 0, tileSize: 256 });
+    expect([file.width, file.height]).toEqual([1200, 800]);
+    expect(differenceFromFullRender(rgb, svg, 1200, 800)).toBeLessThan(0.05);
+  }, 60_000);
+
+  it("keeps layers inside page-wide filters within resvg's reach on small tiles", async () => {
+    // Opacity groups nested in full-canvas filter groups abort resvg when a
+    // tile is cut from the page without bounding them
+    const layered = generateSVG({
+      templateId: "composite",
+      seed: 7,
+      palette: ["#0A0A0F", "#ff6b35", "#00d4ff", "#ff0066"],
+      params: defaultCompositeParams,
+      effects: [defaultEffects.grain, defaultEffects.vignette],
+    });
+    const { file, rgb } = await printPixels({ size: 600, bleedMm: 0, tileSize: 128 }, layered);
+    expect([file.width, file.height]).toEqual([600, 600]);
+    expect(differenceFromFullRender(rgb, layered, 600, 600)).toBeLessThan(0.1);
+  }, 60_000);
+
+  it("adds bleed around the trim and records dpi and the sRGB profile", async () => {
+    const { file } = await printPixels({ size: 600, dpi: 254, bleedMm: 3 });
+    // 3mm at 254 dpi is 30px per side
+    expect([file.width, file.height]).toEqual([660, 460]);
+
+    const chunks = pngChunks(file.data);
+    const phys = chunks.get("pHYs")![0]!;
+    expect(phys.readUInt32BE(0)).toBe(10000);
+    const iccp = chunks.get("iCCP")![0]!;
+    expect(inflateSync(iccp.subarray(6)).equals(SRGB_ICC_PROFILE)).toBe(true);
+  }, 60_000);
+
+  it("writes TIFF strips with the same pixels as the PNG", async () => {
+    const { rgb } = await printPixels({ size: 600, bleedMm: 0 });
+    const tiff = (await renderPrint(svg, { size: 600, bleedMm: 0, format: "tiff" })).data;
+    expect(tiff.toString("latin1", 0, 4)).toBe("II*\0");
+
+    const ifd = tiff.readUInt32LE(4);
+    const tags = new Map<number, { count: number; value: number }>();
+    for (let i = 0; i < tiff.readUInt16LE(ifd); i++) {
+      const at = ifd + 2 + i * 12;
+      tags.set(tiff.readUInt16LE(at), { count: tiff.readUInt32LE(at + 4), value: tiff.readUInt32LE(at + 8) });
+    }
+    expect(tags.get(256)!.value).toBe(600);
+    expect(tags.get(257)!.value).toBe(400);
+    const icc = tags.get(34675)!;
+    expect(tiff.subarray(icc.value, icc.value + icc.count).equals(SRGB_ICC_PROFILE)).toBe(true);
+
+    const offsets = tags.get(273)!;
+    const counts = tags.get(279)!;
+    const strips: Buffer[] = [];
+    for (let i = 0; i < offsets.count; i++) {
+      const offset = tiff.readUInt32LE(offsets.value + i * 4);
+      strips.push(inflateSync(tiff.subarray(offset, offset + tiff.readUInt32LE(counts.value + i * 4))));
+    }
+    expect(tags.get(278)!.value).toBe(64);
+    expect(strips.slice(0, -1).every((strip) => strip.length === 64 * 600 * 3)).toBe(true);
+    expect(Buffer.concat(strips).equals(rgb)).toBe(true);
+  }, 60_000);
+
+  it("writes a PDF whose page boxes and image match the print layout", async () => {
+    const { rgb } = await printPixels({ size: 600, dpi: 300, bleedMm: 3 });
+    const pdf = (await renderPrint(svg, { size: 600, dpi: 300, bleedMm: 3, format: "pdf" })).data;
+    const text = pdf.toString("latin1");
+
+    // Every xref entry points at its object
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    const entries = text.slice(startxref).match(/\d{10} 00000 n /g)!;
+    entries.forEach((entry, i) => {
+      expect(text.startsWith(`${i + 1} 0 obj`, Number(entry.slice(0, 10)))).toBe(true);
+    });
+
+    // 600x400 trim plus 35px bleed per side at 300 dpi
+    expect(text).toContain("/MediaBox [0 0 160.8 112.8]");
+    expect(text).toContain("/TrimBox [8.4 8.4 152.4 104.4]");
+    expect(text).toContain("/Width 670 /Height 470");
+
+    const imageStart = text.indexOf("stream\n", text.indexOf("/Subtype /Image")) + "stream\n".length;
+    const imageEnd = text.indexOf("\nendstream", imageStart);
+    expect(unfilter(inflateSync(pdf.subarray(imageStart, imageEnd)), 670).equals(rgb)).toBe(true);
+  }, 60_000);
+
+  it("builds a well-formed ICC profile header", () => {
+    expect(SRGB_ICC_PROFILE.readUInt32BE(0)).toBe(SRGB_ICC_PROFILE.length);
+    expect(SRGB_ICC_PROFILE.toString("ascii", 12, 24)).toBe("mntrRGB XYZ ");
+    expect(SRGB_ICC_PROFILE.toString("ascii", 36, 40)).toBe("acsp");
+    expect(SRGB_ICC_PROFILE.readUInt32BE(128)).toBe(9);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+import { generateSVG } from "../generate";
+import { renderAPNGFromFrames, renderPNGFromSVG } from "../png";
+import { createRasterPool } from "../raster-pool";
+
+const svgs = [1, 2, 3].map((seed) =>
+  generateSVG({
+    templateId: "flow_fields",
+    seed,
+    palette: ["#0A0A0F", "#ff6b35", "#00d4ff"],
+    params: defaultFlowFieldsParams,
+    width: 600,
+    height: 900,
+  })
+);
+
+describe("raster pool", () => {
+  it("renders concurrent PNGs identical to the in-process renderer", async () => {
+    const pool = createRasterPool({ workers: 2 });
+    try {
+      const pngs = await Promise.all(svgs.map((svg) => pool.render(svg, 400)));
+      pngs.forEach((png, i) => {
+        expect(png.equals(renderPNGFromSVG(svgs[i]!, 400))).toBe(true);
+      });
+    } finally {
+      await pool.close();
+    }
+  }, 60_000);
+
+  it("assembles animated PNGs identical to the in-process encoder", async () => {
+    const pool = createRasterPool({ workers: 2 });
+    try {
+      const apng = await pool.animate(svgs, 6, 120);
+      expect(apng.equals(renderAPNGFromFrames(svgs, 6, 120))).toBe(true);
+    } finally {
+      await pool.close();
+    }
+  }, 60_000);
+
+  it("rejects invalid SVG without losing the worker", async () => {
+    const pool = createRasterPool({ workers: 1 });
+    try {
+      await expect(pool.render("<not-svg", 100)).rejects.toThrow();
+      expect((await pool.render(svgs[0]!, 100)).subarray(1, 4).toString()).toBe("PNG");
+    } finally {
+      await pool.close();
+    }
+  }, 60_000);
+
+  it("rejects renders once closed", async () => {
+    const pool = createRasterPool({ workers: 1 });
+    await pool.close();
+    await expect(pool.render(svgs[0]!, 100)).rejects.toThrow("Raster pool is closed");
+  });
+});
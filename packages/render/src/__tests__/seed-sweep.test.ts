@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { defaultFlowFieldsParams } from "@artmint/common";
+import { createRasterPool } from "../raster-pool";
+import { buildContactSheet, computeSeedStats, matchesSeedStats, sweepSeeds } from "../seed-sweep";
+import { renderPNGFromSVG } from "../png";
+
+const input = {
+  templateId: "flow_fields" as const,
+  palette: ["#0a0a0f", "#ff6b35", "#00d4ff"],
+  params: defaultFlowFieldsParams,
+};
+
+describe("seed statistics", () => {
+  it("measures coverage, luminance and color balance", () => {
+    // Half background, half pure red
+    const pixels = new Uint8Array([0, 0, 0, 255, 255, 0, 0, 255]);
+    const stats = computeSeedStats(pixels, "#000000");
+    expect(stats.coverage).toBe(0.5);
+    expect(stats.luminance).toBeCloseTo(0.2126 / 2, 5);
+    expect(stats.warmth).toBe(0.5);
+    expect(stats.tint).toBe(-0.25);
+  });
+
+  it("filters on inclusive ranges", () => {
+    const stats = { coverage: 0.4, luminance: 0.2, warmth: 0, tint: 0 };
+    expect(matchesSeedStats(stats, {})).toBe(true);
+    expect(matchesSeedStats(stats, { coverage: [0.4, 1] })).toBe(true);
+    expect(matchesSeedStats(stats, { coverage: [0.5, 1] })).toBe(false);
+  });
+});
+
+describe("seed sweep", () => {
+  it("renders consecutive seeds and keeps the ones that pass the filters", async () => {
+    const pool = createRasterPool({ workers: 1 });
+    try {
+      const tiles = await sweepSeeds(input, { start: 10, count: 4, thumbSize: 64 }, pool);
+      expect(tiles.map((tile) => tile.seed)).toEqual([10, 11, 12, 13]);
+      expect(tiles[0]!.width).toBe(64);
+      expect(tiles[0]!.stats.coverage).toBeGreaterThan(0);
+
+      const threshold = tiles[1]!.stats.coverage;
+      const filtered = await sweepSeeds(
+        input,
+        { start: 10, count: 4, thumbSize: 64, filters: { coverage: [threshold, 1] } },
+        pool
+      );
+      expect(filtered.map((tile) => tile.seed)).toEqual(
+        tiles.filter((tile) => tile.stats.coverage >= threshold).map((tile) => tile.seed)
+      );
+
+      const sheet = buildContactSheet(tiles, { columns: 2 });
+      expect([sheet.width, sheet.height]).toEqual([152, 184]);
+      expect(sheet.svg.match(/<image /g)).toHaveLength(4);
+      expect(renderPNGFromSVG(sheet.svg, sheet.height).subarray(1, 4).toString()).toBe("PNG");
+    } finally {
+      await pool.close();
+    }
+  }, 60_000);
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { existsSync } from "fs";
+import { join } from "path";
+import { defaultTypographyParams, typographyLayouts } from "@artmint/common";
+import { bundledFontPath, bundledFonts, getFontOutlines } from "../fonts";
+import { generateSVG } from "../generate";
+import { renderPNGFromSVG } from "../png";
+
+const palette = ["#101018", "#ff6b35", "#00d4ff", "#f5f5f5"];
+
+describe("bundled fonts", () => {
+  it("finds the font files through the package manifest", () => {
+    for (const font of Object.keys(bundledFonts) as (keyof typeof bundledFonts)[]) {
+      const path = bundledFontPath(font);
+      expect(path).toBe(join(__dirname, "..", "..", "fonts", bundledFonts[font].filename));
+      expect(existsSync(path)).toBe(true);
+    }
+  });
+
+  it("reads glyph outlines and advances", () => {
+    const font = getFontOutlines("lato");
+    const a = font.glyph("A");
+    expect(font.unitsPerEm).toBe(2000);
+    expect(a.advance).toBeGreaterThan(0);
+    expect(a.d).toMatch(/^M-?\d+ -?\d+/);
+    expect(font.glyph(" ").d).toBe("");
+    // Accented letters are composite glyphs built from their base letter
+    expect(font.glyph("é").d.startsWith(font.glyph("e").d)).toBe(true);
+    // Characters the font lacks fall back to .notdef
+    expect(font.glyph("\u{1F600}").id).toBe(0);
+  });
+
+  it("rasterizes <text> with the bundled fonts instead of dropping it", () => {
+    const page = (text: string) =>
+      `<svg xmlns="http://www.w3.org/2000/svg" width="200" height="60"><rect width="200" height="60" fill="#fff"/>` +
+      `<text x="10" y="40" font-size="32" font-family="Source Code Pro">${text}</text></svg>`;
+    expect(renderPNGFromSVG(page("ArtMint"), 200).equals(renderPNGFromSVG(page(""), 200))).toBe(false);
+  });
+});
+
+describe("typography template", () => {
+  it("draws every layout deterministically as outlines, not live text", () => {
+    for (const layout of typographyLayouts) {
+      const input = {
+        templateId: "typography" as const,
+        seed: 99,
+        palette,
+        params: { ...defaultTypographyParams, layout, text: "cosmic drift" },
+      };
+      const svg = generateSVG(input);
+      expect(svg).toBe(generateSVG(input));
+      expect(svg).not.toContain("<text");
+      expect(svg).toMatch(/<use href="#g\d+"/);
+    }
+  });
+
+  it("keeps glyph references unique per composite layer", () => {
+    const layer = { templateId: "typography" as const, params: defaultTypographyParams };
+    const svg = generateSVG({ templateId: "composite", seed: 1, palette, params: { layers: [layer, layer] } });
+    expect(svg).toContain('href="#l0-g');
+    expect(svg).toContain('href="#l1-g');
+    expect(svg).not.toMatch(/href="#g/);
+  });
+});
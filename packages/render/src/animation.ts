@@ -0,0 +1,56 @@
+import type { AnimationSpec } from "@artmint/common";
+import { generateSVG, type GenerateInput } from "./generate";
+import { splitRoot, prefixIds } from "./svg";
+
+/**
+ * Render a seamless loop as `spec.frameCount` SVG frames.
+ * Frame i samples t = i / frameCount, so frame 0 is the static image
+ * and the frame after the last would be frame 0 again.
+ */
+export function renderFrames(input: Omit<GenerateInput, "t">, spec: AnimationSpec): string[] {
+  const frames: string[] = [];
+  for (let i = 0; i < spec.frameCount; i++) {
+    frames.push(generateSVG({ ...input, t: i / spec.frameCount }));
+  }
+  return frames;
+}
+
+/**
+ * Combine frames into a single SMIL-animated SVG. Each frame is a group
+ * whose `display` is switched on for exactly its slot in the loop.
+ */
+export function buildAnimatedSVG(frames: string[], fps: number): string {
+  if (frames.length === 0) {
+    throw new Error("Cannot build an animation from zero frames");
+  }
+
+  const count = frames.length;
+  const duration = `${(count / fps).toFixed(3)}s`;
+  const slot = (i: number) => (i / count).toFixed(6);
+  const { open } = splitRoot(frames[0]!);
+
+  const groups = frames.map((frame, i) => {
+    const body = prefixIds(splitRoot(frame).body, `f${i}-`);
+    let values: string;
+    let keyTimes: string;
+    if (i === 0) {
+      values = "inline;none";
+      keyTimes = `0;${slot(1)}`;
+    } else if (i === count - 1) {
+      values = "none;inline";
+      keyTimes = `0;${slot(i)}`;
+    } else {
+      values = "none;inline;none";
+      keyTimes = `0;${slot(i)};${slot(i + 1)}`;
+    }
+    const initial = i === 0 ? "inline" : "none";
+    return (
+      `<g display="${initial}">` +
+      `<animate attributeName="display" values="${values}" keyTimes="${keyTimes}" ` +
+      `dur="${duration}" calcMode="discrete" repeatCount="indefinite"/>` +
+      `${body}</g>`
+    );
+  });
+
+  return `${open}\n${groups.join("\n")}\n</svg>`;
+}
@@ -0,0 +1,114 @@
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readChunks(png: Buffer): PngChunk[] {
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG buffer");
+  }
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+export function writeChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+export function uint32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32BE(value, 0);
+  return buf;
+}
+
+/**
+ * Assemble same-sized PNG frames into a looping animated PNG.
+ * Frames are copied as-is (no re-encoding), so output is deterministic
+ * whenever the input PNGs are.
+ */
+export function encodeAPNG(frames: Buffer[], fps: number): Buffer {
+  if (frames.length === 0) {
+    throw new Error("Cannot encode an APNG from zero frames");
+  }
+
+  const parsed = frames.map(readChunks);
+  const ihdr = parsed[0]!.find((c) => c.type === "IHDR");
+  if (!ihdr) {
+    throw new Error("First frame has no IHDR chunk");
+  }
+  for (const chunks of parsed) {
+    const frameHeader = chunks.find((c) => c.type === "IHDR");
+    if (!frameHeader?.data.equals(ihdr.data)) {
+      throw new Error("All APNG frames must share the same size and colour type");
+    }
+  }
+
+  const width = ihdr.data.readUInt32BE(0);
+  const height = ihdr.data.readUInt32BE(4);
+  const out: Buffer[] = [PNG_SIGNATURE, writeChunk("IHDR", ihdr.data)];
+
+  // acTL: frame count, 0 plays = loop forever
+  out.push(writeChunk("acTL", Buffer.concat([uint32(frames.length), uint32(0)])));
+
+  let sequence = 0;
+  parsed.forEach((chunks, index) => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    fctl.writeUInt32BE(0, 12); // x offset
+    fctl.writeUInt32BE(0, 16); // y offset
+    fctl.writeUInt16BE(1, 20); // delay numerator
+    fctl.writeUInt16BE(fps, 22); // delay denominator → 1/fps seconds
+    fctl.writeUInt8(0, 24); // dispose: none
+    fctl.writeUInt8(0, 25); // blend: source
+    out.push(writeChunk("fcTL", fctl));
+
+    for (const chunk of chunks) {
+      if (chunk.type !== "IDAT") continue;
+      if (index === 0) {
+        out.push(writeChunk("IDAT", chunk.data));
+      } else {
+        out.push(writeChunk("fdAT", Buffer.concat([uint32(sequence++), chunk.data])));
+      }
+    }
+  });
+
+  out.push(writeChunk("IEND", Buffer.alloc(0)));
+  return Buffer.concat(out);
+}
@@ -1,4 +1,12 @@
-import type { CanonicalInput } from "@artmint/common";
+import {
+  resolveCanvasDimensions,
+  typographyParamsSchema,
+  type CanonicalInput,
+  type TypographyFont,
+} from "@artmint/common";
+import { NOISE_RUNTIME_JS } from "./noise-runtime";
+import { EFFECTS_RUNTIME_JS } from "./effects-runtime";
+import { getFontOutlines, type GlyphOutline } from "./fonts";
 
 interface CustomCodeArtifactInput {
   code: string;
@@ -74,7 +82,7 @@ function exportPNG(size) {
 
 /**
  * Build a self-contained HTML artifact for custom user code.
- * Embeds user code + mulberry32 PRNG + noise2D helpers in a canvas-based page.
+ * Embeds user code + mulberry32 PRNG + the noise library in a canvas-based page.
  */
 export function buildCustomCodeArtifact(input: CustomCodeArtifactInput): string {
   // XSS-safe: escape </ sequences to prevent </script> breakout
@@ -116,26 +124,15 @@ function mulberry32(seed) {
   };
 }
 
-function createNoise2D(seed) {
-  const rng = mulberry32(seed);
-  const TABLE_SIZE = 256;
-  const table = [];
-  for (let i = 0; i < TABLE_SIZE; i++) table.push(rng());
-  function hash(x, y) { return table[((x * 374761393 + y * 668265263 + seed) & 0x7fffffff) % TABLE_SIZE]; }
-  function lerp(a, b, t) { return a + (b - a) * t; }
-  function smoothstep(t) { return t * t * (3 - 2 * t); }
-  return (x, y) => {
-    const ix = Math.floor(x), iy = Math.floor(y);
-    const fx = smoothstep(x - ix), fy = smoothstep(y - iy);
-    return lerp(lerp(hash(ix,iy), hash(ix+1,iy), fx), lerp(hash(ix,iy+1), hash(ix+1,iy+1), fx), fy) * 2 - 1;
-  };
-}
+// Noise library — the same source the server renderer evaluates
+${NOISE_RUNTIME_JS}
 
 const seed = ${input.seed};
 const palette = ${paletteJson};
 const _rng = mulberry32(seed);
 function random() { return _rng(); }
-const noise2D = createNoise2D(seed + 1);
+const noise = createNoise(seed + 1);
+const noise2D = noise.value2;
 
 let currentSize = 1080;
 
@@ -150,9 +147,10 @@ function renderAt(size) {
   const _rng2 = mulberry32(seed);
   const random2 = () => _rng2();
   try {
-    (function(canvas, ctx, WIDTH, HEIGHT, seed, palette, random, noise2D) {
+    const noise2 = createNoise(seed + 1);
+    (function(canvas, ctx, WIDTH, HEIGHT, seed, palette, random, noise2D, noise) {
 ${safeCode}
-    })(canvas, ctx, WIDTH, HEIGHT, seed, palette, random2, createNoise2D(seed + 1));
+    })(canvas, ctx, WIDTH, HEIGHT, seed, palette, random2, noise2.value2, noise2);
   } catch(e) { console.error('Render error:', e); }
 }
 
@@ -172,6 +170,38 @@ renderAt(1080);
 </html>`;
 }
 
+interface ArtifactFont {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  glyphs: Record<string, GlyphOutline>;
+}
+
+/**
+ * Outlines for every character the input's typography (top level or in
+ * composite layers) sets, so the artifact draws the same glyphs offline.
+ */
+function artifactFonts(input: CanonicalInput): Partial<Record<TypographyFont, ArtifactFont>> {
+  const layers =
+    input.templateId === "composite" && "layers" in input.params
+      ? input.params.layers
+      : [{ templateId: input.templateId, params: input.params }];
+  const fonts: Partial<Record<TypographyFont, ArtifactFont>> = {};
+  for (const layer of layers) {
+    if (layer.templateId !== "typography") continue;
+    const params = typographyParamsSchema.parse(layer.params);
+    const outlines = getFontOutlines(params.font);
+    const font = (fonts[params.font] ??= {
+      unitsPerEm: outlines.unitsPerEm,
+      ascender: outlines.ascender,
+      descender: outlines.descender,
+      glyphs: {},
+    });
+    for (const char of Array.from(`${params.text} `)) font.glyphs[char] = outlines.glyph(char);
+  }
+  return fonts;
+}
+
 /**
  * Build a self-contained HTML artifact that embeds the renderer code
  * and input params inline. Works offline with no external dependencies.
@@ -180,6 +210,8 @@ export function buildHtmlArtifact(input: CanonicalInput): string {
   // We inline the renderer logic as a self-contained script.
   // CRITICAL: escape </ sequences to prevent </script> breakout (XSS).
   const inputJson = JSON.stringify(input).replace(/</g, "\\u003c");
+  const dimensionsJson = JSON.stringify(resolveCanvasDimensions(input));
+  const fontsJson = JSON.stringify(artifactFonts(input)).replace(/</g, "\\u003c");
 
   // Sanitize title to prevent injection
   const safeTemplateId = input.templateId.replace(/[<>"&]/g, "");
@@ -194,6 +226,7 @@ export function buildHtmlArtifact(input: CanonicalInput): string {
 *{margin:0;padding:0;box-sizing:border-box}
 body{background:#0a0a0a;display:flex;flex-direction:column;align-items:center;justify-content:center;min-height:100vh;font-family:monospace;color:#ccc}
 #canvas{max-width:100vmin;max-height:100vmin;border:1px solid #333}
+#canvas svg{max-width:100vmin;max-height:100vmin;width:auto;height:auto;display:block}
 .controls{margin-top:16px;display:flex;gap:8px}
 button{background:#222;color:#fff;border:1px solid #555;padding:8px 16px;cursor:pointer;font-family:monospace;font-size:12px}
 button:hover{background:#333}
@@ -210,6 +243,9 @@ button:hover{background:#333}
 <script>
 // Embedded input params
 const INPUT = ${inputJson};
+const CANVAS = ${dimensionsJson};
+// Glyph outlines for typography, cut from the bundled fonts
+const FONTS = ${fontsJson};
 
 // Mulberry32 PRNG
 function mulberry32(seed) {
@@ -222,40 +258,34 @@ function mulberry32(seed) {
   };
 }
 
-function createNoise2D(seed) {
-  const rng = mulberry32(seed);
-  const TABLE_SIZE = 256;
-  const table = [];
-  for (let i = 0; i < TABLE_SIZE; i++) table.push(rng());
-  function hash(x, y) { return table[((x * 374761393 + y * 668265263 + seed) & 0x7fffffff) % TABLE_SIZE]; }
-  function lerp(a, b, t) { return a + (b - a) * t; }
-  function smoothstep(t) { return t * t * (3 - 2 * t); }
-  return (x, y) => {
-    const ix = Math.floor(x), iy = Math.floor(y);
-    const fx = smoothstep(x - ix), fy = smoothstep(y - iy);
-    return lerp(lerp(hash(ix,iy), hash(ix+1,iy), fx), lerp(hash(ix,iy+1), hash(ix+1,iy+1), fx), fy) * 2 - 1;
-  };
-}
+// Noise library — the same source the server renderer evaluates
+${NOISE_RUNTIME_JS}
+
+// Post-processing chain — the same source the server renderer evaluates
+${EFFECTS_RUNTIME_JS}
 
-function renderFlowFields(input, SIZE) {
+function renderFlowFields(input, W, H) {
   const { seed, palette, params } = input;
   const rng = mulberry32(seed);
-  const noise = createNoise2D(seed + 1);
+  const field = createNoise(seed + 1);
+  const fractal = { type: params.noiseType || 'value', octaves: params.octaves || 1 };
+  const noise = (x, y) => field.fbm2(x, y, fractal);
   const paths = [];
+  const unit = Math.min(W, H);
   const { density, lineWidth, curvature, grain, contrast, fieldScale, lineCount, stepCount, turbulence } = params;
   for (let i = 0; i < lineCount; i++) {
-    let x = rng() * SIZE, y = rng() * SIZE;
+    let x = rng() * W, y = rng() * H;
     const color = palette[Math.floor(rng() * palette.length)];
     const opacity = 0.3 + rng() * 0.7 * density;
     const sw = lineWidth * (0.5 + rng() * 0.5);
     const pts = ['M ' + x.toFixed(2) + ' ' + y.toFixed(2)];
     for (let s = 0; s < stepCount; s++) {
-      const nx = x / SIZE * fieldScale, ny = y / SIZE * fieldScale;
+      const nx = x / unit * fieldScale, ny = y / unit * fieldScale;
       const angle = noise(nx, ny) * Math.PI * 2 * curvature + noise(nx*2.3+100, ny*2.3+100) * turbulence;
       const step = 2 + density * 3;
       x += Math.cos(angle) * step; y += Math.sin(angle) * step;
-      if (x < 0) x += SIZE; if (x > SIZE) x -= SIZE;
-      if (y < 0) y += SIZE; if (y > SIZE) y -= SIZE;
+      if (x < 0) x += W; if (x > W) x -= W;
+      if (y < 0) y += H; if (y > H) y -= H;
       pts.push('L ' + x.toFixed(2) + ' ' + y.toFixed(2));
     }
     paths.push('<path d="' + pts.join(' ') + '" fill="none" stroke="' + color + '" stroke-width="' + sw.toFixed(2) + '" stroke-opacity="' + opacity.toFixed(3) + '" stroke-linecap="round" stroke-linejoin="round"/>');
@@ -266,7 +296,7 @@ function renderFlowFields(input, SIZE) {
     const gc = Math.floor(grain * 8000);
     const gs = [];
     for (let g = 0; g < gc; g++) {
-      const gx = grainRng() * SIZE, gy = grainRng() * SIZE, gsz = 1 + grainRng() * 2, go = grainRng() * grain * 0.3;
+      const gx = grainRng() * W, gy = grainRng() * H, gsz = 1 + grainRng() * 2, go = grainRng() * grain * 0.3;
       gs.push('<rect x="'+gx.toFixed(1)+'" y="'+gy.toFixed(1)+'" width="'+gsz.toFixed(1)+'" height="'+gsz.toFixed(1)+'" fill="#fff" opacity="'+go.toFixed(3)+'"/>');
     }
     grainEl = '<g>' + gs.join('') + '</g>';
@@ -274,41 +304,43 @@ function renderFlowFields(input, SIZE) {
   const bg = palette[palette.length-1] || '#0a0a0a';
   const bg2 = palette[0] || '#1a1a2e';
   const bgOp = Math.min(1, contrast * 0.5);
-  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+SIZE+' '+SIZE+'" width="'+SIZE+'" height="'+SIZE+'"><rect width="'+SIZE+'" height="'+SIZE+'" fill="'+bg+'"/><rect width="'+SIZE+'" height="'+SIZE+'" fill="'+bg2+'" opacity="'+bgOp.toFixed(2)+'"/><g>'+paths.join('')+'</g>'+grainEl+'</svg>';
+  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+W+' '+H+'" width="'+W+'" height="'+H+'">\\n\\n<rect width="'+W+'" height="'+H+'" fill="'+bg+'"/>\\n<rect width="'+W+'" height="'+H+'" fill="'+bg2+'" opacity="'+bgOp.toFixed(2)+'"/>\\n<g>\\n'+paths.join('\\n')+'\\n</g>\\n'+grainEl+'\\n</svg>';
 }
 
-function renderJazzNoir(input, SIZE) {
+function renderJazzNoir(input, W, H) {
   const { seed, palette, params } = input;
   const rng = mulberry32(seed);
-  const noise = createNoise2D(seed + 42);
+  const field = createNoise(seed + 42);
+  const fractal = { type: params.noiseType || 'value', octaves: params.octaves || 1 };
+  const noise = (x, y) => field.fbm2(x, y, fractal);
   const els = [];
   const { neonIntensity, skylineBands, glow, rainGrain, circleCount, lineCount, depth, blur } = params;
   const bg = palette[0] || '#0a0a0f';
-  els.push('<rect width="'+SIZE+'" height="'+SIZE+'" fill="'+bg+'"/>');
+  els.push('<rect width="'+W+'" height="'+H+'" fill="'+bg+'"/>');
   for (let b = 0; b < skylineBands; b++) {
-    const bandY = SIZE * (0.3 + (b/skylineBands)*0.6);
-    const bandH = SIZE * (0.02 + rng()*0.08) * depth;
+    const bandY = H * (0.3 + (b/skylineBands)*0.6);
+    const bandH = H * (0.02 + rng()*0.08) * depth;
     const color = palette[(b+1)%palette.length] || '#1a0a2e';
     const opacity = 0.1 + rng()*0.3;
     const pts = [];
     const segs = 20 + Math.floor(rng()*20);
     for (let s = 0; s <= segs; s++) {
-      const sx = (s/segs)*SIZE;
+      const sx = (s/segs)*W;
       const n = noise(s*0.3+b*10, b*5.7)*bandH;
       pts.push(sx.toFixed(1)+','+((bandY+n).toFixed(1)));
     }
-    pts.push(SIZE+','+SIZE); pts.push('0,'+SIZE);
+    pts.push(W+','+H); pts.push('0,'+H);
     els.push('<polygon points="'+pts.join(' ')+'" fill="'+color+'" opacity="'+opacity.toFixed(3)+'"/>');
   }
   for (let c = 0; c < circleCount; c++) {
-    const cx = rng()*SIZE, cy = rng()*SIZE*0.7+SIZE*0.1, r = 10+rng()*80*depth;
+    const cx = rng()*W, cy = rng()*H*0.7+H*0.1, r = 10+rng()*80*depth;
     const color = palette[1+Math.floor(rng()*(palette.length-1))] || '#ff6b35';
     const op = neonIntensity*(0.2+rng()*0.6), sw = 1+rng()*3;
     els.push('<circle cx="'+cx.toFixed(1)+'" cy="'+cy.toFixed(1)+'" r="'+r.toFixed(1)+'" fill="none" stroke="'+color+'" stroke-width="'+sw.toFixed(1)+'" opacity="'+op.toFixed(3)+'"/>');
     if (glow > 0.1) els.push('<circle cx="'+cx.toFixed(1)+'" cy="'+cy.toFixed(1)+'" r="'+(r*1.5).toFixed(1)+'" fill="none" stroke="'+color+'" stroke-width="'+(sw*0.5).toFixed(1)+'" opacity="'+(op*glow*0.3).toFixed(3)+'"/>');
   }
   for (let l = 0; l < lineCount; l++) {
-    const x1 = rng()*SIZE, y1 = rng()*SIZE, angle = rng()*Math.PI*0.4-Math.PI*0.2;
+    const x1 = rng()*W, y1 = rng()*H, angle = rng()*Math.PI*0.4-Math.PI*0.2;
     const len = 50+rng()*300*depth, x2 = x1+Math.cos(angle)*len, y2 = y1+Math.sin(angle)*len;
     const color = palette[1+Math.floor(rng()*(palette.length-1))] || '#00d4ff';
     const op = neonIntensity*(0.3+rng()*0.5), sw = 0.5+rng()*2;
@@ -319,7 +351,7 @@ function renderJazzNoir(input, SIZE) {
     const rc = Math.floor(rainGrain*3000);
     const re = [];
     for (let r = 0; r < rc; r++) {
-      const rx = rr()*SIZE, ry = rr()*SIZE, rl = 3+rr()*15, ro = rr()*rainGrain*0.2;
+      const rx = rr()*W, ry = rr()*H, rl = 3+rr()*15, ro = rr()*rainGrain*0.2;
       re.push('<line x1="'+rx.toFixed(1)+'" y1="'+ry.toFixed(1)+'" x2="'+(rx+rr()*2-1).toFixed(1)+'" y2="'+(ry+rl).toFixed(1)+'" stroke="#ffffff" stroke-width="0.5" opacity="'+ro.toFixed(3)+'"/>');
     }
     els.push('<g>'+re.join('')+'</g>');
@@ -329,12 +361,303 @@ function renderJazzNoir(input, SIZE) {
     fd = '<defs><filter id="glow"><feGaussianBlur stdDeviation="'+blur.toFixed(1)+'" result="blur"/><feMerge><feMergeNode in="blur"/><feMergeNode in="SourceGraphic"/></feMerge></filter></defs>';
     fa = ' filter="url(#glow)"';
   }
-  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+SIZE+' '+SIZE+'" width="'+SIZE+'" height="'+SIZE+'">'+fd+'<g'+fa+'>'+els.join('')+'</g></svg>';
+  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+W+' '+H+'" width="'+W+'" height="'+H+'">\\n'+fd+'\\n<g'+fa+'>\\n'+els.join('\\n')+'\\n</g>\\n</svg>';
+}
+
+function renderGeoTiling(input, W, H) {
+  const { seed, palette, params } = input;
+  const rng = mulberry32(seed);
+  const accents = palette.length > 1 ? palette.slice(1) : palette;
+  const falloff = 1 - params.paletteWeighting*0.85;
+  const weights = accents.map((_, i) => falloff ** i);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const pick = () => {
+    let roll = rng()*total;
+    for (let i = 0; i < accents.length; i++) { roll -= weights[i]; if (roll < 0) return accents[i]; }
+    return accents[accents.length-1];
+  };
+  const style = () => ({ color: pick(), filled: rng() >= params.strokeRatio, opacity: 0.55+rng()*0.45 });
+  const lo = Math.min(params.minRadius, params.maxRadius), hi = Math.max(params.minRadius, params.maxRadius);
+  const gap = params.strokeWidth;
+  const shapes = [];
+  if (params.pattern === 'quadtree') {
+    const splitChance = 0.35+params.packingDensity*0.6;
+    const visit = (x, y, w, h, level) => {
+      const canSplit = level < params.subdivisionDepth && Math.min(w, h)/2 >= Math.max(lo*2, gap*3);
+      if (canSplit && (level === 0 || rng() < splitChance)) {
+        const hw = w/2, hh = h/2;
+        visit(x, y, hw, hh, level+1); visit(x+hw, y, hw, hh, level+1);
+        visit(x, y+hh, hw, hh, level+1); visit(x+hw, y+hh, hw, hh, level+1);
+        return;
+      }
+      shapes.push(Object.assign({ kind: 'rect', x: x+gap/2, y: y+gap/2, w: w-gap, h: h-gap }, style()));
+      const inner = Math.min(Math.min(w, h)/2-gap*2, hi);
+      if (rng() < 0.5 && inner >= lo) shapes.push(Object.assign({ kind: 'circle', cx: x+w/2, cy: y+h/2, r: inner }, style()));
+    };
+    visit(0, 0, W, H, 0);
+  } else if (params.pattern === 'truchet') {
+    const size = Math.min(W, H)/2 ** params.subdivisionDepth, r = size/2;
+    const drawChance = 0.4+params.packingDensity*0.6;
+    for (let row = 0; row*size < H; row++) {
+      for (let col = 0; col*size < W; col++) {
+        const flipped = rng() < 0.5;
+        if (rng() >= drawChance) continue;
+        const x = col*size, y = row*size;
+        if (flipped) {
+          shapes.push(Object.assign({ kind: 'arc', cx: x+size, cy: y, r, start: Math.PI/2 }, style()));
+          shapes.push(Object.assign({ kind: 'arc', cx: x, cy: y+size, r, start: -Math.PI/2 }, style()));
+        } else {
+          shapes.push(Object.assign({ kind: 'arc', cx: x, cy: y, r, start: 0 }, style()));
+          shapes.push(Object.assign({ kind: 'arc', cx: x+size, cy: y+size, r, start: Math.PI }, style()));
+        }
+      }
+    }
+  } else {
+    const attempts = Math.round(300+params.packingDensity*5700);
+    const cellSize = hi*2+gap;
+    const grid = new Map();
+    for (let a = 0; a < attempts; a++) {
+      const cx = rng()*W, cy = rng()*H;
+      const gx = Math.floor(cx/cellSize), gy = Math.floor(cy/cellSize);
+      let r = lo+(hi-lo)*(1-a/attempts) ** 2;
+      for (let dx = -1; dx <= 1 && r >= lo; dx++) {
+        for (let dy = -1; dy <= 1 && r >= lo; dy++) {
+          for (const o of grid.get((gx+dx)+','+(gy+dy)) || []) r = Math.min(r, Math.hypot(cx-o.cx, cy-o.cy)-o.r-gap);
+        }
+      }
+      if (r < lo) continue;
+      const key = gx+','+gy;
+      grid.set(key, (grid.get(key) || []).concat([{ cx, cy, r }]));
+      shapes.push(Object.assign({ kind: 'circle', cx, cy, r }, style()));
+    }
+  }
+  const els = ['<rect width="'+W+'" height="'+H+'" fill="'+(palette[0] || '#f5f1e8')+'"/>'];
+  for (const s of shapes) {
+    const paint = s.filled ? 'fill="'+s.color+'"' : 'fill="none" stroke="'+s.color+'" stroke-width="'+params.strokeWidth.toFixed(1)+'"';
+    const common = paint+' opacity="'+Math.min(1, s.opacity).toFixed(3)+'"';
+    if (s.kind === 'circle') {
+      els.push('<circle cx="'+s.cx.toFixed(1)+'" cy="'+s.cy.toFixed(1)+'" r="'+s.r.toFixed(1)+'" '+common+'/>');
+    } else if (s.kind === 'rect') {
+      els.push('<rect x="'+s.x.toFixed(1)+'" y="'+s.y.toFixed(1)+'" width="'+s.w.toFixed(1)+'" height="'+s.h.toFixed(1)+'" '+common+'/>');
+    } else {
+      const e = s.start+Math.PI/2, r = s.r.toFixed(1);
+      const arc = (s.cx+Math.cos(s.start)*s.r).toFixed(1)+' '+(s.cy+Math.sin(s.start)*s.r).toFixed(1)+' A '+r+' '+r+' 0 0 1 '+(s.cx+Math.cos(e)*s.r).toFixed(1)+' '+(s.cy+Math.sin(e)*s.r).toFixed(1);
+      const d = s.filled ? 'M '+s.cx.toFixed(1)+' '+s.cy.toFixed(1)+' L '+arc+' Z' : 'M '+arc;
+      els.push('<path d="'+d+'" '+common+' stroke-linecap="round"/>');
+    }
+  }
+  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+W+' '+H+'" width="'+W+'" height="'+H+'">\\n'+els.join('\\n')+'\\n</svg>';
+}
+
+function attractorStepper(params, rng) {
+  const { a, b, c, d } = params;
+  if (params.attractor === 'lorenz') {
+    const sigma = 10+a, rho = 28+b*4, beta = 8/3+c/3;
+    const cos = Math.cos(d*Math.PI/3), sin = Math.sin(d*Math.PI/3);
+    let x = 1+rng(), y = 1+rng(), z = 20+rng();
+    return () => {
+      const dx = sigma*(y-x), dy = x*(rho-z)-y, dz = x*y-beta*z;
+      x += dx*0.005; y += dy*0.005; z += dz*0.005;
+      return [x*cos-y*sin, -z];
+    };
+  }
+  let x = rng()*0.2-0.1, y = rng()*0.2-0.1;
+  if (params.attractor === 'dejong') {
+    return () => { const nx = Math.sin(a*y)-Math.cos(b*x); y = Math.sin(c*x)-Math.cos(d*y); x = nx; return [x, y]; };
+  }
+  return () => { const nx = Math.sin(a*y)+c*Math.cos(a*x); y = Math.sin(b*x)+d*Math.cos(b*y); x = nx; return [x, y]; };
+}
+
+function renderStrangeAttractor(input, W, H) {
+  const { seed, palette, params } = input;
+  const orbit = () => {
+    const step = attractorStepper(params, mulberry32(seed));
+    for (let i = 0; i < 100; i++) step();
+    return step;
+  };
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  const probe = orbit();
+  for (let i = 0; i < params.iterations; i++) {
+    const [x, y] = probe();
+    if (x < minX) minX = x; if (x > maxX) maxX = x;
+    if (y < minY) minY = y; if (y > maxY) maxY = y;
+  }
+  const spanX = Math.max(maxX-minX, 1e-9), spanY = Math.max(maxY-minY, 1e-9);
+  const margin = Math.min(W, H)*0.08;
+  const scale = Math.min((W-margin*2)/spanX, (H-margin*2)/spanY);
+  const offX = (W-spanX*scale)/2-minX*scale, offY = (H-spanY*scale)/2-minY*scale;
+  const cell = Math.max(W, H)/params.resolution;
+  const cols = Math.ceil(W/cell), rows = Math.ceil(H/cell);
+  const counts = new Uint32Array(cols*rows);
+  let peak = 0;
+  const step = orbit();
+  for (let i = 0; i < params.iterations; i++) {
+    const [x, y] = step();
+    const col = Math.min(cols-1, Math.max(0, Math.floor((x*scale+offX)/cell)));
+    const row = Math.min(rows-1, Math.max(0, Math.floor((y*scale+offY)/cell)));
+    const n = ++counts[row*cols+col];
+    if (n > peak) peak = n;
+  }
+  const levels = params.levels, logPeak = Math.log1p(peak);
+  const levelAt = (i) => counts[i] === 0 ? -1 : Math.min(levels-1, Math.floor((Math.log1p(counts[i])/logPeak) ** params.gamma*levels));
+  const paths = Array.from({ length: levels }, () => []);
+  for (let row = 0; row < rows; row++) {
+    let col = 0;
+    while (col < cols) {
+      const level = levelAt(row*cols+col);
+      let end = col+1;
+      while (end < cols && levelAt(row*cols+end) === level) end++;
+      if (level >= 0) paths[level].push('M'+(col*cell).toFixed(1)+' '+(row*cell).toFixed(1)+'h'+((end-col)*cell).toFixed(1)+'v'+cell.toFixed(1)+'h'+(-(end-col)*cell).toFixed(1)+'z');
+      col = end;
+    }
+  }
+  const accents = palette.length > 1 ? palette.slice(1) : palette;
+  const mix = (from, to, k) => '#'+[0, 1, 2].map((i) => {
+    const f = parseInt(from.slice(1+i*2, 3+i*2), 16), t = parseInt(to.slice(1+i*2, 3+i*2), 16);
+    return Math.round(f+(t-f)*k).toString(16).padStart(2, '0');
+  }).join('');
+  const colorOf = (level) => {
+    if (params.colorMode === 'mono') return accents[accents.length-1];
+    if (params.colorMode === 'bands') return accents[level % accents.length];
+    const pos = level/(levels-1)*(accents.length-1);
+    const i = Math.min(Math.floor(pos), accents.length-2);
+    return i < 0 ? accents[0] : mix(accents[i], accents[i+1], pos-i);
+  };
+  const els = ['<rect width="'+W+'" height="'+H+'" fill="'+(palette[0] || '#05060f')+'"/>'];
+  paths.forEach((cells, level) => {
+    if (cells.length) els.push('<path d="'+cells.join('')+'" fill="'+colorOf(level)+'" opacity="'+(0.2+0.8*(level+1)/levels).toFixed(3)+'"/>');
+  });
+  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+W+' '+H+'" width="'+W+'" height="'+H+'">\\n<g shape-rendering="crispEdges">\\n'+els.join('\\n')+'\\n</g>\\n</svg>';
+}
+
+function renderTypography(input, W, H) {
+  const { seed, palette, params } = input;
+  const font = FONTS[params.font];
+  const rng = mulberry32(seed);
+  const accents = palette.length > 1 ? palette.slice(1) : palette;
+  const pickColor = () => accents[Math.floor(rng()*accents.length)];
+  const scale = params.fontSize/font.unitsPerEm;
+  const phrase = Array.from(params.text.replace(/\\s+/g, ' ').trim()).map((ch) => font.glyphs[ch]);
+  const cycle = phrase.concat([font.glyphs[' ']]);
+  const cycleWidth = cycle.reduce((sum, g) => sum + g.advance, 0)*scale;
+  const placed = [];
+  if (params.layout === 'grid') {
+    const rowHeight = H/params.repetitions, amplitude = cycleWidth/2;
+    for (let row = 0; row < params.repetitions; row++) {
+      const color = accents[row % accents.length];
+      let x = -cycleWidth-amplitude*2-rng()*cycleWidth;
+      const centerY = (row+0.5)*rowHeight;
+      for (let i = 0; x < W+amplitude*2; i++) {
+        const glyph = cycle[i % cycle.length], width = glyph.advance*scale;
+        const dy = (rng()-0.5)*params.jitter*params.fontSize*0.5;
+        const rotation = (rng()-0.5)*params.jitter*30;
+        const outlined = rng() < params.outlineRatio;
+        placed.push({ glyph, cx: x+width/2, cy: centerY+dy, rotation, scale, color, outlined });
+        x += width;
+      }
+    }
+  } else if (params.layout === 'scatter') {
+    for (let copy = 0; copy < params.repetitions; copy++) {
+      for (const glyph of phrase) {
+        const cx = rng()*W, cy = rng()*H, size = 0.5+rng();
+        const rotation = (rng()-0.5)*params.jitter*360;
+        const outlined = rng() < params.outlineRatio;
+        placed.push({ glyph, cx, cy, rotation, scale: scale*size, color: pickColor(), outlined });
+      }
+    }
+  } else {
+    const field = createNoise(seed+7), unit = Math.min(W, H), stepLength = params.fontSize/8;
+    const angleAt = (x, y) => field.fbm2(x/unit*params.fieldScale, y/unit*params.fieldScale, { type: 'simplex', octaves: 2 })*Math.PI;
+    for (let line = 0; line < params.repetitions; line++) {
+      let x = rng()*W, y = rng()*H;
+      const color = pickColor(), wobblePhase = rng()*Math.PI*2;
+      const walk = (distance) => {
+        for (let left = distance; left > 0; left -= stepLength) {
+          const angle = angleAt(x, y), step = Math.min(stepLength, left);
+          x += Math.cos(angle)*step; y += Math.sin(angle)*step;
+        }
+      };
+      const inside = () => x > -params.fontSize && x < W+params.fontSize && y > -params.fontSize && y < H+params.fontSize;
+      for (let i = 0; i < 200 && inside(); i++) {
+        const glyph = cycle[i % cycle.length], half = glyph.advance*scale/2;
+        walk(half);
+        const angle = angleAt(x, y);
+        const offset = Math.sin(i*1.7+wobblePhase)*params.jitter*params.fontSize*0.3;
+        placed.push({ glyph, cx: x-Math.sin(angle)*offset, cy: y+Math.cos(angle)*offset, rotation: angle*180/Math.PI, scale, color, outlined: true });
+        walk(half);
+      }
+    }
+  }
+  const defs = new Map(), uses = [];
+  const middle = (font.ascender+font.descender)/2;
+  for (const p of placed) {
+    if (!p.glyph.d) continue;
+    if (!defs.has(p.glyph.id)) defs.set(p.glyph.id, '<path id="g'+p.glyph.id+'" d="'+p.glyph.d+'"/>');
+    const transform = 'translate('+p.cx.toFixed(1)+' '+p.cy.toFixed(1)+') rotate('+p.rotation.toFixed(2)+') scale('+p.scale.toFixed(5)+' '+(-p.scale).toFixed(5)+') translate('+(-p.glyph.advance/2)+' '+(-middle)+')';
+    const paint = p.outlined ? 'fill="none" stroke="'+p.color+'" stroke-width="'+(params.strokeWidth/p.scale).toFixed(1)+'" stroke-linejoin="round"' : 'fill="'+p.color+'"';
+    uses.push('<use href="#g'+p.glyph.id+'" transform="'+transform+'" '+paint+'/>');
+  }
+  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+W+' '+H+'" width="'+W+'" height="'+H+'">\\n<defs>'+Array.from(defs.values()).join('')+'</defs>\\n<rect width="'+W+'" height="'+H+'" fill="'+(palette[0] || '#0b0b0f')+'"/>\\n'+uses.join('\\n')+'\\n</svg>';
+}
+
+const TEMPLATE_RENDERERS = {
+  flow_fields: renderFlowFields,
+  jazz_noir: renderJazzNoir,
+  geo_tiling: renderGeoTiling,
+  strange_attractor: renderStrangeAttractor,
+  typography: renderTypography,
+};
+
+function compositeMask(mask, id, W, H) {
+  const shown = mask.invert ? 'black' : 'white';
+  const hidden = mask.invert ? 'white' : 'black';
+  const open = '<mask id="'+id+'" maskUnits="userSpaceOnUse" x="0" y="0" width="'+W+'" height="'+H+'">';
+  const base = '<rect width="'+W+'" height="'+H+'" fill="'+hidden+'"/>';
+  if (mask.shape === 'circle') {
+    return open+base+'<circle cx="'+(mask.cx*W).toFixed(1)+'" cy="'+(mask.cy*H).toFixed(1)+'" r="'+(mask.r*Math.min(W,H)).toFixed(1)+'" fill="'+shown+'"/></mask>';
+  }
+  if (mask.shape === 'rect') {
+    return open+base+'<rect x="'+(mask.x*W).toFixed(1)+'" y="'+(mask.y*H).toFixed(1)+'" width="'+(mask.width*W).toFixed(1)+'" height="'+(mask.height*H).toFixed(1)+'" fill="'+shown+'"/></mask>';
+  }
+  const v = { top: [0,0,0,1], bottom: [0,1,0,0], left: [0,0,1,0], right: [1,0,0,0] }[mask.from];
+  return '<linearGradient id="'+id+'-fade" x1="'+v[0]+'" y1="'+v[1]+'" x2="'+v[2]+'" y2="'+v[3]+'"><stop offset="0" stop-color="'+shown+'"/><stop offset="1" stop-color="'+hidden+'"/></linearGradient>'+open+'<rect width="'+W+'" height="'+H+'" fill="url(#'+id+'-fade)"/></mask>';
+}
+
+function renderComposite(input, W, H) {
+  const defs = [], groups = [];
+  input.params.layers.forEach((layer, i) => {
+    const svg = TEMPLATE_RENDERERS[layer.templateId]({
+      seed: layer.seed !== undefined ? layer.seed : input.seed + i,
+      palette: layer.palette || input.palette,
+      params: layer.params,
+    }, W, H);
+    const prefix = 'l' + i + '-';
+    const body = svg.slice(svg.indexOf('>') + 1, svg.lastIndexOf('</svg>'))
+      .replace(/\\bid="([^"]+)"/g, 'id="' + prefix + '$1"')
+      .replace(/url\\(#([^)]+)\\)/g, 'url(#' + prefix + '$1)')
+      .replace(/\\bhref="#([^"]+)"/g, 'href="#' + prefix + '$1"');
+    let attrs = '';
+    if (layer.opacity !== undefined && layer.opacity < 1) attrs += ' opacity="'+layer.opacity.toFixed(3)+'"';
+    if (layer.blendMode && layer.blendMode !== 'normal') attrs += ' style="mix-blend-mode:'+layer.blendMode+'"';
+    if (layer.mask) {
+      defs.push(compositeMask(layer.mask, prefix + 'mask', W, H));
+      attrs += ' mask="url(#'+prefix+'mask)"';
+    }
+    groups.push('<g'+attrs+'>'+body+'</g>');
+  });
+  return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 '+W+' '+H+'" width="'+W+'" height="'+H+'">\\n'+(defs.length ? '<defs>'+defs.join('')+'</defs>\\n' : '')+groups.join('\\n')+'\\n</svg>';
+}
+
+// Canvas dimensions scaled so the longer edge equals size
+function dimensionsAt(size) {
+  const scale = size / Math.max(CANVAS.width, CANVAS.height);
+  return { width: Math.max(1, Math.round(CANVAS.width * scale)), height: Math.max(1, Math.round(CANVAS.height * scale)) };
 }
 
 function renderSVG(size) {
-  const fn = INPUT.templateId === 'flow_fields' ? renderFlowFields : renderJazzNoir;
-  return fn(INPUT, size);
+  const fn = INPUT.templateId === 'composite' ? renderComposite : TEMPLATE_RENDERERS[INPUT.templateId];
+  const dims = dimensionsAt(size);
+  return applyEffects(fn(INPUT, dims.width, dims.height), INPUT.effects, { width: dims.width, height: dims.height, seed: INPUT.seed });
 }
 
 let currentSize = 1080;
@@ -350,10 +673,11 @@ function exportPNG() {
   const url = URL.createObjectURL(blob);
   const img = new Image();
   img.onload = () => {
+    const dims = dimensionsAt(currentSize);
     const canvas = document.createElement('canvas');
-    canvas.width = currentSize; canvas.height = currentSize;
+    canvas.width = dims.width; canvas.height = dims.height;
     const ctx = canvas.getContext('2d');
-    ctx.drawImage(img, 0, 0, currentSize, currentSize);
+    ctx.drawImage(img, 0, 0, dims.width, dims.height);
     URL.revokeObjectURL(url);
     canvas.toBlob(b => {
       const a = document.createElement('a');
@@ -0,0 +1,350 @@
+/**
+ * Canvas2D-compatible recording context, kept as plain JavaScript source.
+ *
+ * Custom code runs inside a vm context (see custom-code.ts), and anything
+ * handed to it from the host realm would leak host prototypes into the
+ * sandbox. So the recorder is evaluated inside the sandbox itself, exactly
+ * like the noise library. `createRecordingCanvas(width, height, maxElements)`
+ * returns `{ canvas, ctx, toSVG }`.
+ *
+ * Drawing calls are translated to SVG as they happen. Path points are
+ * transformed into canvas space when added, matching Canvas2D semantics for
+ * transforms changed mid-path; arcs and ellipses become cubic Béziers so
+ * they stay exact under any affine transform. Pixel APIs (getImageData,
+ * putImageData, drawImage, createPattern) cannot be recorded and throw.
+ */
+export const CANVAS_RECORDER_JS = `function createRecordingCanvas(width, height, maxElements) {
+  const defs = [];
+  let elements = [];
+  let nextId = 0;
+
+  function num(v) { return String(Math.round(v * 100) / 100); }
+  function esc(v) {
+    return String(v).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+  function push(el) {
+    if (elements.length >= maxElements) {
+      throw new Error('Drawing exceeds the limit of ' + maxElements + ' elements');
+    }
+    elements.push(el);
+  }
+  function unsupported(name) {
+    return function () { throw new Error(name + ' is not supported by the server renderer'); };
+  }
+
+  // ── Drawing state ──
+
+  function initialState() {
+    return {
+      m: [1, 0, 0, 1, 0, 0],
+      fillStyle: '#000000',
+      strokeStyle: '#000000',
+      lineWidth: 1,
+      lineCap: 'butt',
+      lineJoin: 'miter',
+      miterLimit: 10,
+      lineDash: [],
+      lineDashOffset: 0,
+      globalAlpha: 1,
+      globalCompositeOperation: 'source-over',
+      font: '10px sans-serif',
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      shadowBlur: 0,
+      shadowColor: 'rgba(0, 0, 0, 0)',
+      shadowOffsetX: 0,
+      shadowOffsetY: 0,
+      clip: null,
+    };
+  }
+  let state = initialState();
+  const stack = [];
+
+  function apply(m, x, y) { return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]; }
+  function multiply(m, a, b, c, d, e, f) {
+    return [
+      m[0] * a + m[2] * b, m[1] * a + m[3] * b,
+      m[0] * c + m[2] * d, m[1] * c + m[3] * d,
+      m[0] * e + m[2] * f + m[4], m[1] * e + m[3] * f + m[5],
+    ];
+  }
+  function invert(m) {
+    const det = m[0] * m[3] - m[1] * m[2];
+    if (!det) return null;
+    return [m[3] / det, -m[1] / det, -m[2] / det, m[0] / det,
+      (m[2] * m[5] - m[3] * m[4]) / det, (m[1] * m[4] - m[0] * m[5]) / det];
+  }
+  function lineScale() { return Math.sqrt(Math.abs(state.m[0] * state.m[3] - state.m[1] * state.m[2])); }
+  function matrixAttr(m) { return 'matrix(' + m.map(num).join(' ') + ')'; }
+
+  // ── Paths (stored in canvas space) ──
+
+  let path = [];
+  let current = null; // canvas-space current point
+
+  function moveToDevice(p) { path.push('M' + num(p[0]) + ' ' + num(p[1])); current = p; }
+  function lineToDevice(p) {
+    if (!current) { moveToDevice(p); return; }
+    path.push('L' + num(p[0]) + ' ' + num(p[1])); current = p;
+  }
+  function ellipsePath(x, y, rx, ry, rotation, start, end, ccw) {
+    let sweep;
+    const tau = Math.PI * 2;
+    if (!ccw && end - start >= tau) sweep = tau;
+    else if (ccw && start - end >= tau) sweep = -tau;
+    else if (!ccw) sweep = (((end - start) % tau) + tau) % tau;
+    else sweep = -((((start - end) % tau) + tau) % tau);
+    const cosR = Math.cos(rotation), sinR = Math.sin(rotation);
+    // Point and tangent on the ellipse in user space
+    function point(a) {
+      const px = rx * Math.cos(a), py = ry * Math.sin(a);
+      return [x + px * cosR - py * sinR, y + px * sinR + py * cosR];
+    }
+    function tangent(a) {
+      const tx = -rx * Math.sin(a), ty = ry * Math.cos(a);
+      return [tx * cosR - ty * sinR, tx * sinR + ty * cosR];
+    }
+    const first = point(start);
+    lineToDevice(apply(state.m, first[0], first[1]));
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const step = sweep / segments;
+    const k = (4 / 3) * Math.tan(step / 4);
+    for (let i = 0; i < segments; i++) {
+      const a0 = start + step * i, a1 = a0 + step;
+      const u0 = point(a0), u1 = point(a1), t0 = tangent(a0), t1 = tangent(a1);
+      const cp1 = apply(state.m, u0[0] + k * t0[0], u0[1] + k * t0[1]);
+      const cp2 = apply(state.m, u1[0] - k * t1[0], u1[1] - k * t1[1]);
+      const end1 = apply(state.m, u1[0], u1[1]);
+      path.push('C' + num(cp1[0]) + ' ' + num(cp1[1]) + ' ' + num(cp2[0]) + ' ' + num(cp2[1]) + ' ' + num(end1[0]) + ' ' + num(end1[1]));
+      current = end1;
+    }
+  }
+  function userCurrent() {
+    if (!current) return null;
+    const inv = invert(state.m);
+    return inv ? apply(inv, current[0], current[1]) : null;
+  }
+
+  // ── Paint ──
+
+  function paint(style) {
+    if (style && style.__gradient) {
+      const g = style.__gradient;
+      const id = 'g' + nextId++;
+      const stops = g.stops.map(function (s) {
+        return '<stop offset="' + num(s[0]) + '" stop-color="' + esc(s[1]) + '"/>';
+      }).join('');
+      const common = ' id="' + id + '" gradientUnits="userSpaceOnUse" gradientTransform="' + matrixAttr(state.m) + '"';
+      defs.push(g.type === 'linear'
+        ? '<linearGradient' + common + ' x1="' + num(g.args[0]) + '" y1="' + num(g.args[1]) + '" x2="' + num(g.args[2]) + '" y2="' + num(g.args[3]) + '">' + stops + '</linearGradient>'
+        : '<radialGradient' + common + ' fx="' + num(g.args[0]) + '" fy="' + num(g.args[1]) + '" fr="' + num(g.args[2]) + '" cx="' + num(g.args[3]) + '" cy="' + num(g.args[4]) + '" r="' + num(g.args[5]) + '">' + stops + '</radialGradient>');
+      return 'url(#' + id + ')';
+    }
+    return esc(style);
+  }
+  const blendModes = ['multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+    'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'];
+  function commonAttrs() {
+    let attrs = '';
+    if (state.globalAlpha < 1) attrs += ' opacity="' + num(state.globalAlpha) + '"';
+    if (blendModes.indexOf(state.globalCompositeOperation) !== -1) {
+      attrs += ' style="mix-blend-mode:' + state.globalCompositeOperation + '"';
+    }
+    if (state.clip) attrs += ' clip-path="url(#' + state.clip + ')"';
+    return attrs;
+  }
+  function fillAttrs(rule) {
+    return ' fill="' + paint(state.fillStyle) + '"' + (rule === 'evenodd' ? ' fill-rule="evenodd"' : '') + commonAttrs();
+  }
+  function strokeAttrs() {
+    const scale = lineScale();
+    let attrs = ' fill="none" stroke="' + paint(state.strokeStyle) + '" stroke-width="' + num(state.lineWidth * scale) + '"';
+    if (state.lineCap !== 'butt') attrs += ' stroke-linecap="' + esc(state.lineCap) + '"';
+    if (state.lineJoin !== 'miter') attrs += ' stroke-linejoin="' + esc(state.lineJoin) + '"';
+    if (state.miterLimit !== 4) attrs += ' stroke-miterlimit="' + num(state.miterLimit) + '"';
+    if (state.lineDash.length) {
+      attrs += ' stroke-dasharray="' + state.lineDash.map(function (d) { return num(d * scale); }).join(' ') + '"';
+      if (state.lineDashOffset) attrs += ' stroke-dashoffset="' + num(state.lineDashOffset * scale) + '"';
+    }
+    return attrs + commonAttrs();
+  }
+  function rectPath(x, y, w, h) {
+    const p = [apply(state.m, x, y), apply(state.m, x + w, y), apply(state.m, x + w, y + h), apply(state.m, x, y + h)];
+    return 'M' + p.map(function (q) { return num(q[0]) + ' ' + num(q[1]); }).join('L') + 'Z';
+  }
+
+  // ── Text ──
+
+  function fontAttrs() {
+    const match = /(?:^|\\s)(\\d+(?:\\.\\d+)?)px\\s+(.+)$/.exec(state.font);
+    const size = match ? match[1] : '10';
+    const family = match ? match[2] : 'sans-serif';
+    let attrs = ' font-size="' + size + '" font-family="' + esc(family) + '"';
+    if (/\\bbold\\b|\\b[6-9]00\\b/.test(state.font)) attrs += ' font-weight="bold"';
+    if (/\\bitalic\\b/.test(state.font)) attrs += ' font-style="italic"';
+    const anchor = { center: 'middle', end: 'end', right: 'end' }[state.textAlign];
+    if (anchor) attrs += ' text-anchor="' + anchor + '"';
+    const baseline = { top: 'text-before-edge', hanging: 'hanging', middle: 'central', bottom: 'text-after-edge', ideographic: 'ideographic' }[state.textBaseline];
+    if (baseline) attrs += ' dominant-baseline="' + baseline + '"';
+    return attrs;
+  }
+  function text(x, y, content, attrs) {
+    push('<text x="' + num(x) + '" y="' + num(y) + '" transform="' + matrixAttr(state.m) + '"' + fontAttrs() + attrs + '>' + esc(content) + '</text>');
+  }
+
+  // ── Context ──
+
+  const ctx = {
+    save: function () {
+      const copy = {};
+      for (const key in state) copy[key] = state[key];
+      copy.lineDash = state.lineDash.slice();
+      stack.push(copy);
+    },
+    restore: function () { if (stack.length) state = stack.pop(); },
+
+    translate: function (x, y) { state.m = multiply(state.m, 1, 0, 0, 1, x, y); },
+    scale: function (x, y) { state.m = multiply(state.m, x, 0, 0, y, 0, 0); },
+    rotate: function (a) { const c = Math.cos(a), s = Math.sin(a); state.m = multiply(state.m, c, s, -s, c, 0, 0); },
+    transform: function (a, b, c, d, e, f) { state.m = multiply(state.m, a, b, c, d, e, f); },
+    setTransform: function (a, b, c, d, e, f) {
+      if (a && typeof a === 'object') state.m = [a.a, a.b, a.c, a.d, a.e, a.f];
+      else if (a === undefined) state.m = [1, 0, 0, 1, 0, 0];
+      else state.m = [a, b, c, d, e, f];
+    },
+    resetTransform: function () { state.m = [1, 0, 0, 1, 0, 0]; },
+    getTransform: function () {
+      return { a: state.m[0], b: state.m[1], c: state.m[2], d: state.m[3], e: state.m[4], f: state.m[5] };
+    },
+
+    beginPath: function () { path = []; current = null; },
+    closePath: function () { if (path.length) path.push('Z'); },
+    moveTo: function (x, y) { moveToDevice(apply(state.m, x, y)); },
+    lineTo: function (x, y) { lineToDevice(apply(state.m, x, y)); },
+    quadraticCurveTo: function (cx, cy, x, y) {
+      if (!current) moveToDevice(apply(state.m, cx, cy));
+      const c = apply(state.m, cx, cy), p = apply(state.m, x, y);
+      path.push('Q' + num(c[0]) + ' ' + num(c[1]) + ' ' + num(p[0]) + ' ' + num(p[1]));
+      current = p;
+    },
+    bezierCurveTo: function (c1x, c1y, c2x, c2y, x, y) {
+      if (!current) moveToDevice(apply(state.m, c1x, c1y));
+      const c1 = apply(state.m, c1x, c1y), c2 = apply(state.m, c2x, c2y), p = apply(state.m, x, y);
+      path.push('C' + num(c1[0]) + ' ' + num(c1[1]) + ' ' + num(c2[0]) + ' ' + num(c2[1]) + ' ' + num(p[0]) + ' ' + num(p[1]));
+      current = p;
+    },
+    arc: function (x, y, r, start, end, ccw) { ellipsePath(x, y, r, r, 0, start, end, !!ccw); },
+    ellipse: function (x, y, rx, ry, rotation, start, end, ccw) { ellipsePath(x, y, rx, ry, rotation, start, end, !!ccw); },
+    arcTo: function (x1, y1, x2, y2, r) {
+      const p0 = userCurrent();
+      if (!p0) { ctx.moveTo(x1, y1); return; }
+      const v1x = p0[0] - x1, v1y = p0[1] - y1, v2x = x2 - x1, v2y = y2 - y1;
+      const l1 = Math.sqrt(v1x * v1x + v1y * v1y), l2 = Math.sqrt(v2x * v2x + v2y * v2y);
+      const cross = (v1x * v2y - v1y * v2x) / (l1 * l2);
+      if (!r || !l1 || !l2 || Math.abs(cross) < 1e-9) { ctx.lineTo(x1, y1); return; }
+      const n1x = v1x / l1, n1y = v1y / l1, n2x = v2x / l2, n2y = v2y / l2;
+      const angle = Math.acos(Math.max(-1, Math.min(1, n1x * n2x + n1y * n2y)));
+      const dist = r / Math.tan(angle / 2);
+      const bx = n1x + n2x, by = n1y + n2y, bl = Math.sqrt(bx * bx + by * by);
+      const h = r / Math.sin(angle / 2);
+      const cx = x1 + (bx / bl) * h, cy = y1 + (by / bl) * h;
+      const t1x = x1 + n1x * dist, t1y = y1 + n1y * dist, t2x = x1 + n2x * dist, t2y = y1 + n2y * dist;
+      ellipsePath(cx, cy, r, r, 0, Math.atan2(t1y - cy, t1x - cx), Math.atan2(t2y - cy, t2x - cx), cross > 0);
+    },
+    rect: function (x, y, w, h) {
+      const d = rectPath(x, y, w, h);
+      path.push(d);
+      current = apply(state.m, x, y);
+    },
+    roundRect: function (x, y, w, h, radii) {
+      let r = Array.isArray(radii) ? radii[0] : radii;
+      r = Math.min(Math.abs(r || 0), Math.abs(w) / 2, Math.abs(h) / 2);
+      ctx.moveTo(x + r, y);
+      ctx.arcTo(x + w, y, x + w, y + h, r);
+      ctx.arcTo(x + w, y + h, x, y + h, r);
+      ctx.arcTo(x, y + h, x, y, r);
+      ctx.arcTo(x, y, x + w, y, r);
+      ctx.closePath();
+    },
+
+    fill: function (rule) {
+      if (path.length) push('<path d="' + path.join('') + '"' + fillAttrs(rule) + '/>');
+    },
+    stroke: function () {
+      if (path.length) push('<path d="' + path.join('') + '"' + strokeAttrs() + '/>');
+    },
+    clip: function (rule) {
+      const id = 'c' + nextId++;
+      const parent = state.clip ? ' clip-path="url(#' + state.clip + ')"' : '';
+      defs.push('<clipPath id="' + id + '"' + parent + '><path d="' + path.join('') + '"' + (rule === 'evenodd' ? ' clip-rule="evenodd"' : '') + '/></clipPath>');
+      state.clip = id;
+    },
+    fillRect: function (x, y, w, h) { push('<path d="' + rectPath(x, y, w, h) + '"' + fillAttrs() + '/>'); },
+    strokeRect: function (x, y, w, h) { push('<path d="' + rectPath(x, y, w, h) + '"' + strokeAttrs() + '/>'); },
+    clearRect: function (x, y, w, h) {
+      // SVG cannot erase; a clear covering the whole canvas discards
+      // everything drawn so far, smaller clears are ignored.
+      const a = apply(state.m, x, y), b = apply(state.m, x + w, y + h);
+      if (Math.min(a[0], b[0]) <= 0 && Math.min(a[1], b[1]) <= 0 &&
+          Math.max(a[0], b[0]) >= width && Math.max(a[1], b[1]) >= height) {
+        elements = [];
+      }
+    },
+
+    fillText: function (content, x, y) { text(x, y, content, ' fill="' + paint(state.fillStyle) + '"' + commonAttrs()); },
+    strokeText: function (content, x, y) { text(x, y, content, strokeAttrs()); },
+    measureText: function (content) {
+      const match = /(\\d+(?:\\.\\d+)?)px/.exec(state.font);
+      const size = match ? Number(match[1]) : 10;
+      return { width: String(content).length * size * 0.6, actualBoundingBoxAscent: size * 0.8, actualBoundingBoxDescent: size * 0.2 };
+    },
+
+    createLinearGradient: function (x0, y0, x1, y1) { return gradient('linear', [x0, y0, x1, y1]); },
+    createRadialGradient: function (x0, y0, r0, x1, y1, r1) { return gradient('radial', [x0, y0, r0, x1, y1, r1]); },
+    setLineDash: function (segments) {
+      const list = Array.prototype.slice.call(segments);
+      state.lineDash = list.length % 2 ? list.concat(list) : list;
+    },
+    getLineDash: function () { return state.lineDash.slice(); },
+
+    createPattern: unsupported('createPattern'),
+    drawImage: unsupported('drawImage'),
+    getImageData: unsupported('getImageData'),
+    putImageData: unsupported('putImageData'),
+    createImageData: unsupported('createImageData'),
+  };
+  function gradient(type, args) {
+    const g = { type: type, args: args, stops: [] };
+    return {
+      __gradient: g,
+      addColorStop: function (offset, color) { g.stops.push([offset, color]); },
+    };
+  }
+
+  // Plain state properties, read and written through accessors so
+  // save()/restore() can swap the whole state object.
+  ['fillStyle', 'strokeStyle', 'lineWidth', 'lineCap', 'lineJoin', 'miterLimit', 'lineDashOffset',
+    'globalAlpha', 'globalCompositeOperation', 'font', 'textAlign', 'textBaseline',
+    'shadowBlur', 'shadowColor', 'shadowOffsetX', 'shadowOffsetY'].forEach(function (key) {
+    Object.defineProperty(ctx, key, {
+      get: function () { return state[key]; },
+      set: function (value) { state[key] = value; },
+      enumerable: true,
+    });
+  });
+
+  const canvas = {
+    width: width,
+    height: height,
+    getContext: function (type) { return type === '2d' ? ctx : null; },
+  };
+  ctx.canvas = canvas;
+
+  function toSVG() {
+    return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ' + width + ' ' + height + '" width="' + width + '" height="' + height + '">' +
+      (defs.length ? '<defs>' + defs.join('') + '</defs>' : '') +
+      elements.join('') + '</svg>';
+  }
+
+  return { canvas: canvas, ctx: ctx, toSVG: toSVG };
+}`;
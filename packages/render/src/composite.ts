@@ -0,0 +1,80 @@
+import type { CompositeParams, LayerMask } from "@artmint/common";
+import { templateRenderers, type TemplateRenderer, type TemplateRenderInput } from "./templates";
+import { splitRoot, prefixIds } from "./svg";
+
+function maskDefinition(mask: LayerMask, id: string, W: number, H: number): string {
+  const shown = mask.invert ? "black" : "white";
+  const hidden = mask.invert ? "white" : "black";
+  const open = `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${W}" height="${H}">`;
+
+  switch (mask.shape) {
+    case "circle": {
+      const r = mask.r * Math.min(W, H);
+      return (
+        `${open}<rect width="${W}" height="${H}" fill="${hidden}"/>` +
+        `<circle cx="${(mask.cx * W).toFixed(1)}" cy="${(mask.cy * H).toFixed(1)}" r="${r.toFixed(1)}" fill="${shown}"/></mask>`
+      );
+    }
+    case "rect":
+      return (
+        `${open}<rect width="${W}" height="${H}" fill="${hidden}"/>` +
+        `<rect x="${(mask.x * W).toFixed(1)}" y="${(mask.y * H).toFixed(1)}" ` +
+        `width="${(mask.width * W).toFixed(1)}" height="${(mask.height * H).toFixed(1)}" fill="${shown}"/></mask>`
+      );
+    case "gradient": {
+      const [x1, y1, x2, y2] = {
+        top: [0, 0, 0, 1],
+        bottom: [0, 1, 0, 0],
+        left: [0, 0, 1, 0],
+        right: [1, 0, 0, 0],
+      }[mask.from];
+      return (
+        `<linearGradient id="${id}-fade" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">` +
+        `<stop offset="0" stop-color="${shown}"/><stop offset="1" stop-color="${hidden}"/></linearGradient>` +
+        `${open}<rect width="${W}" height="${H}" fill="url(#${id}-fade)"/></mask>`
+      );
+    }
+  }
+}
+
+/**
+ * Flatten composite layers into one SVG. Layers are drawn bottom first;
+ * each layer's ids are namespaced with `l<index>-` so filters and
+ * gradients from different layers cannot collide.
+ */
+export function renderComposite(input: TemplateRenderInput<CompositeParams>): string {
+  const { seed, palette, params, width: W, height: H, t } = input;
+  const defs: string[] = [];
+  const groups: string[] = [];
+
+  params.layers.forEach((layer, i) => {
+    const render = templateRenderers[layer.templateId] as TemplateRenderer<unknown>;
+    const svg = render({
+      seed: layer.seed ?? seed + i,
+      palette: layer.palette ?? palette,
+      params: layer.params,
+      width: W,
+      height: H,
+      t,
+    });
+    const prefix = `l${i}-`;
+    const body = prefixIds(splitRoot(svg).body, prefix);
+
+    let attrs = "";
+    if (layer.opacity !== undefined && layer.opacity < 1) {
+      attrs += ` opacity="${layer.opacity.toFixed(3)}"`;
+    }
+    if (layer.blendMode && layer.blendMode !== "normal") {
+      attrs += ` style="mix-blend-mode:${layer.blendMode}"`;
+    }
+    if (layer.mask) {
+      defs.push(maskDefinition(layer.mask, `${prefix}mask`, W, H));
+      attrs += ` mask="url(#${prefix}mask)"`;
+    }
+    groups.push(`<g${attrs}>${body}</g>`);
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
+${defs.length > 0 ? `<defs>${defs.join("")}</defs>\n` : ""}${groups.join("\n")}
+</svg>`;
+}
@@ -0,0 +1,202 @@
+import { Worker } from "worker_threads";
+import { DEFAULT_CANVAS_SIZE } from "@artmint/common";
+import { CANVAS_RECORDER_JS } from "./canvas-recorder";
+import { NOISE_RUNTIME_JS } from "./noise-runtime";
+
+export interface CustomCodeRenderInput {
+  code: string;
+  seed: number;
+  palette: string[];
+  /** Canvas size; defaults to 1080x1080 like the code studio preview */
+  width?: number;
+  height?: number;
+}
+
+export interface CustomCodeLimits {
+  /** CPU time allowed for the user code */
+  timeoutMs: number;
+  /** Heap available to the sandbox worker */
+  memoryMb: number;
+  /** Maximum number of recorded SVG elements */
+  maxElements: number;
+}
+
+export const defaultCustomCodeLimits: CustomCodeLimits = {
+  timeoutMs: 2_000,
+  memoryMb: 64,
+  maxElements: 100_000,
+};
+
+export class CustomCodeRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomCodeRenderError";
+  }
+}
+
+// Runs inside the worker. The vm context starts from a null-prototype
+// global with string code generation disabled, and only primitives cross
+// the boundary in either direction: the script goes in as source text and
+// comes back as a string prefixed with "S" (SVG) or "E" (error message).
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: "afterEvaluate",
+});
+let result;
+try {
+  const output = vm.runInContext(workerData.script, context, { timeout: workerData.timeoutMs });
+  result = typeof output === "string" ? output : "ECustom code did not produce a drawing";
+} catch (err) {
+  result = err && err.code === "ERR_SCRIPT_EXECUTION_TIMEOUT"
+    ? "ECustom code exceeded the " + workerData.timeoutMs + "ms time limit"
+    : "E" + String(err && err.message);
+}
+parentPort.postMessage(result);
+`;
+
+/**
+ * Build the sandbox script: the same mulberry32 and noise library the
+ * browser artifact embeds, the recording canvas, then the user code wrapped
+ * with the same arguments buildCustomCodeArtifact passes.
+ */
+function buildSandboxScript(input: CustomCodeRenderInput, maxElements: number): string {
+  const width = input.width ?? DEFAULT_CANVAS_SIZE;
+  const height = input.height ?? DEFAULT_CANVAS_SIZE;
+  return `
+function mulberry32(seed) {
+  let s = seed | 0;
+  return () => {
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+${NOISE_RUNTIME_JS}
+${CANVAS_RECORDER_JS}
+(function () {
+  const seed = ${JSON.stringify(input.seed)};
+  const palette = ${JSON.stringify(input.palette)};
+  const recorder = createRecordingCanvas(${width}, ${height}, ${maxElements});
+  const _rng = mulberry32(seed);
+  const noise = createNoise(seed + 1);
+  try {
+    (function(canvas, ctx, WIDTH, HEIGHT, seed, palette, random, noise2D, noise) {
+${input.code}
+    })(recorder.canvas, recorder.ctx, ${width}, ${height}, seed, palette, () => _rng(), noise.value2, noise);
+    return "S" + recorder.toSVG();
+  } catch (e) {
+    return "E" + String(e && e.message !== undefined ? e.message : e);
+  }
+})();
+`;
+}
+
+/**
+ * Run custom_code JavaScript server-side and return the drawing as SVG.
+ *
+ * The code runs in a worker thread with a capped heap, inside a vm context
+ * with a CPU timeout. It sees the same globals as the browser artifact
+ * (canvas, ctx, WIDTH, HEIGHT, seed, palette, random, noise2D, noise), but
+ * its canvas is a recorder that turns Canvas2D calls into SVG elements.
+ * Same code, seed and palette always yield the same SVG.
+ */
+export function renderCustomCodeSVG(
+  input: CustomCodeRenderInput,
+  limits: CustomCodeLimits = defaultCustomCodeLimits
+): Promise<string> {
+  const script = buildSandboxScript(input, limits.maxElements);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { script, timeoutMs: limits.timeoutMs },
+      env: {},
+      resourceLimits: {
+        maxOldGenerationSizeMb: limits.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(limits.memoryMb / 4)),
+        stackSizeMb: 4,
+      },
+    });
+
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(watchdog);
+      void worker.terminate();
+      fn();
+    };
+
+    // Backstop for anything the vm timeout cannot interrupt
+    const watchdog = setTimeout(() => {
+      settle(() =>
+        reject(new CustomCodeRenderError(`Custom code exceeded the ${limits.timeoutMs}ms time limit`))
+      );
+    }, limits.timeoutMs + 2_000);
+
+    worker.once("message", (result: unknown) => {
+      settle(() => {
+        if (typeof result === "string" && result.startsWith("S")) {
+          resolve(result.slice(1));
+        } else {
+          const message = typeof result === "string" ? result.slice(1) : "Unknown sandbox error";
+          reject(new CustomCodeRenderError(message));
+        }
+      });
+    });
+    worker.once("error", (err: Error & { code?: string }) => {
+      settle(() =>
+        reject(
+          new CustomCodeRenderError(
+            err.code === "ERR_WORKER_OUT_OF_MEMORY"
+              ? `Custom code exceeded the ${limits.memoryMb}MB memory limit`
+              : err.message
+          )
+        )
+      );
+    });
+    worker.once("exit", () => {
+      settle(() => reject(new CustomCodeRenderError("Custom code sandbox exited unexpectedly")));
+    });
+  });
+}
+
+/** A recorded drawing with nothing but the root element and maybe unused defs */
+const EMPTY_DRAWING = /^<svg[^>]*>(<defs>[\s\S]*<\/defs>)?<\/svg>$/;
+
+export type CustomCodeCheckResult = { ok: true; svg: string } | { ok: false; error: string };
+
+/**
+ * Vet code before it is offered to a user: it must render, draw at least
+ * one element and be deterministic. Two runs with the same seed have to
+ * produce identical SVG, which catches Math.random and clock reads, and a
+ * run with the next seed has to succeed too. Runs are sequential so a
+ * check never holds more than one sandbox worker.
+ */
+export async function checkCustomCode(
+  input: CustomCodeRenderInput,
+  limits: CustomCodeLimits = defaultCustomCodeLimits
+): Promise<CustomCodeCheckResult> {
+  try {
+    const svg = await renderCustomCodeSVG(input, limits);
+    if (EMPTY_DRAWING.test(svg)) {
+      return { ok: false, error: "Custom code did not draw anything" };
+    }
+    const again = await renderCustomCodeSVG(input, limits);
+    if (again !== svg) {
+      return {
+        ok: false,
+        error: "Custom code is not deterministic: two runs with the same seed drew different output",
+      };
+    }
+    await renderCustomCodeSVG({ ...input, seed: input.seed + 1 }, limits);
+    return { ok: true, svg };
+  } catch (err) {
+    if (err instanceof CustomCodeRenderError) return { ok: false, error: err.message };
+    throw err;
+  }
+}
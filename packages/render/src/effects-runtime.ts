@@ -0,0 +1,118 @@
+/**
+ * Post-processing effect chain, kept as plain JavaScript source.
+ *
+ * Like the noise library, the server evaluates this exact string (see
+ * applyEffects in effects.ts) and the HTML artifacts embed it verbatim, so
+ * both render the same markup. Every effect is expressed as SVG filters or
+ * overlays, leaving rasterization to resvg or the browser.
+ *
+ * Keep this file free of imports.
+ */
+export const EFFECTS_RUNTIME_JS = `function applyEffects(svg, effects, canvas) {
+  if (!effects || effects.length === 0) return svg;
+
+  const W = canvas.width, H = canvas.height;
+  const start = svg.indexOf('<svg');
+  const openEnd = svg.indexOf('>', start) + 1;
+  const close = svg.lastIndexOf('</svg>');
+  if (start === -1 || openEnd === 0 || close === -1) {
+    throw new Error('Input is not a standalone SVG document');
+  }
+
+  function num(n) { return String(Math.round(n * 1000) / 1000); }
+  function channel(hex, i) { return num(parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16) / 255); }
+  function filter(id, primitives) {
+    return '<filter id="' + id + '" filterUnits="userSpaceOnUse" x="0" y="0" width="' + W + '" height="' + H +
+      '" color-interpolation-filters="sRGB">' + primitives + '</filter>';
+  }
+  function funcs(attrs) {
+    return '<feFuncR ' + attrs[0] + '/><feFuncG ' + attrs[1] + '/><feFuncB ' + attrs[2] + '/>';
+  }
+  const LUMA = '0.2126 0.7152 0.0722 0 0 0.2126 0.7152 0.0722 0 0 0.2126 0.7152 0.0722 0 0 0 0 0 1 0';
+
+  const defs = [];
+  let content = svg.slice(openEnd, close);
+
+  effects.forEach(function (effect, i) {
+    const id = 'fx' + i;
+    switch (effect.type) {
+      case 'vignette': {
+        defs.push('<radialGradient id="' + id + '" gradientUnits="userSpaceOnUse" cx="' + num(W / 2) + '" cy="' + num(H / 2) +
+          '" r="' + num(Math.sqrt(W * W + H * H) / 2) + '"><stop offset="' + num(effect.radius) + '" stop-color="#000" stop-opacity="0"/>' +
+          '<stop offset="1" stop-color="#000" stop-opacity="' + num(effect.strength) + '"/></radialGradient>');
+        content = '<g>' + content + '<rect width="' + W + '" height="' + H + '" fill="url(#' + id + ')"/></g>';
+        return;
+      }
+      case 'scanlines': {
+        defs.push('<pattern id="' + id + '" patternUnits="userSpaceOnUse" width="' + W + '" height="' + num(effect.spacing) + '">' +
+          '<rect width="' + W + '" height="' + num(effect.spacing / 2) + '" fill="#000" opacity="' + num(effect.opacity) + '"/></pattern>');
+        content = '<g>' + content + '<rect width="' + W + '" height="' + H + '" fill="url(#' + id + ')"/></g>';
+        return;
+      }
+      case 'halftone': {
+        // Threshold luminance against a tiled radial ramp: bright areas keep
+        // large dots of their own color, dark areas shrink to black paper.
+        // The square root makes dot area, not radius, track luminance.
+        const s = num(effect.size);
+        const cell = '<svg xmlns="http://www.w3.org/2000/svg" width="' + s + '" height="' + s + '"><radialGradient id="d">' +
+          '<stop offset="0" stop-color="#fff"/><stop offset="1" stop-color="#000"/></radialGradient>' +
+          '<rect width="' + s + '" height="' + s + '" fill="url(#d)"/></svg>';
+        defs.push(filter(id,
+          '<feColorMatrix in="SourceGraphic" type="matrix" values="' + LUMA + '" result="lum"/>' +
+          '<feImage href="data:image/svg+xml,' + encodeURIComponent(cell) + '" x="0" y="0" width="' + s + '" height="' + s +
+          '" preserveAspectRatio="none" result="cell"/>' +
+          '<feTile in="cell" result="dots"/>' +
+          '<feComponentTransfer in="lum" result="tone"><feFuncR type="gamma" exponent="0.5"/></feComponentTransfer>' +
+          '<feComposite in="tone" in2="dots" operator="arithmetic" k2="1" k3="1" result="sum"/>' +
+          '<feColorMatrix in="sum" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 255 0 0 0 -254" result="mask"/>' +
+          '<feComposite in="SourceGraphic" in2="mask" operator="in" result="ink"/>' +
+          '<feFlood flood-color="#000" result="paper"/>' +
+          '<feMerge><feMergeNode in="paper"/><feMergeNode in="ink"/></feMerge>'));
+        break;
+      }
+      case 'chromaticAberration': {
+        const o = num(effect.offset);
+        defs.push(filter(id,
+          '<feColorMatrix in="SourceGraphic" type="matrix" values="1 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 1 0" result="r"/>' +
+          '<feOffset in="r" dx="-' + o + '" result="rs"/>' +
+          '<feColorMatrix in="SourceGraphic" type="matrix" values="0 0 0 0 0 0 1 0 0 0 0 0 0 0 0 0 0 0 1 0" result="g"/>' +
+          '<feColorMatrix in="SourceGraphic" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 1 0 0 0 0 0 1 0" result="b"/>' +
+          '<feOffset in="b" dx="' + o + '" result="bs"/>' +
+          '<feComposite in="rs" in2="g" operator="arithmetic" k2="1" k3="1" result="rg"/>' +
+          '<feComposite in="rg" in2="bs" operator="arithmetic" k2="1" k3="1"/>'));
+        break;
+      }
+      case 'grain': {
+        // Monochrome turbulence centered on 0.5, added to the image
+        defs.push(filter(id,
+          '<feTurbulence type="fractalNoise" baseFrequency="' + num(effect.scale) + '" numOctaves="2" seed="' +
+          ((canvas.seed + i) % 65536) + '" result="noise"/>' +
+          '<feColorMatrix in="noise" type="matrix" values="0.333 0.333 0.333 0 0 0.333 0.333 0.333 0 0 0.333 0.333 0.333 0 0 0 0 0 0 1" result="mono"/>' +
+          '<feComposite in="SourceGraphic" in2="mono" operator="arithmetic" k2="1" k3="' + num(effect.amount) + '" k4="' +
+          num(-effect.amount / 2) + '"/>'));
+        break;
+      }
+      case 'posterize': {
+        const steps = [];
+        for (let l = 0; l < effect.levels; l++) steps.push(num(l / (effect.levels - 1)));
+        const attr = 'type="discrete" tableValues="' + steps.join(' ') + '"';
+        defs.push(filter(id, '<feComponentTransfer>' + funcs([attr, attr, attr]) + '</feComponentTransfer>'));
+        break;
+      }
+      case 'duotone': {
+        const table = [0, 1, 2].map(function (c) {
+          return 'type="table" tableValues="' + channel(effect.shadow, c) + ' ' + channel(effect.highlight, c) + '"';
+        });
+        defs.push(filter(id,
+          '<feColorMatrix type="matrix" values="' + LUMA + '"/>' +
+          '<feComponentTransfer>' + funcs(table) + '</feComponentTransfer>'));
+        break;
+      }
+      default:
+        throw new Error('Unknown effect: ' + effect.type);
+    }
+    content = '<g filter="url(#' + id + ')">' + content + '</g>';
+  });
+
+  return svg.slice(start, openEnd) + '<defs>' + defs.join('') + '</defs>' + content + '</svg>';
+}`;
@@ -0,0 +1,26 @@
+import type { Effect } from "@artmint/common";
+import { EFFECTS_RUNTIME_JS } from "./effects-runtime";
+
+export interface EffectCanvas {
+  width: number;
+  height: number;
+  /** Seeds the film grain turbulence */
+  seed: number;
+}
+
+// Evaluated from the same source the HTML artifacts embed
+const effectsRuntime = new Function(`${EFFECTS_RUNTIME_JS}\nreturn applyEffects;`)() as (
+  svg: string,
+  effects: readonly Effect[] | undefined,
+  canvas: EffectCanvas
+) => string;
+
+/**
+ * Apply a post-processing chain to a rendered SVG, first effect innermost.
+ * Filter effects wrap the content in a filtered group; vignette and
+ * scanlines add an overlay above it. An empty chain returns the input
+ * unchanged.
+ */
+export function applyEffects(svg: string, effects: readonly Effect[] | undefined, canvas: EffectCanvas): string {
+  return effectsRuntime(svg, effects, canvas);
+}
@@ -0,0 +1,311 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import type { TypographyFont } from "@artmint/common";
+
+/**
+ * Open-licensed fonts shipped in packages/render/fonts (SIL OFL, see OFL.txt).
+ * Every resvg render loads exactly these instead of system fonts, so `<text>`
+ * in custom SVG rasterizes the same on every machine.
+ */
+export const bundledFonts: Record<TypographyFont, { family: string; weight: number; filename: string }> = {
+  lato: { family: "Lato", weight: 400, filename: "Lato-Regular.ttf" },
+  "lato-light": { family: "Lato", weight: 300, filename: "Lato-Light.ttf" },
+  "source-code-pro": { family: "Source Code Pro", weight: 400, filename: "SourceCodePro-Regular.ttf" },
+};
+
+let fontsDir: string | undefined;
+
+/**
+ * Directory holding the bundled fonts, looked up on first use. Bundlers
+ * rewrite `new URL("…", import.meta.url)` into a public asset URL (Next
+ * compiles this package from source), so the package manifest is resolved
+ * at runtime from the working directory; outside a workspace that can see
+ * the package, the path is taken relative to this module.
+ */
+function getFontsDir(): string {
+  if (fontsDir === undefined) {
+    try {
+      const nodeRequire = createRequire(join(process.cwd(), "package.json"));
+      fontsDir = join(dirname(nodeRequire.resolve("@artmint/render/package.json")), "fonts");
+    } catch {
+      fontsDir = join(dirname(fileURLToPath(import.meta.url)), "..", "fonts");
+    }
+  }
+  return fontsDir;
+}
+
+/** Absolute path of a bundled font file */
+export function bundledFontPath(font: TypographyFont): string {
+  return join(getFontsDir(), bundledFonts[font].filename);
+}
+
+let fontOptions: { loadSystemFonts: boolean; fontFiles: string[]; defaultFontFamily: string } | undefined;
+
+/**
+ * Font options for every Resvg instance. resvg doesn't map generic families
+ * (`monospace`, `serif`) onto loaded fonts, so any family other than the
+ * bundled ones falls back to Lato.
+ */
+export function getResvgFontOptions() {
+  fontOptions ??= {
+    loadSystemFonts: false,
+    fontFiles: (Object.keys(bundledFonts) as TypographyFont[]).map(bundledFontPath),
+    defaultFontFamily: "Lato",
+  };
+  return fontOptions;
+}
+
+export interface GlyphOutline {
+  /** Glyph index in the font; stable per font, so usable as an id */
+  id: number;
+  /** Horizontal advance in font units */
+  advance: number;
+  /** Outline path in font units, y pointing up; empty for blank glyphs */
+  d: string;
+}
+
+export interface FontOutlines {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  /** Outline for a character; characters the font lacks get its .notdef glyph */
+  glyph(char: string): GlyphOutline;
+}
+
+interface Point {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+/**
+ * Minimal TrueType reader: cmap (format 4), hmtx and glyf outlines,
+ * including composite glyphs. No hinting, shaping or kerning — type is laid
+ * out glyph by glyph from advances, identically in every environment.
+ */
+function parseFont(data: Buffer): FontOutlines {
+  const tables = new Map<string, number>();
+  const numTables = data.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    tables.set(data.toString("latin1", record, record + 4), data.readUInt32BE(record + 8));
+  }
+  const table = (tag: string) => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`Font is missing the ${tag} table`);
+    return offset;
+  };
+
+  const head = table("head");
+  const unitsPerEm = data.readUInt16BE(head + 18);
+  const longLoca = data.readInt16BE(head + 50) === 1;
+  const hhea = table("hhea");
+  const ascender = data.readInt16BE(hhea + 4);
+  const descender = data.readInt16BE(hhea + 6);
+  const numberOfHMetrics = data.readUInt16BE(hhea + 34);
+  const hmtx = table("hmtx");
+  const loca = table("loca");
+  const glyf = table("glyf");
+
+  // Windows Unicode BMP cmap, format 4
+  const cmap = table("cmap");
+  let segments = -1;
+  for (let i = 0; i < data.readUInt16BE(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    const subtable = cmap + data.readUInt32BE(record + 4);
+    if (data.readUInt16BE(record) === 3 && data.readUInt16BE(record + 2) === 1 && data.readUInt16BE(subtable) === 4) {
+      segments = subtable;
+      break;
+    }
+  }
+  if (segments < 0) throw new Error("Font has no Unicode BMP cmap");
+
+  const glyphIndex = (code: number): number => {
+    const segCount = data.readUInt16BE(segments + 6) / 2;
+    const endCodes = segments + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    for (let i = 0; i < segCount; i++) {
+      if (data.readUInt16BE(endCodes + i * 2) < code) continue;
+      const start = data.readUInt16BE(startCodes + i * 2);
+      if (start > code) return 0;
+      const delta = data.readInt16BE(idDeltas + i * 2);
+      const rangeOffset = data.readUInt16BE(idRangeOffsets + i * 2);
+      if (rangeOffset === 0) return (code + delta) & 0xffff;
+      const gid = data.readUInt16BE(idRangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+      return gid === 0 ? 0 : (gid + delta) & 0xffff;
+    }
+    return 0;
+  };
+
+  const advanceOf = (gid: number) => data.readUInt16BE(hmtx + Math.min(gid, numberOfHMetrics - 1) * 4);
+
+  const glyphRange = (gid: number): [number, number] =>
+    longLoca
+      ? [data.readUInt32BE(loca + gid * 4), data.readUInt32BE(loca + gid * 4 + 4)]
+      : [data.readUInt16BE(loca + gid * 2) * 2, data.readUInt16BE(loca + gid * 2 + 2) * 2];
+
+  const contoursOf = (gid: number): Point[][] => {
+    const [start, end] = glyphRange(gid);
+    if (end <= start) return [];
+    let p = glyf + start;
+    const numberOfContours = data.readInt16BE(p);
+    p += 10;
+
+    if (numberOfContours < 0) {
+      // Composite: transformed copies of other glyphs
+      const contours: Point[][] = [];
+      let flags: number;
+      do {
+        flags = data.readUInt16BE(p);
+        const component = data.readUInt16BE(p + 2);
+        p += 4;
+        let dx: number;
+        let dy: number;
+        if (flags & 0x1) {
+          dx = data.readInt16BE(p);
+          dy = data.readInt16BE(p + 2);
+          p += 4;
+        } else {
+          dx = data.readInt8(p);
+          dy = data.readInt8(p + 1);
+          p += 2;
+        }
+        // Point-matched placement (ARGS_ARE_XY_VALUES unset) is rare in Latin fonts; treat as no offset
+        if (!(flags & 0x2)) dx = dy = 0;
+        let [a, b, c, d] = [1, 0, 0, 1];
+        const f2dot14 = (offset: number) => data.readInt16BE(offset) / 16384;
+        if (flags & 0x8) {
+          a = d = f2dot14(p);
+          p += 2;
+        } else if (flags & 0x40) {
+          a = f2dot14(p);
+          d = f2dot14(p + 2);
+          p += 4;
+        } else if (flags & 0x80) {
+          [a, b, c, d] = [f2dot14(p), f2dot14(p + 2), f2dot14(p + 4), f2dot14(p + 6)];
+          p += 8;
+        }
+        for (const contour of contoursOf(component)) {
+          contours.push(
+            contour.map(({ x, y, onCurve }) => ({ x: a * x + c * y + dx, y: b * x + d * y + dy, onCurve }))
+          );
+        }
+      } while (flags & 0x20);
+      return contours;
+    }
+
+    const endPoints: number[] = [];
+    for (let i = 0; i < numberOfContours; i++) endPoints.push(data.readUInt16BE(p + i * 2));
+    p += numberOfContours * 2;
+    p += 2 + data.readUInt16BE(p); // instructions
+    const count = (endPoints[endPoints.length - 1] ?? -1) + 1;
+
+    const flags: number[] = [];
+    while (flags.length < count) {
+      const flag = data.readUInt8(p++);
+      flags.push(flag);
+      if (flag & 0x8) {
+        for (let repeat = data.readUInt8(p++); repeat > 0; repeat--) flags.push(flag);
+      }
+    }
+    const readCoordinates = (shortBit: number, sameBit: number): number[] => {
+      const values: number[] = [];
+      let value = 0;
+      for (const flag of flags) {
+        if (flag & shortBit) {
+          const delta = data.readUInt8(p++);
+          value += flag & sameBit ? delta : -delta;
+        } else if (!(flag & sameBit)) {
+          value += data.readInt16BE(p);
+          p += 2;
+        }
+        values.push(value);
+      }
+      return values;
+    };
+    const xs = readCoordinates(0x2, 0x10);
+    const ys = readCoordinates(0x4, 0x20);
+
+    const contours: Point[][] = [];
+    let first = 0;
+    for (const last of endPoints) {
+      const contour: Point[] = [];
+      for (let i = first; i <= last; i++) contour.push({ x: xs[i]!, y: ys[i]!, onCurve: (flags[i]! & 0x1) !== 0 });
+      contours.push(contour);
+      first = last + 1;
+    }
+    return contours;
+  };
+
+  const num = (n: number) => String(Math.round(n));
+  const toPath = (contours: Point[][]): string => {
+    let d = "";
+    for (const contour of contours) {
+      if (contour.length === 0) continue;
+      // Start on an on-curve point, synthesizing one between two off-curve points
+      const startIndex = contour.findIndex((point) => point.onCurve);
+      const ordered =
+        startIndex >= 0
+          ? [...contour.slice(startIndex), ...contour.slice(0, startIndex)]
+          : [
+              {
+                x: (contour[0]!.x + contour[contour.length - 1]!.x) / 2,
+                y: (contour[0]!.y + contour[contour.length - 1]!.y) / 2,
+                onCurve: true,
+              },
+              ...contour,
+            ];
+      const start = ordered[0]!;
+      d += `M${num(start.x)} ${num(start.y)}`;
+      let control: Point | null = null;
+      for (const point of [...ordered.slice(1), start]) {
+        if (point.onCurve) {
+          d += control
+            ? `Q${num(control.x)} ${num(control.y)} ${num(point.x)} ${num(point.y)}`
+            : `L${num(point.x)} ${num(point.y)}`;
+          control = null;
+        } else {
+          if (control) {
+            const mid = { x: (control.x + point.x) / 2, y: (control.y + point.y) / 2 };
+            d += `Q${num(control.x)} ${num(control.y)} ${num(mid.x)} ${num(mid.y)}`;
+          }
+          control = point;
+        }
+      }
+      d += "Z";
+    }
+    return d;
+  };
+
+  const cache = new Map<number, GlyphOutline>();
+  return {
+    unitsPerEm,
+    ascender,
+    descender,
+    glyph(char) {
+      const id = glyphIndex(char.codePointAt(0) ?? 0);
+      let outline = cache.get(id);
+      if (!outline) {
+        outline = { id, advance: advanceOf(id), d: toPath(contoursOf(id)) };
+        cache.set(id, outline);
+      }
+      return outline;
+    },
+  };
+}
+
+const loaded = new Map<TypographyFont, FontOutlines>();
+
+/** Parsed outlines for a bundled font, read from disk on first use */
+export function getFontOutlines(font: TypographyFont): FontOutlines {
+  let outlines = loaded.get(font);
+  if (!outlines) {
+    outlines = parseFont(readFileSync(bundledFontPath(font)));
+    loaded.set(font, outlines);
+  }
+  return outlines;
+}
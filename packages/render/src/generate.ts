@@ -1,37 +1,103 @@
-import type { TemplateId } from "@artmint/common";
-import { renderFlowFields } from "./templates/flow-fields";
-import { renderJazzNoir } from "./templates/jazz-noir";
+import {
+  isRenderableTemplateId,
+  resolveCanvasDimensions,
+  type CanvasDimensions,
+  type CompositeParams,
+  type Effect,
+  type TemplateId,
+} from "@artmint/common";
+import { templateRenderers, type TemplateRenderer } from "./templates";
+import { renderComposite } from "./composite";
+import { applyEffects } from "./effects";
+import { archivedRenderers } from "./versions";
+import { RENDERER_VERSION } from "./version";
 
-interface GenerateInput {
+export interface GenerateInput {
+  /** Renderer version to reproduce; defaults to the live RENDERER_VERSION */
+  rendererVersion?: string;
   templateId: TemplateId;
   seed: number;
   palette: string[];
   params: Record<string, unknown>;
+  /** Canvas size; defaults to 1080x1080 when omitted */
+  width?: number;
+  height?: number;
+  /** Normalised animation time in [0, 1); 0 is the static frame */
+  t?: number;
+  /** Post-processing chain applied to the template output, in order */
+  effects?: readonly Effect[];
 }
 
+/** Every renderer version generateSVG can reproduce, oldest first */
+export const supportedRendererVersions: readonly string[] = [
+  ...Object.keys(archivedRenderers),
+  RENDERER_VERSION,
+];
+
+/**
+ * Inputs each archived renderer predates and would draw wrong, keyed by
+ * version. Archived directories are never edited, so their guards live here.
+ */
+const archivedInputGuards: Record<string, (input: GenerateInput) => string | null> = {
+  "1.0.0": (input) => {
+    if ((input.t ?? 0) !== 0) return "does not support animation";
+    if ((input.params.noiseType ?? "value") !== "value" || (input.params.octaves ?? 1) !== 1) {
+      return "only supports single-octave value noise";
+    }
+    return null;
+  },
+};
+
 /**
  * Generate deterministic SVG from input parameters.
  * This is the canonical renderer — same input always produces same SVG.
+ * Inputs from older renderer versions are dispatched to their frozen copy.
  */
 export function generateSVG(input: GenerateInput): string {
-  switch (input.templateId) {
-    case "flow_fields":
-      return renderFlowFields({
-        seed: input.seed,
-        palette: input.palette,
-        params: input.params as Parameters<typeof renderFlowFields>[0]["params"],
-      });
-    case "jazz_noir":
-      return renderJazzNoir({
-        seed: input.seed,
-        palette: input.palette,
-        params: input.params as Parameters<typeof renderJazzNoir>[0]["params"],
-      });
-    case "custom_code":
-      throw new Error("custom_code template cannot be rendered server-side");
-    default: {
-      const _exhaustive: never = input.templateId;
-      throw new Error(`Unknown template: ${_exhaustive}`);
+  if (input.templateId === "custom_code") {
+    throw new Error("custom_code renders asynchronously in a sandbox — use renderCustomCodeSVG");
+  }
+
+  const version = input.rendererVersion ?? RENDERER_VERSION;
+  if (version !== RENDERER_VERSION) {
+    const archived = archivedRenderers[version];
+    if (!archived) {
+      throw new Error(`Unsupported renderer version: ${version}`);
+    }
+    if (input.effects && input.effects.length > 0) {
+      throw new Error(`Renderer ${version} does not support effects`);
     }
+    const unsupported = archivedInputGuards[version]?.(input);
+    if (unsupported) {
+      throw new Error(`Renderer ${version} ${unsupported}`);
+    }
+    return archived(input);
   }
+
+  const canvas = resolveCanvasDimensions(input);
+  return applyEffects(renderTemplate(input, canvas), input.effects, { ...canvas, seed: input.seed });
+}
+
+function renderTemplate(input: GenerateInput, canvas: CanvasDimensions): string {
+  if (input.templateId === "composite") {
+    return renderComposite({
+      seed: input.seed,
+      palette: input.palette,
+      params: input.params as CompositeParams,
+      ...canvas,
+      t: input.t ?? 0,
+    });
+  }
+  if (!isRenderableTemplateId(input.templateId)) {
+    throw new Error(`Unknown template: ${input.templateId}`);
+  }
+
+  const render = templateRenderers[input.templateId] as TemplateRenderer<unknown>;
+  return render({
+    seed: input.seed,
+    palette: input.palette,
+    params: input.params,
+    ...canvas,
+    t: input.t ?? 0,
+  });
 }
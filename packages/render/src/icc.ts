@@ -0,0 +1,98 @@
+/**
+ * A compact ICC v2 display profile for sRGB, built in code so print files can
+ * embed it without shipping a binary. Colorants are the D50-adapted sRGB
+ * primaries; the tone curve is sampled from the sRGB transfer function.
+ */
+
+const TRC_ENTRIES = 1024;
+
+function s15Fixed16(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeInt32BE(Math.round(value * 65536), 0);
+  return buf;
+}
+
+function xyzTag(x: number, y: number, z: number): Buffer {
+  return Buffer.concat([Buffer.from("XYZ \0\0\0\0", "ascii"), s15Fixed16(x), s15Fixed16(y), s15Fixed16(z)]);
+}
+
+function textTag(text: string): Buffer {
+  return Buffer.concat([Buffer.from("text\0\0\0\0", "ascii"), Buffer.from(`${text}\0`, "ascii")]);
+}
+
+function descTag(text: string): Buffer {
+  const ascii = Buffer.from(`${text}\0`, "ascii");
+  const count = Buffer.alloc(4);
+  count.writeUInt32BE(ascii.length, 0);
+  // Empty Unicode (lang code + count) and ScriptCode (code + count + 67 bytes) records
+  return Buffer.concat([Buffer.from("desc\0\0\0\0", "ascii"), count, ascii, Buffer.alloc(8 + 3 + 67)]);
+}
+
+function srgbCurveTag(): Buffer {
+  const header = Buffer.alloc(12);
+  header.write("curv", 0, "ascii");
+  header.writeUInt32BE(TRC_ENTRIES, 8);
+  const table = Buffer.alloc(TRC_ENTRIES * 2);
+  for (let i = 0; i < TRC_ENTRIES; i++) {
+    const v = i / (TRC_ENTRIES - 1);
+    const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    table.writeUInt16BE(Math.round(linear * 65535), i * 2);
+  }
+  return Buffer.concat([header, table]);
+}
+
+function pad4(buf: Buffer): Buffer {
+  const rem = buf.length % 4;
+  return rem === 0 ? buf : Buffer.concat([buf, Buffer.alloc(4 - rem)]);
+}
+
+function buildSRGBProfile(): Buffer {
+  const trc = srgbCurveTag();
+  const tags: [string, Buffer][] = [
+    ["desc", descTag("sRGB IEC61966-2.1")],
+    ["cprt", textTag("No copyright, use freely")],
+    ["wtpt", xyzTag(0.9642, 1.0, 0.8249)],
+    ["rXYZ", xyzTag(0.4360747, 0.2225045, 0.0139322)],
+    ["gXYZ", xyzTag(0.3850649, 0.7168786, 0.0971045)],
+    ["bXYZ", xyzTag(0.1430804, 0.0606169, 0.7141733)],
+    ["rTRC", trc],
+    ["gTRC", trc],
+    ["bTRC", trc],
+  ];
+
+  const tableSize = 4 + tags.length * 12;
+  const table = Buffer.alloc(tableSize);
+  table.writeUInt32BE(tags.length, 0);
+
+  // The three TRC tags share one copy of the curve data
+  const data: Buffer[] = [];
+  const offsets = new Map<Buffer, number>();
+  let offset = 128 + tableSize;
+  tags.forEach(([signature, tag], i) => {
+    let tagOffset = offsets.get(tag);
+    if (tagOffset === undefined) {
+      tagOffset = offset;
+      offsets.set(tag, tagOffset);
+      const padded = pad4(tag);
+      data.push(padded);
+      offset += padded.length;
+    }
+    table.write(signature, 4 + i * 12, "ascii");
+    table.writeUInt32BE(tagOffset, 8 + i * 12);
+    table.writeUInt32BE(tag.length, 12 + i * 12);
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write("mntrRGB XYZ ", 12, "ascii");
+  [2024, 1, 1, 0, 0, 0].forEach((value, i) => header.writeUInt16BE(value, 24 + i * 2));
+  header.write("acsp", 36, "ascii");
+  s15Fixed16(0.9642).copy(header, 68);
+  s15Fixed16(1.0).copy(header, 72);
+  s15Fixed16(0.8249).copy(header, 76);
+
+  return Buffer.concat([header, table, ...data]);
+}
+
+export const SRGB_ICC_PROFILE: Buffer = buildSRGBProfile();
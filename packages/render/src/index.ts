@@ -1,5 +1,99 @@
-export { generateSVG } from "./generate";
-export { renderPNGFromSVG } from "./png";
+export { generateSVG, supportedRendererVersions } from "./generate";
+export { renderPNGFromSVG, renderAPNGFromFrames } from "./png";
+export {
+  createRasterPool,
+  defaultRasterPoolOptions,
+  type RasterPool,
+  type RasterPoolOptions,
+  type RasterImage,
+} from "./raster-pool";
+export {
+  sweepSeeds,
+  computeSeedStats,
+  matchesSeedStats,
+  buildContactSheet,
+  seedStatNames,
+  defaultSeedSweepOptions,
+  defaultContactSheetOptions,
+  type SeedStats,
+  type SeedStatFilters,
+  type SeedSweepOptions,
+  type SeedSweepTile,
+  type ContactSheetOptions,
+  type ContactSheet,
+} from "./seed-sweep";
+export { renderFrames, buildAnimatedSVG } from "./animation";
+export {
+  interpolateInputs,
+  morphAmounts,
+  renderMorphFrames,
+  defaultMorphOptions,
+  type MorphInput,
+  type InterpolateOptions,
+  type MorphOptions,
+} from "./interpolate";
+export { encodeAPNG } from "./apng";
 export { buildHtmlArtifact, buildCustomCodeArtifact, buildCustomSvgArtifact } from "./artifact";
-export { mulberry32, createNoise2D } from "./prng";
+export {
+  renderCustomCodeSVG,
+  checkCustomCode,
+  defaultCustomCodeLimits,
+  CustomCodeRenderError,
+  type CustomCodeRenderInput,
+  type CustomCodeLimits,
+  type CustomCodeCheckResult,
+} from "./custom-code";
+export {
+  mulberry32,
+  createNoise2D,
+  createNoise,
+  type Noise,
+  type FractalNoiseOptions,
+  type WarpNoiseOptions,
+  type CurlNoiseOptions,
+} from "./prng";
+export { NOISE_RUNTIME_JS } from "./noise-runtime";
+export { applyEffects, type EffectCanvas } from "./effects";
+export { EFFECTS_RUNTIME_JS } from "./effects-runtime";
 export { RENDERER_VERSION } from "./version";
+export {
+  templateRenderers,
+  templatePlotters,
+  type TemplateRenderer,
+  type TemplateRenderInput,
+  type TemplatePlotter,
+  type PlotStroke,
+} from "./templates";
+export {
+  buildPlot,
+  buildPlotterSVG,
+  buildGCode,
+  buildHPGL,
+  paperSizes,
+  defaultPlotterOptions,
+  defaultGCodeOptions,
+  type PaperSize,
+  type PaperSizeName,
+  type PlotterOptions,
+  type GCodeOptions,
+  type PlotDocument,
+  type PlotLayer,
+  type PlotInput,
+} from "./plotter";
+export {
+  renderPrint,
+  printResolutions,
+  defaultPrintOptions,
+  type PrintFormat,
+  type PrintResolution,
+  type PrintOptions,
+  type PrintFile,
+} from "./print";
+export {
+  bundledFonts,
+  bundledFontPath,
+  getResvgFontOptions,
+  getFontOutlines,
+  type FontOutlines,
+  type GlyphOutline,
+} from "./fonts";
@@ -0,0 +1,112 @@
+import {
+  blendPalettes,
+  isRenderableTemplateId,
+  resolveCanvasDimensions,
+  templateRegistry,
+  type AnimationSpec,
+} from "@artmint/common";
+import { generateSVG, type GenerateInput } from "./generate";
+
+export type MorphInput = Omit<GenerateInput, "t">;
+
+export interface InterpolateOptions {
+  /** Seed of the result; defaults to the seed of the nearer endpoint */
+  seed: number;
+}
+
+/**
+ * The input `amount` of the way from `a` to `b`, both of the same template.
+ * Numeric params are lerped, and rounded where the param steps in whole
+ * numbers; enum and text params switch over at the midpoint, as do canvas
+ * size and effects. Palettes blend in OKLCH. Params either side omits fall
+ * back to the template defaults.
+ */
+export function interpolateInputs(
+  a: MorphInput,
+  b: MorphInput,
+  amount: number,
+  options: Partial<InterpolateOptions> = {}
+): MorphInput {
+  if (a.templateId !== b.templateId) {
+    throw new Error(`Cannot interpolate between ${a.templateId} and ${b.templateId}`);
+  }
+  if (!isRenderableTemplateId(a.templateId)) {
+    throw new Error(`Cannot interpolate ${a.templateId} pieces`);
+  }
+  if ((a.rendererVersion ?? null) !== (b.rendererVersion ?? null)) {
+    throw new Error("Cannot interpolate between renderer versions");
+  }
+
+  const t = Math.min(1, Math.max(0, amount));
+  const near = t < 0.5 ? a : b;
+  const definition = templateRegistry[a.templateId];
+  const defaults = definition.defaultParams as Record<string, unknown>;
+  const meta = definition.parameterMeta as Record<string, { step?: number }>;
+
+  const params: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(defaults), ...Object.keys(a.params), ...Object.keys(b.params)])) {
+    const from = a.params[key] ?? defaults[key];
+    const to = b.params[key] ?? defaults[key];
+    if (typeof from === "number" && typeof to === "number") {
+      const value = from + (to - from) * t;
+      const step = meta[key]?.step;
+      params[key] = step !== undefined && Number.isInteger(step) ? Math.round(value) : value;
+    } else {
+      const value = t < 0.5 ? from : to;
+      if (value !== undefined) params[key] = value;
+    }
+  }
+
+  return {
+    rendererVersion: a.rendererVersion,
+    templateId: a.templateId,
+    seed: options.seed ?? near.seed,
+    palette: blendPalettes(a.palette, b.palette, t),
+    params,
+    width: near.width,
+    height: near.height,
+    effects: near.effects,
+  };
+}
+
+export interface MorphOptions {
+  /** Ease out to `b` and back so the last frame leads into the first */
+  loop: boolean;
+  /** Seed of every frame; defaults to `a`'s so the morph has no jump */
+  seed: number;
+}
+
+export const defaultMorphOptions: Omit<MorphOptions, "seed"> = { loop: true };
+
+/**
+ * Blend amount of each morph frame. A loop eases from 0 to 1 and back as
+ * (1 - cos 2πi/n) / 2, so frame 0 is `a` and the sequence wraps without a
+ * seam; otherwise the amounts run evenly from 0 to 1 inclusive.
+ */
+export function morphAmounts(frameCount: number, loop: boolean): number[] {
+  return Array.from({ length: frameCount }, (_, i) => {
+    if (!loop) return frameCount > 1 ? i / (frameCount - 1) : 0;
+    // Mirror the way back so frames i and n - i blend identically
+    const k = Math.min(i, frameCount - i);
+    return (1 - Math.cos((2 * Math.PI * k) / frameCount)) / 2;
+  });
+}
+
+/**
+ * Render a morph between two inputs as `spec.frameCount` SVG frames, for
+ * buildAnimatedSVG or renderAPNGFromFrames. Every frame is drawn on `a`'s
+ * canvas so the frames share one size.
+ */
+export function renderMorphFrames(
+  a: MorphInput,
+  b: MorphInput,
+  spec: Pick<AnimationSpec, "frameCount">,
+  options: Partial<MorphOptions> = {}
+): string[] {
+  const loop = options.loop ?? defaultMorphOptions.loop;
+  const seed = options.seed ?? a.seed;
+  const canvas = resolveCanvasDimensions(a);
+  return morphAmounts(spec.frameCount, loop).map((amount) =>
+    generateSVG({ ...interpolateInputs(a, b, amount, { seed }), ...canvas })
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * Deterministic noise library, kept as plain JavaScript source.
+ *
+ * The server evaluates this exact string (see createNoise in prng.ts) and the
+ * custom-code artifacts and studio preview embed it verbatim, so every
+ * environment runs the same code and produces bit-identical values. It only
+ * uses + - * /, Math.floor and Math.sqrt (all exactly specified by IEEE 754),
+ * never transcendental functions whose precision varies between engines.
+ *
+ * Keep this file free of imports: it is also the client-safe entry point
+ * "@artmint/render/noise-runtime".
+ */
+export const NOISE_RUNTIME_JS = `function createNoise(seed) {
+  function mulberry32(a) {
+    let s = a | 0;
+    return function () {
+      s = (s + 0x6d2b79f5) | 0;
+      let t = Math.imul(s ^ (s >>> 15), 1 | s);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  // Value noise — identical to createNoise2D(seed)
+  const valueRng = mulberry32(seed);
+  const TABLE_SIZE = 256;
+  const table = [];
+  for (let i = 0; i < TABLE_SIZE; i++) table.push(valueRng());
+  function valueHash(x, y) { return table[((x * 374761393 + y * 668265263 + seed) & 0x7fffffff) % TABLE_SIZE]; }
+  function lerp(a, b, t) { return a + (b - a) * t; }
+  function smoothstep(t) { return t * t * (3 - 2 * t); }
+  function value2(x, y) {
+    const ix = Math.floor(x), iy = Math.floor(y);
+    const fx = smoothstep(x - ix), fy = smoothstep(y - iy);
+    return lerp(lerp(valueHash(ix, iy), valueHash(ix + 1, iy), fx), lerp(valueHash(ix, iy + 1), valueHash(ix + 1, iy + 1), fx), fy) * 2 - 1;
+  }
+
+  // Permutation table for gradient noise, from an independent stream
+  const permRng = mulberry32(seed + 0x9e3779b9);
+  const p = [];
+  for (let i = 0; i < 256; i++) p.push(i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(permRng() * (i + 1));
+    const tmp = p[i]; p[i] = p[j]; p[j] = tmp;
+  }
+  const perm = [];
+  for (let i = 0; i < 512; i++) perm.push(p[i & 255]);
+
+  const GRAD3 = [1,1,0, -1,1,0, 1,-1,0, -1,-1,0, 1,0,1, -1,0,1, 1,0,-1, -1,0,-1, 0,1,1, 0,-1,1, 0,1,-1, 0,-1,-1];
+  function dot2(h, x, y) { const g = (h % 12) * 3; return GRAD3[g] * x + GRAD3[g + 1] * y; }
+  function dot3(h, x, y, z) { const g = (h % 12) * 3; return GRAD3[g] * x + GRAD3[g + 1] * y + GRAD3[g + 2] * z; }
+
+  // Improved Perlin gradient noise
+  function fade(t) { return t * t * t * (t * (t * 6 - 15) + 10); }
+  function perlin2(x, y) {
+    const xi = Math.floor(x), yi = Math.floor(y);
+    const xf = x - xi, yf = y - yi;
+    const X = xi & 255, Y = yi & 255;
+    const u = fade(xf), v = fade(yf);
+    const aa = perm[X + perm[Y]], ab = perm[X + perm[Y + 1]];
+    const ba = perm[X + 1 + perm[Y]], bb = perm[X + 1 + perm[Y + 1]];
+    return lerp(
+      lerp(dot2(aa, xf, yf), dot2(ba, xf - 1, yf), u),
+      lerp(dot2(ab, xf, yf - 1), dot2(bb, xf - 1, yf - 1), u),
+      v
+    );
+  }
+  function perlin3(x, y, z) {
+    const xi = Math.floor(x), yi = Math.floor(y), zi = Math.floor(z);
+    const xf = x - xi, yf = y - yi, zf = z - zi;
+    const X = xi & 255, Y = yi & 255, Z = zi & 255;
+    const u = fade(xf), v = fade(yf), w = fade(zf);
+    const A = perm[X] + Y, AA = perm[A] + Z, AB = perm[A + 1] + Z;
+    const B = perm[X + 1] + Y, BA = perm[B] + Z, BB = perm[B + 1] + Z;
+    return lerp(
+      lerp(
+        lerp(dot3(perm[AA], xf, yf, zf), dot3(perm[BA], xf - 1, yf, zf), u),
+        lerp(dot3(perm[AB], xf, yf - 1, zf), dot3(perm[BB], xf - 1, yf - 1, zf), u),
+        v
+      ),
+      lerp(
+        lerp(dot3(perm[AA + 1], xf, yf, zf - 1), dot3(perm[BA + 1], xf - 1, yf, zf - 1), u),
+        lerp(dot3(perm[AB + 1], xf, yf - 1, zf - 1), dot3(perm[BB + 1], xf - 1, yf - 1, zf - 1), u),
+        v
+      ),
+      w
+    );
+  }
+
+  // Simplex noise (Gustavson)
+  const F2 = 0.5 * (Math.sqrt(3) - 1), G2 = (3 - Math.sqrt(3)) / 6;
+  function simplex2(x, y) {
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s), j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t), y0 = y - (j - t);
+    const i1 = x0 > y0 ? 1 : 0, j1 = x0 > y0 ? 0 : 1;
+    const x1 = x0 - i1 + G2, y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2, y2 = y0 - 1 + 2 * G2;
+    const ii = i & 255, jj = j & 255;
+    let n = 0;
+    let t0 = 0.5 - x0 * x0 - y0 * y0;
+    if (t0 > 0) { t0 *= t0; n += t0 * t0 * dot2(perm[ii + perm[jj]], x0, y0); }
+    let t1 = 0.5 - x1 * x1 - y1 * y1;
+    if (t1 > 0) { t1 *= t1; n += t1 * t1 * dot2(perm[ii + i1 + perm[jj + j1]], x1, y1); }
+    let t2 = 0.5 - x2 * x2 - y2 * y2;
+    if (t2 > 0) { t2 *= t2; n += t2 * t2 * dot2(perm[ii + 1 + perm[jj + 1]], x2, y2); }
+    return 70 * n;
+  }
+  const F3 = 1 / 3, G3 = 1 / 6;
+  function simplex3(x, y, z) {
+    const s = (x + y + z) * F3;
+    const i = Math.floor(x + s), j = Math.floor(y + s), k = Math.floor(z + s);
+    const t = (i + j + k) * G3;
+    const x0 = x - (i - t), y0 = y - (j - t), z0 = z - (k - t);
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+      else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+      else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+    } else {
+      if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+      else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+      else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+    }
+    const x1 = x0 - i1 + G3, y1 = y0 - j1 + G3, z1 = z0 - k1 + G3;
+    const x2 = x0 - i2 + 2 * G3, y2 = y0 - j2 + 2 * G3, z2 = z0 - k2 + 2 * G3;
+    const x3 = x0 - 1 + 3 * G3, y3 = y0 - 1 + 3 * G3, z3 = z0 - 1 + 3 * G3;
+    const ii = i & 255, jj = j & 255, kk = k & 255;
+    let n = 0;
+    let t0 = 0.6 - x0 * x0 - y0 * y0 - z0 * z0;
+    if (t0 > 0) { t0 *= t0; n += t0 * t0 * dot3(perm[ii + perm[jj + perm[kk]]], x0, y0, z0); }
+    let t1 = 0.6 - x1 * x1 - y1 * y1 - z1 * z1;
+    if (t1 > 0) { t1 *= t1; n += t1 * t1 * dot3(perm[ii + i1 + perm[jj + j1 + perm[kk + k1]]], x1, y1, z1); }
+    let t2 = 0.6 - x2 * x2 - y2 * y2 - z2 * z2;
+    if (t2 > 0) { t2 *= t2; n += t2 * t2 * dot3(perm[ii + i2 + perm[jj + j2 + perm[kk + k2]]], x2, y2, z2); }
+    let t3 = 0.6 - x3 * x3 - y3 * y3 - z3 * z3;
+    if (t3 > 0) { t3 *= t3; n += t3 * t3 * dot3(perm[ii + 1 + perm[jj + 1 + perm[kk + 1]]], x3, y3, z3); }
+    return 32 * n;
+  }
+
+  // Fractal Brownian motion: sum octaves, normalised back to [-1, 1]
+  function basis2(type) { return type === 'perlin' ? perlin2 : type === 'simplex' ? simplex2 : value2; }
+  function fbm2(x, y, options) {
+    const o = options || {};
+    const noise = basis2(o.type);
+    const octaves = o.octaves === undefined ? 4 : o.octaves;
+    const lacunarity = o.lacunarity === undefined ? 2 : o.lacunarity;
+    const gain = o.gain === undefined ? 0.5 : o.gain;
+    let sum = 0, amp = 1, freq = 1, norm = 0;
+    for (let i = 0; i < octaves; i++) {
+      sum += amp * noise(x * freq, y * freq);
+      norm += amp;
+      amp *= gain;
+      freq *= lacunarity;
+    }
+    return sum / norm;
+  }
+  function fbm3(x, y, z, options) {
+    const o = options || {};
+    const noise = o.type === 'perlin' ? perlin3 : simplex3;
+    const octaves = o.octaves === undefined ? 4 : o.octaves;
+    const lacunarity = o.lacunarity === undefined ? 2 : o.lacunarity;
+    const gain = o.gain === undefined ? 0.5 : o.gain;
+    let sum = 0, amp = 1, freq = 1, norm = 0;
+    for (let i = 0; i < octaves; i++) {
+      sum += amp * noise(x * freq, y * freq, z * freq);
+      norm += amp;
+      amp *= gain;
+      freq *= lacunarity;
+    }
+    return sum / norm;
+  }
+
+  // Domain warping: displace the lookup by two fBm fields first
+  function warp2(x, y, options) {
+    const o = options || {};
+    const strength = o.strength === undefined ? 1 : o.strength;
+    const qx = fbm2(x, y, o);
+    const qy = fbm2(x + 5.2, y + 1.3, o);
+    return fbm2(x + strength * qx, y + strength * qy, o);
+  }
+
+  // Curl of the fBm potential: a divergence-free 2D vector field
+  function curl2(x, y, options) {
+    const o = options || {};
+    const e = o.epsilon === undefined ? 0.0001 : o.epsilon;
+    const dx = (fbm2(x + e, y, o) - fbm2(x - e, y, o)) / (2 * e);
+    const dy = (fbm2(x, y + e, o) - fbm2(x, y - e, o)) / (2 * e);
+    return [dy, -dx];
+  }
+
+  return { value2, perlin2, perlin3, simplex2, simplex3, fbm2, fbm3, warp2, curl2 };
+}`;
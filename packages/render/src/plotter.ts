@@ -0,0 +1,274 @@
+import { isRenderableTemplateId, resolveCanvasDimensions } from "@artmint/common";
+import type { GenerateInput } from "./generate";
+import { RENDERER_VERSION } from "./version";
+import { templatePlotters, type TemplatePlotter } from "./templates";
+
+type Point = [number, number];
+
+export interface PaperSize {
+  widthMm: number;
+  heightMm: number;
+}
+
+/** Portrait dimensions; plots are turned landscape to match wide canvases */
+export const paperSizes = {
+  A5: { widthMm: 148, heightMm: 210 },
+  A4: { widthMm: 210, heightMm: 297 },
+  A3: { widthMm: 297, heightMm: 420 },
+  Letter: { widthMm: 215.9, heightMm: 279.4 },
+  "9x12in": { widthMm: 228.6, heightMm: 304.8 },
+} as const satisfies Record<string, PaperSize>;
+export type PaperSizeName = keyof typeof paperSizes;
+
+export interface PlotterOptions {
+  paper: PaperSize;
+  marginMm: number;
+  /** Largest deviation allowed when merging near-collinear segments */
+  toleranceMm: number;
+  /** Nominal pen width, used as the stroke width of the layered SVG */
+  penWidthMm: number;
+}
+
+export const defaultPlotterOptions: PlotterOptions = {
+  paper: paperSizes.A4,
+  marginMm: 15,
+  toleranceMm: 0.1,
+  penWidthMm: 0.3,
+};
+
+/** All strokes drawn with one pen, in plotting order */
+export interface PlotLayer {
+  color: string;
+  strokes: Point[][];
+}
+
+/** Stroke geometry in millimeters, origin at the top-left corner of the paper */
+export interface PlotDocument {
+  widthMm: number;
+  heightMm: number;
+  penWidthMm: number;
+  layers: PlotLayer[];
+}
+
+export type PlotInput = Omit<GenerateInput, "t" | "effects">;
+
+/** Ramer–Douglas–Peucker: drop points within `tolerance` of the simplified line */
+function simplify(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const [ax, ay] = points[first]!;
+    const [bx, by] = points[last]!;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const length = Math.hypot(dx, dy);
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i]!;
+      const distance =
+        length === 0 ? Math.hypot(px - ax, py - ay) : Math.abs(dy * px - dx * py + bx * ay - by * ax) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * Greedy nearest-neighbor ordering: always draw the stroke whose start or
+ * end is closest to the pen, reversing it when its end is closer.
+ */
+function orderStrokes(strokes: Point[][]): Point[][] {
+  const remaining = [...strokes];
+  const ordered: Point[][] = [];
+  let pen: Point = [0, 0];
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestDistance = Infinity;
+    let reverse = false;
+    remaining.forEach((stroke, i) => {
+      const start = stroke[0]!;
+      const end = stroke[stroke.length - 1]!;
+      const toStart = Math.hypot(start[0] - pen[0], start[1] - pen[1]);
+      const toEnd = Math.hypot(end[0] - pen[0], end[1] - pen[1]);
+      if (toStart < bestDistance) {
+        bestDistance = toStart;
+        best = i;
+        reverse = false;
+      }
+      if (toEnd < bestDistance) {
+        bestDistance = toEnd;
+        best = i;
+        reverse = true;
+      }
+    });
+    const [stroke] = remaining.splice(best, 1);
+    const next = reverse ? [...stroke!].reverse() : stroke!;
+    ordered.push(next);
+    pen = next[next.length - 1]!;
+  }
+
+  return ordered;
+}
+
+/**
+ * Turn a render input into pen-plotter geometry: the template's line work
+ * scaled to fit the paper margins, simplified, grouped into one layer per
+ * palette color and ordered to keep pen-up travel short. Fills, opacity,
+ * grain and effects have no plotter equivalent and are dropped. Only inputs
+ * for the live RENDERER_VERSION can be plotted.
+ */
+export function buildPlot(input: PlotInput, options: PlotterOptions = defaultPlotterOptions): PlotDocument {
+  // Plotters exist only for the live templates; archived renderers have none
+  const version = input.rendererVersion ?? RENDERER_VERSION;
+  if (version !== RENDERER_VERSION) {
+    throw new Error(`Renderer ${version} has no plotter export`);
+  }
+  if (!isRenderableTemplateId(input.templateId) || !templatePlotters[input.templateId]) {
+    throw new Error(`Template ${input.templateId} cannot be plotted`);
+  }
+  const plot = templatePlotters[input.templateId] as TemplatePlotter<unknown>;
+  const { width: W, height: H } = resolveCanvasDimensions(input);
+
+  const { paper, marginMm } = options;
+  const landscape = W > H && paper.heightMm > paper.widthMm;
+  const widthMm = landscape ? paper.heightMm : paper.widthMm;
+  const heightMm = landscape ? paper.widthMm : paper.heightMm;
+  const scale = Math.min((widthMm - marginMm * 2) / W, (heightMm - marginMm * 2) / H);
+  if (!(scale > 0)) {
+    throw new Error("Plot margins leave no drawable area on the paper");
+  }
+  const offsetX = (widthMm - W * scale) / 2;
+  const offsetY = (heightMm - H * scale) / 2;
+
+  const strokes = plot({
+    seed: input.seed,
+    palette: input.palette,
+    params: input.params,
+    width: W,
+    height: H,
+    t: 0,
+  });
+
+  const byColor = new Map<string, Point[][]>();
+  for (const stroke of strokes) {
+    const points = simplify(
+      stroke.points.map(([x, y]): Point => [offsetX + x * scale, offsetY + y * scale]),
+      options.toleranceMm
+    );
+    const color = stroke.color.toLowerCase();
+    const layer = byColor.get(color) ?? [];
+    layer.push(points);
+    byColor.set(color, layer);
+  }
+
+  // Layers follow palette order so pen numbers match palette positions
+  const palette = input.palette.map((color) => color.toLowerCase());
+  const colors = [...byColor.keys()].sort((a, b) => palette.indexOf(a) - palette.indexOf(b));
+
+  return {
+    widthMm,
+    heightMm,
+    penWidthMm: options.penWidthMm,
+    layers: colors.map((color) => ({ color, strokes: orderStrokes(byColor.get(color)!) })),
+  };
+}
+
+const mm = (value: number) => value.toFixed(2);
+
+/** Stroke-only SVG with one Inkscape layer per pen, sized in millimeters */
+export function buildPlotterSVG(plot: PlotDocument): string {
+  const layers = plot.layers.map((layer, i) => {
+    const paths = layer.strokes.map(
+      (stroke) => `<path d="${stroke.map(([x, y], j) => `${j === 0 ? "M" : "L"}${mm(x)} ${mm(y)}`).join(" ")}"/>`
+    );
+    return (
+      `<g inkscape:groupmode="layer" inkscape:label="${i + 1} ${layer.color}" id="layer${i + 1}" ` +
+      `fill="none" stroke="${layer.color}" stroke-width="${plot.penWidthMm}" stroke-linecap="round" stroke-linejoin="round">\n` +
+      `${paths.join("\n")}\n</g>`
+    );
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${plot.widthMm}mm" height="${plot.heightMm}mm" viewBox="0 0 ${plot.widthMm} ${plot.heightMm}">
+${layers.join("\n")}
+</svg>`;
+}
+
+export interface GCodeOptions {
+  /** Z heights for pen up and pen down, in millimeters */
+  penUpZ: number;
+  penDownZ: number;
+  /** Drawing and travel speeds, in mm/min */
+  feedRate: number;
+  travelRate: number;
+}
+
+export const defaultGCodeOptions: GCodeOptions = {
+  penUpZ: 5,
+  penDownZ: 0,
+  feedRate: 2000,
+  travelRate: 6000,
+};
+
+/**
+ * G-code for a Z-axis pen plotter. Machine Y points up, so the paper's
+ * bottom-left corner is the origin. Each layer starts with an M0 pause to
+ * load that layer's pen.
+ */
+export function buildGCode(plot: PlotDocument, options: GCodeOptions = defaultGCodeOptions): string {
+  const { penUpZ, penDownZ, feedRate, travelRate } = options;
+  const y = (value: number) => mm(plot.heightMm - value);
+  const lines = [
+    `; ArtMint plot ${plot.widthMm}x${plot.heightMm}mm, ${plot.layers.length} pen(s)`,
+    "G21 ; millimeters",
+    "G90 ; absolute positioning",
+    `G0 Z${penUpZ}`,
+  ];
+
+  plot.layers.forEach((layer, i) => {
+    lines.push(`; layer ${i + 1} ${layer.color}`, `M0 ; load pen ${i + 1} (${layer.color})`);
+    for (const stroke of layer.strokes) {
+      const [start, ...rest] = stroke;
+      lines.push(`G0 X${mm(start![0])} Y${y(start![1])} F${travelRate}`, `G1 Z${penDownZ} F${travelRate}`);
+      rest.forEach(([px, py], j) => lines.push(`G1 X${mm(px)} Y${y(py)}${j === 0 ? ` F${feedRate}` : ""}`));
+      lines.push(`G0 Z${penUpZ}`);
+    }
+  });
+
+  lines.push(`G0 X0 Y0 F${travelRate}`, "M2", "");
+  return lines.join("\n");
+}
+
+/** HP-GL plotter units per millimeter */
+const HPGL_UNITS_PER_MM = 40;
+
+/** HP-GL with one pen (SP) per layer; like G-code, Y points up */
+export function buildHPGL(plot: PlotDocument): string {
+  const unit = (value: number) => Math.round(value * HPGL_UNITS_PER_MM);
+  const coords = ([x, y]: Point) => `${unit(x)},${unit(plot.heightMm - y)}`;
+  const commands = ["IN;"];
+
+  plot.layers.forEach((layer, i) => {
+    commands.push(`SP${i + 1};`);
+    for (const stroke of layer.strokes) {
+      const [start, ...rest] = stroke;
+      commands.push(`PU${coords(start!)};`, `PD${rest.map(coords).join(",")};`);
+    }
+  });
+
+  commands.push("PU;", "SP0;", "");
+  return commands.join("\n");
+}
@@ -1,19 +1,46 @@
 import { Resvg } from "@resvg/resvg-js";
+import { encodeAPNG } from "./apng";
+import { getResvgFontOptions } from "./fonts";
 
 /**
- * Render an SVG string to a PNG buffer at the specified size.
+ * Read the width/height attributes of the root <svg> element.
+ * Returns null when either is missing or not a plain number.
+ */
+function readSvgDimensions(svg: string): { width: number; height: number } | null {
+  const root = svg.match(/<svg\b[^>]*>/i)?.[0];
+  if (!root) return null;
+  const width = Number(root.match(/\swidth="([\d.]+)"/)?.[1]);
+  const height = Number(root.match(/\sheight="([\d.]+)"/)?.[1]);
+  if (!width || !height) return null;
+  return { width, height };
+}
+
+/** resvg fitTo that scales the longer edge of the SVG to `size` pixels */
+export function longEdgeFit(svg: string, size: number): { mode: "width" | "height"; value: number } {
+  const dimensions = readSvgDimensions(svg);
+  const portrait = dimensions !== null && dimensions.height > dimensions.width;
+  return { mode: portrait ? "height" : "width", value: size };
+}
+
+/**
+ * Render an SVG string to a PNG buffer whose longer edge is `size` pixels.
  * Uses resvg for deterministic, server-side rendering.
  */
 export function renderPNGFromSVG(svg: string, size: number = 1080): Buffer {
   const resvg = new Resvg(svg, {
-    fitTo: {
-      mode: "width",
-      value: size,
-    },
-    font: {
-      loadSystemFonts: false,
-    },
+    fitTo: longEdgeFit(svg, size),
+    font: getResvgFontOptions(),
   });
   const pngData = resvg.render();
   return Buffer.from(pngData.asPng());
 }
+
+/**
+ * Rasterise SVG frames and assemble them into a looping animated PNG.
+ */
+export function renderAPNGFromFrames(frames: string[], fps: number, size: number = 1080): Buffer {
+  return encodeAPNG(
+    frames.map((svg) => renderPNGFromSVG(svg, size)),
+    fps
+  );
+}
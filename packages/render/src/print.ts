@@ -0,0 +1,402 @@
+import { once } from "events";
+import { createDeflate, deflateSync } from "zlib";
+import { renderAsync } from "@resvg/resvg-js";
+import { fitLongEdge } from "@artmint/common";
+import { PNG_SIGNATURE, uint32, writeChunk } from "./apng";
+import { getResvgFontOptions } from "./fonts";
+import { SRGB_ICC_PROFILE } from "./icc";
+import { splitRoot } from "./svg";
+import { prepareTiles, tileBody } from "./tiles";
+
+export type PrintFormat = "png" | "tiff" | "pdf";
+
+/** Long edge, in pixels, of the trimmed artwork for each print resolution */
+export const printResolutions = {
+  "8K": 7680,
+  "16K": 15360,
+} as const;
+export type PrintResolution = keyof typeof printResolutions;
+
+export interface PrintOptions {
+  format: PrintFormat;
+  /** Long edge of the trimmed artwork, in pixels */
+  size: number;
+  /** Pixel density recorded in the file; sets the physical print size */
+  dpi: number;
+  /** Artwork extended past each trim edge, in millimeters */
+  bleedMm: number;
+  /** Largest tile edge rasterized at once, in pixels; bounds memory per render */
+  tileSize: number;
+}
+
+export const defaultPrintOptions: PrintOptions = {
+  format: "png",
+  size: printResolutions["8K"],
+  dpi: 300,
+  bleedMm: 3,
+  tileSize: 2048,
+};
+
+export interface PrintFile {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+  /** Pixel size including bleed */
+  width: number;
+  height: number;
+}
+
+interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Rows per TIFF strip; each strip is deflated on its own */
+const TIFF_ROWS_PER_STRIP = 64;
+/** Split PNG image data into IDAT chunks of at most this many bytes */
+const IDAT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+function readViewBox(open: string): ViewBox {
+  const viewBox = open.match(/\sviewBox="([^"]+)"/)?.[1];
+  if (viewBox) {
+    const [x, y, width, height] = viewBox.trim().split(/[\s,]+/).map(Number);
+    if (width! > 0 && height! > 0) return { x: x!, y: y!, width: width!, height: height! };
+  }
+  const width = Number(open.match(/\swidth="([\d.]+)"/)?.[1]);
+  const height = Number(open.match(/\sheight="([\d.]+)"/)?.[1]);
+  if (!width || !height) {
+    throw new Error("SVG needs a viewBox or numeric width and height to print");
+  }
+  return { x: 0, y: 0, width, height };
+}
+
+/** Replace the root element's viewport so it shows `viewBox` at `width`×`height` pixels */
+function withViewport(open: string, viewBox: ViewBox, width: number, height: number): string {
+  const stripped = open.replace(/\s(viewBox|width|height|preserveAspectRatio)="[^"]*"/g, "");
+  const box = [viewBox.x, viewBox.y, viewBox.width, viewBox.height].join(" ");
+  return stripped.replace(
+    /^<svg\b/,
+    `<svg viewBox="${box}" width="${width}" height="${height}" preserveAspectRatio="none"`
+  );
+}
+
+/** Split an axis into the fewest near-equal spans of at most `tileSize` pixels */
+function splitAxis(length: number, tileSize: number): { start: number; size: number }[] {
+  const count = Math.ceil(length / tileSize);
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.round((i * length) / count);
+    return { start, size: Math.round(((i + 1) * length) / count) - start };
+  });
+}
+
+/**
+ * Render the artwork in a grid of tiles at most `tileSize` pixels square and
+ * yield it one band of tiles at a time as packed RGB rows, so neither resvg
+ * nor the encoder ever holds the whole image. The artwork covers the full
+ * page (trim plus bleed), centered, so the bleed is cut from the artwork's
+ * own edges.
+ */
+async function* renderStrips(svg: string, width: number, height: number, tileSize: number): AsyncGenerator<Buffer> {
+  const source = readViewBox(splitRoot(svg).open);
+  const scale = Math.max(width / source.width, height / source.height);
+  const originX = source.x + (source.width - width / scale) / 2;
+  const originY = source.y + (source.height - height / scale) / 2;
+  const tree = prepareTiles(svg, [scale, 0, 0, scale, -originX * scale, -originY * scale]);
+  const columns = splitAxis(width, tileSize);
+
+  for (const row of splitAxis(height, tileSize)) {
+    const strip = Buffer.alloc(width * row.size * 3);
+
+    for (const column of columns) {
+      const viewBox = {
+        x: originX + column.start / scale,
+        y: originY + row.start / scale,
+        width: column.size / scale,
+        height: row.size / scale,
+      };
+      const body = tileBody(tree, {
+        x0: column.start,
+        y0: row.start,
+        x1: column.start + column.size,
+        y1: row.start + row.size,
+      });
+      // renderAsync rasterizes on the libuv pool, keeping the event loop free during long jobs
+      const tile = await renderAsync(`${withViewport(tree.open, viewBox, column.size, row.size)}${body}</svg>`, {
+        fitTo: { mode: "original" },
+        background: "#ffffff",
+        font: getResvgFontOptions(),
+      });
+      const pixels = tile.pixels;
+
+      for (let y = 0; y < row.size; y++) {
+        let src = y * tile.width * 4;
+        let dst = (y * width + column.start) * 3;
+        for (let x = 0; x < column.size; x++, src += 4, dst += 3) {
+          strip[dst] = pixels[src]!;
+          strip[dst + 1] = pixels[src + 1]!;
+          strip[dst + 2] = pixels[src + 2]!;
+        }
+      }
+    }
+
+    yield strip;
+  }
+}
+
+/** Prefix every row with PNG filter type 0, the layout both PNG and PDF predictors expect */
+function withFilterBytes(strip: Buffer, width: number): Buffer {
+  const stride = width * 3;
+  const rows = strip.length / stride;
+  const out = Buffer.alloc(rows * (stride + 1));
+  for (let row = 0; row < rows; row++) {
+    strip.copy(out, row * (stride + 1) + 1, row * stride, (row + 1) * stride);
+  }
+  return out;
+}
+
+/** One zlib stream over every strip, compressed as the strips are rendered */
+async function deflateStrips(strips: AsyncIterable<Buffer>, width: number): Promise<Buffer> {
+  const deflate = createDeflate();
+  const chunks: Buffer[] = [];
+  deflate.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = once(deflate, "end");
+  for await (const strip of strips) {
+    if (!deflate.write(withFilterBytes(strip, width))) {
+      await once(deflate, "drain");
+    }
+  }
+  deflate.end();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+async function encodePNG(strips: AsyncIterable<Buffer>, width: number, height: number, dpi: number): Promise<Buffer> {
+  const ihdr = Buffer.concat([uint32(width), uint32(height), Buffer.from([8, 2, 0, 0, 0])]);
+  const iccp = Buffer.concat([Buffer.from("sRGB\0\0", "latin1"), deflateSync(SRGB_ICC_PROFILE)]);
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const phys = Buffer.concat([uint32(pixelsPerMeter), uint32(pixelsPerMeter), Buffer.from([1])]);
+
+  const data = await deflateStrips(strips, width);
+  const idat: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += IDAT_CHUNK_SIZE) {
+    idat.push(writeChunk("IDAT", data.subarray(offset, offset + IDAT_CHUNK_SIZE)));
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    writeChunk("IHDR", ihdr),
+    writeChunk("iCCP", iccp),
+    writeChunk("pHYs", phys),
+    ...idat,
+    writeChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// TIFF field types
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+
+/** Baseline little-endian RGB TIFF with Deflate-compressed strips and an ICC profile tag */
+async function encodeTIFF(
+  strips: AsyncIterable<Buffer>,
+  width: number,
+  height: number,
+  dpi: number
+): Promise<Buffer> {
+  const stride = width * 3;
+  const parts: Buffer[] = [Buffer.from([0x49, 0x49, 42, 0, 0, 0, 0, 0])];
+  let offset = 8;
+  const append = (buf: Buffer): number => {
+    const at = offset;
+    parts.push(buf);
+    offset += buf.length;
+    if (offset % 2 === 1) {
+      parts.push(Buffer.alloc(1));
+      offset += 1;
+    }
+    return at;
+  };
+
+  // Every TIFF strip but the last holds exactly TIFF_ROWS_PER_STRIP rows, so
+  // rows left over from one rendered strip carry into the next
+  const stripOffsets: number[] = [];
+  const stripByteCounts: number[] = [];
+  const stripBytes = TIFF_ROWS_PER_STRIP * stride;
+  const writeStrip = (rows: Buffer) => {
+    const compressed = deflateSync(rows);
+    stripOffsets.push(append(compressed));
+    stripByteCounts.push(compressed.length);
+  };
+  let pending = Buffer.alloc(0);
+  for await (const strip of strips) {
+    let start = 0;
+    if (pending.length > 0) {
+      start = Math.min(stripBytes - pending.length, strip.length);
+      pending = Buffer.concat([pending, strip.subarray(0, start)]);
+      if (pending.length < stripBytes) continue;
+      writeStrip(pending);
+    }
+    for (; strip.length - start >= stripBytes; start += stripBytes) {
+      writeStrip(strip.subarray(start, start + stripBytes));
+    }
+    pending = Buffer.from(strip.subarray(start));
+  }
+  if (pending.length > 0) writeStrip(pending);
+
+  const longs = (values: number[]) => {
+    const buf = Buffer.alloc(values.length * 4);
+    values.forEach((value, i) => buf.writeUInt32LE(value, i * 4));
+    return buf;
+  };
+  const shorts = (values: number[]) => {
+    const buf = Buffer.alloc(values.length * 2);
+    values.forEach((value, i) => buf.writeUInt16LE(value, i * 2));
+    return buf;
+  };
+  const resolution = longs([dpi, 1]);
+
+  const entries: [tag: number, type: number, count: number, value: Buffer][] = [
+    [256, LONG, 1, longs([width])],
+    [257, LONG, 1, longs([height])],
+    [258, SHORT, 3, shorts([8, 8, 8])],
+    [259, SHORT, 1, shorts([8])], // Adobe Deflate
+    [262, SHORT, 1, shorts([2])], // RGB
+    [273, LONG, stripOffsets.length, longs(stripOffsets)],
+    [277, SHORT, 1, shorts([3])],
+    [278, LONG, 1, longs([TIFF_ROWS_PER_STRIP])],
+    [279, LONG, stripByteCounts.length, longs(stripByteCounts)],
+    [282, RATIONAL, 1, resolution],
+    [283, RATIONAL, 1, resolution],
+    [284, SHORT, 1, shorts([1])], // chunky
+    [296, SHORT, 1, shorts([2])], // inches
+    [34675, UNDEFINED, SRGB_ICC_PROFILE.length, SRGB_ICC_PROFILE],
+  ];
+
+  const ifd = Buffer.alloc(2 + entries.length * 12 + 4);
+  ifd.writeUInt16LE(entries.length, 0);
+  entries.forEach(([tag, type, count, value], i) => {
+    const at = 2 + i * 12;
+    ifd.writeUInt16LE(tag, at);
+    ifd.writeUInt16LE(type, at + 2);
+    ifd.writeUInt32LE(count, at + 4);
+    if (value.length <= 4) {
+      value.copy(ifd, at + 8);
+    } else {
+      ifd.writeUInt32LE(append(value), at + 8);
+    }
+  });
+
+  parts[0]!.writeUInt32LE(append(ifd), 4);
+  return Buffer.concat(parts);
+}
+
+/**
+ * Single-page PDF with the artwork as a Flate image in an ICC-based sRGB
+ * color space. The MediaBox and BleedBox cover the bleed; the TrimBox marks
+ * the cut.
+ */
+async function encodePDF(
+  strips: AsyncIterable<Buffer>,
+  width: number,
+  height: number,
+  dpi: number,
+  bleedPx: number
+): Promise<Buffer> {
+  const pt = (px: number) => Number(((px / dpi) * 72).toFixed(3));
+  const pageWidth = pt(width);
+  const pageHeight = pt(height);
+  const bleed = pt(bleedPx);
+  const trimBox = `[${bleed} ${bleed} ${pt(width - bleedPx)} ${pt(height - bleedPx)}]`;
+  const mediaBox = `[0 0 ${pageWidth} ${pageHeight}]`;
+  const content = Buffer.from(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`, "latin1");
+  const image = await deflateStrips(strips, width);
+  const icc = deflateSync(SRGB_ICC_PROFILE);
+
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1"),
+    Buffer.from("<< /Type /Pages /Kids [3 0 R] /Count 1 >>", "latin1"),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} /BleedBox ${mediaBox} /TrimBox ${trimBox} ` +
+        "/Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>",
+      "latin1"
+    ),
+    stream(`<< /Length ${content.length} >>`, content),
+    stream(
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace [/ICCBased 6 0 R] ` +
+        `/BitsPerComponent 8 /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors 3 /BitsPerComponent 8 /Columns ${width} >> ` +
+        `/Length ${image.length} >>`,
+      image
+    ),
+    stream(`<< /N 3 /Alternate /DeviceRGB /Filter /FlateDecode /Length ${icc.length} >>`, icc),
+  ];
+
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = parts[0]!.length;
+  const xref: number[] = [];
+  objects.forEach((object, i) => {
+    xref.push(offset);
+    const framed = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      object,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    parts.push(framed);
+    offset += framed.length;
+  });
+
+  const table = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...xref.map((at) => `${String(at).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+    "",
+  ];
+  parts.push(Buffer.from(table.join("\n"), "latin1"));
+  return Buffer.concat(parts);
+}
+
+function stream(dictionary: string, data: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`${dictionary}\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+/**
+ * Rasterize an SVG for print: `size` pixels on the long edge of the trimmed
+ * artwork plus `bleedMm` on every side, rendered in tiles so 8K and 16K jobs
+ * never hold a full-size pixmap. Output is flattened onto white and tagged sRGB.
+ */
+export async function renderPrint(svg: string, options: Partial<PrintOptions> = {}): Promise<PrintFile> {
+  const { format, size, dpi, bleedMm, tileSize } = { ...defaultPrintOptions, ...options };
+  const trim = fitLongEdge(readViewBox(splitRoot(svg).open), size);
+  const bleedPx = Math.round((bleedMm / 25.4) * dpi);
+  const width = trim.width + bleedPx * 2;
+  const height = trim.height + bleedPx * 2;
+  const strips = renderStrips(svg, width, height, tileSize);
+
+  switch (format) {
+    case "png":
+      return { width, height, contentType: "image/png", extension: "png", data: await encodePNG(strips, width, height, dpi) };
+    case "tiff":
+      return { width, height, contentType: "image/tiff", extension: "tiff", data: await encodeTIFF(strips, width, height, dpi) };
+    case "pdf":
+      return {
+        width,
+        height,
+        contentType: "application/pdf",
+        extension: "pdf",
+        data: await encodePDF(strips, width, height, dpi, bleedPx),
+      };
+  }
+}
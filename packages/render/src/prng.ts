@@ -1,3 +1,6 @@
+import type { NoiseType } from "@artmint/common";
+import { NOISE_RUNTIME_JS } from "./noise-runtime";
+
 /**
  * Mulberry32 seeded PRNG — deterministic random number generator.
  * Returns a function that produces floats in [0, 1) with each call.
@@ -53,3 +56,47 @@ export function createNoise2D(seed: number): (x: number, y: number) => number {
     return lerp(top, bottom, fy) * 2 - 1; // [-1, 1]
   };
 }
+
+export interface FractalNoiseOptions {
+  /** Basis function; fbm3 only supports "perlin" and "simplex" (the default) */
+  type?: NoiseType;
+  octaves?: number;
+  lacunarity?: number;
+  gain?: number;
+}
+
+export interface WarpNoiseOptions extends FractalNoiseOptions {
+  strength?: number;
+}
+
+export interface CurlNoiseOptions extends FractalNoiseOptions {
+  epsilon?: number;
+}
+
+/** Seeded noise functions, all returning roughly [-1, 1] */
+export interface Noise {
+  value2(x: number, y: number): number;
+  perlin2(x: number, y: number): number;
+  perlin3(x: number, y: number, z: number): number;
+  simplex2(x: number, y: number): number;
+  simplex3(x: number, y: number, z: number): number;
+  fbm2(x: number, y: number, options?: FractalNoiseOptions): number;
+  fbm3(x: number, y: number, z: number, options?: FractalNoiseOptions): number;
+  warp2(x: number, y: number, options?: WarpNoiseOptions): number;
+  /** Divergence-free flow vector [vx, vy] */
+  curl2(x: number, y: number, options?: CurlNoiseOptions): [number, number];
+}
+
+// Evaluated from the same source the HTML artifacts embed, so server
+// renders and in-browser renders share one implementation.
+const noiseFactory = new Function(`${NOISE_RUNTIME_JS}\nreturn createNoise;`)() as (
+  seed: number
+) => Noise;
+
+/**
+ * Seeded gradient/simplex/fBm noise. `value2` matches createNoise2D(seed)
+ * exactly; everything else uses a permutation table shuffled from the seed.
+ */
+export function createNoise(seed: number): Noise {
+  return noiseFactory(seed);
+}
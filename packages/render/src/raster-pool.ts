@@ -0,0 +1,173 @@
+import { Worker } from "worker_threads";
+import { cpus } from "os";
+import { getResvgFontOptions } from "./fonts";
+import { longEdgeFit } from "./png";
+import { encodeAPNG } from "./apng";
+
+export interface RasterPoolOptions {
+  /** Worker threads to rasterise on; each renders one PNG at a time */
+  workers: number;
+}
+
+export const defaultRasterPoolOptions: RasterPoolOptions = {
+  // Leave a core for the event loop
+  workers: Math.max(1, Math.min(4, cpus().length - 1)),
+};
+
+/** A rasterised SVG with its decoded pixels */
+export interface RasterImage {
+  png: Buffer;
+  width: number;
+  height: number;
+  /** RGBA, row-major, 4 bytes per pixel */
+  pixels: Buffer;
+}
+
+export interface RasterPool {
+  /** Same output as renderPNGFromSVG, rendered off the main thread */
+  render(svg: string, size?: number): Promise<Buffer>;
+  /** Like render, also returning the pixels for image analysis */
+  rasterize(svg: string, size?: number): Promise<RasterImage>;
+  /** Same output as renderAPNGFromFrames, with the frames spread across the workers */
+  animate(frames: string[], fps: number, size?: number): Promise<Buffer>;
+  /** Stop all workers; pending renders are rejected */
+  close(): Promise<void>;
+}
+
+// Runs inside each worker. resvg resolves from the host process's working
+// directory, which is the app root in both Next and the test runner; font
+// options arrive as workerData.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { Resvg } = require("@resvg/resvg-js");
+parentPort.on("message", ({ svg, fitTo, withPixels }) => {
+  try {
+    const image = new Resvg(svg, { fitTo, font: workerData.font }).render();
+    const png = image.asPng();
+    parentPort.postMessage(
+      withPixels ? { png, pixels: image.pixels, width: image.width, height: image.height } : { png }
+    );
+  } catch (err) {
+    parentPort.postMessage({ error: err && err.message ? err.message : String(err) });
+  }
+});
+`;
+
+interface RasterResult {
+  png?: Uint8Array;
+  pixels?: Uint8Array;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+interface RasterTask {
+  svg: string;
+  size: number;
+  withPixels: boolean;
+  resolve: (result: RasterResult) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: RasterTask | null;
+}
+
+/**
+ * Create a fixed-size pool of worker threads for PNG rasterisation, so
+ * concurrent renders don't block the event loop or each other. Workers start
+ * on first use, and a worker that dies is replaced on the next render.
+ */
+export function createRasterPool(options: Partial<RasterPoolOptions> = {}): RasterPool {
+  const { workers: maxWorkers } = { ...defaultRasterPoolOptions, ...options };
+  const workers: PoolWorker[] = [];
+  const queue: RasterTask[] = [];
+  let closed = false;
+
+  const finish = (entry: PoolWorker, settle: (task: RasterTask) => void) => {
+    const task = entry.task;
+    entry.task = null;
+    if (task) settle(task);
+    dispatch();
+  };
+
+  const spawn = (): PoolWorker => {
+    const worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { font: getResvgFontOptions() } });
+    // Idle workers must not keep the process alive
+    worker.unref();
+    const entry: PoolWorker = { worker, task: null };
+
+    worker.on("message", (result: RasterResult) => {
+      finish(entry, (task) => (result.png ? task.resolve(result) : task.reject(new Error(result.error))));
+    });
+    const retire = (err: Error) => {
+      // close() may already have removed it; splice(-1) would drop another worker
+      const index = workers.indexOf(entry);
+      if (index !== -1) workers.splice(index, 1);
+      finish(entry, (task) => task.reject(err));
+    };
+    worker.once("error", retire);
+    worker.once("exit", () => {
+      if (workers.includes(entry)) retire(new Error("Raster worker exited unexpectedly"));
+    });
+
+    workers.push(entry);
+    return entry;
+  };
+
+  function dispatch(): void {
+    while (queue.length > 0) {
+      const entry =
+        workers.find((candidate) => candidate.task === null) ??
+        (workers.length < maxWorkers ? spawn() : undefined);
+      if (!entry) return;
+      const task = queue.shift()!;
+      entry.task = task;
+      entry.worker.postMessage({
+        svg: task.svg,
+        fitTo: longEdgeFit(task.svg, task.size),
+        withPixels: task.withPixels,
+      });
+    }
+  }
+
+  const enqueue = (svg: string, size: number, withPixels: boolean): Promise<RasterResult> => {
+    if (closed) return Promise.reject(new Error("Raster pool is closed"));
+    return new Promise((resolve, reject) => {
+      queue.push({ svg, size, withPixels, resolve, reject });
+      dispatch();
+    });
+  };
+
+  return {
+    async render(svg, size = 1080) {
+      const { png } = await enqueue(svg, size, false);
+      return Buffer.from(png!);
+    },
+
+    async rasterize(svg, size = 1080) {
+      const { png, pixels, width, height } = await enqueue(svg, size, true);
+      return { png: Buffer.from(png!), pixels: Buffer.from(pixels!), width: width!, height: height! };
+    },
+
+    async animate(frames, fps, size = 1080) {
+      const pngs = await Promise.all(
+        frames.map(async (svg) => Buffer.from((await enqueue(svg, size, false)).png!))
+      );
+      return encodeAPNG(pngs, fps);
+    },
+
+    async close() {
+      closed = true;
+      const stopped = new Error("Raster pool is closed");
+      for (const task of queue.splice(0)) task.reject(stopped);
+      const entries = workers.splice(0);
+      for (const entry of entries) {
+        entry.task?.reject(stopped);
+        entry.task = null;
+      }
+      await Promise.all(entries.map((entry) => entry.worker.terminate()));
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { generateSVG, type GenerateInput } from "./generate";
+import type { RasterPool } from "./raster-pool";
+
+/** Image statistics used to search seeds for visual properties */
+export interface SeedStats {
+  /** Fraction of pixels that differ visibly from the background color, 0–1 */
+  coverage: number;
+  /** Mean luma of the gamma-encoded image, 0 (black) to 1 (white) */
+  luminance: number;
+  /** Mean red minus blue: positive is warm, negative cool, -1–1 */
+  warmth: number;
+  /** Mean green minus magenta: positive is green, negative magenta, -1–1 */
+  tint: number;
+}
+
+export const seedStatNames = [
+  "coverage",
+  "luminance",
+  "warmth",
+  "tint",
+] as const satisfies readonly (keyof SeedStats)[];
+
+/** Inclusive [min, max] bounds per statistic; omitted statistics match anything */
+export type SeedStatFilters = Partial<Record<keyof SeedStats, readonly [number, number]>>;
+
+/** Largest channel difference, out of 255, still counted as background */
+const BACKGROUND_TOLERANCE = 24;
+
+/**
+ * Statistics of an RGBA pixel buffer. `background` is the palette's first
+ * color, which every template paints behind the artwork.
+ */
+export function computeSeedStats(pixels: ArrayLike<number>, background: string): SeedStats {
+  const bg = [1, 3, 5].map((i) => parseInt(background.slice(i, i + 2), 16));
+  const count = Math.floor(pixels.length / 4);
+  let covered = 0;
+  let luma = 0;
+  let warmth = 0;
+  let tint = 0;
+  for (let p = 0; p < count; p++) {
+    const r = pixels[p * 4]!;
+    const g = pixels[p * 4 + 1]!;
+    const b = pixels[p * 4 + 2]!;
+    if (
+      Math.abs(r - bg[0]!) > BACKGROUND_TOLERANCE ||
+      Math.abs(g - bg[1]!) > BACKGROUND_TOLERANCE ||
+      Math.abs(b - bg[2]!) > BACKGROUND_TOLERANCE
+    ) {
+      covered++;
+    }
+    luma += 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    warmth += r - b;
+    tint += g - (r + b) / 2;
+  }
+  const scale = Math.max(1, count) * 255;
+  return {
+    coverage: count > 0 ? covered / count : 0,
+    luminance: luma / scale,
+    warmth: warmth / scale,
+    tint: tint / scale,
+  };
+}
+
+export function matchesSeedStats(stats: SeedStats, filters: SeedStatFilters): boolean {
+  return seedStatNames.every((name) => {
+    const range = filters[name];
+    return !range || (stats[name] >= range[0] && stats[name] <= range[1]);
+  });
+}
+
+export interface SeedSweepOptions {
+  /** First seed of the page */
+  start: number;
+  /** Seeds to render, starting at `start` */
+  count: number;
+  /** Long edge of each thumbnail in pixels */
+  thumbSize: number;
+  filters: SeedStatFilters;
+}
+
+export const defaultSeedSweepOptions: SeedSweepOptions = {
+  start: 0,
+  count: 24,
+  thumbSize: 160,
+  filters: {},
+};
+
+export interface SeedSweepTile {
+  seed: number;
+  stats: SeedStats;
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Render consecutive seeds of one input as thumbnails and keep those whose
+ * statistics pass the filters. Rasterisation runs on the pool; tiles come
+ * back in seed order.
+ */
+export async function sweepSeeds(
+  input: Omit<GenerateInput, "seed" | "t">,
+  options: Partial<SeedSweepOptions>,
+  pool: Pick<RasterPool, "rasterize">
+): Promise<SeedSweepTile[]> {
+  const { start, count, thumbSize, filters } = { ...defaultSeedSweepOptions, ...options };
+  const seeds = Array.from({ length: count }, (_, i) => start + i);
+  const tiles = await Promise.all(
+    seeds.map(async (seed) => {
+      const { png, pixels, width, height } = await pool.rasterize(generateSVG({ ...input, seed }), thumbSize);
+      return { seed, stats: computeSeedStats(pixels, input.palette[0] ?? "#000000"), png, width, height };
+    })
+  );
+  return tiles.filter((tile) => matchesSeedStats(tile.stats, filters));
+}
+
+export interface ContactSheetOptions {
+  columns: number;
+  /** Space between and around tiles, in pixels */
+  gap: number;
+  background: string;
+  labelColor: string;
+}
+
+export const defaultContactSheetOptions: ContactSheetOptions = {
+  columns: 6,
+  gap: 8,
+  background: "#0b0b0f",
+  labelColor: "#9a9aa8",
+};
+
+const LABEL_HEIGHT = 16;
+
+export interface ContactSheet {
+  svg: string;
+  /** Natural size in pixels; rasterise at this long edge so thumbnails stay 1:1 */
+  width: number;
+  height: number;
+}
+
+/**
+ * Lay thumbnails out in a grid, each captioned with its seed, as one SVG.
+ * Thumbnails are embedded as PNG data URLs, so the sheet costs no more than
+ * the thumbnails already rendered.
+ */
+export function buildContactSheet(
+  tiles: readonly Pick<SeedSweepTile, "seed" | "png" | "width" | "height">[],
+  options: Partial<ContactSheetOptions> = {}
+): ContactSheet {
+  const { columns, gap, background, labelColor } = { ...defaultContactSheetOptions, ...options };
+  const cols = Math.max(1, Math.min(columns, tiles.length));
+  const cellWidth = Math.max(1, ...tiles.map((tile) => tile.width));
+  const cellHeight = Math.max(1, ...tiles.map((tile) => tile.height)) + LABEL_HEIGHT;
+  const rows = Math.ceil(tiles.length / cols);
+  const W = gap + cols * (cellWidth + gap);
+  const H = gap + Math.max(1, rows) * (cellHeight + gap);
+
+  const cells = tiles.map((tile, i) => {
+    const x = gap + (i % cols) * (cellWidth + gap);
+    const y = gap + Math.floor(i / cols) * (cellHeight + gap);
+    return (
+      `<image x="${x}" y="${y}" width="${tile.width}" height="${tile.height}" ` +
+      `href="data:image/png;base64,${tile.png.toString("base64")}"/>` +
+      `<text x="${x}" y="${y + tile.height + LABEL_HEIGHT - 4}" font-family="Source Code Pro" ` +
+      `font-size="11" fill="${labelColor}">${tile.seed}</text>`
+    );
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
+<rect width="${W}" height="${H}" fill="${background}"/>
+${cells.join("\n")}
+</svg>`;
+  return { svg, width: W, height: H };
+}
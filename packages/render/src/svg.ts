@@ -0,0 +1,18 @@
+/** Split a standalone SVG document into its root tag and inner markup */
+export function splitRoot(svg: string): { open: string; body: string } {
+  const openMatch = svg.match(/<svg\b[^>]*>/);
+  const closeIndex = svg.lastIndexOf("</svg>");
+  if (!openMatch || openMatch.index === undefined || closeIndex === -1) {
+    throw new Error("Input is not a standalone SVG document");
+  }
+  const bodyStart = openMatch.index + openMatch[0].length;
+  return { open: openMatch[0], body: svg.slice(bodyStart, closeIndex) };
+}
+
+/** Namespace id="…" with its url(#…) and href="#…" references so fragments can share one document */
+export function prefixIds(body: string, prefix: string): string {
+  return body
+    .replace(/\bid="([^"]+)"/g, `id="${prefix}$1"`)
+    .replace(/url\(#([^)]+)\)/g, `url(#${prefix}$1)`)
+    .replace(/\bhref="#([^"]+)"/g, `href="#${prefix}$1"`);
+}
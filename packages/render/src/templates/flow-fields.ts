@@ -1,45 +1,48 @@
 import type { FlowFieldsParams } from "@artmint/common";
-import { mulberry32, createNoise2D } from "../prng";
+import { mulberry32, createNoise } from "../prng";
+import type { PlotStroke, TemplateRenderInput } from "./types";
 
-interface FlowFieldsInput {
-  seed: number;
-  palette: string[];
-  params: FlowFieldsParams;
+interface FlowLine {
+  color: string;
+  opacity: number;
+  strokeWidth: number;
+  points: [number, number][];
 }
 
-export function renderFlowFields(input: FlowFieldsInput): string {
-  const { seed, palette, params } = input;
+/** Trace every flow line; shared by the SVG renderer and the plotter export */
+function traceFlowLines(input: TemplateRenderInput<FlowFieldsParams>): FlowLine[] {
+  const { seed, palette, params, width: W, height: H, t } = input;
   const rng = mulberry32(seed);
-  const noise = createNoise2D(seed + 1);
-  const SIZE = 1080;
-
-  const paths: string[] = [];
-  const {
-    density,
-    lineWidth,
-    curvature,
-    grain,
-    contrast,
-    fieldScale,
-    lineCount,
-    stepCount,
-    turbulence,
-  } = params;
+  const field = createNoise(seed + 1);
+  // Defaults (single-octave value noise) reproduce the original renderer
+  const fractal = { type: params.noiseType ?? "value", octaves: params.octaves ?? 1 };
+  const noise = (x: number, y: number) => field.fbm2(x, y, fractal);
+  // Field coordinates are normalised against the short edge so the flow
+  // keeps its shape on non-square canvases.
+  const unit = Math.min(W, H);
+  // Animation drifts the field around a closed loop; both offsets are
+  // exactly zero at t = 0 so the first frame equals the static render.
+  const phase = Math.PI * 2 * t;
+  const driftX = Math.sin(phase) * 0.5;
+  const driftY = (1 - Math.cos(phase)) * 0.5;
+
+  const lines: FlowLine[] = [];
+  const { density, lineWidth, curvature, fieldScale, lineCount, stepCount, turbulence } = params;
 
   // Generate flow lines
   for (let i = 0; i < lineCount; i++) {
-    let x = rng() * SIZE;
-    let y = rng() * SIZE;
+    let x = rng() * W;
+    let y = rng() * H;
     const colorIdx = Math.floor(rng() * palette.length);
     const color = palette[colorIdx] ?? palette[0]!;
     const opacity = 0.3 + rng() * 0.7 * density;
-    const sw = lineWidth * (0.5 + rng() * 0.5);
+    const strokeWidth = lineWidth * (0.5 + rng() * 0.5);
 
-    const points: string[] = [`M ${x.toFixed(2)} ${y.toFixed(2)}`];
+    const points: [number, number][] = [[x, y]];
 
     for (let s = 0; s < stepCount; s++) {
-      const nx = x / SIZE * fieldScale;
-      const ny = y / SIZE * fieldScale;
+      const nx = x / unit * fieldScale + driftX;
+      const ny = y / unit * fieldScale + driftY;
       const angle =
         noise(nx, ny) * Math.PI * 2 * curvature +
         noise(nx * 2.3 + 100, ny * 2.3 + 100) * turbulence;
@@ -49,21 +52,35 @@ export function renderFlowFields(input: FlowFieldsInput): string {
       y += Math.sin(angle) * stepSize;
 
       // Wrap around
-      if (x < 0) x += SIZE;
-      if (x > SIZE) x -= SIZE;
-      if (y < 0) y += SIZE;
-      if (y > SIZE) y -= SIZE;
+      if (x < 0) x += W;
+      if (x > W) x -= W;
+      if (y < 0) y += H;
+      if (y > H) y -= H;
 
-      points.push(`L ${x.toFixed(2)} ${y.toFixed(2)}`);
+      points.push([x, y]);
     }
 
-    paths.push(
-      `<path d="${points.join(" ")}" fill="none" stroke="${color}" ` +
-        `stroke-width="${sw.toFixed(2)}" stroke-opacity="${opacity.toFixed(3)}" ` +
-        `stroke-linecap="round" stroke-linejoin="round"/>`
-    );
+    lines.push({ color, opacity, strokeWidth, points });
   }
 
+  return lines;
+}
+
+export function renderFlowFields(input: TemplateRenderInput<FlowFieldsParams>): string {
+  const { seed, palette, params, width: W, height: H } = input;
+  const { grain, contrast } = params;
+
+  const paths = traceFlowLines(input).map(({ color, opacity, strokeWidth, points }) => {
+    const d = points
+      .map(([x, y], i) => `${i === 0 ? "M" : "L"} ${x.toFixed(2)} ${y.toFixed(2)}`)
+      .join(" ");
+    return (
+      `<path d="${d}" fill="none" stroke="${color}" ` +
+      `stroke-width="${strokeWidth.toFixed(2)}" stroke-opacity="${opacity.toFixed(3)}" ` +
+      `stroke-linecap="round" stroke-linejoin="round"/>`
+    );
+  });
+
   // Optional grain overlay
   let grainDefs = "";
   let grainRect = "";
@@ -73,8 +90,8 @@ export function renderFlowFields(input: FlowFieldsInput): string {
     const grainRng = mulberry32(seed + 999);
     const grainCount = Math.floor(grain * 8000);
     for (let g = 0; g < grainCount; g++) {
-      const gx = grainRng() * SIZE;
-      const gy = grainRng() * SIZE;
+      const gx = grainRng() * W;
+      const gy = grainRng() * H;
       const gs = 1 + grainRng() * 2;
       const go = grainRng() * grain * 0.3;
       grainPaths.push(
@@ -89,10 +106,10 @@ export function renderFlowFields(input: FlowFieldsInput): string {
   const bgColor2 = palette[0] ?? "#1a1a2e";
   const bgOpacity = Math.min(1, contrast * 0.5);
 
-  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SIZE} ${SIZE}" width="${SIZE}" height="${SIZE}">
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
 ${grainDefs}
-<rect width="${SIZE}" height="${SIZE}" fill="${bgColor}"/>
-<rect width="${SIZE}" height="${SIZE}" fill="${bgColor2}" opacity="${bgOpacity.toFixed(2)}"/>
+<rect width="${W}" height="${H}" fill="${bgColor}"/>
+<rect width="${W}" height="${H}" fill="${bgColor2}" opacity="${bgOpacity.toFixed(2)}"/>
 <g>
 ${paths.join("\n")}
 </g>
@@ -101,3 +118,26 @@ ${grainRect}
 
   return svg;
 }
+
+/**
+ * Flow lines as plotter strokes. Lines that wrap around a canvas edge are
+ * split there instead of drawing a stroke straight across the image.
+ */
+export function plotFlowFields(input: TemplateRenderInput<FlowFieldsParams>): PlotStroke[] {
+  const { width: W, height: H } = input;
+  const strokes: PlotStroke[] = [];
+  for (const { color, points } of traceFlowLines(input)) {
+    let current: [number, number][] = [points[0]!];
+    for (let i = 1; i < points.length; i++) {
+      const [px, py] = points[i - 1]!;
+      const [x, y] = points[i]!;
+      if (Math.abs(x - px) > W / 2 || Math.abs(y - py) > H / 2) {
+        if (current.length > 1) strokes.push({ color, points: current });
+        current = [];
+      }
+      current.push([x, y]);
+    }
+    if (current.length > 1) strokes.push({ color, points: current });
+  }
+  return strokes;
+}
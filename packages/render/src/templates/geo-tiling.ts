@@ -0,0 +1,253 @@
+import type { GeoTilingParams } from "@artmint/common";
+import { mulberry32 } from "../prng";
+import type { PlotStroke, TemplateRenderInput } from "./types";
+
+interface ShapeStyle {
+  color: string;
+  filled: boolean;
+  opacity: number;
+}
+
+type GeoShape =
+  | ({ kind: "circle"; cx: number; cy: number; r: number } & ShapeStyle)
+  | ({ kind: "rect"; x: number; y: number; w: number; h: number } & ShapeStyle)
+  /** Quarter circle around (cx, cy) from angle `start` to `start + π/2` */
+  | ({ kind: "arc"; cx: number; cy: number; r: number; start: number } & ShapeStyle);
+
+/**
+ * Pick accent colors (everything after the background) with weights that
+ * fall off geometrically; weighting 0 is uniform, 1 strongly favors the first.
+ */
+function weightedPicker(palette: string[], weighting: number, rng: () => number): () => string {
+  const accents = palette.length > 1 ? palette.slice(1) : palette;
+  const falloff = 1 - weighting * 0.85;
+  const weights = accents.map((_, i) => falloff ** i);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return () => {
+    let roll = rng() * total;
+    for (let i = 0; i < accents.length; i++) {
+      roll -= weights[i]!;
+      if (roll < 0) return accents[i]!;
+    }
+    return accents[accents.length - 1]!;
+  };
+}
+
+/**
+ * Dart-throwing circle packing. Each accepted circle grows as large as the
+ * current cap allows without touching its neighbors; the cap shrinks over
+ * the run so big circles land first and small ones fill the gaps.
+ */
+function packCircles(
+  params: GeoTilingParams,
+  W: number,
+  H: number,
+  rng: () => number,
+  style: () => ShapeStyle
+): GeoShape[] {
+  const lo = Math.min(params.minRadius, params.maxRadius);
+  const hi = Math.max(params.minRadius, params.maxRadius);
+  const gap = params.strokeWidth;
+  const attempts = Math.round(300 + params.packingDensity * 5700);
+
+  // Spatial hash: any circle that can constrain a new one is in the 3x3 block
+  const cellSize = hi * 2 + gap;
+  const grid = new Map<string, { cx: number; cy: number; r: number }[]>();
+  const shapes: GeoShape[] = [];
+
+  for (let a = 0; a < attempts; a++) {
+    const cx = rng() * W;
+    const cy = rng() * H;
+    const cap = lo + (hi - lo) * (1 - a / attempts) ** 2;
+    const gx = Math.floor(cx / cellSize);
+    const gy = Math.floor(cy / cellSize);
+
+    let r = cap;
+    for (let dx = -1; dx <= 1 && r >= lo; dx++) {
+      for (let dy = -1; dy <= 1 && r >= lo; dy++) {
+        for (const other of grid.get(`${gx + dx},${gy + dy}`) ?? []) {
+          r = Math.min(r, Math.hypot(cx - other.cx, cy - other.cy) - other.r - gap);
+        }
+      }
+    }
+    if (r < lo) continue;
+
+    const key = `${gx},${gy}`;
+    grid.set(key, [...(grid.get(key) ?? []), { cx, cy, r }]);
+    shapes.push({ kind: "circle", cx, cy, r, ...style() });
+  }
+  return shapes;
+}
+
+/**
+ * Recursive quadtree. Every cell above the requested depth splits with a
+ * chance set by packing density, never below the minimum cell size; leaves
+ * become inset squares, some with an inscribed circle.
+ */
+function subdivide(
+  params: GeoTilingParams,
+  W: number,
+  H: number,
+  rng: () => number,
+  style: () => ShapeStyle
+): GeoShape[] {
+  const lo = Math.min(params.minRadius, params.maxRadius);
+  const hi = Math.max(params.minRadius, params.maxRadius);
+  const gap = params.strokeWidth;
+  const splitChance = 0.35 + params.packingDensity * 0.6;
+  const shapes: GeoShape[] = [];
+
+  const visit = (x: number, y: number, w: number, h: number, level: number) => {
+    // Children must stay larger than the minimum size and the outline inset
+    const canSplit = level < params.subdivisionDepth && Math.min(w, h) / 2 >= Math.max(lo * 2, gap * 3);
+    if (canSplit && (level === 0 || rng() < splitChance)) {
+      const hw = w / 2;
+      const hh = h / 2;
+      visit(x, y, hw, hh, level + 1);
+      visit(x + hw, y, hw, hh, level + 1);
+      visit(x, y + hh, hw, hh, level + 1);
+      visit(x + hw, y + hh, hw, hh, level + 1);
+      return;
+    }
+
+    shapes.push({ kind: "rect", x: x + gap / 2, y: y + gap / 2, w: w - gap, h: h - gap, ...style() });
+    const inner = Math.min(Math.min(w, h) / 2 - gap * 2, hi);
+    if (rng() < 0.5 && inner >= lo) {
+      shapes.push({ kind: "circle", cx: x + w / 2, cy: y + h / 2, r: inner, ...style() });
+    }
+  };
+
+  visit(0, 0, W, H, 0);
+  return shapes;
+}
+
+/**
+ * Smith-style Truchet tiles: each square carries two quarter circles on
+ * opposite corners, in one of two orientations, so arcs join across tiles.
+ * The grid doubles per depth level along the short edge.
+ */
+function truchet(
+  params: GeoTilingParams,
+  W: number,
+  H: number,
+  rng: () => number,
+  style: () => ShapeStyle
+): GeoShape[] {
+  const size = Math.min(W, H) / 2 ** params.subdivisionDepth;
+  const r = size / 2;
+  const drawChance = 0.4 + params.packingDensity * 0.6;
+  const shapes: GeoShape[] = [];
+
+  for (let row = 0; row * size < H; row++) {
+    for (let col = 0; col * size < W; col++) {
+      const flipped = rng() < 0.5;
+      if (rng() >= drawChance) continue;
+      const x = col * size;
+      const y = row * size;
+      if (flipped) {
+        shapes.push({ kind: "arc", cx: x + size, cy: y, r, start: Math.PI / 2, ...style() });
+        shapes.push({ kind: "arc", cx: x, cy: y + size, r, start: -Math.PI / 2, ...style() });
+      } else {
+        shapes.push({ kind: "arc", cx: x, cy: y, r, start: 0, ...style() });
+        shapes.push({ kind: "arc", cx: x + size, cy: y + size, r, start: Math.PI, ...style() });
+      }
+    }
+  }
+  return shapes;
+}
+
+/** Lay out the tiling; shared by the SVG renderer and the plotter export */
+function composeGeoTiling(input: TemplateRenderInput<GeoTilingParams>): GeoShape[] {
+  const { seed, palette, params, width: W, height: H } = input;
+  const rng = mulberry32(seed);
+  const pick = weightedPicker(palette, params.paletteWeighting, rng);
+  const style = (): ShapeStyle => ({
+    color: pick(),
+    filled: rng() >= params.strokeRatio,
+    opacity: 0.55 + rng() * 0.45,
+  });
+
+  switch (params.pattern) {
+    case "quadtree":
+      return subdivide(params, W, H, rng, style);
+    case "truchet":
+      return truchet(params, W, H, rng, style);
+    default:
+      return packCircles(params, W, H, rng, style);
+  }
+}
+
+function arcEnds(cx: number, cy: number, r: number, start: number): [[number, number], [number, number]] {
+  const end = start + Math.PI / 2;
+  return [
+    [cx + Math.cos(start) * r, cy + Math.sin(start) * r],
+    [cx + Math.cos(end) * r, cy + Math.sin(end) * r],
+  ];
+}
+
+export function renderGeoTiling(input: TemplateRenderInput<GeoTilingParams>): string {
+  const { palette, params, width: W, height: H, t } = input;
+  const shapes = composeGeoTiling(input);
+  // Shapes pulse in opacity; each term is exactly zero at t = 0.
+  const phase = Math.PI * 2 * t;
+  const pulse = (i: number) => 1 + 0.25 * (Math.sin(phase + i * 0.7) - Math.sin(i * 0.7));
+
+  const elements: string[] = [];
+  const bgColor = palette[0] ?? "#f5f1e8";
+  elements.push(`<rect width="${W}" height="${H}" fill="${bgColor}"/>`);
+
+  shapes.forEach((shape, i) => {
+    const opacity = Math.min(1, shape.opacity * pulse(i));
+    const paint = shape.filled
+      ? `fill="${shape.color}"`
+      : `fill="none" stroke="${shape.color}" stroke-width="${params.strokeWidth.toFixed(1)}"`;
+    const common = `${paint} opacity="${opacity.toFixed(3)}"`;
+
+    if (shape.kind === "circle") {
+      elements.push(
+        `<circle cx="${shape.cx.toFixed(1)}" cy="${shape.cy.toFixed(1)}" r="${shape.r.toFixed(1)}" ${common}/>`
+      );
+    } else if (shape.kind === "rect") {
+      elements.push(
+        `<rect x="${shape.x.toFixed(1)}" y="${shape.y.toFixed(1)}" ` +
+          `width="${shape.w.toFixed(1)}" height="${shape.h.toFixed(1)}" ${common}/>`
+      );
+    } else {
+      const [[x0, y0], [x1, y1]] = arcEnds(shape.cx, shape.cy, shape.r, shape.start);
+      const r = shape.r.toFixed(1);
+      const arc = `M ${x0.toFixed(1)} ${y0.toFixed(1)} A ${r} ${r} 0 0 1 ${x1.toFixed(1)} ${y1.toFixed(1)}`;
+      // Filled arcs are closed into quarter-disc wedges
+      const d = shape.filled ? `M ${shape.cx.toFixed(1)} ${shape.cy.toFixed(1)} L ${arc.slice(2)} Z` : arc;
+      elements.push(`<path d="${d}" ${common} stroke-linecap="round"/>`);
+    }
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
+${elements.join("\n")}
+</svg>`;
+}
+
+/**
+ * Shape outlines as plotter strokes; fills have no pen equivalent, so
+ * filled and outlined shapes plot the same. Curves become polylines whose
+ * segments are at most a few canvas units long.
+ */
+export function plotGeoTiling(input: TemplateRenderInput<GeoTilingParams>): PlotStroke[] {
+  return composeGeoTiling(input).map((shape): PlotStroke => {
+    const { color } = shape;
+    if (shape.kind === "rect") {
+      const { x, y, w, h } = shape;
+      return { color, points: [[x, y], [x + w, y], [x + w, y + h], [x, y + h], [x, y]] };
+    }
+
+    const sweep = shape.kind === "circle" ? Math.PI * 2 : Math.PI / 2;
+    const start = shape.kind === "circle" ? 0 : shape.start;
+    const sides = Math.max(shape.kind === "circle" ? 24 : 6, Math.ceil((sweep * shape.r) / 4));
+    const points: [number, number][] = [];
+    for (let i = 0; i <= sides; i++) {
+      const a = start + (i / sides) * sweep;
+      points.push([shape.cx + Math.cos(a) * shape.r, shape.cy + Math.sin(a) * shape.r]);
+    }
+    return { color, points };
+  });
+}
@@ -0,0 +1,32 @@
+import type { RenderableTemplateId, TemplateParams } from "@artmint/common";
+import { renderFlowFields, plotFlowFields } from "./flow-fields";
+import { renderJazzNoir, plotJazzNoir } from "./jazz-noir";
+import { renderGeoTiling, plotGeoTiling } from "./geo-tiling";
+import { renderStrangeAttractor } from "./strange-attractor";
+import { renderTypography } from "./typography";
+import type { TemplatePlotter, TemplateRenderer } from "./types";
+
+export type { TemplateRenderer, TemplateRenderInput, TemplatePlotter, PlotStroke } from "./types";
+
+/**
+ * Renderers for every entry in the common template registry.
+ * The mapped type makes a missing renderer a compile error.
+ */
+export const templateRenderers: {
+  [K in RenderableTemplateId]: TemplateRenderer<TemplateParams<K>>;
+} = {
+  flow_fields: renderFlowFields,
+  jazz_noir: renderJazzNoir,
+  geo_tiling: renderGeoTiling,
+  strange_attractor: renderStrangeAttractor,
+  typography: renderTypography,
+};
+
+/** Plotter geometry for the line-based templates; others cannot be plotted */
+export const templatePlotters: {
+  [K in RenderableTemplateId]?: TemplatePlotter<TemplateParams<K>>;
+} = {
+  flow_fields: plotFlowFields,
+  jazz_noir: plotJazzNoir,
+  geo_tiling: plotGeoTiling,
+};
@@ -1,70 +1,98 @@
 import type { JazzNoirParams } from "@artmint/common";
-import { mulberry32, createNoise2D } from "../prng";
+import { mulberry32, createNoise } from "../prng";
+import type { PlotStroke, TemplateRenderInput } from "./types";
 
-interface JazzNoirInput {
-  seed: number;
-  palette: string[];
-  params: JazzNoirParams;
+interface JazzNoirScene {
+  bands: { color: string; opacity: number; ridge: [number, number][] }[];
+  circles: { cx: number; cy: number; r: number; color: string; opacity: number; strokeWidth: number }[];
+  lines: { x1: number; y1: number; x2: number; y2: number; color: string; opacity: number; strokeWidth: number }[];
 }
 
-export function renderJazzNoir(input: JazzNoirInput): string {
-  const { seed, palette, params } = input;
+/** Lay out the skyline, circles and neon lines; shared by the SVG renderer and the plotter export */
+function composeJazzNoir(input: TemplateRenderInput<JazzNoirParams>): JazzNoirScene {
+  const { seed, palette, params, width: W, height: H, t } = input;
+  // Neon flicker is animated; every term reduces to an exact no-op at t = 0.
+  const phase = Math.PI * 2 * t;
+  const flicker = (i: number) => 1 + 0.3 * (Math.sin(phase * 2 + i) - Math.sin(i));
   const rng = mulberry32(seed);
-  const noise = createNoise2D(seed + 42);
-  const SIZE = 1080;
-
-  const {
-    neonIntensity,
-    skylineBands,
-    glow,
-    rainGrain,
-    circleCount,
-    lineCount,
-    depth,
-    blur,
-  } = params;
+  const field = createNoise(seed + 42);
+  const fractal = { type: params.noiseType ?? "value", octaves: params.octaves ?? 1 };
+  const noise = (x: number, y: number) => field.fbm2(x, y, fractal);
 
-  const elements: string[] = [];
-
-  // Dark background
-  const bgColor = palette[0] ?? "#0a0a0f";
-  elements.push(`<rect width="${SIZE}" height="${SIZE}" fill="${bgColor}"/>`);
+  const { neonIntensity, skylineBands, circleCount, lineCount, depth } = params;
+  const scene: JazzNoirScene = { bands: [], circles: [], lines: [] };
 
   // Skyline bands — horizontal layers
   for (let b = 0; b < skylineBands; b++) {
-    const bandY = SIZE * (0.3 + (b / skylineBands) * 0.6);
-    const bandH = SIZE * (0.02 + rng() * 0.08) * depth;
+    const bandY = H * (0.3 + (b / skylineBands) * 0.6);
+    const bandH = H * (0.02 + rng() * 0.08) * depth;
     const color = palette[(b + 1) % palette.length] ?? "#1a0a2e";
     const opacity = 0.1 + rng() * 0.3;
 
     // Create jagged skyline points
-    const points: string[] = [];
+    const ridge: [number, number][] = [];
     const segments = 20 + Math.floor(rng() * 20);
     for (let s = 0; s <= segments; s++) {
-      const sx = (s / segments) * SIZE;
+      const sx = (s / segments) * W;
       const n = noise(s * 0.3 + b * 10, b * 5.7) * bandH;
-      const sy = bandY + n;
-      points.push(`${sx.toFixed(1)},${sy.toFixed(1)}`);
+      ridge.push([sx, bandY + n]);
     }
-    // Close the shape at bottom
-    points.push(`${SIZE},${SIZE}`);
-    points.push(`0,${SIZE}`);
-
-    elements.push(
-      `<polygon points="${points.join(" ")}" fill="${color}" opacity="${opacity.toFixed(3)}"/>`
-    );
+    scene.bands.push({ color, opacity, ridge });
   }
 
   // Neon circles
   for (let c = 0; c < circleCount; c++) {
-    const cx = rng() * SIZE;
-    const cy = rng() * SIZE * 0.7 + SIZE * 0.1;
+    const cx = rng() * W;
+    const cy = rng() * H * 0.7 + H * 0.1;
     const r = 10 + rng() * 80 * depth;
     const colorIdx = 1 + Math.floor(rng() * (palette.length - 1));
     const color = palette[colorIdx] ?? "#ff6b35";
-    const opacity = neonIntensity * (0.2 + rng() * 0.6);
-    const sw = 1 + rng() * 3;
+    const opacity = neonIntensity * (0.2 + rng() * 0.6) * flicker(c);
+    const strokeWidth = 1 + rng() * 3;
+    scene.circles.push({ cx, cy, r, color, opacity, strokeWidth });
+  }
+
+  // Neon lines — horizontal and diagonal streaks
+  for (let l = 0; l < lineCount; l++) {
+    const x1 = rng() * W;
+    const y1 = rng() * H;
+    const angle = rng() * Math.PI * 0.4 - Math.PI * 0.2; // mostly horizontal
+    const len = 50 + rng() * 300 * depth;
+    const x2 = x1 + Math.cos(angle) * len;
+    const y2 = y1 + Math.sin(angle) * len;
+    const colorIdx = 1 + Math.floor(rng() * (palette.length - 1));
+    const color = palette[colorIdx] ?? "#00d4ff";
+    const opacity = neonIntensity * (0.3 + rng() * 0.5) * flicker(l + circleCount);
+    const strokeWidth = 0.5 + rng() * 2;
+    scene.lines.push({ x1, y1, x2, y2, color, opacity, strokeWidth });
+  }
+
+  return scene;
+}
+
+export function renderJazzNoir(input: TemplateRenderInput<JazzNoirParams>): string {
+  const { seed, palette, params, width: W, height: H, t } = input;
+  const { glow, rainGrain, blur } = params;
+  const scene = composeJazzNoir(input);
+
+  const elements: string[] = [];
+
+  // Dark background
+  const bgColor = palette[0] ?? "#0a0a0f";
+  elements.push(`<rect width="${W}" height="${H}" fill="${bgColor}"/>`);
+
+  for (const { color, opacity, ridge } of scene.bands) {
+    const points = ridge.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`);
+    // Close the shape at bottom
+    points.push(`${W},${H}`);
+    points.push(`0,${H}`);
 
+    elements.push(
+      `<polygon points="${points.join(" ")}" fill="${color}" opacity="${opacity.toFixed(3)}"/>`
+    );
+  }
+
+  for (const { cx, cy, r, color, opacity, strokeWidth: sw } of scene.circles) {
     elements.push(
       `<circle cx="${cx.toFixed(1)}" cy="${cy.toFixed(1)}" r="${r.toFixed(1)}" ` +
         `fill="none" stroke="${color}" stroke-width="${sw.toFixed(1)}" ` +
@@ -81,19 +109,7 @@ export function renderJazzNoir(input: JazzNoirInput): string {
     }
   }
 
-  // Neon lines — horizontal and diagonal streaks
-  for (let l = 0; l < lineCount; l++) {
-    const x1 = rng() * SIZE;
-    const y1 = rng() * SIZE;
-    const angle = rng() * Math.PI * 0.4 - Math.PI * 0.2; // mostly horizontal
-    const len = 50 + rng() * 300 * depth;
-    const x2 = x1 + Math.cos(angle) * len;
-    const y2 = y1 + Math.sin(angle) * len;
-    const colorIdx = 1 + Math.floor(rng() * (palette.length - 1));
-    const color = palette[colorIdx] ?? "#00d4ff";
-    const opacity = neonIntensity * (0.3 + rng() * 0.5);
-    const sw = 0.5 + rng() * 2;
-
+  for (const { x1, y1, x2, y2, color, opacity, strokeWidth: sw } of scene.lines) {
     elements.push(
       `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" ` +
         `stroke="${color}" stroke-width="${sw.toFixed(1)}" opacity="${opacity.toFixed(3)}" ` +
@@ -107,8 +123,8 @@ export function renderJazzNoir(input: JazzNoirInput): string {
     const rainCount = Math.floor(rainGrain * 3000);
     const rainElements: string[] = [];
     for (let r = 0; r < rainCount; r++) {
-      const rx = rainRng() * SIZE;
-      const ry = rainRng() * SIZE;
+      const rx = rainRng() * W;
+      const ry = (rainRng() * H + t * H) % H;
       const rlen = 3 + rainRng() * 15;
       const ro = rainRng() * rainGrain * 0.2;
       rainElements.push(
@@ -128,7 +144,7 @@ export function renderJazzNoir(input: JazzNoirInput): string {
     filterAttr = ` filter="url(#glow)"`;
   }
 
-  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SIZE} ${SIZE}" width="${SIZE}" height="${SIZE}">
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
 ${filterDef}
 <g${filterAttr}>
 ${elements.join("\n")}
@@ -137,3 +153,28 @@ ${elements.join("\n")}
 
   return svg;
 }
+
+/**
+ * Skyline ridges, neon circles and neon lines as plotter strokes. Fills,
+ * glow rings and rain are left out; circles become polygons fine enough
+ * that each side is at most a few canvas units long.
+ */
+export function plotJazzNoir(input: TemplateRenderInput<JazzNoirParams>): PlotStroke[] {
+  const scene = composeJazzNoir(input);
+  const strokes: PlotStroke[] = scene.bands.map(({ color, ridge }) => ({ color, points: ridge }));
+
+  for (const { cx, cy, r, color } of scene.circles) {
+    const sides = Math.max(24, Math.ceil((Math.PI * 2 * r) / 4));
+    const points: [number, number][] = [];
+    for (let i = 0; i <= sides; i++) {
+      const a = (i / sides) * Math.PI * 2;
+      points.push([cx + Math.cos(a) * r, cy + Math.sin(a) * r]);
+    }
+    strokes.push({ color, points });
+  }
+
+  for (const { x1, y1, x2, y2, color } of scene.lines) {
+    strokes.push({ color, points: [[x1, y1], [x2, y2]] });
+  }
+  return strokes;
+}
@@ -0,0 +1,185 @@
+import type { StrangeAttractorParams } from "@artmint/common";
+import { mulberry32 } from "../prng";
+import type { TemplateRenderInput } from "./types";
+
+/** Orbit steps discarded before plotting so the start point doesn't show */
+const WARMUP = 100;
+/** Lorenz integration step; small enough for forward Euler to stay on the attractor */
+const LORENZ_DT = 0.005;
+/** Fraction of the short edge left empty around the cloud */
+const MARGIN = 0.08;
+
+type Stepper = () => [number, number];
+
+/**
+ * Orbit generator for the chosen attractor, yielding one projected 2D point
+ * per call. Clifford and De Jong use the coefficients directly; Lorenz maps
+ * them onto its classic constants (σ = 10 + a, ρ = 28 + 4b, β = 8/3 + c/3)
+ * and uses d to turn the view around the z axis.
+ */
+function createStepper(
+  attractor: StrangeAttractorParams["attractor"],
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  rng: () => number
+): Stepper {
+  if (attractor === "lorenz") {
+    const sigma = 10 + a;
+    const rho = 28 + b * 4;
+    const beta = 8 / 3 + c / 3;
+    const cos = Math.cos((d * Math.PI) / 3);
+    const sin = Math.sin((d * Math.PI) / 3);
+    let x = 1 + rng();
+    let y = 1 + rng();
+    let z = 20 + rng();
+    return () => {
+      const dx = sigma * (y - x);
+      const dy = x * (rho - z) - y;
+      const dz = x * y - beta * z;
+      x += dx * LORENZ_DT;
+      y += dy * LORENZ_DT;
+      z += dz * LORENZ_DT;
+      return [x * cos - y * sin, -z];
+    };
+  }
+
+  let x = rng() * 0.2 - 0.1;
+  let y = rng() * 0.2 - 0.1;
+  if (attractor === "dejong") {
+    return () => {
+      const nx = Math.sin(a * y) - Math.cos(b * x);
+      y = Math.sin(c * x) - Math.cos(d * y);
+      x = nx;
+      return [x, y];
+    };
+  }
+  return () => {
+    const nx = Math.sin(a * y) + c * Math.cos(a * x);
+    y = Math.sin(b * x) + d * Math.cos(b * y);
+    x = nx;
+    return [x, y];
+  };
+}
+
+function mixHex(from: string, to: string, amount: number): string {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  let out = "#";
+  for (let i = 0; i < 3; i++) {
+    const value = Math.round(channel(from, i) + (channel(to, i) - channel(from, i)) * amount);
+    out += value.toString(16).padStart(2, "0");
+  }
+  return out;
+}
+
+/** Color of density level `level`, counted from the faintest */
+function levelColor(palette: string[], params: StrangeAttractorParams, level: number): string {
+  const accents = palette.length > 1 ? palette.slice(1) : palette;
+  if (params.colorMode === "mono") return accents[accents.length - 1]!;
+  if (params.colorMode === "bands") return accents[level % accents.length]!;
+
+  // Gradient: walk the accents from first to last as density rises
+  const position = (level / (params.levels - 1)) * (accents.length - 1);
+  const i = Math.min(Math.floor(position), accents.length - 2);
+  if (i < 0) return accents[0]!;
+  return mixHex(accents[i]!, accents[i + 1]!, position - i);
+}
+
+export function renderStrangeAttractor(input: TemplateRenderInput<StrangeAttractorParams>): string {
+  const { seed, palette, params, width: W, height: H, t } = input;
+  // Coefficients drift in a loop; each term is exactly zero at t = 0.
+  const phase = Math.PI * 2 * t;
+  const drift = (offset: number) => 0.06 * (Math.sin(phase + offset) - Math.sin(offset));
+  const a = params.a + drift(0);
+  const b = params.b + drift(1.3);
+  const c = params.c + drift(2.6);
+  const d = params.d + drift(3.9);
+
+  // Two passes over the same orbit: the first finds its bounds, the second bins it
+  const orbit = () => {
+    const step = createStepper(params.attractor, a, b, c, d, mulberry32(seed));
+    for (let i = 0; i < WARMUP; i++) step();
+    return step;
+  };
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  const probe = orbit();
+  for (let i = 0; i < params.iterations; i++) {
+    const [x, y] = probe();
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+
+  // Fit the cloud into the canvas, preserving its aspect ratio
+  const spanX = Math.max(maxX - minX, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const margin = Math.min(W, H) * MARGIN;
+  const scale = Math.min((W - margin * 2) / spanX, (H - margin * 2) / spanY);
+  const offsetX = (W - spanX * scale) / 2 - minX * scale;
+  const offsetY = (H - spanY * scale) / 2 - minY * scale;
+
+  const cell = Math.max(W, H) / params.resolution;
+  const cols = Math.ceil(W / cell);
+  const rows = Math.ceil(H / cell);
+  const counts = new Uint32Array(cols * rows);
+  let peak = 0;
+  const step = orbit();
+  for (let i = 0; i < params.iterations; i++) {
+    const [x, y] = step();
+    const col = Math.min(cols - 1, Math.max(0, Math.floor((x * scale + offsetX) / cell)));
+    const row = Math.min(rows - 1, Math.max(0, Math.floor((y * scale + offsetY) / cell)));
+    const n = counts[row * cols + col]! + 1;
+    counts[row * cols + col] = n;
+    if (n > peak) peak = n;
+  }
+
+  // Quantize log density into levels, then merge runs of equal level per
+  // row into one rectangle so the SVG stays compact. Orbits pile up in a few
+  // hot spots, so a linear scale would leave almost everything faint.
+  const paths: string[][] = Array.from({ length: params.levels }, () => []);
+  const logPeak = Math.log1p(peak);
+  const levelAt = (i: number) => {
+    const n = counts[i]!;
+    if (n === 0) return -1;
+    const density = (Math.log1p(n) / logPeak) ** params.gamma;
+    return Math.min(params.levels - 1, Math.floor(density * params.levels));
+  };
+  for (let row = 0; row < rows; row++) {
+    let col = 0;
+    while (col < cols) {
+      const level = levelAt(row * cols + col);
+      let end = col + 1;
+      while (end < cols && levelAt(row * cols + end) === level) end++;
+      if (level >= 0) {
+        paths[level]!.push(
+          `M${(col * cell).toFixed(1)} ${(row * cell).toFixed(1)}` +
+            `h${((end - col) * cell).toFixed(1)}v${cell.toFixed(1)}h${(-(end - col) * cell).toFixed(1)}z`
+        );
+      }
+      col = end;
+    }
+  }
+
+  const elements: string[] = [];
+  const bgColor = palette[0] ?? "#05060f";
+  elements.push(`<rect width="${W}" height="${H}" fill="${bgColor}"/>`);
+  paths.forEach((cells, level) => {
+    if (cells.length === 0) return;
+    const opacity = 0.2 + (0.8 * (level + 1)) / params.levels;
+    elements.push(
+      `<path d="${cells.join("")}" fill="${levelColor(palette, params, level)}" opacity="${opacity.toFixed(3)}"/>`
+    );
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
+<g shape-rendering="crispEdges">
+${elements.join("\n")}
+</g>
+</svg>`;
+}
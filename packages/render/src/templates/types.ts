@@ -0,0 +1,27 @@
+export interface TemplateRenderInput<P> {
+  seed: number;
+  palette: string[];
+  params: P;
+  /** Canvas size in SVG user units; also the viewBox */
+  width: number;
+  height: number;
+  /**
+   * Normalised loop time in [0, 1). Frame 0 must match the static render
+   * exactly and t → 1 must wrap back to it, so animations loop seamlessly.
+   */
+  t: number;
+}
+
+export type TemplateRenderer<P> = (input: TemplateRenderInput<P>) => string;
+
+/** One continuous pen-down stroke, in canvas units */
+export interface PlotStroke {
+  color: string;
+  points: [number, number][];
+}
+
+/**
+ * Stroke geometry for pen plotters: the template's line work only, without
+ * fills, opacity, grain or glow.
+ */
+export type TemplatePlotter<P> = (input: TemplateRenderInput<P>) => PlotStroke[];
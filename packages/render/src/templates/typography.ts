@@ -0,0 +1,155 @@
+import type { TypographyParams } from "@artmint/common";
+import { getFontOutlines, type GlyphOutline } from "../fonts";
+import { mulberry32, createNoise } from "../prng";
+import type { TemplateRenderInput } from "./types";
+
+/** Most glyphs a single flow line may carry before it is cut off */
+const MAX_FLOW_GLYPHS = 200;
+
+interface PlacedGlyph {
+  glyph: GlyphOutline;
+  /** Center of the glyph's advance box, in canvas units */
+  cx: number;
+  cy: number;
+  /** Degrees clockwise */
+  rotation: number;
+  /** Canvas units per font unit */
+  scale: number;
+  color: string;
+  outlined: boolean;
+}
+
+/** Collapse whitespace so line breaks and tabs set as single spaces */
+function phraseOf(text: string): string[] {
+  return Array.from(text.replace(/\s+/g, " ").trim());
+}
+
+export function renderTypography(input: TemplateRenderInput<TypographyParams>): string {
+  const { seed, palette, params, width: W, height: H, t } = input;
+  const font = getFontOutlines(params.font);
+  const rng = mulberry32(seed);
+  const phase = Math.PI * 2 * t;
+  const accents = palette.length > 1 ? palette.slice(1) : palette;
+  const pickColor = () => accents[Math.floor(rng() * accents.length)]!;
+
+  const scale = params.fontSize / font.unitsPerEm;
+  const phrase = phraseOf(params.text).map((char) => font.glyph(char));
+  const space = font.glyph(" ");
+  // Phrase followed by a word space, the unit that repeats along rows and paths
+  const cycle = [...phrase, space];
+  const cycleWidth = cycle.reduce((sum, glyph) => sum + glyph.advance, 0) * scale;
+
+  const placed: PlacedGlyph[] = [];
+
+  if (params.layout === "grid") {
+    // Kinetic grid: rows of the repeated phrase, alternate rows sliding in
+    // opposite directions. The slide is exactly zero at t = 0.
+    const rowHeight = H / params.repetitions;
+    const amplitude = cycleWidth / 2;
+    for (let row = 0; row < params.repetitions; row++) {
+      const color = accents[row % accents.length]!;
+      const direction = row % 2 === 0 ? 1 : -1;
+      const slide = direction * amplitude * (Math.sin(phase + row * 0.9) - Math.sin(row * 0.9));
+      let x = -cycleWidth - amplitude * 2 - rng() * cycleWidth;
+      const centerY = (row + 0.5) * rowHeight;
+      for (let i = 0; x < W + amplitude * 2; i++) {
+        const glyph = cycle[i % cycle.length]!;
+        const width = glyph.advance * scale;
+        const dy = (rng() - 0.5) * params.jitter * params.fontSize * 0.5;
+        const rotation = (rng() - 0.5) * params.jitter * 30;
+        const outlined = rng() < params.outlineRatio;
+        placed.push({ glyph, cx: x + slide + width / 2, cy: centerY + dy, rotation, scale, color, outlined });
+        x += width;
+      }
+    }
+  } else if (params.layout === "scatter") {
+    // Glyph scatter: every copy of the phrase breaks apart across the canvas
+    let i = 0;
+    for (let copy = 0; copy < params.repetitions; copy++) {
+      for (const glyph of phrase) {
+        const cx = rng() * W;
+        const cy = rng() * H;
+        const size = 0.5 + rng();
+        const tumble = 20 * (Math.sin(phase + i * 0.9) - Math.sin(i * 0.9));
+        const rotation = (rng() - 0.5) * params.jitter * 360 + tumble;
+        const outlined = rng() < params.outlineRatio;
+        placed.push({ glyph, cx, cy, rotation, scale: scale * size, color: pickColor(), outlined });
+        i++;
+      }
+    }
+  } else {
+    // Outlined text along flow-field paths. Field coordinates follow the
+    // short edge; the drift loops and is exactly zero at t = 0.
+    const field = createNoise(seed + 7);
+    const unit = Math.min(W, H);
+    const driftX = Math.sin(phase) * 0.3;
+    const driftY = (1 - Math.cos(phase)) * 0.3;
+    const angleAt = (x: number, y: number) =>
+      field.fbm2((x / unit) * params.fieldScale + driftX, (y / unit) * params.fieldScale + driftY, {
+        type: "simplex",
+        octaves: 2,
+      }) * Math.PI;
+    const stepLength = params.fontSize / 8;
+
+    for (let line = 0; line < params.repetitions; line++) {
+      let x = rng() * W;
+      let y = rng() * H;
+      const color = pickColor();
+      const wobblePhase = rng() * Math.PI * 2;
+      // Walk `distance` along the field in short steps so the path stays smooth
+      const walk = (distance: number) => {
+        for (let left = distance; left > 0; left -= stepLength) {
+          const angle = angleAt(x, y);
+          const step = Math.min(stepLength, left);
+          x += Math.cos(angle) * step;
+          y += Math.sin(angle) * step;
+        }
+      };
+      const inside = () =>
+        x > -params.fontSize && x < W + params.fontSize && y > -params.fontSize && y < H + params.fontSize;
+
+      for (let i = 0; i < MAX_FLOW_GLYPHS && inside(); i++) {
+        const glyph = cycle[i % cycle.length]!;
+        const half = (glyph.advance * scale) / 2;
+        walk(half);
+        const angle = angleAt(x, y);
+        // Jitter nudges glyphs off the path without drawing from the rng,
+        // so the layout of other lines doesn't depend on this line's length
+        const offset = Math.sin(i * 1.7 + wobblePhase) * params.jitter * params.fontSize * 0.3;
+        placed.push({
+          glyph,
+          cx: x - Math.sin(angle) * offset,
+          cy: y + Math.cos(angle) * offset,
+          rotation: (angle * 180) / Math.PI,
+          scale,
+          color,
+          outlined: true,
+        });
+        walk(half);
+      }
+    }
+  }
+
+  // Each glyph outline is defined once and placed with <use>
+  const defs = new Map<number, string>();
+  const uses: string[] = [];
+  const middle = (font.ascender + font.descender) / 2;
+  for (const { glyph, cx, cy, rotation, scale: s, color, outlined } of placed) {
+    if (!glyph.d) continue;
+    if (!defs.has(glyph.id)) defs.set(glyph.id, `<path id="g${glyph.id}" d="${glyph.d}"/>`);
+    const transform =
+      `translate(${cx.toFixed(1)} ${cy.toFixed(1)}) rotate(${rotation.toFixed(2)}) ` +
+      `scale(${s.toFixed(5)} ${(-s).toFixed(5)}) translate(${-glyph.advance / 2} ${-middle})`;
+    const paint = outlined
+      ? `fill="none" stroke="${color}" stroke-width="${(params.strokeWidth / s).toFixed(1)}" stroke-linejoin="round"`
+      : `fill="${color}"`;
+    uses.push(`<use href="#g${glyph.id}" transform="${transform}" ${paint}/>`);
+  }
+
+  const bgColor = palette[0] ?? "#0b0b0f";
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" width="${W}" height="${H}">
+<defs>${[...defs.values()].join("")}</defs>
+<rect width="${W}" height="${H}" fill="${bgColor}"/>
+${uses.join("\n")}
+</svg>`;
+}
@@ -0,0 +1,340 @@
+import { Resvg } from "@resvg/resvg-js";
+import { getResvgFontOptions } from "./fonts";
+import { splitRoot } from "./svg";
+
+/**
+ * Per-tile markup for print exports.
+ *
+ * resvg 2.6 aborts the process when a layer (a group with opacity, a filter,
+ * a mask, a clip path or a blend mode) lands about twice the canvas size away
+ * from the pixmap it draws into. Nested layers draw into their parent's
+ * pixmap, which resvg clips to that same reach, so a shape with opacity
+ * inside a page-wide filter group is out of reach on most tiles of a large
+ * print.
+ *
+ * Tiles are therefore cut from resvg's own normalized tree, where every shape
+ * is a path and every layer is a `<g>`: elements more than a quarter tile
+ * away are dropped, and filtered layers and layers holding other layers get
+ * a filter region bounding them to that margin. Filters reaching further than
+ * the margin are cut at it.
+ */
+
+/** Affine matrix as [a, b, c, d, e, f] */
+type Matrix = [number, number, number, number, number, number];
+
+export interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface SvgElement {
+  name: string;
+  attributes: Map<string, string>;
+  children: SvgElement[];
+}
+
+interface TileNode {
+  element: SvgElement;
+  /** Page transform including the element's own */
+  ctm: Matrix;
+  /** Page pixels the element may draw to, or null when it draws nothing */
+  reach: Rect | null;
+  /**
+   * The layer must fit the tile's margin: resvg mismatches filter results
+   * when it clips a filter region, and measures nested layers from their
+   * parent's clipped pixmap
+   */
+  bounded: boolean;
+  /** Region of each referenced filter, in the element's user space */
+  regions: Map<string, Rect>;
+  children: TileNode[];
+}
+
+export interface TileTree {
+  /** Root tag of the normalized document */
+  open: string;
+  defs: SvgElement[];
+  filters: Map<string, SvgElement>;
+  nodes: TileNode[];
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+const TAG = /<(\/?)([\w:-]+)((?:\s+[\w:-]+="[^"]*")*)\s*(\/?)>/g;
+const ATTRIBUTE = /([\w:-]+)="([^"]*)"/g;
+/** resvg pads each layer pixmap by two pixels and rounds it outward */
+const LAYER_PADDING = 3;
+
+function parseElement(xml: string): SvgElement {
+  const root: SvgElement = { name: "", attributes: new Map(), children: [] };
+  const stack = [root];
+  for (const [, closing, name, attributes, selfClosing] of xml.matchAll(TAG)) {
+    if (closing) {
+      stack.pop();
+      continue;
+    }
+    const element: SvgElement = {
+      name: name!,
+      attributes: new Map([...attributes!.matchAll(ATTRIBUTE)].map(([, key, value]) => [key!, value!])),
+      children: [],
+    };
+    stack[stack.length - 1]!.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+  return root.children[0]!;
+}
+
+function serialize(element: SvgElement, children = element.children.map((child) => serialize(child))): string {
+  const attributes = [...element.attributes].map(([key, value]) => ` ${key}="${value}"`).join("");
+  return children.length === 0
+    ? `<${element.name}${attributes}/>`
+    : `<${element.name}${attributes}>${children.join("")}</${element.name}>`;
+}
+
+function multiply([a, b, c, d, e, f]: Matrix, [g, h, i, j, k, l]: Matrix): Matrix {
+  return [a * g + c * h, b * g + d * h, a * i + c * j, b * i + d * j, a * k + c * l + e, b * k + d * l + f];
+}
+
+function invert([a, b, c, d, e, f]: Matrix): Matrix {
+  const det = a * d - b * c;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+function parseTransform(value: string | undefined): Matrix {
+  const numbers = value?.match(NUMBER)?.map(Number);
+  return numbers?.length === 6 ? (numbers as Matrix) : IDENTITY;
+}
+
+/** Bounding box of the rect's corners under `m` */
+function transformRect([a, b, c, d, e, f]: Matrix, rect: Rect): Rect {
+  const xs = [rect.x0, rect.x1].flatMap((x) => [a * x + c * rect.y0 + e, a * x + c * rect.y1 + e]);
+  const ys = [rect.x0, rect.x1].flatMap((x) => [b * x + d * rect.y0 + f, b * x + d * rect.y1 + f]);
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+}
+
+function union(a: Rect | null, b: Rect | null): Rect | null {
+  if (!a || !b) return a ?? b;
+  return { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) };
+}
+
+function intersect(a: Rect, b: Rect): Rect | null {
+  const rect = { x0: Math.max(a.x0, b.x0), y0: Math.max(a.y0, b.y0), x1: Math.min(a.x1, b.x1), y1: Math.min(a.y1, b.y1) };
+  return rect.x0 < rect.x1 && rect.y0 < rect.y1 ? rect : null;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return inner.x0 >= outer.x0 && inner.y0 >= outer.y0 && inner.x1 <= outer.x1 && inner.y1 <= outer.y1;
+}
+
+function expand(rect: Rect, dx: number, dy = dx): Rect {
+  return { x0: rect.x0 - dx, y0: rect.y0 - dy, x1: rect.x1 + dx, y1: rect.y1 + dy };
+}
+
+/** Control-point bounds, which is also how usvg measures paths for filter regions */
+function pathBounds(d: string | undefined): Rect | null {
+  const numbers = d?.match(NUMBER)?.map(Number) ?? [];
+  let bounds: Rect | null = null;
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    bounds = union(bounds, { x0: numbers[i]!, y0: numbers[i + 1]!, x1: numbers[i]!, y1: numbers[i + 1]! });
+  }
+  return bounds;
+}
+
+/** How far past the path's bounds its stroke can reach, joins and caps included */
+function strokeReach(attributes: Map<string, string>): number {
+  const stroke = attributes.get("stroke");
+  if (!stroke || stroke === "none") return 0;
+  const width = Number(attributes.get("stroke-width") ?? 1);
+  const miter = (attributes.get("stroke-linejoin") ?? "miter").startsWith("miter")
+    ? Number(attributes.get("stroke-miterlimit") ?? 4)
+    : 1;
+  return (width / 2) * Math.max(miter, Math.SQRT2);
+}
+
+function isLayer(attributes: Map<string, string>): boolean {
+  const opacity = attributes.get("opacity");
+  const style = attributes.get("style") ?? "";
+  return (
+    (opacity !== undefined && Number(opacity) !== 1) ||
+    attributes.has("filter") ||
+    attributes.has("mask") ||
+    attributes.has("clip-path") ||
+    /mix-blend-mode:\s*(?!normal)/.test(style) ||
+    /isolation:\s*isolate/.test(style)
+  );
+}
+
+function filterIds(value: string | undefined): string[] {
+  return [...(value ?? "").matchAll(/url\(#([^)]+)\)/g)].map(([, id]) => id!);
+}
+
+function filterRegion(filter: SvgElement, object: Rect | null): Rect | null {
+  const [x, y, width, height] = (["x", "y", "width", "height"] as const).map((key, i) =>
+    Number(filter.attributes.get(key) ?? [-0.1, -0.1, 1.2, 1.2][i])
+  ) as [number, number, number, number];
+  if (filter.attributes.get("filterUnits") === "userSpaceOnUse") {
+    return { x0: x, y0: y, x1: x + width, y1: y + height };
+  }
+  if (!object) return null;
+  const w = object.x1 - object.x0;
+  const h = object.y1 - object.y0;
+  return { x0: object.x0 + x * w, y0: object.y0 + y * h, x1: object.x0 + (x + width) * w, y1: object.y0 + (y + height) * h };
+}
+
+/**
+ * feTile repeats its input's subregion from that subregion's corner, so the
+ * input can move by whole periods into a bounded region without changing the
+ * pattern.
+ */
+function alignTiles(primitives: SvgElement[], region: Rect): SvgElement[] {
+  const sources = new Set(primitives.filter((p) => p.name === "feTile").map((p) => p.attributes.get("in")));
+  return primitives.map((primitive) => {
+    const [x, y, width, height] = ["x", "y", "width", "height"].map((key) => Number(primitive.attributes.get(key)));
+    if (!sources.has(primitive.attributes.get("result")) || !(width! > 0 && height! > 0)) return primitive;
+    const attributes = new Map(primitive.attributes)
+      .set("x", String(x! + Math.ceil((region.x0 - x!) / width!) * width!))
+      .set("y", String(y! + Math.ceil((region.y0 - y!) / height!) * height!));
+    return { ...primitive, attributes };
+  });
+}
+
+/**
+ * Measure an element and its subtree. Returns the node plus its object
+ * (geometry) and visual bounds in the parent's user space, and whether the
+ * subtree holds any layer.
+ */
+function measure(
+  element: SvgElement,
+  parent: Matrix,
+  filters: Map<string, SvgElement>
+): { node: TileNode; object: Rect | null; visual: Rect | null; layers: boolean } {
+  const transform = parseTransform(element.attributes.get("transform"));
+  const ctm = multiply(parent, transform);
+  const children: TileNode[] = [];
+  let object: Rect | null = null;
+  let visual: Rect | null = null;
+  let holdsLayers = false;
+
+  if (element.name === "path") {
+    object = pathBounds(element.attributes.get("d"));
+    visual = object && expand(object, strokeReach(element.attributes));
+  } else if (element.name === "image") {
+    const [x, y, width, height] = ["x", "y", "width", "height"].map((key) => Number(element.attributes.get(key) ?? 0));
+    object = visual = { x0: x!, y0: y!, x1: x! + width!, y1: y! + height! };
+  } else if (element.name === "g") {
+    for (const child of element.children) {
+      const measured = measure(child, ctm, filters);
+      children.push(measured.node);
+      object = union(object, measured.object);
+      visual = union(visual, measured.visual);
+      holdsLayers ||= measured.layers;
+    }
+  }
+
+  const layer = isLayer(element.attributes);
+  const regions = new Map<string, Rect>();
+  const ids = filterIds(element.attributes.get("filter"));
+  if (ids.length > 0) {
+    // A filtered layer covers exactly its filter regions, whatever its content
+    visual = null;
+    for (const id of ids) {
+      const region = filters.has(id) ? filterRegion(filters.get(id)!, object) : null;
+      if (region) regions.set(id, region);
+      visual = union(visual, region);
+    }
+  }
+
+  const reach = visual && transformRect(ctm, visual);
+  return {
+    node: {
+      element,
+      ctm,
+      reach: reach && layer ? expand(reach, LAYER_PADDING) : reach,
+      bounded: ids.length > 0 || (layer && holdsLayers),
+      regions,
+      children,
+    },
+    object: object && transformRect(transform, object),
+    visual: visual && transformRect(transform, visual),
+    layers: layer || holdsLayers,
+  };
+}
+
+/**
+ * Normalize an SVG through resvg and measure every element in page pixels,
+ * where `page` maps the SVG's user space onto the full-size output.
+ */
+export function prepareTiles(svg: string, page: Matrix): TileTree {
+  const normalized = new Resvg(svg, { font: getResvgFontOptions() }).toString();
+  const root = parseElement(normalized);
+  const defs = root.children.filter((child) => child.name === "defs").flatMap((child) => child.children);
+  const filters = new Map(
+    defs.filter((def) => def.name === "filter").map((def) => [def.attributes.get("id")!, def] as const)
+  );
+  return {
+    open: splitRoot(normalized).open,
+    defs,
+    filters,
+    nodes: root.children
+      .filter((child) => child.name !== "defs")
+      .map((child) => measure(child, page, filters).node),
+  };
+}
+
+/** Markup inside the root element for one tile, given in page pixels */
+export function tileBody(tree: TileTree, tile: Rect): string {
+  const reach = expand(tile, Math.floor((tile.x1 - tile.x0) / 4), Math.floor((tile.y1 - tile.y0) / 4));
+  const added: string[] = [];
+
+  const bound = (node: TileNode): Map<string, string> | null => {
+    // Under rotation or skew the region's page bounds outgrow the margin, so
+    // bound those layers to the tile itself
+    const axisAligned = node.ctm[1] === 0 && node.ctm[2] === 0;
+    const bounds = transformRect(invert(node.ctm), axisAligned ? reach : tile);
+    const ids = [...node.regions.keys()];
+    const urls: string[] = [];
+    for (const id of ids.length > 0 ? ids : [null]) {
+      const region = id === null ? bounds : intersect(node.regions.get(id)!, bounds);
+      if (!region) return null;
+      const filter = id === null ? null : tree.filters.get(id)!;
+      const attributes = new Map(
+        [...(filter?.attributes ?? [])].filter(([key]) => !["id", "x", "y", "width", "height", "filterUnits"].includes(key))
+      );
+      const tileId = `print-tile-${added.length}`;
+      const clipped: SvgElement = {
+        name: "filter",
+        attributes: new Map([
+          ["id", tileId],
+          ["filterUnits", "userSpaceOnUse"],
+          ["x", String(region.x0)],
+          ["y", String(region.y0)],
+          ["width", String(region.x1 - region.x0)],
+          ["height", String(region.y1 - region.y0)],
+          ...attributes,
+        ]),
+        children: filter ? alignTiles(filter.children, region) : [
+          { name: "feOffset", attributes: new Map([["color-interpolation-filters", "sRGB"]]), children: [] },
+        ],
+      };
+      added.push(serialize(clipped));
+      urls.push(`url(#${tileId})`);
+    }
+    return new Map(node.element.attributes).set("filter", urls.join(" "));
+  };
+
+  const emit = (node: TileNode): string => {
+    if (!node.reach || !intersect(node.reach, reach)) return "";
+    let element = node.element;
+    if (node.bounded && !contains(reach, node.reach)) {
+      const attributes = bound(node);
+      if (!attributes) return "";
+      element = { ...element, attributes };
+    }
+    return element.name === "g" ? serialize(element, node.children.map(emit)) : serialize(element);
+  };
+
+  const content = tree.nodes.map(emit).join("");
+  return `<defs>${tree.defs.map((def) => serialize(def)).join("")}${added.join("")}</defs>${content}`;
+}
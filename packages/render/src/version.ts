@@ -1 +1,8 @@
-export const RENDERER_VERSION = "1.0.0";
+/**
+ * Version of the live renderer in src/templates. Older released versions
+ * are served from src/versions — see archivedRenderers.
+ *
+ * 1.0.0 — square 1080x1080 canvases
+ * 1.1.0 — explicit width/height in the canonical input
+ */
+export const RENDERER_VERSION = "1.1.0";
@@ -0,0 +1,16 @@
+import type { ArchivedRenderer } from "./types";
+import { renderV1_0_0 } from "./v1.0.0";
+
+export type { ArchivedRenderer, ArchivedRenderInput } from "./types";
+
+/**
+ * Frozen renderers for every released version other than the live one.
+ *
+ * When a change to src/templates or src/prng alters output, copy the
+ * current implementation into versions/v<RENDERER_VERSION>/, register it
+ * here, then bump RENDERER_VERSION and run `pnpm golden:update` to record
+ * the new version's corpus. Never edit an archived directory.
+ */
+export const archivedRenderers: Record<string, ArchivedRenderer> = {
+  "1.0.0": renderV1_0_0,
+};
@@ -0,0 +1,10 @@
+export interface ArchivedRenderInput {
+  templateId: string;
+  seed: number;
+  palette: string[];
+  params: Record<string, unknown>;
+  width?: number;
+  height?: number;
+}
+
+export type ArchivedRenderer = (input: ArchivedRenderInput) => string;
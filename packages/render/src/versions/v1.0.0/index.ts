@@ -0,0 +1,33 @@
+/**
+ * Renderer 1.0.0 — FROZEN. Do not edit anything in this directory.
+ *
+ * Square 1080x1080 flow_fields and jazz_noir with 256-entry value noise.
+ * Every mint whose canonical input says rendererVersion "1.0.0" must keep
+ * re-rendering byte-identically from this code.
+ */
+import type { ArchivedRenderInput } from "../types";
+import { renderFlowFields } from "./flow-fields";
+import { renderJazzNoir } from "./jazz-noir";
+
+export function renderV1_0_0(input: ArchivedRenderInput): string {
+  if ((input.width ?? 1080) !== 1080 || (input.height ?? 1080) !== 1080) {
+    throw new Error("Renderer 1.0.0 only supports 1080x1080 canvases");
+  }
+
+  switch (input.templateId) {
+    case "flow_fields":
+      return renderFlowFields({
+        seed: input.seed,
+        palette: input.palette,
+        params: input.params as Parameters<typeof renderFlowFields>[0]["params"],
+      });
+    case "jazz_noir":
+      return renderJazzNoir({
+        seed: input.seed,
+        palette: input.palette,
+        params: input.params as Parameters<typeof renderJazzNoir>[0]["params"],
+      });
+    default:
+      throw new Error(`Renderer 1.0.0 does not support template: ${input.templateId}`);
+  }
+}
@@ -0,0 +1,25 @@
+-- Print export jobs
+-- Owners request 8K/16K print files; renders run in the background and the
+-- finished file URL is stored on the job.
+
+CREATE TABLE "PrintJob" (
+    "id" TEXT NOT NULL,
+    "mintAddress" TEXT NOT NULL,
+    "wallet" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "resolution" TEXT NOT NULL,
+    "bleedMm" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "fileUrl" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PrintJob_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "PrintJob_mintAddress_wallet_idx" ON "PrintJob"("mintAddress", "wallet");
+CREATE INDEX "PrintJob_status_idx" ON "PrintJob"("status");
+
+ALTER TABLE "PrintJob" ADD CONSTRAINT "PrintJob_mintAddress_fkey"
+    FOREIGN KEY ("mintAddress") REFERENCES "Mint"("mintAddress") ON DELETE CASCADE ON UPDATE CASCADE;
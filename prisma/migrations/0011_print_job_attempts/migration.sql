@@ -0,0 +1,5 @@
+-- Print job retries
+-- Workers claim queued jobs from the table; a job whose render is abandoned is
+-- returned to the queue until its attempts run out.
+
+ALTER TABLE "PrintJob" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,96 @@
+#!/usr/bin/env ts-node
+/**
+ * Backfill Mint.inputJson to the current canonical input version
+ *
+ * Rows stored before versioning have no `kind` or `version`. This upgrades
+ * each one with upgradeCanonicalInput, validates it, and checks that the
+ * artwork hash is unchanged before rewriting the row. Rows that fail either
+ * check are reported and left untouched.
+ *
+ * Usage:
+ *   pnpm ts-node scripts/backfill-canonical-inputs.ts          # dry run
+ *   pnpm ts-node scripts/backfill-canonical-inputs.ts --write  # apply
+ */
+
+import { PrismaClient } from "@prisma/client";
+import {
+  CANONICAL_INPUT_VERSION,
+  hashCanonicalInput,
+  stableStringify,
+  versionedCanonicalInputSchema,
+} from "@artmint/common";
+
+const BATCH_SIZE = 200;
+const write = process.argv.includes("--write");
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log(`Backfilling canonical inputs to v${CANONICAL_INPUT_VERSION}${write ? "" : " (dry run)"}\n`);
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let current = 0;
+  let upgraded = 0;
+  const failures: { mintAddress: string; reason: string }[] = [];
+
+  for (;;) {
+    const rows: { mintAddress: string; inputJson: string; hash: string }[] = await prisma.mint.findMany({
+      select: { mintAddress: true, inputJson: true, hash: true },
+      orderBy: { mintAddress: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { mintAddress: cursor } } : {}),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1]!.mintAddress;
+
+    for (const row of rows) {
+      scanned++;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(row.inputJson);
+      } catch {
+        failures.push({ mintAddress: row.mintAddress, reason: "inputJson is not JSON" });
+        continue;
+      }
+      if ((raw as { version?: unknown }).version === CANONICAL_INPUT_VERSION) {
+        current++;
+        continue;
+      }
+
+      const parsed = versionedCanonicalInputSchema.safeParse(raw);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        failures.push({ mintAddress: row.mintAddress, reason: `${issue?.path.join(".")}: ${issue?.message}` });
+        continue;
+      }
+      // Upload hashes cover the file bytes, not the input
+      if (parsed.data.kind !== "upload" && hashCanonicalInput(parsed.data) !== row.hash) {
+        failures.push({ mintAddress: row.mintAddress, reason: "hash differs after upgrade" });
+        continue;
+      }
+
+      upgraded++;
+      if (write) {
+        await prisma.mint.update({
+          where: { mintAddress: row.mintAddress },
+          data: { inputJson: stableStringify(parsed.data) },
+        });
+      }
+    }
+  }
+
+  console.log(`Scanned:   ${scanned}`);
+  console.log(`Current:   ${current}`);
+  console.log(`${write ? "Upgraded" : "To upgrade"}: ${upgraded}`);
+  console.log(`Skipped:   ${failures.length}`);
+  for (const { mintAddress, reason } of failures) {
+    console.log(`  ❌ ${mintAddress}: ${reason}`);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());